@@ -0,0 +1,28 @@
+/**
+ * Report how many entries each awesome-list yields and why the rest were skipped.
+ *
+ * Fetches every README the claude-code source reads (through the HTTP cache)
+ * and prints one line per list, so a list whose layout changed shows up as a
+ * drop in yield.
+ *
+ * Usage:
+ *   npx ts-node scripts/awesome-list-report.ts
+ */
+import { createClaudeCodeClient } from '../src/integrations/claude-code-client';
+import { formatListReport } from '../src/parsers/awesome-list-parser';
+
+async function main() {
+  const reports = await createClaudeCodeClient().getListReports();
+  if (reports.length === 0) {
+    console.error('❌ No lists could be fetched');
+    process.exit(1);
+  }
+
+  console.log('\n📋 Awesome-list yield');
+  for (const report of reports) console.log(`   ${formatListReport(report)}`);
+
+  const total = reports.reduce((sum, report) => sum + report.entries, 0);
+  console.log(`\n${total} entries from ${reports.length} lists`);
+}
+
+main();
@@ -0,0 +1,100 @@
+/**
+ * Compare analyzer backends on the same input (no wallet, no API calls).
+ *
+ * Runs the keyword and naive Bayes backends over each transcript and reports
+ * where they disagree: personality type, dimension scores and categories.
+ *
+ * Usage:
+ *   npx ts-node scripts/compare-backends.ts                       # all test-fixtures
+ *   npx ts-node scripts/compare-backends.ts path/to/chat.txt      # one transcript
+ *   npx ts-node scripts/compare-backends.ts --train test-fixtures # train bayes on a labelled dir
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { EnhancedDataCollector } from '../src/analyzers/data-collector-enhanced';
+import { PersonalityAnalyzer, PersonalityAnalysis } from '../src/analyzers/personality-analyzer';
+import { KeywordBackend } from '../src/analyzers/keyword-backend';
+import { BayesBackend, SEED_TRANSCRIPTS, loadLabelledTranscripts } from '../src/analyzers/bayes-backend';
+
+// Dimension gap (points) reported as a disagreement
+const DIMENSION_TOLERANCE = 15;
+
+function parseArgs(argv: string[]): { trainDir?: string; files: string[] } {
+  const files: string[] = [];
+  let trainDir: string | undefined;
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--train') trainDir = argv[++i];
+    else files.push(argv[i]);
+  }
+  return { trainDir, files };
+}
+
+function compare(a: PersonalityAnalysis, b: PersonalityAnalysis): string[] {
+  const diffs: string[] = [];
+
+  if (a.personalityType !== b.personalityType) {
+    diffs.push(`type: ${a.personalityType} vs ${b.personalityType}`);
+  }
+
+  for (const dim of ['conviction', 'intuition'] as const) {
+    const gap = Math.abs(a.dimensions[dim] - b.dimensions[dim]);
+    if (gap >= DIMENSION_TOLERANCE) {
+      diffs.push(`${dim}: ${a.dimensions[dim]} vs ${b.dimensions[dim]} (Δ${gap})`);
+    }
+  }
+
+  const onlyA = a.detectedCategories.filter(c => !b.detectedCategories.includes(c));
+  const onlyB = b.detectedCategories.filter(c => !a.detectedCategories.includes(c));
+  if (onlyA.length > 0 || onlyB.length > 0) {
+    diffs.push(`categories: [${a.detectedCategories.join(', ')}] vs [${b.detectedCategories.join(', ')}]`);
+  }
+
+  return diffs;
+}
+
+async function main() {
+  const { trainDir, files } = parseArgs(process.argv.slice(2));
+  const fixturesDir = path.join(__dirname, '..', 'test-fixtures');
+  const inputs = files.length > 0
+    ? files
+    : fs.readdirSync(fixturesDir).filter(f => f.endsWith('.txt')).sort().map(f => path.join(fixturesDir, f));
+
+  const corpus = trainDir ? [...SEED_TRANSCRIPTS, ...loadLabelledTranscripts(trainDir)] : SEED_TRANSCRIPTS;
+  if (trainDir) {
+    console.log(`ℹ️  Bayes trained on ${corpus.length} transcripts (includes ${trainDir} — overlapping inputs are not a fair test)`);
+  }
+
+  const collector = new EnhancedDataCollector();
+  const keyword = new PersonalityAnalyzer(new KeywordBackend());
+  const bayes = new PersonalityAnalyzer(new BayesBackend(corpus));
+
+  // Analyzer logging is noisy; only the report should reach stdout
+  const log = console.log;
+  let disagreements = 0;
+
+  for (const file of inputs) {
+    const text = fs.readFileSync(file, 'utf-8');
+
+    console.log = () => {};
+    const userData = await collector.collectFromConversationText(`compare-${path.basename(file)}`, text, { skipTwitter: true });
+    const analyzerData = { sources: userData.sources, conversationMemory: userData.conversationMemory };
+    const a = await keyword.analyze(analyzerData);
+    const b = await bayes.analyze(analyzerData);
+    console.log = log;
+
+    const diffs = compare(a, b);
+    const icon = diffs.length === 0 ? '✅' : '⚠️ ';
+    console.log(`${icon} ${path.basename(file)}`);
+    console.log(`   keyword: ${a.personalityType} — C=${a.dimensions.conviction}, I=${a.dimensions.intuition} — ${a.detectedCategories.join(', ')}`);
+    console.log(`   bayes:   ${b.personalityType} — C=${b.dimensions.conviction}, I=${b.dimensions.intuition} — ${b.detectedCategories.join(', ')}`);
+    for (const diff of diffs) {
+      console.log(`   ↳ ${diff}`);
+    }
+
+    if (diffs.length > 0) disagreements++;
+  }
+
+  console.log(`\n${disagreements}/${inputs.length} inputs with disagreements`);
+}
+
+main().catch(console.error);
@@ -0,0 +1,27 @@
+/**
+ * Pass/fail bookkeeping shared by the scripts/test-*.ts regression scripts:
+ * each check prints ✅ or ❌, and finish() prints the tally and exits 1 if
+ * anything failed.
+ */
+
+export interface TestRun {
+  record(ok: boolean, label: string): void;
+  finish(): void;
+}
+
+export function createTestRun(): TestRun {
+  let pass = 0;
+  let fail = 0;
+
+  return {
+    record(ok, label) {
+      console.log(`${ok ? '✅' : '❌'} ${label}`);
+      if (ok) pass++;
+      else fail++;
+    },
+    finish() {
+      console.log(`\n${pass}/${pass + fail} passed`);
+      if (fail > 0) process.exit(1);
+    },
+  };
+}
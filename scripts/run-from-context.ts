@@ -12,6 +12,7 @@ import 'dotenv/config';
 import { Command } from 'commander';
 import { BloomIdentitySkillV2, ExecutionMode } from '../src/bloom-identity-skill-v2';
 import * as readline from 'readline';
+import { installHttpFixturesFromEnv } from '../src/utils/http-fixtures';
 
 const program = new Command();
 
@@ -22,10 +23,24 @@ program
   .requiredOption('--user-id <userId>', 'User ID (e.g., telegram:123, discord:456)')
   .option('--mode <mode>', 'Execution mode: auto, manual, or data_only', 'auto')
   .option('--skip-share', 'Skip Twitter share link generation', false)
+  .option('--languages <list>', 'Comma-separated languages to accept recommendations in (e.g. en,zh)')
+  .option('--offline', 'Serve recommendations from the HTTP cache only, without network requests', false)
+  .option('--record <file>', 'Record every HTTP exchange to a fixture bundle')
+  .option('--replay <file>', 'Answer HTTP requests from a fixture bundle instead of the network')
   .parse(process.argv);
 
 const options = program.opts();
 
+if (options.record || options.replay) {
+  process.env.BLOOM_HTTP_FIXTURES = options.replay ? 'replay' : 'record';
+  process.env.BLOOM_HTTP_FIXTURE_PATH = options.replay ?? options.record;
+}
+installHttpFixturesFromEnv();
+
+if (options.offline) {
+  process.env.BLOOM_OFFLINE = '1';
+}
+
 async function readConversationFromStdin(): Promise<string> {
   return new Promise((resolve, reject) => {
     const lines: string[] = [];
@@ -70,6 +85,7 @@ async function main() {
     const result = await skill.execute(options.userId, {
       mode: options.mode as ExecutionMode,
       skipShare: options.skipShare,
+      languages: options.languages?.split(','),
       conversationText, // ⭐ Provide conversation directly
     });
 
@@ -147,11 +163,20 @@ function formatResult(result: any): void {
   console.log(`🎯 Recommended for You (${recommendations.length}):\n`);
   recommendations.slice(0, 7).forEach((skill: any, i: number) => {
     const creatorInfo = skill.creator ? ` • ${skill.creator}` : '';
-    console.log(`${i + 1}. ${skill.skillName}${creatorInfo}`);
+    const installedInfo = skill.installed ? ' • 📦 installed' : '';
+    console.log(`${i + 1}. ${skill.skillName}${creatorInfo}${installedInfo}`);
     console.log(`   ${skill.description}`);
     if (skill.reason) {
       console.log(`   💡 ${skill.reason}`);
     }
+    if (skill.riskLabel) {
+      console.log(`   ${skill.riskLabel}`);
+    }
+    if (skill.provenance?.length > 1 || skill.lists?.length > 1) {
+      const sources = Array.from(new Set(skill.provenance?.map((p: any) => p.source) ?? []));
+      const lists = skill.lists?.length ? ` • on ${skill.lists.length} list${skill.lists.length > 1 ? 's' : ''}` : '';
+      console.log(`   🔗 Found by ${sources.join(', ')}${lists}`);
+    }
     console.log(`   → ${skill.url}\n`);
   });
 
@@ -0,0 +1,38 @@
+/**
+ * `npm test`: every test:* script in package.json that needs no network,
+ * one after another. Each suite's output is shown only when it fails.
+ * Usage: npm test [-- <name-filter>]
+ */
+import { spawnSync } from 'child_process';
+import path from 'path';
+
+// Need a wallet, live APIs or a real session history
+const NETWORK_SUITES = new Set(['test:cdp-wallet', 'test:conversation', 'test:x-agent']);
+
+function main() {
+  const { scripts } = require(path.join(__dirname, '..', 'package.json')) as { scripts: Record<string, string> };
+  const filter = process.argv[2];
+  const suites = Object.keys(scripts)
+    .filter(name => name.startsWith('test:') && !NETWORK_SUITES.has(name))
+    .filter(name => !filter || name.includes(filter));
+
+  const failed: string[] = [];
+  for (const name of suites) {
+    const started = Date.now();
+    const run = spawnSync('npm', ['run', '--silent', name], { encoding: 'utf-8', env: process.env });
+    const output = `${run.stdout ?? ''}${run.stderr ?? ''}`;
+    const tally = output.match(/^\d+\/\d+ passed$/m)?.[0] ?? 'no tally';
+    const seconds = ((Date.now() - started) / 1000).toFixed(1);
+    if (run.status === 0) {
+      console.log(`✅ ${name}: ${tally} (${seconds}s)`);
+    } else {
+      failed.push(name);
+      console.log(`❌ ${name}: ${tally} (${seconds}s)\n${output}`);
+    }
+  }
+
+  console.log(`\n${suites.length - failed.length}/${suites.length} suites passed`);
+  if (failed.length > 0) process.exit(1);
+}
+
+main();
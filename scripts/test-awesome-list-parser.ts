@@ -0,0 +1,111 @@
+/**
+ * Regression test: awesome-list README parsing from the markdown AST (no network).
+ * Usage: npx ts-node scripts/test-awesome-list-parser.ts
+ */
+import { formatListReport, parseAwesomeList } from '../src/parsers/awesome-list-parser';
+import { createTestRun } from './harness';
+
+const SOURCE = { owner: 'acme', repo: 'awesome-skills' };
+
+const README = `# Awesome Skills [![Awesome](https://awesome.re/badge.svg)](https://awesome.re)
+
+A curated list.
+
+## Contents
+
+- [Development](#development)
+- [Writing](#writing)
+
+## Development
+
+- [Plain Skill](https://github.com/a/plain) - Does plain things.
+- **[Bold Skill](https://github.com/a/bold)**: Bold &amp; brave.
+- [![Stars](https://img.shields.io/badge/stars-1k-blue)](https://github.com/a/badged) [Badged Skill](https://github.com/a/badged) — Has a badge first ![ci](https://img.shields.io/ci.svg)
+
+### Testing
+
+- **Unit testing**
+  - [Test Runner](./skills/test-runner) - Runs \`npm test\` for you.
+  - [Flaky Finder](../other/flaky.md) - Finds flaky tests.
+- [Plain Skill](https://github.com/a/plain) - Listed twice.
+
+## Writing
+
+| Skill | Author | Description |
+|-------|--------|-------------|
+| [Grammar Pal](https://github.com/b/grammar) | [b](https://github.com/b) | Fixes grammar in *any* document |
+| [Essay Coach](/skills/essay-coach/SKILL.md) | [c](https://github.com/c) | |
+
+<details>
+<summary>📚 Research</summary>
+
+- [Paper Reader](https://github.com/d/papers) by [dana](https://github.com/d) - Summarizes papers.
+
+</details>
+
+- [Outline Maker](https://github.com/e/outline) - Back in Writing after the details block.
+- [Email me](mailto:hi@example.com) - Not a skill.
+
+## Contributing
+
+- [Guidelines](CONTRIBUTING.md) - Read before opening a PR.
+`;
+
+function main() {
+  const { record, finish } = createTestRun();
+
+  const { entries, report } = parseAwesomeList(README, SOURCE);
+  const byName = (name: string) => entries.find(e => e.name === name);
+
+  record(entries.map(e => e.name).join() ===
+    'Plain Skill,Bold Skill,Badged Skill,Test Runner,Flaky Finder,Grammar Pal,Paper Reader,Outline Maker',
+    `entries in document order → ${entries.map(e => e.name).join(', ')}`);
+
+  const plain = byName('Plain Skill');
+  record(plain?.description === 'Does plain things.' && plain.categoryPath.join('/') === 'Development', 'old "- [name](url) - desc" format');
+  record(byName('Bold Skill')?.description === 'Bold & brave.', 'bold links, colon separator and entities');
+  const badged = byName('Badged Skill');
+  record(badged?.url === 'https://github.com/a/badged' && badged.description === 'Has a badge first',
+    `badges skipped in names and descriptions → "${badged?.description}"`);
+
+  const runner = byName('Test Runner');
+  record(runner?.categoryPath.join('/') === 'Development/Testing/Unit testing',
+    `heading hierarchy plus linkless parent item → ${runner?.categoryPath.join(' / ')}`);
+  record(runner?.url === 'https://github.com/acme/awesome-skills/tree/HEAD/skills/test-runner' && runner.description === 'Runs npm test for you.',
+    `relative directory link → ${runner?.url}`);
+  record(byName('Flaky Finder')?.url === 'https://github.com/acme/awesome-skills/blob/HEAD/other/flaky.md',
+    `relative file link → ${byName('Flaky Finder')?.url}`);
+
+  const grammar = byName('Grammar Pal');
+  record(grammar?.description === 'Fixes grammar in any document' && grammar.categoryPath.join('/') === 'Writing',
+    'table row: link column and Description column');
+
+  const paper = byName('Paper Reader');
+  record(paper?.categoryPath.join('/') === 'Writing/Research' && paper.author === 'dana' && paper.description === 'Summarizes papers.',
+    `<details><summary> nests a category; "by [author]" credits the author → ${paper?.categoryPath.join(' / ')}`);
+  record(byName('Outline Maker')?.categoryPath.join('/') === 'Writing', '</details> closes the nested category');
+
+  record(report.entries === 8 && report.skipped['skipped-section'] === 3 && report.skipped.duplicate === 1 &&
+    report.skipped['no-description'] === 1 && report.skipped['unsupported-link'] === 1,
+    `yield report → ${formatListReport(report)}`);
+
+  // Adapters
+  const lenient = parseAwesomeList(README, SOURCE, {
+    requireDescription: false,
+    acceptLink: url => url.startsWith('https://github.com/acme/'),
+  });
+  record(lenient.entries.map(e => e.name).join() === 'Test Runner,Flaky Finder,Essay Coach' &&
+    lenient.entries[2].url === 'https://github.com/acme/awesome-skills/blob/HEAD/skills/essay-coach/SKILL.md',
+    `requireDescription and acceptLink → ${formatListReport(lenient.report)}`);
+  const deeper = parseAwesomeList(README, SOURCE, { titleDepth: 2, skipSections: /^never$/ });
+  record(deeper.entries.find(e => e.name === 'Test Runner')?.categoryPath.join('/') === 'Testing/Unit testing' &&
+    deeper.entries.some(e => e.name === 'Guidelines') && deeper.report.skipped['anchor-link'] === 2,
+    'titleDepth and skipSections override the defaults; contents links are then anchors');
+
+  record(parseAwesomeList('', SOURCE).report.entries === 0 && parseAwesomeList('Just prose, [a link](https://x.y) inline.', SOURCE).entries.length === 0,
+    'empty README and links outside lists yield nothing');
+
+  finish();
+}
+
+main();
@@ -0,0 +1,98 @@
+/**
+ * Regression test: naive Bayes backend trained on the seed transcripts —
+ * posterior normalisation and classification of fixed transcripts (no network).
+ * Usage: npx ts-node scripts/test-bayes-backend.ts
+ */
+import { PersonalityAnalyzer, UserData } from '../src/analyzers/personality-analyzer';
+import { BayesBackend, NaiveBayesClassifier, SEED_TRANSCRIPTS, tokenize } from '../src/analyzers/bayes-backend';
+import { createTestRun } from './harness';
+
+const conversation = (...history: string[]): UserData => ({
+  sources: ['conversation'],
+  conversationMemory: { topics: [], interests: [], preferences: [], history },
+});
+
+// Fixed transcripts in three of the seed styles, with the type and top category each should land on
+const TRANSCRIPTS: { name: string; userData: UserData; expected: string; category: string }[] = [
+  {
+    name: 'visionary',
+    expected: 'The Visionary',
+    category: 'Crypto',
+    userData: conversation(
+      'User: I believe decentralized identity is the future and I am all in on it.',
+      'User: I back founders early because the potential is obvious to me before the data exists.',
+      'User: Onchain governance will be revolutionary, I am committed for years.',
+    ),
+  },
+  {
+    name: 'optimizer',
+    expected: 'The Optimizer',
+    category: 'Productivity',
+    userData: conversation(
+      'User: I track the metrics on my workflow every week and optimize the bottleneck.',
+      'User: Before changing our task management setup I measured the ROI.',
+      'User: Every change needs a clear performance improvement backed by numbers.',
+    ),
+  },
+  {
+    name: 'explorer',
+    expected: 'The Explorer',
+    category: 'Wellness',
+    userData: conversation(
+      'User: I am curious about so many things, meditation apps one week and sleep trackers the next.',
+      'User: I love exploring and trying new things, always falling down a rabbit hole.',
+      'User: Variety keeps me going, I want to discover what else is out there.',
+    ),
+  },
+];
+
+async function main() {
+  const { record, finish } = createTestRun();
+  const sum = (values: number[]) => values.reduce((total, v) => total + v, 0);
+
+  // Classifier on its own
+  record(tokenize('The DeFi yield, and the yield farm!').join() === 'defi,yield,yield,farm,defi yield,yield yield,yield farm',
+    'tokens: lowercase words without stopwords, plus bigrams');
+
+  const toy = new NaiveBayesClassifier<'cats' | 'dogs'>();
+  toy.train('cats', 'purr whiskers meow');
+  toy.train('cats', 'meow litter');
+  toy.train('dogs', 'bark fetch leash');
+  const meow = toy.predict('meow meow purr');
+  record(Math.abs(sum(Object.values(meow)) - 1) < 1e-9 && meow.cats > 0.9, `posterior sums to 1 and favours the evidence → cats ${meow.cats.toFixed(3)}`);
+  const unknown = toy.predict('spaceship');
+  record(Math.abs(unknown.cats - 2 / 3) < 1e-9 && Math.abs(unknown.dogs - 1 / 3) < 1e-9, 'unknown tokens → the class prior');
+  record(toy.topTokens('meow bark purr', 'cats').join() === 'meow,purr', 'top tokens are those that favour the label');
+
+  // Backend trained on the seed set
+  const backend = new BayesBackend(SEED_TRANSCRIPTS);
+  const analyzer = new PersonalityAnalyzer(backend);
+  const log = console.log;
+
+  for (const { name, userData, expected, category } of TRANSCRIPTS) {
+    console.log = () => {};
+    const result = await analyzer.analyze(userData);
+    console.log = log;
+
+    record(result.personalityType === expected && result.detectedCategories[0] === category,
+      `${name}: ${result.personalityType} in ${result.detectedCategories.join(', ')} — C=${result.dimensions.conviction}, I=${result.dimensions.intuition}`);
+
+    const evidence = [result.explanation.conviction, result.explanation.intuition].map(e => e.evidence[0]);
+    record(evidence.every(e => e?.signal === 'model' && e.keywords !== undefined && e.keywords.length > 0) &&
+      result.explanation.conviction.final === 50 + evidence[0].delta && result.explanation.intuition.final === 50 + evidence[1].delta,
+      `${name}: one model evidence entry per dimension, delta from the midpoint`);
+  }
+
+  // Probabilities stay normalised through the analyzer too
+  console.log = () => {};
+  const blend = (await analyzer.analyze(TRANSCRIPTS[0].userData)).blend;
+  console.log = log;
+  record(Math.abs(sum(Object.values(blend.probabilities)) - 1) < 0.01, 'type blend from Bayes scores sums to 1');
+
+  const silent = backend.calculateConviction(conversation());
+  record(silent.score === 50 && silent.evidence.length === 0, 'no messages → midpoint, no evidence');
+
+  finish();
+}
+
+main();
@@ -0,0 +1,66 @@
+/**
+ * Regression test: content policy (no wallet, no API calls).
+ * Default rules must keep blocking what the old keyword blocklist blocked,
+ * with allowlist exceptions, identity rules and downranking on top.
+ * Usage: npx ts-node scripts/test-content-policy.ts
+ */
+import { ContentPolicy, PolicySubject, getContentPolicy } from '../src/utils/content-policy';
+import { validateContentPolicyConfig } from '../src/parsers/content-policy-parser';
+import { createTestRun } from './harness';
+
+const defaultCases: { subject: PolicySubject; expected: string }[] = [
+  // Former blocklist
+  { subject: { text: 'Stealthy keylogger for macOS' }, expected: 'block' },
+  { subject: { text: 'Wallet-drainer kit for NFT mints' }, expected: 'block' },
+  { subject: { text: 'Cookie-stealer browser extension' }, expected: 'block' },
+  { subject: { text: 'Game hack with aimbot' }, expected: 'block' },
+  // Legitimate uses of the same words
+  { subject: { text: 'Hackathon project planner' }, expected: 'allow' },
+  { subject: { text: '50 growth hacks for indie founders' }, expected: 'allow' },
+  { subject: { text: 'Exploit detection for smart contracts' }, expected: 'allow' },
+  // An exception only masks its own phrase
+  { subject: { text: 'Growth hacks plus a built-in keylogger' }, expected: 'block' },
+  // Warn and downrank keep the skill
+  { subject: { text: 'Back up your seed phrase securely' }, expected: 'warn' },
+  { subject: { text: 'Link tracker', urls: ['https://bit.ly/abc123'] }, expected: 'downrank' },
+];
+
+function main() {
+  const { record, finish } = createTestRun();
+
+  const policy = getContentPolicy();
+  for (const { subject, expected } of defaultCases) {
+    const verdict = policy.evaluate(subject);
+    record(verdict.action === expected, `"${subject.text}" → ${verdict.action} (expected: ${expected})`);
+  }
+
+  const downranked = policy.evaluate({ text: 'Link tracker', urls: ['https://bit.ly/abc123'] });
+  record(downranked.scoreMultiplier === 0.5, `bit.ly downrank multiplier → ${downranked.scoreMultiplier} (expected 0.5)`);
+
+  // Identity rules and identity exceptions
+  const custom = new ContentPolicy({
+    rules: [
+      { id: 'bad-creator', type: 'creator', pattern: 'evil-corp', severity: 'block', reason: 'Known bad actor' },
+      { id: 'bad-slug', type: 'slug', pattern: 'free-airdrop', severity: 'warn', reason: 'Airdrop bait' },
+    ],
+    allow: [{ type: 'slug', pattern: 'evil-corp-audit', rules: ['bad-creator'] }],
+  });
+  const byUrl = custom.evaluate({ text: 'Formatter', urls: ['https://github.com/Evil-Corp/formatter'] });
+  record(byUrl.action === 'block' && byUrl.matches[0]?.matched === 'evil-corp', `creator from GitHub URL → ${byUrl.action}`);
+  const exempt = custom.evaluate({ text: 'Audit', slug: 'evil-corp-audit', creator: 'evil-corp' });
+  record(exempt.action === 'allow' && exempt.exempted.includes('bad-creator'), `slug allow entry → ${exempt.action}`);
+  record(custom.evaluate({ text: 'x', slug: 'Free-Airdrop' }).action === 'warn', 'slug rule is case-insensitive');
+
+  const errors = validateContentPolicyConfig({
+    rules: [
+      { id: 'a', type: 'regex', pattern: '(', severity: 'block', reason: 'r' },
+      { id: 'a', type: 'domain', pattern: 'https://x.com', severity: 'nope', reason: 'r' },
+    ],
+    allow: [{ type: 'slug', pattern: 'x', rules: ['missing'] }],
+  });
+  record(errors.length === 5, `validateContentPolicyConfig(bad config) → ${errors.length} errors (expected 5)`);
+
+  finish();
+}
+
+main();
@@ -0,0 +1,85 @@
+/**
+ * Regression test: maximal-marginal-relevance diversity re-ranking (no network).
+ * Usage: npx ts-node scripts/test-diversity-reranker.ts
+ */
+import { refreshRecommendations } from '../src/recommendation-pipeline';
+import { SourceCandidate, registerRecommendationSource } from '../src/recommendation-sources';
+import { DiversityCandidate, candidateSimilarity, rerankForDiversity } from '../src/utils/diversity-reranker';
+import { createTestRun } from './harness';
+
+function skill(id: string, description: string, fusedScore: number, extra: Partial<DiversityCandidate> = {}): DiversityCandidate & { id: string } {
+  return { id, skillName: id, description, url: `https://example.com/${id}`, matchScore: Math.round(fusedScore * 100), fusedScore, ...extra };
+}
+
+async function main() {
+  const { record, finish } = createTestRun();
+
+  const converters = [
+    skill('md-convert-1', 'Convert markdown files to PDF and HTML', 0.95),
+    skill('md-convert-2', 'Convert markdown files to HTML and PDF documents', 0.94),
+    skill('md-convert-3', 'Markdown converter: markdown to PDF, HTML', 0.93),
+    skill('md-convert-4', 'Convert your markdown notes into PDF files', 0.92),
+    skill('git-hooks', 'Run lint and tests in git pre-commit hooks', 0.80),
+    skill('api-mocker', 'Mock REST APIs from an OpenAPI spec for local testing', 0.78),
+  ];
+  const ids = (items: { id: string }[]) => items.map(i => i.id).join(',');
+
+  record(candidateSimilarity(converters[0], converters[1]) > candidateSimilarity(converters[0], converters[4]),
+    'near-identical descriptions are more similar than unrelated ones');
+
+  const plain = rerankForDiversity(converters, 4, { diversity: 0 });
+  record(ids(plain) === 'md-convert-1,md-convert-2,md-convert-3,md-convert-4', `diversity 0 keeps relevance order → ${ids(plain)}`);
+
+  const diverse = rerankForDiversity(converters, 4, { diversity: 0.5 });
+  const converterCount = diverse.filter(s => s.id.startsWith('md-convert')).length;
+  record(diverse[0].id === 'md-convert-1' && converterCount <= 2, `diversity 0.5 → ${ids(diverse)}`);
+
+  const defaults = rerankForDiversity(converters, 4);
+  record(defaults[0].id === 'md-convert-1' && defaults.some(s => !s.id.startsWith('md-convert')), `default knob mixes in other skills → ${ids(defaults)}`);
+
+  const sameCreator = [
+    skill('alice-1', 'Summarize pull requests', 0.9, { creator: 'alice' }),
+    skill('alice-2', 'Draft release notes from commits', 0.89, { creator: 'Alice' }),
+    skill('alice-3', 'Triage GitHub issues by label', 0.88, { creator: 'alice' }),
+    skill('bob-1', 'Generate changelog entries', 0.85, { creator: 'bob' }),
+  ];
+  const creators = rerankForDiversity(sameCreator, 2, { diversity: 0.5 });
+  record(ids(creators) === 'alice-1,bob-1', `same creator penalized (case-insensitive) → ${ids(creators)}`);
+
+  const shuffled = [converters[3], converters[5], converters[0], converters[2], converters[4], converters[1]];
+  record(ids(rerankForDiversity(shuffled, 5)) === ids(rerankForDiversity(converters, 5)), 'same input in any order → same output');
+  const ties = [skill('b', 'Alpha tool', 0.5), skill('a', 'Beta tool', 0.5), skill('c', 'Gamma tool', 0.5)];
+  record(ids(rerankForDiversity(ties, 3)) === ids(rerankForDiversity([...ties].reverse(), 3)), 'equal scores broken by URL');
+
+  record(rerankForDiversity(converters, 10).length === converters.length && rerankForDiversity([], 3).length === 0,
+    'count larger than the pool returns every candidate');
+
+  // Pipeline: one source returns four converters and two other tools for one category
+  registerRecommendationSource({
+    name: 'converters',
+    capabilities: { network: false, languageFilter: true, personalityScoring: true, securityScan: false },
+    fetchCandidates: async () => converters.map((c, i): SourceCandidate => ({
+      skillId: c.id,
+      skillName: c.skillName,
+      description: `${c.description} for developers`,
+      url: c.url,
+      categories: ['Development'],
+      rawScore: 90 - i * 5,
+      source: 'Test',
+    })),
+    normalizeScore: raw => raw,
+  });
+  const identity = { mainCategories: ['Development'], subCategories: [], personalityType: 'The Optimizer' };
+  const run = async (diversity: number) =>
+    (await refreshRecommendations(identity, { sources: ['converters'], diversity })).slice(0, 3).map(r => r.skillId);
+
+  const flat = await run(0);
+  const mixed = await run(0.6);
+  record(flat.every(id => id.startsWith('md-convert')), `pipeline, diversity 0 → ${flat.join(', ')}`);
+  record(mixed[0] === 'md-convert-1' && mixed.includes('git-hooks'), `pipeline, diversity 0.6 → ${mixed.join(', ')}`);
+  record((await run(0.6)).join() === mixed.join(), 'pipeline output is deterministic');
+
+  finish();
+}
+
+main();
@@ -0,0 +1,143 @@
+/**
+ * Regression test: bandit exploration slots with seeded randomness (no network).
+ * Usage: npx ts-node scripts/test-exploration.ts
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { refreshRecommendations } from '../src/recommendation-pipeline';
+import { SkillRejection, SourceCandidate, registerRecommendationSource } from '../src/recommendation-sources';
+import { EngagementStats, FeedbackEvent, engagementStats, recordFeedbackEvents } from '../src/utils/feedback-store';
+import { ExplorationCandidate, armPosterior, createSeededRandom, selectExplorations } from '../src/utils/exploration';
+import { renderReason } from '../src/utils/recommendation-reasons';
+import { createTestRun } from './harness';
+
+function candidate(id: string, category: string, fusedScore: number, source = 'ClawHub'): ExplorationCandidate & { id: string } {
+  return { id, url: `https://example.com/${id}`, matchScore: Math.round(fusedScore * 100), fusedScore, source, categoryGroup: category, categories: [category] };
+}
+
+async function main() {
+  const { record, finish } = createTestRun();
+
+  const a = createSeededRandom('bloom');
+  const b = createSeededRandom('bloom');
+  const sequence = [a(), a(), a()];
+  record(sequence.join() === [b(), b(), b()].join() && sequence.every(x => x >= 0 && x < 1),
+    'same seed → same sequence in [0, 1)');
+  record(createSeededRandom('other')() !== sequence[0] && createSeededRandom(42)() === createSeededRandom(42)(),
+    'string and number seeds; different seeds differ');
+
+  // Feedback: Productivity engaged with, Crypto shown and dismissed
+  const NOW = Date.parse('2026-06-01T00:00:00Z');
+  const at = new Date(NOW - 24 * 60 * 60 * 1000).toISOString();
+  const events: FeedbackEvent[] = [];
+  for (let i = 0; i < 6; i++) {
+    events.push({ type: 'impression', skillId: `prod-${i}`, at, categories: ['Productivity'], source: 'ClawHub' });
+    events.push({ type: 'impression', skillId: `coin-${i}`, at, categories: ['Crypto'], source: 'ClawHub' });
+    events.push({ type: 'like', skillId: `prod-${i}`, at });
+    events.push({ type: 'dismiss', skillId: `coin-${i}`, at });
+  }
+  const stats = engagementStats(events, { now: NOW });
+  const productivity = stats.categories.Productivity;
+  record(productivity.engaged > 5.8 && stats.categories.Crypto.dismissed > 5.8 && stats.sources.ClawHub.shown > 11.6,
+    `engagement per category and per source, categories borrowed from impressions → ${JSON.stringify(productivity)}`);
+  const posterior = armPosterior(stats.categories.Crypto);
+  record(posterior.alpha === 1 && posterior.beta > 12 && armPosterior(undefined).beta === 1, 'Beta posterior: dismissals and unanswered impressions are misses');
+
+  const pool = [candidate('prod-x', 'Productivity', 0.6), candidate('coin-x', 'Crypto', 0.5), candidate('design-x', 'Design', 0.4)];
+  const ids = (picks: { item: { id: string } }[]) => picks.map(p => p.item.id).join(',');
+  const seeded = selectExplorations(pool, { slots: 2, seed: 7, stats });
+  record(ids(seeded) === ids(selectExplorations([...pool].reverse(), { slots: 2, seed: 7, stats })),
+    `same seed, any input order → same picks (${ids(seeded)})`);
+  record(new Set(seeded.map(p => p.category)).size === 2, 'one category per slot while others remain');
+
+  // Over many seeds Thompson favors what worked, but the suppressed category still gets a turn
+  const mixed: EngagementStats = {
+    categories: { Productivity: { shown: 6, engaged: 3, dismissed: 0 }, Crypto: { shown: 2, engaged: 0, dismissed: 2 } },
+    sources: {},
+  };
+  const wins: Record<string, number> = {};
+  const twoArms = pool.slice(0, 2);
+  for (let seed = 0; seed < 300; seed++) {
+    const [pick] = selectExplorations(twoArms, { slots: 1, seed, stats: mixed });
+    wins[pick.category] = (wins[pick.category] ?? 0) + 1;
+  }
+  record(wins.Productivity > wins.Crypto && wins.Crypto > 0, `thompson over 300 seeds → ${JSON.stringify(wins)}`);
+
+  const fresh: EngagementStats = { categories: { ...stats.categories }, sources: {} };
+  const [ucb] = selectExplorations(pool, { slots: 1, policy: 'ucb', stats: fresh });
+  record(ucb.item.id === 'design-x', `ucb tries the never-shown category first → ${ucb.item.id} (${ucb.value})`);
+  const filed = { ...candidate('coin-y', 'Crypto', 0.3), categoryGroup: 'Productivity' };
+  const arms = selectExplorations([candidate('prod-y', 'Productivity', 0.6), filed], { slots: 2, seed: 3, stats });
+  record(arms.some(p => p.item.id === 'coin-y' && p.category === 'Crypto'),
+    `arms follow the skill's own category, not the group it was filed under → ${arms.map(p => `${p.item.id}: ${p.category}`).join(', ')}`);
+  record(selectExplorations(pool, { slots: 5, seed: 1 }).length === 3 && selectExplorations([], { slots: 2 }).length === 0,
+    'slots beyond the pool return every candidate');
+
+  record(renderReason({ interests: [], traction: { downloads: 1500 }, adjustments: [], exploring: { category: 'Crypto', policy: 'thompson' } }) ===
+    'Exploring Crypto — 1.5k downloads', 'exploring cards get their own reason');
+
+  // Pipeline: Productivity fills its slots, Crypto's candidates score low after dismissals
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bloom-exploration-'));
+  process.env.BLOOM_FEEDBACK_LOG = path.join(dir, 'feedback.jsonl');
+  recordFeedbackEvents(events.map(e => ({ ...e, at: new Date().toISOString() })));
+
+  const sourceCandidate = (id: string, category: string, rawScore: number): SourceCandidate => ({
+    skillId: id, skillName: id, description: `${category} helper ${id} for everyday work`, url: `https://example.com/${id}`,
+    categories: [category], rawScore, source: 'Test',
+    explanation: { interests: [{ interest: category, fields: ['categories'] }], traction: {}, adjustments: [] },
+  });
+  let searched: string[] = [];
+  registerRecommendationSource({
+    name: 'exploration-test',
+    capabilities: { network: false, languageFilter: true, personalityScoring: true, securityScan: false },
+    fetchCandidates: async identity => {
+      searched = identity.mainCategories;
+      return [
+        ...['notes', 'calendar', 'inbox', 'timer', 'tasks', 'docs', 'slides', 'sheets', 'forms']
+          .map((name, i) => sourceCandidate(name, 'Productivity', 90 - i)),
+        ...['wallet', 'swap', 'staking', 'bridge', 'airdrop'].map((name, i) => sourceCandidate(name, 'Crypto', 20 - i)),
+      ];
+    },
+    normalizeScore: raw => raw,
+  });
+  const identity = { mainCategories: ['Productivity', 'Crypto'], subCategories: [], personalityType: 'The Optimizer' };
+  let rejections: SkillRejection[] = [];
+  const run = (explorationSlots: number, explorationSeed: number) => refreshRecommendations(identity, {
+    sources: ['exploration-test'], explorationSlots, explorationSeed, debug: true, onRejections: r => { rejections = r; },
+  });
+
+  const withExploration = await run(2, 11);
+  const exploring = withExploration.filter(r => r.exploring);
+  record(exploring.length === 2 && withExploration.slice(-2).every(r => r.exploring) &&
+    exploring.every(r => r.reason?.startsWith('Exploring ') && r.explanation?.exploring),
+    `two labelled exploration cards after the category picks → ${exploring.map(r => `${r.skillId}: ${r.reason}`).join(' | ')}`);
+  record(exploring.every(r => !rejections.some(x => x.skillId === r.skillId)) && rejections.some(x => x.gate === 'category-slots'),
+    'explored skills are not recorded as category-slot rejections');
+  record((await run(2, 11)).map(r => r.skillId).join() === withExploration.map(r => r.skillId).join(), 'same seed → same run');
+  const without = await run(0, 11);
+  record(without.length === withExploration.length - 2 && !without.some(r => r.exploring), 'explorationSlots: 0 disables exploration');
+  record(searched.length === 2, 'no exploration slots → only your own categories are searched');
+
+  // Crypto dropped out of the profile (weight below 1): searched anyway and explored as Crypto, not as the group it would be filed under
+  const suppressed = await refreshRecommendations({
+    mainCategories: ['Productivity'], subCategories: [], personalityType: 'The Optimizer',
+    feedback: { categoryWeights: { Productivity: 1.3, Crypto: 0.6 } },
+  }, { sources: ['exploration-test'], explorationSlots: 2, explorationSeed: 11 });
+  const crypto = suppressed.filter(r => r.exploring && r.categories.includes('Crypto'));
+  record(searched.join() === 'Productivity,Crypto', `suppressed category searched alongside yours → ${searched.join(', ')}`);
+  record(crypto.length === 1 && crypto[0].reason?.startsWith('Exploring Crypto') === true &&
+    !suppressed.some(r => !r.exploring && r.categories.includes('Crypto')),
+    `suppressed category gets an exploration slot, not a regular one → ${crypto.map(r => `${r.skillId}: ${r.reason}`).join(' | ')}`);
+
+  await refreshRecommendations({ mainCategories: ['Productivity'], subCategories: [], personalityType: 'The Optimizer' }, {
+    sources: ['exploration-test'], explorationSlots: 1, explorationSeed: 11, feedbackLog: false,
+  });
+  record(searched.length === 2 && searched[0] === 'Productivity', `no history: an unexplored category is searched → ${searched[1]}`);
+
+  delete process.env.BLOOM_FEEDBACK_LOG;
+  fs.rmSync(dir, { recursive: true, force: true });
+  finish();
+}
+
+main();
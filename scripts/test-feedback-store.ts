@@ -0,0 +1,108 @@
+/**
+ * Regression test: local feedback event log and time-decayed FeedbackData (no network).
+ * Usage: npx ts-node scripts/test-feedback-store.ts
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { refreshRecommendations } from '../src/recommendation-pipeline';
+import { SourceCandidate, registerRecommendationSource } from '../src/recommendation-sources';
+import {
+  FeedbackEvent,
+  categorySignals,
+  deriveFeedbackData,
+  engagementStats,
+  impressionEvents,
+  loadFeedbackData,
+  readFeedbackEvents,
+  recordFeedbackEvents,
+  resolveFeedbackSkillId,
+} from '../src/utils/feedback-store';
+import { createTestRun } from './harness';
+
+const NOW = Date.parse('2026-06-01T00:00:00Z');
+const daysAgo = (days: number) => new Date(NOW - days * 24 * 60 * 60 * 1000).toISOString();
+
+async function main() {
+  const { record, finish } = createTestRun();
+
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bloom-feedback-'));
+  const file = path.join(dir, 'feedback.jsonl');
+
+  const shown = impressionEvents([
+    { skillId: 'pdf-tools', skillName: 'PDF Tools', url: 'https://clawhub.ai/skills/pdf-tools', categories: ['Productivity', 'General'], categoryGroup: 'Productivity' },
+    { skillId: 'coin-flipper', skillName: 'Coin Flipper', url: 'https://clawhub.ai/skills/coin-flipper', categories: ['Crypto'] },
+  ], daysAgo(2));
+  recordFeedbackEvents(shown, file);
+  recordFeedbackEvents([
+    { type: 'install', skillId: 'pdf-tools', at: daysAgo(1) },
+    { type: 'like', skillId: 'pdf-tools', at: daysAgo(1) },
+    { type: 'dismiss', skillId: 'coin-flipper', at: daysAgo(1) },
+  ], file);
+  fs.appendFileSync(file, 'not json\n');
+
+  const events = readFeedbackEvents(file);
+  record(events.length === 5, `append-only log read back, malformed line skipped → ${events.length} events`);
+  record(shown[0].categories?.join() === 'Productivity', 'impressions carry categories, minus General');
+
+  const data = deriveFeedbackData(events, { now: NOW });
+  const weights = data.categoryWeights ?? {};
+  record(weights.Productivity > 1 && weights.Crypto < 1, `install/like raise, dismiss lowers → ${JSON.stringify(weights)}`);
+  record(data.excludeSkillIds?.join() === 'coin-flipper', 'dismissed skill excluded');
+  record(data.eventCount === 3, `eventCount counts engaged events → ${data.eventCount}`);
+
+  const stale = deriveFeedbackData(events, { now: NOW + 120 * 24 * 60 * 60 * 1000 });
+  record((stale.categoryWeights?.Productivity ?? 1) < weights.Productivity && stale.eventCount === 0,
+    `four half-lives later the weights fade → ${JSON.stringify(stale.categoryWeights)}, ${stale.eventCount} events`);
+
+  const undone = deriveFeedbackData([...events, { type: 'open', skillId: 'Coin-Flipper', at: daysAgo(0) }], { now: NOW });
+  record(!undone.excludeSkillIds, 'a later open undoes a dismissal (case-insensitive)');
+
+  const outOfOrder: FeedbackEvent[] = [{ type: 'like', skillId: 'x', at: daysAgo(0) }, { type: 'dismiss', skillId: 'x', at: daysAgo(5) }];
+  record(!deriveFeedbackData(outOfOrder, { now: NOW }).excludeSkillIds, 'latest event wins by timestamp, not file order');
+
+  // Showing a category run after run must not wear its weight down; exploration still sees the impressions
+  const reshown = Array.from({ length: 60 }, (_, i) =>
+    impressionEvents([{ skillId: `pdf-${i % 3}`, skillName: 'PDF', url: 'https://clawhub.ai/skills/pdf', categories: ['Productivity'] }], daysAgo(i % 10))[0]);
+  const repeated = deriveFeedbackData([...events, ...reshown], { now: NOW });
+  record(repeated.categoryWeights?.Productivity === weights.Productivity &&
+    engagementStats([...events, ...reshown], { now: NOW }).categories.Productivity.shown > 30,
+    `impressions leave category weights alone, exploration counts them → ${repeated.categoryWeights?.Productivity}`);
+
+  const signals = categorySignals(events, { now: NOW });
+  record(signals[0].category === 'Productivity' && signals[0].weight <= 1.5 && signals.at(-1)!.weight >= 0.5,
+    'category signals sorted, weights bounded to 0.5–1.5');
+
+  record(resolveFeedbackSkillId('PDF Tools', events) === 'pdf-tools' &&
+    resolveFeedbackSkillId('https://clawhub.ai/skills/pdf-tools', events) === 'pdf-tools' &&
+    resolveFeedbackSkillId('brand-new', events) === 'brand-new', 'CLI input resolves to known skill ids');
+
+  // Pipeline: reads the log when no feedback is passed
+  const candidate = (id: string, categories: string[], rawScore: number): SourceCandidate => ({
+    skillId: id, skillName: id, description: `${id.replace('-', ' ')} for everyday work`, url: `https://clawhub.ai/skills/${id}`,
+    categories, rawScore, source: 'Test',
+  });
+  registerRecommendationSource({
+    name: 'feedback-test',
+    capabilities: { network: false, languageFilter: true, personalityScoring: true, securityScan: false },
+    fetchCandidates: async () => [candidate('pdf-tools', ['Productivity'], 60), candidate('coin-flipper', ['Crypto'], 90)],
+    normalizeScore: raw => raw,
+  });
+  const identity = { mainCategories: ['Productivity', 'Crypto'], subCategories: [], personalityType: 'The Optimizer' };
+
+  process.env.BLOOM_FEEDBACK_LOG = file;
+  const fromLog = await refreshRecommendations(identity, { sources: ['feedback-test'] });
+  record(fromLog.map(r => r.skillId).join() === 'pdf-tools' && fromLog[0].matchScore > 60,
+    `pipeline reads the log: dismissed skill gone, liked category boosted → ${fromLog.map(r => `${r.skillId} ${r.matchScore}`)}`);
+  const skipped = await refreshRecommendations(identity, { sources: ['feedback-test'], feedbackLog: false });
+  record(skipped.length === 2, 'feedbackLog: false ignores the log');
+  process.env.BLOOM_FEEDBACK = 'off';
+  record(loadFeedbackData(file) === undefined, 'BLOOM_FEEDBACK=off disables reading');
+  delete process.env.BLOOM_FEEDBACK;
+  delete process.env.BLOOM_FEEDBACK_LOG;
+
+  fs.rmSync(dir, { recursive: true, force: true });
+  finish();
+}
+
+main();
@@ -0,0 +1,143 @@
+/**
+ * Regression test: disk-backed HTTP cache.
+ * Serves ETag'd responses from a local server on an ephemeral port and points
+ * BLOOM_HTTP_CACHE_DIR at a temp dir: fresh hits, 304 revalidation, stale
+ * copies when the server is gone, aborted requests, offline mode (global, per
+ * call and per pipeline run), TTL overrides and eviction.
+ * Usage: npx ts-node scripts/test-http-cache.ts
+ */
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { CACHE_HEADER, cachedFetch, clearHttpCache } from '../src/utils/http-cache';
+import { refreshRecommendations } from '../src/recommendation-pipeline';
+import { registerRecommendationSource } from '../src/recommendation-sources';
+import { createTestRun } from './harness';
+
+const requests: { url: string; ifNoneMatch?: string }[] = [];
+
+const server = http.createServer((req, res) => {
+  requests.push({ url: req.url ?? '', ifNoneMatch: req.headers['if-none-match'] as string | undefined });
+  const etag = `"${req.url}-v1"`;
+
+  if (req.url?.startsWith('/missing')) {
+    res.writeHead(404).end();
+  } else if (req.url?.startsWith('/big')) {
+    res.writeHead(200, { 'Content-Type': 'text/plain' }).end('x'.repeat(400 * 1024));
+  } else if (req.headers['if-none-match'] === etag) {
+    res.writeHead(304, { ETag: etag }).end();
+  } else {
+    res.writeHead(200, { 'Content-Type': 'application/json', ETag: etag }).end(JSON.stringify({ path: req.url }));
+  }
+});
+
+async function main() {
+  const { record, finish } = createTestRun();
+
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bloom-http-cache-'));
+  process.env.BLOOM_HTTP_CACHE_DIR = dir;
+  delete process.env.BLOOM_OFFLINE;
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  let serverOpen = true;
+
+  try {
+    const first = await cachedFetch(`${base}/skills`);
+    const firstBody = await first.json();
+    record(first.headers.get(CACHE_HEADER) === 'miss' && firstBody.path === '/skills', `first request → ${first.headers.get(CACHE_HEADER)}`);
+
+    const second = await cachedFetch(`${base}/skills`);
+    record(second.headers.get(CACHE_HEADER) === 'hit' && requests.length === 1, `fresh entry served without a request → ${second.headers.get(CACHE_HEADER)}`);
+
+    const otherAccept = await cachedFetch(`${base}/skills`, { headers: { Accept: 'text/plain' } });
+    record(otherAccept.headers.get(CACHE_HEADER) === 'miss', 'different Accept header → separate entry');
+
+    // TTL 0 makes every entry stale → conditional request
+    process.env.BLOOM_HTTP_CACHE_TTL = '127.0.0.1=0';
+    const revalidated = await cachedFetch(`${base}/skills`);
+    const last = requests[requests.length - 1];
+    record(revalidated.headers.get(CACHE_HEADER) === 'revalidated' && last.ifNoneMatch === '"/skills-v1"',
+      `stale entry revalidated with If-None-Match → ${revalidated.headers.get(CACHE_HEADER)}`);
+    record((await revalidated.json()).path === '/skills', '304 answered with the cached body');
+
+    // An aborted request (its source timed out) gets neither an answer nor a stale copy
+    const controller = new AbortController();
+    controller.abort();
+    const aborted = await cachedFetch(`${base}/skills`, {}, { signal: controller.signal }).then(() => false, () => true);
+    record(aborted, 'aborted signal → request abandoned, stale copy not served');
+
+    const missing = await cachedFetch(`${base}/missing`);
+    record(missing.status === 404 && missing.headers.get(CACHE_HEADER) === 'miss', '404 cached');
+
+    process.env.BLOOM_OFFLINE = '1';
+    const before = requests.length;
+    const offlineCached = await cachedFetch(`${base}/skills`);
+    const offlineMissing = await cachedFetch(`${base}/never-fetched`);
+    record(offlineCached.status === 200 && offlineCached.headers.get(CACHE_HEADER) === 'stale', 'offline: stale entry served');
+    record(offlineMissing.status === 504 && requests.length === before, `offline: uncached URL → ${offlineMissing.status}, no request`);
+    delete process.env.BLOOM_OFFLINE;
+
+    const perCall = await cachedFetch(`${base}/never-fetched`, {}, { offline: true });
+    record(perCall.status === 504 && requests.length === before, 'offline per call, without BLOOM_OFFLINE');
+
+    // Concurrent pipeline runs: one run's offline mode must not leak into the other
+    const statuses: Record<string, number> = {};
+    registerRecommendationSource({
+      name: 'probe',
+      capabilities: { network: true, languageFilter: true, personalityScoring: true, securityScan: false, httpCache: true },
+      fetchCandidates: async (identity, { offline }) => {
+        await new Promise(resolve => setTimeout(resolve, 20));
+        statuses[identity.personalityType] = (await cachedFetch(`${base}/probe/${requests.length}`, {}, { offline })).status;
+        return [];
+      },
+      normalizeScore: raw => raw,
+    });
+    const identity = (personalityType: string) => ({ mainCategories: ['Development'], subCategories: [], personalityType });
+    await Promise.all([
+      refreshRecommendations(identity('offline'), { sources: ['probe'], offline: true, feedbackLog: false }),
+      refreshRecommendations(identity('online'), { sources: ['probe'], feedbackLog: false }),
+    ]);
+    record(statuses.offline === 504 && statuses.online === 200 && process.env.BLOOM_OFFLINE === undefined,
+      `concurrent runs keep their own offline mode → offline ${statuses.offline}, online ${statuses.online}`);
+
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    serverOpen = false;
+    const down = await cachedFetch(`${base}/skills`);
+    record(down.status === 200 && down.headers.get(CACHE_HEADER) === 'stale', `server down → ${down.headers.get(CACHE_HEADER)} copy`);
+
+    let threw = false;
+    try {
+      await cachedFetch(`${base}/never-fetched`);
+    } catch {
+      threw = true;
+    }
+    record(threw, 'server down, nothing cached → network error propagates');
+
+    // Size limit: 1MB holds two 400KB bodies, a third evicts the oldest
+    clearHttpCache();
+    delete process.env.BLOOM_HTTP_CACHE_TTL;
+    process.env.BLOOM_HTTP_CACHE_MAX_MB = '1';
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    serverOpen = true;
+    const bigBase = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    for (const n of [1, 2, 3]) {
+      await (await cachedFetch(`${bigBase}/big/${n}`)).text();
+      await new Promise(resolve => setTimeout(resolve, 20)); // Distinct mtimes
+    }
+    const sizes = fs.readdirSync(dir).map(name => fs.statSync(path.join(dir, name)).size);
+    const total = sizes.reduce((a, b) => a + b, 0);
+    const firstBig = await cachedFetch(`${bigBase}/big/1`);
+    record(total <= 1024 * 1024 && sizes.length === 2, `eviction keeps the cache under 1MB → ${sizes.length} entries, ${Math.round(total / 1024)}KB`);
+    record(firstBig.headers.get(CACHE_HEADER) === 'miss', 'oldest entry evicted first');
+  } finally {
+    if (serverOpen) await new Promise<void>(resolve => server.close(() => resolve()));
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+
+  finish();
+}
+
+main();
@@ -0,0 +1,157 @@
+/**
+ * Regression test: HTTP record/replay fixtures.
+ * Records a pipeline run and a discovery sync against a local server, shuts
+ * the server down, then replays the bundle and snapshots the output.
+ * Usage: npx ts-node scripts/test-http-fixtures.ts
+ */
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { refreshRecommendations } from '../src/recommendation-pipeline';
+import { registerRecommendationSource } from '../src/recommendation-sources';
+import { syncDiscoveries } from '../src/discovery-sync';
+import { cachedFetch } from '../src/utils/http-cache';
+import { loadFixtureBundle, startHttpFixtures, withHttpFixtures } from '../src/utils/http-fixtures';
+import { createTestRun } from './harness';
+
+let hits = 0;
+let pushedSince = '2026-04-01'; // Stands in for GitHub's date-relative search queries
+
+const SIGNATURE = `0x${'ab'.repeat(65)}`;
+const claim = (base: string, token: string) => fetch(`${base}/agent-claim?token=${token}&agent=bloom`, {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify({ agentName: 'bloom', walletAddress: '0x1234', signature: SIGNATURE, message: 'Sign in', identityData: { apiKey: 'query-api-key' } }),
+});
+
+const server = http.createServer((req, res) => {
+  hits++;
+  if (req.url?.startsWith('/catalogue')) {
+    // Each call answers differently, so only a replay reproduces a run
+    res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify([
+      { id: 'code-review', score: 8, description: 'Automated code review for pull requests' },
+      { id: `test-runner-${hits}`, score: 6, description: 'Run and summarize your test suite' },
+    ]));
+  } else if (req.url?.includes('/discoveries')) {
+    res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({
+      discoveries: [{ skillId: 'pdf-tools', name: 'PDF Tools', description: 'Extract tables from PDFs', matchScore: 72, source: 'ClawHub' }],
+    }));
+  } else if (req.url?.startsWith('/agent-claim')) {
+    res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({
+      success: true, data: { agentUserId: 7, session: { accessToken: 'issued-access-token' } },
+    }));
+  } else if (req.url === '/logo.png') {
+    res.writeHead(200, { 'Content-Type': 'image/png' }).end(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff]));
+  } else {
+    res.writeHead(404).end();
+  }
+});
+
+async function main() {
+  const { record, finish } = createTestRun();
+
+  const realFetch = globalThis.fetch;
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bloom-fixtures-'));
+  const bundleFile = path.join(dir, 'bundle.json');
+  process.env.BLOOM_HTTP_CACHE_DIR = path.join(dir, 'cache');
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  let serverOpen = true;
+
+  registerRecommendationSource({
+    name: 'catalogue',
+    capabilities: { network: true, languageFilter: true, personalityScoring: true, securityScan: false, httpCache: true },
+    fetchCandidates: async () => {
+      const response = await cachedFetch(`${base}/catalogue?pushed=>${pushedSince}`);
+      const items = await response.json() as { id: string; score: number; description: string }[];
+      return items.map(item => ({
+        skillId: item.id,
+        skillName: item.id,
+        description: item.description,
+        url: `${base}/skills/${item.id}`,
+        categories: ['Development'],
+        rawScore: item.score,
+        source: 'Catalogue',
+      }));
+    },
+    normalizeScore: raw => raw * 10,
+  });
+
+  const identity = { mainCategories: ['Development'], subCategories: [], personalityType: 'The Optimizer' };
+  const snapshot = (recs: { skillId: string; matchScore: number }[]) => JSON.stringify(recs.map(r => [r.skillId, r.matchScore]));
+  const syncDir = (name: string) => fs.mkdtempSync(path.join(dir, name));
+
+  try {
+    const recorded = await withHttpFixtures('record', bundleFile, async () => {
+      const recs = await refreshRecommendations(identity, { sources: ['catalogue'] });
+      await syncDiscoveries(42, { apiUrl: base, outputDir: syncDir('sync-record-') });
+      await fetch(`${base}/logo.png`, { headers: { Authorization: 'Bearer secret-token' } });
+      await claim(base, 'query-token');
+      return recs;
+    });
+
+    const bundle = loadFixtureBundle(bundleFile);
+    record(bundle.exchanges.length === 4, `recorded ${bundle.exchanges.length} exchanges (expected 4)`);
+    const logo = bundle.exchanges.find(e => e.request.url.endsWith('/logo.png'));
+    record(logo?.request.headers.authorization === '[redacted]' && !fs.readFileSync(bundleFile, 'utf-8').includes('secret-token'),
+      'Authorization header redacted');
+    record(logo?.response.encoding === 'base64', 'binary response stored as base64');
+    const written = fs.readFileSync(bundleFile, 'utf-8');
+    const claimed = bundle.exchanges.find(e => e.request.url.includes('/agent-claim'));
+    record(['query-token', SIGNATURE, 'query-api-key', 'issued-access-token'].every(secret => !written.includes(secret)) &&
+      claimed?.request.url.includes('agent=bloom') === true && claimed.request.body?.includes('"walletAddress":"0x1234"') === true &&
+      claimed.response.body.includes('"agentUserId":7'),
+      'query-string token, body signature and response token redacted; other fields kept');
+
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    serverOpen = false;
+    const hitsBefore = hits;
+    pushedSince = '2026-05-01';
+
+    const replayed = await withHttpFixtures('replay', bundleFile, async () => {
+      const recs = await refreshRecommendations(identity, { sources: ['catalogue'] });
+      const outputDir = syncDir('sync-replay-');
+      const sync = await syncDiscoveries(42, { apiUrl: base, outputDir });
+      const image = Buffer.from(await (await fetch(`${base}/logo.png`)).arrayBuffer());
+      const claimed = await (await claim(base, 'another-token')).json() as { data: { agentUserId: number } };
+      return { recs, sync, image, claimed, md: fs.readFileSync(path.join(outputDir, 'bloom-discoveries.md'), 'utf-8') };
+    });
+
+    record(snapshot(replayed.recs) === snapshot(recorded) && replayed.recs.length > 0,
+      `pipeline output replayed (different date in URL) → ${snapshot(replayed.recs)}`);
+    record(replayed.sync.newCount === 1 && replayed.md.includes('PDF Tools'), 'discovery sync replayed');
+    record(replayed.image.equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff])), 'binary body replayed byte for byte');
+    record(replayed.claimed.data.agentUserId === 7, 'request with a redacted query token still replays');
+    record(hits === hitsBefore, 'replay made no network requests');
+
+    // Unrecorded requests fail loudly instead of reaching the network
+    const session = startHttpFixtures('replay', bundleFile);
+    let message = '';
+    try {
+      await fetch(`${base}/never-recorded`);
+    } catch (error) {
+      message = error instanceof Error ? error.message : String(error);
+    } finally {
+      session.stop();
+    }
+    record(message.startsWith('No recorded HTTP exchange for GET'), `unrecorded request → "${message.slice(0, 40)}..."`);
+
+    let nested = false;
+    try {
+      await withHttpFixtures('replay', bundleFile, async () => withHttpFixtures('record', bundleFile, async () => null));
+    } catch {
+      nested = true;
+    }
+    record(nested && globalThis.fetch === realFetch, 'nested sessions rejected, real fetch restored');
+  } finally {
+    if (serverOpen) await new Promise<void>(resolve => server.close(() => resolve()));
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+
+  finish();
+}
+
+main();
@@ -0,0 +1,104 @@
+/**
+ * Regression test: typosquat, homoglyph and name-squat detection (no network).
+ * Usage: npx ts-node scripts/test-impersonation.ts
+ */
+import { refreshRecommendations } from '../src/recommendation-pipeline';
+import { SkillRejection, SourceCandidate, registerRecommendationSource } from '../src/recommendation-sources';
+import {
+  ImpersonationMode,
+  ImpersonationSubject,
+  detectImpersonation,
+  editDistance,
+  foldConfusables,
+  impersonationTargets,
+} from '../src/utils/impersonation-detector';
+import { createTestRun } from './harness';
+
+async function main() {
+  const { record, finish } = createTestRun();
+
+  record(foldConfusables('Аnthr0pic') === 'anthropic' && foldConfusables('rnarkdown') === 'markdown' && foldConfusables('Café') === 'cafe',
+    'Cyrillic, digits, "rn" and accents fold to Latin');
+  record(editDistance('anthropic-skils', 'anthropic-skills') === 1 && editDistance('pdf-tlos', 'pdf-tols') === 1 && editDistance('abc', 'abc') === 0,
+    'edit distance counts adjacent transpositions once');
+
+  const skills: ImpersonationSubject[] = [
+    { skillId: 'pdf-tools', skillName: 'PDF Tools', creator: 'anthropic', trustSignals: { official: true } },
+    { skillId: 'markdown-converter', skillName: 'Markdown Converter', creator: 'alice', downloads: 5000 },
+    { skillId: 'tiny-tool', skillName: 'Tiny Tool', creator: 'bob', downloads: 40 },
+  ];
+  const targets = impersonationTargets(skills);
+  record(targets.length === 2, 'official and high-traction skills are targets');
+
+  const check = (subject: Partial<ImpersonationSubject> & { skillId: string }) =>
+    detectImpersonation({ skillName: subject.skillId, downloads: 10, creator: 'mallory', ...subject }, targets);
+  const summary = (found: ReturnType<typeof check>) => found.map(s => `${s.kind}/${s.field}/${s.target}/${s.confidence}`).join(' ');
+
+  const squat = check({ skillId: 'anthropic-official-skills' });
+  record(squat[0]?.kind === 'name-squat' && squat[0].confidence === 'high', `"anthropic-official-skills" by another creator → ${summary(squat)}`);
+  const mentions = ['anthropic-api-helper', 'anthropic-sdk-examples', 'anthropic-skils'].map(skillId => check({ skillId }));
+  record(mentions.every(found => found.length > 0 && found.every(s => s.confidence === 'low')),
+    `brand mentioned without a claim word is low confidence → ${mentions.map(summary).join(' | ')}`);
+  const brandTypo = [check({ skillId: 'anthropik-tools' }), check({ skillId: 'anthropik-support' })];
+  record(brandTypo[0][0]?.confidence === 'low' && brandTypo[1][0]?.confidence === 'high',
+    `brand typo is high confidence only with a claim word → ${brandTypo.map(summary).join(' | ')}`);
+  const creator = check({ skillId: 'notes-sync', creator: 'Anthr0pic' });
+  record(creator.some(s => s.field === 'creator' && s.kind === 'homoglyph' && s.target === 'anthropic'), `creator "Anthr0pic" → ${summary(creator)}`);
+  const cyrillic = check({ skillId: 'markdоwn-converter' });
+  record(cyrillic[0]?.kind === 'homoglyph' && cyrillic[0].target === 'markdown-converter' && cyrillic[0].confidence === 'high', `Cyrillic "о" in a popular slug → ${summary(cyrillic)}`);
+  const typo = check({ skillId: 'markdown-convertor' });
+  record(typo[0]?.kind === 'typosquat' && typo[0].distance === 1 && typo[0].confidence === 'low', `typo of a popular skill is low confidence → ${summary(typo)}`);
+  const officialTypo = check({ skillId: 'pdf-tool' });
+  record(officialTypo[0]?.target === 'pdf-tools' && officialTypo[0].confidence === 'low', `near-miss of an official skill is low confidence → ${summary(officialTypo)}`);
+  const officialHomoglyph = check({ skillId: 'pdf-t00ls' });
+  record(officialHomoglyph[0]?.kind === 'homoglyph' && officialHomoglyph[0].confidence === 'high', `disguised official skill → ${summary(officialHomoglyph)}`);
+  const claude = [check({ skillId: 'claude-pdf-helper' }), check({ skillId: 'claude-official-tools' }), check({ skillId: 'c1aude-tools' })];
+  record(claude[0].length === 0 && claude[1][0]?.kind === 'name-squat' && claude[2][0]?.kind === 'homoglyph',
+    '"claude" alone is fine; next to a claim word or disguised it is not');
+  record(check({ skillId: 'markdown-converter-2', creator: 'alice' }).length === 0, 'a creator\'s own variants are not impersonation');
+  record(detectImpersonation(skills[1], impersonationTargets([...skills, { skillId: 'markdown-convertor', skillName: 'x', downloads: 1200 }])).length === 0,
+    'of two lookalikes only the lesser is a suspect');
+  record(check({ skillId: 'git' }).length === 0 && check({ skillId: 'tiny-toll' }).length === 0, 'short names and low-traction skills are not targets');
+
+  // Pipeline: drop (default), strict, flag and off
+  const candidate = (id: string, creatorName: string, extra: Partial<SourceCandidate> = {}): SourceCandidate => ({
+    skillId: id, skillName: id, description: `Writing helper ${id} for everyday documents`, url: `https://clawhub.ai/skills/${id}`,
+    categories: ['Writing'], rawScore: 80, source: 'Test', creator: creatorName, ...extra,
+  });
+  registerRecommendationSource({
+    name: 'impersonation-test',
+    capabilities: { network: false, languageFilter: true, personalityScoring: true, securityScan: false },
+    fetchCandidates: async () => [
+      candidate('markdown-converter', 'alice', { downloads: 5000 }),
+      candidate('markdоwn-converter', 'mallory', { downloads: 30 }),
+      candidate('markdown-convertor', 'eve', { downloads: 30 }),
+      candidate('grammar-check', 'carol', { downloads: 300 }),
+      candidate('anthropic-sdk-examples', 'dave', { downloads: 80 }),
+    ],
+    normalizeScore: raw => raw,
+  });
+  const identity = { mainCategories: ['Writing'], subCategories: [], personalityType: 'The Optimizer' };
+  let rejections: SkillRejection[] = [];
+  const run = (impersonation?: ImpersonationMode) => refreshRecommendations(identity, {
+    sources: ['impersonation-test'], impersonation, explorationSlots: 0, feedbackLog: false, debug: true, onRejections: r => { rejections = r; },
+  });
+  const ids = (recs: { skillId: string }[]) => recs.map(r => r.skillId).sort().join(',');
+
+  const dropped = await run();
+  const flagged = dropped.find(r => r.skillId === 'markdown-convertor');
+  record(ids(dropped) === 'anthropic-sdk-examples,grammar-check,markdown-converter,markdown-convertor' &&
+    rejections.some(r => r.gate === 'impersonation' && r.values?.kind === 'homoglyph'),
+    `drop: homoglyph dropped → ${rejections.find(r => r.gate === 'impersonation')?.detail}`);
+  record(flagged?.impersonation?.[0].kind === 'typosquat' && flagged.trust?.factors.some(f => f.signal === 'impersonation') === true,
+    `low-confidence typosquat kept, flagged and trusted less → trust ${flagged?.trust?.score}`);
+  record(dropped.find(r => r.skillId === 'anthropic-sdk-examples')?.impersonation?.[0].kind === 'name-squat',
+    'legitimate brand mention kept, flagged');
+  record(ids(await run('strict')) === 'grammar-check,markdown-converter', 'strict drops every suspect');
+  const kept = await run('flag');
+  record(kept.length === 5 && kept.filter(r => r.impersonation).length === 3, 'flag keeps every suspect, flagged');
+  record((await run('off')).every(r => !r.impersonation), 'off skips detection');
+
+  finish();
+}
+
+main();
@@ -0,0 +1,157 @@
+/**
+ * Regression test: shared keyword matcher (no wallet, no API calls).
+ * Each case is a known substring false positive or a variant that must still match,
+ * plus CJK/Spanish tokenization, language detection and the category taxonomy.
+ * Usage: npx ts-node scripts/test-keyword-matcher.ts
+ */
+import { matchKeywords, matchCategories, findKeywordHits } from '../src/utils/keyword-matcher';
+import { normalizeToCanonical } from '../src/recommendation-pipeline';
+import { detectLanguage, detectConversationLanguages, categoryKeywordsForText } from '../src/utils/language-detector';
+import { getTaxonomy } from '../src/types/taxonomy';
+import { validateTaxonomyConfig } from '../src/parsers/taxonomy-parser';
+import { createTestRun } from './harness';
+
+const keywordCases = [
+  // Substring false positives
+  { keyword: 'ai', text: 'Send a follow-up email to the team', expected: false },
+  { keyword: 'ai', text: 'Maintain the repo and explain the changes', expected: false },
+  { keyword: 'base', text: 'Query the database for active users', expected: false },
+  { keyword: 'base', text: 'Recommendations based on your history', expected: false },
+  { keyword: 'ui', text: 'Build a quick guide for new users', expected: false },
+  { keyword: 'art', text: 'Start a new project from a template', expected: false },
+  { keyword: 'ads', text: 'Track downloads across releases', expected: false },
+  { keyword: 'market', text: 'Email marketing automation', expected: false },
+  { keyword: 'api', text: 'Rapid prototyping toolkit', expected: false },
+  { keyword: 'cro', text: 'Microservices and macros', expected: false },
+  { keyword: 'dao', text: 'Shadow DOM helpers', expected: false },
+  { keyword: 'rust', text: 'Build trust with your audience', expected: false },
+  { keyword: 'stock', text: 'Livestock tracking for farms', expected: false },
+  // Inflections, phrases and punctuation that must still match
+  { keyword: 'ai', text: 'AI-powered code review', expected: true },
+  { keyword: 'nft', text: 'Mint NFTs on Base', expected: true },
+  { keyword: 'agent', text: 'Multi-agent orchestration for coding agents', expected: true },
+  { keyword: 'machine learning', text: 'A machine-learning pipeline', expected: true },
+  { keyword: 'a/b test', text: 'Run A/B testing on landing pages', expected: true },
+  { keyword: 'market', text: 'Prediction markets explained', expected: true },
+  { keyword: 'coding', text: 'Code faster with snippets', expected: true },
+  { keyword: 'collaborate', text: 'Collaborating on open source', expected: true },
+  { keyword: 'smart contract', text: 'Audit Smart Contracts', expected: true },
+];
+
+const categoryCases = [
+  { text: 'Email Marketing', expected: 'Marketing', absent: 'AI Tools' },
+  { text: 'Database migration helper for developers', expected: 'Development', absent: 'Crypto' },
+  { text: 'Start-up guide', expected: null, absent: 'Design' },
+];
+
+// CJK tokenization and accent folding
+const localeCases = [
+  { keyword: '区块链', text: '我在做区块链钱包', expected: true },
+  { keyword: 'コード', text: 'レコードを管理するツール', expected: false },
+  { keyword: 'コード', text: 'コードレビューを自動化', expected: false },
+  { keyword: 'コード', text: 'この コード を直して', expected: true },
+  { keyword: 'educación', text: 'Plataforma de educacion en linea', expected: true },
+  { keyword: 'ai', text: '用AI写周报', expected: true },
+];
+
+const languageCases = [
+  { text: 'Automate your weekly reports with a single command', expected: 'en' },
+  { text: '一键生成小红书封面图和文案', expected: 'zh' },
+  { text: 'ブログ記事のカバー画像を生成します', expected: 'ja' },
+  { text: 'Genera publicaciones para redes sociales con un solo clic', expected: 'es' },
+  { text: 'Генерирует обложки для статей', expected: 'other' },
+  { text: 'ok', expected: 'unknown' },
+];
+
+const localeCategoryCases = [
+  { text: '帮我优化小红书的营销文案', expected: 'Marketing' },
+  { text: 'ブロックチェーンのウォレットを作る', expected: 'Crypto' },
+  { text: 'Quiero mejorar mi salud y bienestar', expected: 'Wellness' },
+];
+
+// Asking about a topic counts half; a statement that ends in a question still counts
+const questionCases = [
+  { text: 'What is DeFi?', expected: 0.5 },
+  { text: 'So how does DeFi lending work?', expected: 0.5 },
+  { text: "I'm building a DeFi app, any tips?", expected: 1.5 },
+  { text: 'My whole portfolio is DeFi now, crazy right?', expected: 1 },
+  { text: 'I run a DeFi fund but what is a DAO?', expected: 1 },
+  { text: '¿Qué es DeFi?', expected: 0.5 },
+];
+
+const normalizeCases = [
+  { input: ['Email Marketing'], expected: ['Marketing › Email Marketing'] },
+  { input: ['DeFi'], expected: ['Crypto › DeFi'] },
+  { input: ['crypto/defi/lending'], expected: ['Crypto › DeFi › Lending'] },
+  { input: ['UI/UX'], expected: ['Design › UI & UX'] },
+  { input: ['machine'], expected: ['AI Tools'] },
+  { input: ['加密货币'], expected: ['Crypto'] },
+];
+
+function main() {
+  const { record, finish } = createTestRun();
+
+  for (const { keyword, text, expected } of keywordCases) {
+    const matched = matchKeywords(text, [keyword]).length > 0;
+    record(matched === expected, `'${keyword}' ${expected ? 'matches' : 'does not match'} "${text}"`);
+  }
+
+  for (const { keyword, text, expected } of localeCases) {
+    const matched = matchKeywords(text, [keyword]).length > 0;
+    record(matched === expected, `'${keyword}' ${expected ? 'matches' : 'does not match'} "${text}"`);
+  }
+
+  for (const { text, expected } of languageCases) {
+    const language = detectLanguage(text);
+    record(language === expected, `detectLanguage("${text}") → ${language} (expected: ${expected})`);
+  }
+
+  const mixed = detectConversationLanguages(['How do I deploy this?', '这个怎么部署？', '谢谢，再帮我看看日志', 'Thanks!']);
+  record(mixed.join(',') === 'zh,en', `detectConversationLanguages(mixed en/zh) → [${mixed.join(', ')}]`);
+
+  for (const { text, expected } of localeCategoryCases) {
+    const categories = matchCategories(text, categoryKeywordsForText(text));
+    record(categories[0] === expected, `"${text}" → [${categories.join(', ')}] (expected: ${expected})`);
+  }
+
+  for (const { text, expected, absent } of categoryCases) {
+    const categories = matchCategories(text);
+    const ok = (expected === null || categories.includes(expected)) && !categories.includes(absent);
+    record(ok, `"${text}" → [${categories.join(', ')}]${expected ? ` includes ${expected}` : ''}, not ${absent}`);
+  }
+
+  for (const { input, expected } of normalizeCases) {
+    const normalized = normalizeToCanonical(input);
+    const ok = normalized.join(',') === expected.join(',');
+    record(ok, `normalizeToCanonical(${JSON.stringify(input)}) → ${JSON.stringify(normalized)}`);
+  }
+
+  // Taxonomy: topics inherit from the nearest ancestor, bad configs are rejected
+  const taxonomy = getTaxonomy();
+  const lending = taxonomy.resolve('Crypto > DeFi > Lending');
+  record(taxonomy.githubTopicsFor(lending!).length > 0, `githubTopicsFor(Lending) → ${JSON.stringify(taxonomy.githubTopicsFor(lending!))}`);
+  record(taxonomy.searchTerm(lending!) === 'DeFi Lending', `searchTerm(Lending) → ${taxonomy.searchTerm(lending!)}`);
+
+  const errors = validateTaxonomyConfig({
+    version: 1,
+    categories: [
+      { name: 'Crypto', aliases: ['Web3'], color: 'blue' },
+      { name: 'Web3' },
+    ],
+  });
+  record(errors.length === 2, `validateTaxonomyConfig(unknown field + duplicate alias) → ${errors.length} errors`);
+
+  // Weights and context still compose: a generic keyword in an intent clause
+  const [hit] = findKeywordHits("I'm building a protocol", ['protocol']);
+  record(hit?.weight === 0.75, `weighted intent hit: 'protocol' → ${hit?.weight} (expected 0.75)`);
+
+  // Questions: only clauses that ask about the topic are down-weighted
+  for (const { text, expected } of questionCases) {
+    const [defi] = findKeywordHits(text, ['defi']);
+    record(defi?.weight === expected, `"${text}" → 'defi' ×${defi?.weight} [${defi?.cues.join(', ')}] (expected ×${expected})`);
+  }
+
+  finish();
+}
+
+main();
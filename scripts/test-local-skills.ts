@@ -0,0 +1,107 @@
+/**
+ * Regression test: installed-skills reader and the local source (offline).
+ * Builds a throwaway skill directory, points BLOOM_SKILL_DIRS at it and runs
+ * the pipeline with network sources disabled.
+ * Usage: npx ts-node scripts/test-local-skills.ts
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { refreshRecommendations } from '../src/recommendation-pipeline';
+import { findInstalledSkill, readInstalledSkills } from '../src/integrations/local-skills-reader';
+import { parseSkillMd } from '../src/parsers/skill-md-parser';
+import { registerRecommendationSource } from '../src/recommendation-sources';
+import { createTestRun } from './harness';
+
+// Unique ids, so no real transcript on this machine mentions them
+const suffix = `${process.pid}${Date.now().toString(36)}`;
+const reviewId = `review-kit-${suffix}`;
+const deployId = `deploy-helper-${suffix}`;
+
+function writeSkill(root: string, id: string, content: string) {
+  fs.mkdirSync(path.join(root, id), { recursive: true });
+  fs.writeFileSync(path.join(root, id, 'SKILL.md'), content);
+}
+
+async function main() {
+  const { record, finish } = createTestRun();
+
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'bloom-skills-'));
+  process.env.BLOOM_SKILL_DIRS = root;
+
+  try {
+    writeSkill(root, reviewId, [
+      '---',
+      `name: ${reviewId}`,
+      'description: Code review checklist for pull requests',
+      'metadata:',
+      '  tags: [development, code-review]',
+      '---',
+      '# Review kit',
+    ].join('\n'));
+    writeSkill(root, deployId, '# Deploy helper\n\nShip your backend and frontend with one deploy command for developers.\n');
+    fs.mkdirSync(path.join(root, 'not-a-skill'));
+
+    const doc = parseSkillMd('---\nname: [broken\n---\nBody');
+    record(Object.keys(doc.frontmatter).length === 0 && doc.body === 'Body', 'broken frontmatter → empty frontmatter, body kept');
+
+    const skills = readInstalledSkills();
+    const review = skills.find(s => s.id === reviewId);
+    const deploy = skills.find(s => s.id === deployId);
+    record(skills.length === 2, `readInstalledSkills → ${skills.length} skills (expected 2)`);
+    record(review?.description === 'Code review checklist for pull requests' && review.tags.includes('code-review'),
+      `frontmatter description + metadata.tags → ${JSON.stringify(review?.tags)}`);
+    record(deploy?.name === deployId && deploy.description.startsWith('Ship your backend'),
+      `no frontmatter → dir name + first paragraph`);
+
+    const match = findInstalledSkill(
+      { skillId: reviewId.toUpperCase(), skillName: 'Review Kit', url: `https://clawhub.ai/skills/${reviewId}` },
+      skills,
+    );
+    record(match?.id === reviewId, `findInstalledSkill(slug, case-insensitive) → ${match?.id}`);
+
+    // A remote-style source that finds the installed review kit again
+    registerRecommendationSource({
+      name: 'catalogue',
+      capabilities: { network: false, languageFilter: true, personalityScoring: true, securityScan: false },
+      fetchCandidates: async () => [{
+        skillId: reviewId,
+        skillName: 'Review Kit',
+        description: 'Code review checklist for developers',
+        url: `https://catalogue.example.com/${reviewId}`,
+        categories: ['Development'],
+        rawScore: 90,
+        source: 'Catalogue',
+      }],
+      normalizeScore: raw => raw,
+    });
+    registerRecommendationSource({
+      name: 'remote',
+      capabilities: { network: true, languageFilter: true, personalityScoring: true, securityScan: false },
+      fetchCandidates: async () => { throw new Error('network source ran while offline'); },
+      normalizeScore: raw => raw,
+    });
+
+    const identity = { mainCategories: ['Development'], subCategories: [], personalityType: 'The Optimizer' };
+    const sources = ['local', 'catalogue', 'remote'];
+
+    const excluded = await refreshRecommendations(identity, { sources, offline: true });
+    const excludedIds = excluded.map(r => r.skillId);
+    record(!excludedIds.includes(reviewId), `installed remote pick excluded → [${excludedIds.join(', ')}]`);
+    record(excludedIds.includes(`local:${deployId}`) && excluded.every(r => r.source !== undefined),
+      'unused installed skill suggested by the local source');
+    record(excluded.find(r => r.skillId === `local:${deployId}`)?.installed === true, 'local suggestion marked installed');
+
+    const marked = await refreshRecommendations(identity, { sources, offline: true, installedSkills: 'mark' });
+    record(marked.find(r => r.skillId === reviewId)?.installed === true, 'installedSkills: mark keeps and marks the remote pick');
+
+    const chinese = await refreshRecommendations({ ...identity, languages: ['zh'] }, { sources, offline: true });
+    record(chinese.some(r => r.skillId === `local:${deployId}`), 'language preference does not apply to installed skills');
+  } finally {
+    fs.rmSync(root, { recursive: true, force: true });
+  }
+
+  finish();
+}
+
+main();
@@ -37,7 +37,7 @@ async function main() {
     const result = await analyzer.analyze(analyzerData);
     const ok = result.personalityType === expected;
     const icon = ok ? '✅' : '❌';
-    console.log(`${icon} ${file}: ${result.personalityType} (expected: ${expected}) — C=${result.dimensions.conviction}, I=${result.dimensions.intuition}, Cont=${result.dimensions.contribution}`);
+    console.log(`${icon} ${file}: ${result.personalityType} (expected: ${expected}) — C=${result.dimensions.conviction}, I=${result.dimensions.intuition}, Cont=${result.dimensions.contribution} — ${result.blend.label}${result.blend.borderline ? ' (borderline)' : ''}`);
     if (ok) pass++;
     else fail++;
   }
@@ -0,0 +1,128 @@
+/**
+ * Regression test: personality evidence trace — which rules fired, what each
+ * added, and which classification thresholds the final scores crossed — and
+ * the type blend near those thresholds (no network).
+ * Usage: npx ts-node scripts/test-personality.ts
+ */
+import { DimensionExplanation, PersonalityAnalyzer, UserData } from '../src/analyzers/personality-analyzer';
+import { KeywordBackend } from '../src/analyzers/keyword-backend';
+import { createTestRun } from './harness';
+
+const conversation = (topics: string[], history: string[]): UserData => ({
+  sources: ['conversation'],
+  conversationMemory: { topics, interests: [], preferences: [], history },
+});
+
+const VISIONARY = conversation(['Crypto'], [
+  'I believe in the vision of a revolutionary future for money.',
+  'I am committed and focused, and I doubled down on this last year.',
+]);
+
+const OPTIMIZER = conversation(['Productivity'], [
+  'I am committed and focused on my workflow.',
+  'Before I switch tools I want the data, the metrics and the ROI.',
+  'Performance over hype, every time.',
+]);
+
+const CULTIVATOR: UserData = {
+  ...conversation(['Education'], [
+    'I wrote a tutorial and published a guide for new members.',
+    'I gave feedback to the community.',
+  ]),
+  wallet: {
+    transactions: Array.from({ length: 12 }, () => ({ method: 'vote' })),
+    nfts: [],
+    tokens: [],
+    contracts: [],
+  },
+};
+
+async function main() {
+  const { record, finish } = createTestRun();
+
+  const sumsUp = (e: DimensionExplanation) =>
+    e.raw === e.base + e.evidence.reduce((sum, entry) => sum + entry.delta, 0);
+  const rules = (e: DimensionExplanation) => e.evidence.map(entry => `${entry.detail}:${entry.delta}`);
+
+  // Analyzer logging is noisy; only results should reach stdout
+  const log = console.log;
+  const analyze = async (userData: UserData, nudges?: Parameters<PersonalityAnalyzer['analyze']>[1]) => {
+    console.log = () => {};
+    try {
+      return await new PersonalityAnalyzer(new KeywordBackend()).analyze(userData, nudges);
+    } finally {
+      console.log = log;
+    }
+  };
+
+  // Visionary: focus and conviction language up, vision language up
+  const visionary = await analyze(VISIONARY);
+  const vc = visionary.explanation.conviction;
+  record(vc.base === 50 && rules(vc).join() === 'Focused on 1 topic(s):15,Conviction language outweighs explorer language (0 explorer vs 3 conviction):10',
+    `conviction evidence → ${rules(vc).join('; ')}`);
+  record(vc.evidence[1].keywords?.join() === 'committed,focused,doubled down' && vc.evidence[1].snippets?.[0]?.includes('doubled down') === true,
+    'keyword evidence carries its hits and the message they came from');
+  const vi = visionary.explanation.intuition;
+  record(rules(vi).join() === 'Vision/narrative language:20' && vi.evidence[0].keywords?.join() === 'vision,future,believe,revolutionary',
+    `intuition evidence → ${rules(vi).join('; ')}`);
+  record(sumsUp(vc) && sumsUp(vi) && vc.final === 75 && vi.final === 70 && visionary.dimensions.conviction === vc.final,
+    'raw is base plus every delta; final is the classified score');
+  record(visionary.explanation.classification === 'Conviction 75 ≥ 50, Intuition 70 ≥ 50, Contribution 0 ≤ 55 → The Visionary',
+    `thresholds crossed → ${visionary.explanation.classification}`);
+
+  // Optimizer: data language pushes intuition below 50
+  const optimizer = await analyze(OPTIMIZER);
+  const oi = optimizer.explanation.intuition;
+  record(rules(oi).join() === 'Data/metrics language:-20' && oi.evidence[0].keywords?.join() === 'data,metrics,roi,performance' && oi.final === 30,
+    `negative evidence → ${rules(oi).join('; ')}`);
+  record(optimizer.explanation.classification === 'Conviction 75 ≥ 50, Intuition 30 < 50, Contribution 0 ≤ 55 → The Optimizer',
+    `thresholds crossed → ${optimizer.explanation.classification}`);
+
+  // Cultivator: contribution over 100 is capped, and the override names its threshold
+  const cultivator = await analyze(CULTIVATOR);
+  const cc = cultivator.explanation.contribution;
+  const cap = cc.evidence.find(e => e.signal === 'cap');
+  record(cc.evidence.some(e => e.detail === '12 governance transactions' && e.delta === 120) && cap?.delta === -50 && sumsUp(cc) && cc.final === 100,
+    `cap recorded as its own entry → ${rules(cc).join('; ')}`);
+  record(cultivator.explanation.classification === 'Contribution 100 > 55 → The Cultivator (override)',
+    `override threshold → ${cultivator.explanation.classification}`);
+
+  // USER.md nudges are applied after the evidence and listed with their rule
+  const nudged = await analyze(VISIONARY, {
+    conviction: -30, intuition: 0, contribution: 0,
+    reasons: [
+      { dimension: 'conviction', delta: -30, field: 'workingStyle', value: 'explorer' },
+      { dimension: 'intuition', delta: 0, field: 'role', value: 'founder' },
+    ],
+  });
+  const nc = nudged.explanation.conviction;
+  record(nc.raw === 75 && nc.nudge === -30 && nc.final === 45 && nudged.explanation.nudges.length === 1 &&
+    nudged.explanation.classification.startsWith('Conviction 45 < 50'),
+    `nudge moves the final score across a threshold → ${nudged.explanation.classification}`);
+
+  // Blend: far from every threshold the rule and the blend agree
+  const clear = visionary.blend;
+  record(clear.primary === visionary.personalityType && !clear.borderline && !clear.ruleDisagrees &&
+    visionary.tagline === 'The Crypto Pioneer', `clear profile → ${clear.label}, "${visionary.tagline}"`);
+
+  // 51/49: borderline, and the tagline names the secondary type too
+  const edge = await analyze(VISIONARY, { conviction: -24, intuition: -21, contribution: 0 });
+  const nouns: Record<string, string> = { 'The Visionary': 'Pioneer', 'The Explorer': 'Nomad', 'The Innovator': 'Architect' };
+  record(edge.personalityType === 'The Optimizer' && edge.blend.borderline && !edge.blend.ruleDisagrees &&
+    edge.tagline === `The Crypto Analyst-${nouns[edge.blend.secondary]}` && edge.description.length > 0,
+    `borderline profile → ${edge.blend.label}, "${edge.tagline}"`);
+
+  // Contribution 54: the rule says Visionary, the blend leans Cultivator
+  const torn = await analyze(VISIONARY, { conviction: -20, intuition: -15, contribution: 54 });
+  const { probabilities, primary, secondary } = torn.blend;
+  record(primary === 'The Visionary' && secondary === 'The Cultivator' && probabilities[secondary] > probabilities[primary] &&
+    torn.blend.ruleDisagrees && torn.blend.borderline && torn.blend.label === 'The Visionary, bordering on Cultivator',
+    `rule and blend disagree → ${torn.blend.label} (${probabilities[primary]} vs ${probabilities[secondary]})`);
+  const total = Object.values(probabilities).reduce((sum, p) => sum + p, 0);
+  record(Math.abs(total - 1) < 0.01 && torn.tagline.endsWith('Pioneer-Gardener') && torn.description.includes('Cultivator'),
+    `tagline and description use the secondary type → "${torn.tagline}"`);
+
+  finish();
+}
+
+main();
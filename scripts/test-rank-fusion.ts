@@ -0,0 +1,105 @@
+/**
+ * Regression test: cross-source rank fusion (no network).
+ * Checks reciprocal rank fusion and calibrated fusion on their own, then runs
+ * the pipeline with two in-memory sources on very different score scales.
+ * Usage: npx ts-node scripts/test-rank-fusion.ts
+ */
+import { SkillRecommendation, refreshRecommendations } from '../src/recommendation-pipeline';
+import { SourceCandidate, registerRecommendationSource } from '../src/recommendation-sources';
+import { FusedItem, FusionInput, formatFusionDiagnostic, fuseRankings } from '../src/utils/rank-fusion';
+import { createTestRun } from './harness';
+
+function input(source: string, key: string, score: number): FusionInput<string> {
+  return { source, key, score, item: `${source}:${key}` };
+}
+
+// Distinct descriptions, so near-duplicate merging leaves every candidate alone
+const DESCRIPTIONS: Record<string, string> = {
+  'alpha-1': 'Review pull requests for developers',
+  'alpha-2': 'Generate unit tests from source code',
+  'alpha-3': 'Profile slow database queries',
+  'beta-1': 'Write release notes from commit history',
+  'beta-2': 'Lint Dockerfiles before you ship',
+  'beta-3': 'Scaffold REST endpoints in TypeScript',
+};
+
+function candidate(id: string, rawScore: number): SourceCandidate {
+  return {
+    skillId: id,
+    skillName: id,
+    description: DESCRIPTIONS[id],
+    url: `https://example.com/skills/${id}`,
+    categories: ['Development'],
+    rawScore,
+    source: 'Test',
+  };
+}
+
+async function main() {
+  const { record, finish } = createTestRun();
+
+  const inputs = [
+    input('a', 'shared', 70), input('a', 'a-top', 99), input('a', 'a-low', 10),
+    input('b', 'b-top', 5), input('b', 'b-mid', 3), input('b', 'shared', 2),
+  ];
+  const keys = (fused: FusedItem<string>[]) => fused.map(f => f.key).join(',');
+
+  const rrf = fuseRankings(inputs);
+  record(rrf[0].key === 'shared' && rrf[0].ranks.length === 2, `rrf: item in both sources first → ${keys(rrf)}`);
+  record(rrf.find(f => f.key === 'shared')?.item === 'a:shared', 'merged item keeps the highest-scoring source entry');
+
+  const rescaled = fuseRankings(inputs.map(i => (i.source === 'a' ? { ...i, score: i.score * 1000 } : i)));
+  record(keys(rescaled) === keys(rrf), 'rrf ignores score scale');
+
+  const weighted = fuseRankings(inputs, { weights: { a: 1, b: 3 } });
+  const position = (fused: FusedItem<string>[], key: string) => fused.findIndex(f => f.key === key);
+  record(position(weighted, 'b-top') < position(weighted, 'a-top') && position(weighted, 'b-mid') < position(weighted, 'a-top'),
+    `weight 3 on b lifts b's picks above a's → ${keys(weighted)}`);
+  const muted = fuseRankings(inputs, { weights: { b: 0 } });
+  record(muted.slice(-2).every(f => f.key.startsWith('b-') && f.fusedScore === 0), 'weight 0 sinks source-only items');
+
+  const calibrated = fuseRankings(inputs, { method: 'calibrated' });
+  record(calibrated.every(f => f.fusedScore > 0 && f.fusedScore < 2) && calibrated[0].key === 'shared',
+    `calibrated: scores in (0, 2), shared first → ${keys(calibrated)}`);
+
+  const ties = [input('a', 'z', 5), input('a', 'm', 5), input('b', 'q', 1), input('a', 'c', 5)];
+  const tieOrders = new Set([ties, [...ties].reverse(), [ties[2], ties[0], ties[3], ties[1]]].map(t => keys(fuseRankings(t))));
+  record(tieOrders.size === 1, `ties broken by key → ${[...tieOrders][0]}`);
+
+  const table = formatFusionDiagnostic(rrf);
+  record(table.split('\n')[0].startsWith('fused') && table.includes('#1 (99)') && table.includes('–'),
+    'diagnostic lists per-source ranks and fused rank');
+
+  // Pipeline: alpha scores everything 90+, beta tops out at 60. Fusion interleaves them.
+  registerRecommendationSource({
+    name: 'alpha',
+    capabilities: { network: false, languageFilter: true, personalityScoring: true, securityScan: false },
+    fetchCandidates: async () => [candidate('alpha-1', 99), candidate('alpha-2', 97), candidate('alpha-3', 95)],
+    normalizeScore: raw => raw,
+  });
+  registerRecommendationSource({
+    name: 'beta',
+    capabilities: { network: false, languageFilter: true, personalityScoring: true, securityScan: false },
+    fetchCandidates: async () => [candidate('beta-1', 60), candidate('beta-2', 50), candidate('beta-3', 40)],
+    normalizeScore: raw => raw,
+  });
+
+  const identity = { mainCategories: ['Development'], subCategories: [], personalityType: 'The Optimizer' };
+  let diagnostic: FusedItem<SkillRecommendation>[] = [];
+  const recs = await refreshRecommendations(identity, { sources: ['alpha', 'beta'], onFusion: f => { diagnostic = f; } });
+  const order = recs.map(r => r.skillId);
+  record(order.slice(0, 2).sort().join(',') === 'alpha-1,beta-1', `pipeline: each source's #1 on top → ${order.join(', ')}`);
+  record(recs.find(r => r.skillId === 'beta-1')?.matchScore === 60, 'matchScore still shows the source score');
+  record(diagnostic.length === 6 && diagnostic.every(f => f.ranks.length === 1), 'onFusion reports every fused item');
+
+  process.env.BLOOM_SOURCE_WEIGHTS = 'alpha=0.2';
+  const envWeighted = await refreshRecommendations(identity, { sources: ['alpha', 'beta'] });
+  record(envWeighted.slice(0, 3).every(r => r.skillId.startsWith('beta-')), `BLOOM_SOURCE_WEIGHTS=alpha=0.2 → ${envWeighted.map(r => r.skillId).join(', ')}`);
+  const optionWeighted = await refreshRecommendations(identity, { sources: ['alpha', 'beta'], sourceOptions: { alpha: { weight: 1 }, beta: { weight: 0.2 } } });
+  record(optionWeighted[0].skillId === 'alpha-1' && optionWeighted[1].skillId === 'alpha-2', 'sourceOptions weight beats the env');
+  delete process.env.BLOOM_SOURCE_WEIGHTS;
+
+  finish();
+}
+
+main();
@@ -0,0 +1,89 @@
+/**
+ * Regression test: structured recommendation reasons and their rendering (no network).
+ * Usage: npx ts-node scripts/test-recommendation-reasons.ts
+ */
+import { refreshRecommendations } from '../src/recommendation-pipeline';
+import { SourceCandidate, registerRecommendationSource } from '../src/recommendation-sources';
+import { RecommendationExplanation, describeExplanation, renderReason } from '../src/utils/recommendation-reasons';
+import { createTestRun } from './harness';
+
+function explanation(extra: Partial<RecommendationExplanation> = {}): RecommendationExplanation {
+  return { interests: [], personality: { type: 'The Optimizer', keywords: [] }, traction: {}, adjustments: [], ...extra };
+}
+
+async function main() {
+  const { record, finish } = createTestRun();
+
+  const design = [{ interest: 'Design', fields: ['description' as const] }];
+  const optimize = { type: 'The Optimizer', keywords: ['optimize'] };
+  const cases: [RecommendationExplanation, string][] = [
+    [explanation({ interests: design, traction: { downloads: 1234 } }), "Because you're into Design — 1.2k downloads"],
+    [explanation({ personality: optimize, traction: { downloads: 80 } }), 'Fits your Optimizer style — 80 downloads'],
+    [explanation({ traction: { downloads: 80 } }), 'Fits your Optimizer profile — 80 downloads'],
+    [explanation({ interests: design, personality: optimize }), "Because you're into Design — fits your Optimizer style"],
+    [explanation({ interests: design, traction: { lists: ['a/awesome', 'b/awesome'] } }), "Because you're into Design — on 2 awesome-lists"],
+    [explanation({ personality: undefined, traction: { stars: 5400 } }), 'Popular in your area of interest — 5.4k stars on GitHub'],
+    [explanation({ interests: design, installed: { usage: 'unused', days: 30 } }), 'Already installed, unused for 30+ days — fits your interest in Design'],
+    [explanation({ installed: { usage: 'never-used', days: 30 } }), 'Already installed, not used yet'],
+  ];
+  for (const [input, expected] of cases) {
+    const rendered = renderReason(input);
+    record(rendered === expected, `renderReason → ${rendered}`);
+  }
+
+  const details = describeExplanation(explanation({
+    interests: design,
+    personality: optimize,
+    traction: { downloads: 1234, stars: 12 },
+    adjustments: [{ origin: 'feedback', category: 'Design', weight: 1.5 }, { origin: 'user-md', category: 'Design', weight: 0.3 }],
+  }));
+  record(details.length === 6 && details[0] === 'Matches your interest in Design (in its description)' &&
+    details.some(l => l.includes('raised its score ×1.50')) && details.some(l => l.includes('USER.md')),
+  `describeExplanation → ${details.length} lines`);
+
+  // Pipeline: explanations survive merging, gain merged traction and record the weights applied
+  const candidate = (id: string, url: string, extra: Partial<SourceCandidate> = {}): SourceCandidate => ({
+    skillId: id, skillName: id, description: 'Figma design tokens exporter with optimize passes', url,
+    categories: ['Design'], rawScore: 80, source: 'Test',
+    explanation: explanation({ interests: design, personality: optimize }),
+    ...extra,
+  });
+  registerRecommendationSource({
+    name: 'registry',
+    capabilities: { network: false, languageFilter: true, personalityScoring: true, securityScan: false },
+    fetchCandidates: async () => [candidate('tokens', 'https://clawhub.ai/skills/tokens', { creator: 'alice', downloads: 2500 })],
+    normalizeScore: raw => raw,
+  });
+  registerRecommendationSource({
+    name: 'awesome',
+    capabilities: { network: false, languageFilter: true, personalityScoring: true, securityScan: false },
+    fetchCandidates: async () => [
+      candidate('https://github.com/openclaw/skills/tree/main/skills/alice/tokens',
+        'https://github.com/openclaw/skills/tree/main/skills/alice/tokens', { rawScore: 60, lists: ['x/awesome-skills'] }),
+      candidate('custom', 'https://example.com/custom', { description: 'Color palette picker', explanation: undefined, reason: 'Hand-picked' }),
+    ],
+    normalizeScore: raw => raw,
+  });
+
+  const recs = await refreshRecommendations(
+    {
+      mainCategories: ['Design'],
+      subCategories: [],
+      personalityType: 'The Optimizer',
+      feedback: { categoryWeights: { Design: 1.2 } },
+      userMd: { categories: ['Design'], weight: 0.3 },
+    },
+    { sources: ['registry', 'awesome'] },
+  );
+  const card = recs.find(r => r.skillId === 'tokens');
+  record(card?.explanation?.traction.downloads === 2500 && card.explanation.traction.lists?.[0] === 'x/awesome-skills',
+    'pipeline: traction from every merged source');
+  record(card?.explanation?.adjustments.map(a => a.origin).join() === 'feedback,user-md',
+    `pipeline: feedback and USER.md weights recorded → ${card?.explanation?.adjustments.map(a => `${a.origin}:${a.category}×${a.weight}`).join(', ')}`);
+  record(card?.reason === "Because you're into Design — 2.5k downloads", `pipeline: reason rendered → ${card?.reason}`);
+  record(recs.find(r => r.skillId === 'custom')?.reason === 'Hand-picked', 'pipeline: plain reason kept without an explanation');
+
+  finish();
+}
+
+main();
@@ -0,0 +1,88 @@
+/**
+ * Regression test: recommendation source registry (no network).
+ * Registers in-memory sources and runs the real pipeline against them:
+ * score normalization, quotas, timeouts, failures and per-source stats.
+ * Usage: npx ts-node scripts/test-recommendation-sources.ts
+ */
+import { refreshRecommendations } from '../src/recommendation-pipeline';
+import {
+  RecommendationSource,
+  SourceCandidate,
+  SourceStats,
+  listRecommendationSources,
+  registerRecommendationSource,
+} from '../src/recommendation-sources';
+import { createTestRun } from './harness';
+
+function candidate(id: string, rawScore: number, description: string): SourceCandidate {
+  return {
+    skillId: id,
+    skillName: id,
+    description,
+    url: `https://catalogue.example.com/skills/${id}`,
+    categories: ['Development'],
+    rawScore,
+    source: 'Catalogue',
+  };
+}
+
+const catalogue: RecommendationSource = {
+  name: 'catalogue',
+  capabilities: { network: false, languageFilter: false, personalityScoring: false, securityScan: false },
+  defaultQuota: 2,
+  fetchCandidates: async () => [
+    candidate('code-review', 8, 'Automated code review for pull requests and refactoring'),
+    candidate('test-runner', 5, 'Run and summarize your test suite in the terminal'),
+    candidate('lint-fixer', 2, 'Fix lint errors across the repository'),
+    candidate('resumen', 9, 'Genera resúmenes de código para tu equipo de desarrollo'),
+  ],
+  normalizeScore: raw => raw * 10,
+};
+
+const slow: RecommendationSource = {
+  name: 'slow',
+  capabilities: { network: true, languageFilter: true, personalityScoring: true, securityScan: false },
+  fetchCandidates: () => new Promise(resolve => setTimeout(() => resolve([candidate('late', 10, 'Too late')]), 500)),
+  normalizeScore: raw => raw,
+};
+
+const broken: RecommendationSource = {
+  name: 'broken',
+  capabilities: { network: true, languageFilter: true, personalityScoring: true, securityScan: false },
+  fetchCandidates: async () => { throw new Error('catalogue offline'); },
+  normalizeScore: raw => raw,
+};
+
+async function main() {
+  const { record, finish } = createTestRun();
+
+  [catalogue, slow, broken].forEach(registerRecommendationSource);
+
+  const names = listRecommendationSources();
+  record(['clawhub', 'claude-code', 'github', 'catalogue'].every(n => names.includes(n)), `registry → ${names.join(', ')}`);
+
+  let stats: SourceStats[] = [];
+  const recommendations = await refreshRecommendations(
+    { mainCategories: ['Development'], subCategories: [], personalityType: 'The Optimizer' },
+    {
+      sources: ['catalogue', 'slow', 'broken'],
+      sourceOptions: { slow: { timeoutMs: 50 } },
+      onSourceStats: s => { stats = s; },
+    },
+  );
+
+  const ids = recommendations.map(r => r.skillId);
+  // Quota 2 keeps the two best normalized scores; the Spanish one is then dropped by language
+  record(ids.join(',') === 'code-review', `quota + language filter → [${ids.join(', ')}]`);
+  record(recommendations[0]?.matchScore >= 80, `normalized score 8 → ${recommendations[0]?.matchScore} (≥ 80 incl. boost)`);
+
+  const bySource = Object.fromEntries(stats.map(s => [s.source, s]));
+  record(bySource.catalogue?.status === 'ok' && bySource.catalogue.candidates === 4 && bySource.catalogue.kept === 2,
+    `catalogue stats → ${JSON.stringify(bySource.catalogue)}`);
+  record(bySource.slow?.status === 'timeout', `slow stats → ${bySource.slow?.status}`);
+  record(bySource.broken?.status === 'error' && bySource.broken.error === 'catalogue offline', `broken stats → ${bySource.broken?.status}`);
+
+  finish();
+}
+
+main();
@@ -0,0 +1,131 @@
+/**
+ * Regression test: "why not?" rejection records (no network).
+ * Runs the ClawHub source against a fake ClawHub and GitHub behind `fetch`,
+ * then explains skills that were dropped at different gates.
+ * Usage: npx ts-node scripts/test-rejections.ts
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { groupByCategory, refreshRecommendations } from '../src/recommendation-pipeline';
+import { SkillRejection } from '../src/recommendation-sources';
+import { diagnoseSkill, formatDiagnosis, summarizeRejections } from '../src/utils/skill-diagnostics';
+import { createTestRun } from './harness';
+
+interface FakeSkill {
+  slug: string;
+  score: number;
+  summary: string;
+  owner?: string;
+  downloads: number;
+  onGitHub?: boolean;
+  malware?: boolean;
+}
+
+const SKILLS: FakeSkill[] = [
+  { slug: 'review-bot', score: 3.2, summary: 'Automated code review for pull requests in TypeScript projects', owner: 'alice', downloads: 1500 },
+  { slug: 'tiny-linter', score: 3.0, summary: 'Lint shell scripts before you commit them to the repo', owner: 'bob', downloads: 7 },
+  { slug: 'vague-helper', score: 0.3, summary: 'A general helper for various development chores', owner: 'carol', downloads: 400 },
+  { slug: 'ghost-skill', score: 2.5, summary: 'Generate API clients from OpenAPI specs for developers', owner: 'dave', downloads: 300, onGitHub: false },
+  { slug: 'evil-miner', score: 2.8, summary: 'Speed up your builds with background compute for developers', owner: 'mallory', downloads: 900, malware: true },
+  { slug: 'no-owner', score: 2.2, summary: 'Format SQL queries consistently across your codebase', downloads: 250 },
+];
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+// Requests made without the source's abort signal, which a timeout couldn't stop
+const unsignalled: string[] = [];
+
+async function fakeFetch(input: string | URL | Request, init?: RequestInit): Promise<Response> {
+  if (!init?.signal) unsignalled.push(String(input));
+  const url = new URL(typeof input === 'string' ? input : input instanceof URL ? input.href : input.url);
+
+  if (url.hostname === 'clawhub.ai' && url.pathname === '/api/v1/search') {
+    return json({ results: SKILLS.map(s => ({ slug: s.slug, displayName: s.slug, summary: s.summary, score: s.score })) });
+  }
+  if (url.hostname === 'clawhub.ai' && url.pathname.startsWith('/api/v1/skills/')) {
+    const skill = SKILLS.find(s => s.slug === decodeURIComponent(url.pathname.split('/').pop()!));
+    if (!skill) return json({}, 404);
+    return json({
+      skill: { slug: skill.slug, displayName: skill.slug, summary: skill.summary, stats: { downloads: skill.downloads } },
+      owner: skill.owner ? { handle: skill.owner } : undefined,
+      moderation: { isSuspicious: false, isMalwareBlocked: !!skill.malware },
+    });
+  }
+  if (url.hostname === 'api.github.com') {
+    const [, owner, slug] = url.pathname.match(/contents\/skills\/([^/]+)\/([^/]+)$/) ?? [];
+    const skill = SKILLS.find(s => s.slug === slug && s.owner === owner);
+    if (!skill || skill.onGitHub === false) return json({ message: 'Not Found' }, 404);
+    const path = `skills/${owner}/${slug}/SKILL.md`;
+    return json([{ name: 'SKILL.md', path, type: 'file', size: 200, download_url: `https://raw.githubusercontent.com/openclaw/skills/main/${path}` }]);
+  }
+  if (url.hostname === 'raw.githubusercontent.com') {
+    return new Response('# Skill\n\nReview code and suggest fixes.\n', { status: 200 });
+  }
+  return json({}, 404);
+}
+
+async function main() {
+  const { record, finish } = createTestRun();
+
+  process.env.BLOOM_HTTP_CACHE = 'off';
+  const realFetch = globalThis.fetch;
+  globalThis.fetch = fakeFetch as typeof fetch;
+
+  const identity = { mainCategories: ['Development'], subCategories: [], personalityType: 'The Optimizer' };
+
+  // A broken taxonomy extension fails the run like any other error: logged, no recommendations
+  const taxonomyDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bloom-taxonomy-'));
+  process.env.BLOOM_TAXONOMY_PATH = path.join(taxonomyDir, 'taxonomy.json');
+  fs.writeFileSync(process.env.BLOOM_TAXONOMY_PATH, JSON.stringify({ version: 1, categories: [{ name: 'Crypto', colour: 'blue' }] }));
+  const error = console.error;
+  console.error = () => {};
+  const broken = await refreshRecommendations(identity, { sources: ['clawhub'] }).catch(() => null);
+  console.error = error;
+  delete process.env.BLOOM_TAXONOMY_PATH;
+  fs.rmSync(taxonomyDir, { recursive: true, force: true });
+  record(broken !== null && broken.length === 0, 'invalid taxonomy file → [] instead of a rejected promise');
+
+  let rejections: SkillRejection[] = [];
+  let called = false;
+  const recs = await refreshRecommendations(identity, { sources: ['clawhub'], debug: true, onRejections: r => { rejections = r; } });
+  await refreshRecommendations(identity, { sources: ['clawhub'], onRejections: () => { called = true; } });
+  globalThis.fetch = realFetch;
+
+  const gateOf = (slug: string) => rejections.find(r => r.skillId === slug);
+  record(recs.map(r => r.skillId).join() === 'review-bot', `only the skill that passes every gate is recommended → ${recs.map(r => r.skillId)}`);
+  record(gateOf('tiny-linter')?.gate === 'min-downloads' && gateOf('tiny-linter')?.values?.downloads === 7,
+    `min-downloads with its values → ${gateOf('tiny-linter')?.detail}`);
+  record(gateOf('vague-helper')?.gate === 'min-similarity' && gateOf('vague-helper')?.values?.similarity === 0.3,
+    `min-similarity → ${gateOf('vague-helper')?.detail}`);
+  record(gateOf('ghost-skill')?.gate === 'github-cross-check' && gateOf('ghost-skill')?.creator === 'dave',
+    `github-cross-check → ${gateOf('ghost-skill')?.detail}`);
+  record(gateOf('evil-miner')?.gate === 'malware', 'malware');
+  record(gateOf('no-owner')?.gate === 'owner', 'no owner');
+  record(rejections.every(r => r.source === 'clawhub') && rejections.length === 5,
+    `one record per dropped candidate → ${summarizeRejections(rejections)}`);
+  record(!called, 'no rejection records without the debug flag');
+  record(unsignalled.length === 0, `every ClawHub and GitHub request carries the source's abort signal → ${unsignalled.length} without`);
+
+  // No category to group under: still a record, not a silent drop
+  const { picked, overflow } = groupByCategory(recs, [], 0);
+  const placeless = overflow.find(o => o.skill.skillId === 'review-bot')?.rejection;
+  record(picked.length === 0 && placeless?.gate === 'no-category' && placeless.source === 'pipeline',
+    `candidate no category can hold → ${placeless?.gate ?? 'no record'}`);
+
+  const dropped = diagnoseSkill('https://clawhub.ai/skills/tiny-linter', recs, rejections);
+  record(dropped.rejections.length === 1 && !dropped.recommendation && formatDiagnosis(dropped)[0].includes('min-downloads'),
+    `explain by URL → ${formatDiagnosis(dropped)[0]}`);
+  const shown = diagnoseSkill('Review Bot', recs, rejections);
+  record(shown.rank === 1 && formatDiagnosis(shown)[0].startsWith('✅ Recommended #1'), `explain by slug → ${formatDiagnosis(shown)[0]}`);
+  const mirror = diagnoseSkill('https://github.com/openclaw/skills/tree/main/skills/alice/review-bot', recs, rejections);
+  record(mirror.recommendation?.skillId === 'review-bot', 'GitHub mirror URL finds the ClawHub card');
+  const unknown = diagnoseSkill('never-heard-of-it', recs, rejections);
+  record(!unknown.recommendation && unknown.rejections.length === 0 && formatDiagnosis(unknown)[0].startsWith('❓'),
+    'unknown skill: never returned by a source');
+
+  finish();
+}
+
+main();
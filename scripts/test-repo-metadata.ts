@@ -0,0 +1,198 @@
+/**
+ * Regression test: GitHub repo metadata for awesome-list skills — batched,
+ * cached lookups, trust signals and down-ranking of archived and abandoned
+ * repos (no network: fetch is faked).
+ * Usage: npx ts-node scripts/test-repo-metadata.ts
+ */
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import {
+  RepoMetadata,
+  fetchRepoMetadata,
+  parseGitHubRepoUrl,
+  repoHealth,
+  repoTrustSignals,
+} from '../src/integrations/github-repo-metadata';
+import { withHttpFixtures } from '../src/utils/http-fixtures';
+import { refreshRecommendations } from '../src/recommendation-pipeline';
+import { SkillRejection } from '../src/recommendation-sources';
+import { describeExplanation } from '../src/utils/recommendation-reasons';
+import { computeTrustScore } from '../src/utils/trust-score';
+import { createTestRun } from './harness';
+
+const NOW = Date.now();
+const daysAgo = (days: number) => new Date(NOW - days * 24 * 60 * 60 * 1000).toISOString();
+
+// GitHub as the fake fetch sees it, by lowercase "owner/repo"
+const REPOS: Record<string, { nameWithOwner: string; stargazerCount: number; language: string | null; license: string | null; createdAt: string; pushedAt: string; isArchived: boolean }> = {
+  'acme/live-notes': { nameWithOwner: 'acme/live-notes', stargazerCount: 4200, language: 'TypeScript', license: 'MIT', createdAt: daysAgo(900), pushedAt: daysAgo(5), isArchived: false },
+  'acme/old-notes': { nameWithOwner: 'acme/old-notes', stargazerCount: 9000, language: 'Python', license: 'MIT', createdAt: daysAgo(2000), pushedAt: daysAgo(1200), isArchived: false },
+  'acme/frozen-notes': { nameWithOwner: 'acme/frozen-notes', stargazerCount: 12000, language: 'Go', license: null, createdAt: daysAgo(1500), pushedAt: daysAgo(200), isArchived: true },
+  'acme/monorepo': { nameWithOwner: 'acme/monorepo', stargazerCount: 50000, language: 'Python', license: 'Apache-2.0', createdAt: daysAgo(600), pushedAt: daysAgo(1), isArchived: false },
+};
+
+const calls: { url: string; aliases: number }[] = [];
+
+async function fakeFetch(input: string | URL | Request, init?: RequestInit): Promise<Response> {
+  const url = String(input);
+  if (url === 'https://api.github.com/graphql') {
+    const { query } = JSON.parse(String(init?.body));
+    const aliases = Array.from((query as string).matchAll(/(r\d+): repository\(owner: "([^"]+)", name: "([^"]+)"\)/g));
+    calls.push({ url, aliases: aliases.length });
+    const data: Record<string, unknown> = {};
+    const errors: unknown[] = [];
+    for (const [, alias, owner, name] of aliases) {
+      const repo = REPOS[`${owner}/${name}`];
+      data[alias] = repo ? { ...repo, primaryLanguage: repo.language && { name: repo.language }, licenseInfo: repo.license && { spdxId: repo.license, name: repo.license } } : null;
+      if (!repo) errors.push({ type: 'NOT_FOUND', path: [alias] });
+    }
+    return new Response(JSON.stringify({ data, errors }), { status: 200 });
+  }
+
+  const rest = url.match(/^https:\/\/api\.github\.com\/repos\/([^/]+\/[^/?]+)$/);
+  if (rest) {
+    calls.push({ url, aliases: 1 });
+    const repo = REPOS[rest[1]];
+    if (!repo) return new Response('{"message":"Not Found"}', { status: 404 });
+    return new Response(JSON.stringify({
+      full_name: repo.nameWithOwner, stargazers_count: repo.stargazerCount, language: repo.language,
+      license: repo.license && { spdx_id: repo.license, name: repo.license }, created_at: repo.createdAt, pushed_at: repo.pushedAt, archived: repo.isArchived,
+    }), { status: 200, headers: { 'content-type': 'application/json' } });
+  }
+  return new Response(null, { status: 404 });
+}
+
+async function main() {
+  const { record, finish } = createTestRun();
+
+  // Links to repos
+  const links = [
+    'https://github.com/acme/live-notes',
+    'https://github.com/acme/monorepo/tree/main/skills/pdf',
+    'https://github.com/acme/live-notes/blob/main/README.md',
+    'https://raw.githubusercontent.com/acme/monorepo/main/skills/pdf/SKILL.md',
+    'https://github.com/topics/claude',
+    'https://example.com/acme/live-notes',
+  ].map(parseGitHubRepoUrl);
+  record(links[0]?.repo === 'acme/live-notes' && !links[0].inRepo && links[1]?.repo === 'acme/monorepo' && links[1].inRepo &&
+    links[2]?.inRepo === false && links[3]?.inRepo === true && links[4] === null && links[5] === null,
+    'repo links, monorepo folders, READMEs, raw files, site pages and other hosts');
+
+  const meta = (repo: string): RepoMetadata => {
+    const r = REPOS[repo];
+    return { fullName: r.nameWithOwner, stars: r.stargazerCount, language: r.language, license: r.license, createdAt: r.createdAt, pushedAt: r.pushedAt, archived: r.isArchived };
+  };
+  record(repoHealth(meta('acme/live-notes')) === 'active' && repoHealth(meta('acme/old-notes')) === 'abandoned' &&
+    repoHealth(meta('acme/frozen-notes')) === 'archived', 'active, abandoned (no push in two years) and archived');
+  record(repoTrustSignals(meta('acme/monorepo'), true).stars === undefined && repoTrustSignals(meta('acme/monorepo'), false).stars === 50000,
+    'a folder in a monorepo does not inherit its stars');
+  const frozen = computeTrustScore(repoTrustSignals(meta('acme/frozen-notes'), false));
+  record(frozen.factors.some(f => f.signal === 'archived' && f.points === -20) && frozen.factors.some(f => f.signal === 'license' && f.points < 0),
+    `archived repo, no license → trust ${frozen.score}`);
+
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bloom-repo-meta-'));
+  process.env.BLOOM_REPO_METADATA_CACHE = path.join(dir, 'repo-metadata.json');
+  process.env.BLOOM_HTTP_CACHE_DIR = path.join(dir, 'http');
+  const realFetch = globalThis.fetch;
+  globalThis.fetch = fakeFetch as typeof fetch;
+
+  // GraphQL batches with a token
+  const many = [...Object.keys(REPOS), 'acme/gone', ...Array.from({ length: 55 }, (_, i) => `filler/repo-${i}`)];
+  const batched = await fetchRepoMetadata(many, 'test-token');
+  record(calls.length === 2 && calls[0].aliases === 50 && calls[1].aliases === 10,
+    `${many.length} repos in ${calls.length} GraphQL queries (${calls.map(c => c.aliases).join(' + ')})`);
+  record(batched.get('acme/live-notes')?.stars === 4200 && batched.get('acme/gone') === null && batched.size === many.length,
+    'metadata for found repos, null for missing ones');
+
+  calls.length = 0;
+  const again = await fetchRepoMetadata(['ACME/Live-Notes', 'acme/gone'], 'test-token');
+  record(calls.length === 0 && again.get('acme/live-notes')?.language === 'TypeScript' && again.get('acme/gone') === null,
+    'per-repo cache answers the next batch, missing repos included');
+
+  // REST without a token, through the HTTP cache
+  fs.rmSync(process.env.BLOOM_REPO_METADATA_CACHE, { force: true });
+  calls.length = 0;
+  const rest = await fetchRepoMetadata(['acme/old-notes', 'acme/gone'], '');
+  record(calls.length === 2 && calls.every(c => c.url.startsWith('https://api.github.com/repos/')) &&
+    rest.get('acme/old-notes')?.pushedAt === REPOS['acme/old-notes'].pushedAt && rest.get('acme/gone') === null,
+    'without a token: one REST call per repo, 404 means missing');
+
+  process.env.BLOOM_OFFLINE = '1';
+  calls.length = 0;
+  const offline = await fetchRepoMetadata(['acme/old-notes', 'acme/frozen-notes'], 'test-token');
+  record(calls.length === 0 && offline.has('acme/old-notes') && !offline.has('acme/frozen-notes'), 'offline: cached repos only, nothing fetched');
+  delete process.env.BLOOM_OFFLINE;
+
+  // Record/replay bypasses the per-repo cache: the recording holds a lookup the
+  // cache could have answered, and the replay ignores a cache that disagrees
+  const bundle = path.join(dir, 'fixture.json');
+  const cacheBefore = fs.readFileSync(process.env.BLOOM_REPO_METADATA_CACHE, 'utf-8');
+  const log = console.log;
+  console.log = () => {};
+  calls.length = 0;
+  await withHttpFixtures('record', bundle, () => fetchRepoMetadata(['acme/old-notes'], 'test-token'));
+  const stale = JSON.parse(cacheBefore);
+  stale.repos['acme/old-notes'].metadata.stars = 1;
+  fs.writeFileSync(process.env.BLOOM_REPO_METADATA_CACHE, JSON.stringify(stale));
+  const replayed = await withHttpFixtures('replay', bundle, () => fetchRepoMetadata(['acme/old-notes'], 'test-token'));
+  console.log = log;
+  record(calls.length === 1 && replayed.get('acme/old-notes')?.stars === 9000,
+    `fixture session: recorded ${calls.length} lookup for a cached repo, replay ignores the cache → ${replayed.get('acme/old-notes')?.stars} stars`);
+  record(JSON.parse(fs.readFileSync(process.env.BLOOM_REPO_METADATA_CACHE, 'utf-8')).repos['acme/old-notes'].metadata.stars === 1,
+    'fixture session leaves the cache file alone');
+  fs.writeFileSync(process.env.BLOOM_REPO_METADATA_CACHE, cacheBefore);
+
+  // Pipeline: enriched claude-code candidates, archived and abandoned repos sink
+  fs.writeFileSync(path.join(dir, 'notes.md'), [
+    '## Notes',
+    '',
+    '- [Frozen Notes](https://github.com/acme/frozen-notes) - Productivity notes for your daily planning.',
+    '- [Old Notes](https://github.com/acme/old-notes) - Productivity notes for your daily planning.',
+    '- [Live Notes](https://github.com/acme/live-notes) - Productivity notes for your daily planning.',
+    '- [PDF Notes](https://github.com/acme/monorepo/tree/main/skills/pdf) - Productivity notes for your daily planning.',
+    '',
+  ].join('\n'));
+  fs.writeFileSync(path.join(dir, 'lists.yaml'), `defaults: false\nlists:\n  - id: notes\n    url: ${pathToFileURL(path.join(dir, 'notes.md')).href}\n`);
+  process.env.BLOOM_SKILL_LISTS_PATH = path.join(dir, 'lists.yaml');
+  process.env.GITHUB_TOKEN = 'test-token';
+
+  const identity = { mainCategories: ['Productivity'], subCategories: [], personalityType: 'The Optimizer' };
+  let rejections: SkillRejection[] = [];
+  const recs = await refreshRecommendations(identity, {
+    sources: ['claude-code'], explorationSlots: 0, diversity: 0, feedbackLog: false, debug: true, onRejections: r => { rejections = r; },
+  });
+  // Low intuition favours established repos (over 5000 stars) — only the repo's own stars count
+  const cautious = await refreshRecommendations({ ...identity, dimensions: { conviction: 50, intuition: 20, contribution: 50 } }, {
+    sources: ['claude-code'], explorationSlots: 0, diversity: 0, feedbackLog: false,
+  });
+  globalThis.fetch = realFetch;
+
+  const byName = (name: string) => recs.find(r => r.skillName === name);
+  const order = recs.map(r => r.skillName);
+  record(order.indexOf('Live Notes') === 0 && order.at(-1) === 'Old Notes' &&
+    rejections.some(r => r.skillName === 'Frozen Notes' && r.gate === 'category-slots'),
+    `archived and abandoned repos are down-ranked → ${order.join(', ')}; Frozen Notes lost its slot`);
+  const live = byName('Live Notes');
+  record(live?.stars === 4200 && live.language === 'TypeScript' && live.trust?.factors.some(f => f.signal === 'stars') === true &&
+    live.trust.factors.some(f => f.signal === 'license') && live.trust.factors.some(f => f.signal === 'last-commit' && f.points > 0),
+    `stars, language, license and last push feed the trust score → trust ${live?.trust?.score}`);
+  const lines = describeExplanation(byName('Old Notes')?.explanation ?? { interests: [], traction: {}, adjustments: [] });
+  record(lines.some(l => l.includes('repo is abandoned')) && byName('Old Notes')!.trust!.factors.some(f => f.signal === 'last-commit' && f.points < 0),
+    `the card says why → "${lines.find(l => l.includes('abandoned'))}"`);
+  const scoreOf = (list: typeof recs, name: string) => list.find(r => r.skillName === name)?.matchScore;
+  record(scoreOf(cautious, 'Old Notes')! > scoreOf(recs, 'Old Notes')! && scoreOf(cautious, 'Live Notes') === scoreOf(recs, 'Live Notes') &&
+    scoreOf(cautious, 'PDF Notes') === scoreOf(recs, 'PDF Notes'),
+    `repo stars reach the personality boost → Old Notes ${scoreOf(recs, 'Old Notes')} → ${scoreOf(cautious, 'Old Notes')}`);
+  record(byName('PDF Notes')?.stars === undefined && byName('PDF Notes')?.trust?.factors.some(f => f.signal === 'license') === true,
+    'monorepo folder: license and activity, not the monorepo\'s stars');
+
+  delete process.env.GITHUB_TOKEN;
+  delete process.env.BLOOM_SKILL_LISTS_PATH;
+  fs.rmSync(dir, { recursive: true, force: true });
+
+  finish();
+}
+
+main();
@@ -0,0 +1,106 @@
+/**
+ * Regression test: canonical skill identity and near-duplicate merging (no network).
+ * Usage: npx ts-node scripts/test-skill-identity.ts
+ */
+import { refreshRecommendations } from '../src/recommendation-pipeline';
+import { SourceCandidate, registerRecommendationSource } from '../src/recommendation-sources';
+import {
+  IdentityCandidate,
+  canonicalSkillKey,
+  mergeDuplicateSkills,
+  normalizeSlug,
+  resolveSkillIdentities,
+} from '../src/utils/skill-identity';
+import { createTestRun } from './harness';
+
+function rec(skillId: string, url: string, description: string, extra: Partial<IdentityCandidate> = {}): IdentityCandidate {
+  return { skillId, skillName: skillId, url, description, ...extra };
+}
+
+async function main() {
+  const { record, finish } = createTestRun();
+
+  const keyCases: [Pick<IdentityCandidate, 'url' | 'creator'>, string][] = [
+    [{ url: 'https://github.com/Alice/Skills/tree/main/pdf-tools' }, 'github:alice/skills/pdf-tools'],
+    [{ url: 'https://github.com/alice/skills/blob/main/pdf-tools/SKILL.md' }, 'github:alice/skills/pdf-tools'],
+    [{ url: 'https://raw.githubusercontent.com/alice/skills/main/pdf-tools/SKILL.md' }, 'github:alice/skills/pdf-tools'],
+    [{ url: 'https://github.com/alice/pdf-tools/' }, 'github:alice/pdf-tools'],
+    [{ url: 'https://clawhub.ai/skills/pdf-tools', creator: 'Alice' }, 'github:openclaw/skills/skills/alice/pdf-tools'],
+    [{ url: 'https://clawhub.ai/skills/pdf-tools' }, 'clawhub:pdf-tools'],
+    [{ url: 'https://www.Example.com/pdf?ref=list' }, 'url:example.com/pdf'],
+  ];
+  for (const [input, expected] of keyCases) {
+    const key = canonicalSkillKey(input);
+    record(key === expected, `canonicalSkillKey(${input.url}${input.creator ? `, ${input.creator}` : ''}) → ${key}`);
+  }
+
+  const slugs = ['Claude PDF Tools', 'pdf-tools-skill', 'PDF_Tools'].map(normalizeSlug);
+  record(slugs.every(s => s === 'pdf-tools'), `normalizeSlug → ${slugs.join(', ')}`);
+
+  const clawhub = rec('pdf-tools', 'https://clawhub.ai/skills/pdf-tools', 'Extract text and tables from PDF files', { creator: 'alice' });
+  const mirror = rec('https://github.com/openclaw/skills/tree/main/skills/alice/pdf-tools',
+    'https://github.com/openclaw/skills/tree/main/skills/alice/pdf-tools', 'PDF text and table extraction');
+  const authorRepo = rec('https://github.com/alice/claude-pdf-tools-skill', 'https://github.com/alice/claude-pdf-tools-skill',
+    'Extract tables and text from PDFs with Claude', { skillName: 'PDF Tools' });
+  const otherAuthor = rec('pdf-tools', 'https://clawhub.ai/skills/pdf-tools-2', 'Extract text and tables from PDF files', { creator: 'mallory' });
+  const unrelated = rec('git-hooks', 'https://clawhub.ai/skills/git-hooks', 'Run lint in pre-commit hooks', { creator: 'alice' });
+  const sameText = rec('pdf-text-tables', 'https://example.com/pdf-text-tables', 'Extract text and tables from PDF files');
+
+  const ids = resolveSkillIdentities([clawhub, mirror, authorRepo, otherAuthor, unrelated, sameText]);
+  record(ids.get(clawhub) === ids.get(mirror), 'ClawHub URL + creator = openclaw/skills tree URL');
+  record(ids.get(clawhub) === ids.get(authorRepo), 'normalized slug + overlapping description → same skill');
+  record(ids.get(clawhub)!.startsWith('github:'),
+    `merged group keeps a GitHub key → ${ids.get(clawhub)}`);
+  record(ids.get(otherAuthor) !== ids.get(clawhub), 'same slug, different creators → kept apart');
+  record(ids.get(unrelated) !== ids.get(clawhub), 'unrelated skill → own identity');
+  record(ids.get(sameText) === ids.get(clawhub), 'near-identical description, no creator → merged');
+
+  const reversed = resolveSkillIdentities([sameText, unrelated, otherAuthor, authorRepo, mirror, clawhub]);
+  record(reversed.get(clawhub) === ids.get(clawhub), 'canonical key independent of input order');
+
+  const merged = mergeDuplicateSkills('github:alice/pdf-tools', { ...clawhub, matchScore: 80, downloads: 1200 }, [
+    { source: 'clawhub', item: { ...clawhub, matchScore: 80, downloads: 1200 } },
+    { source: 'claude-code', item: { ...authorRepo, matchScore: 60, lists: ['travisvn/awesome-claude-skills'] } },
+    { source: 'github', item: { ...authorRepo, matchScore: 55, stars: 340 } },
+  ]);
+  record(merged.provenance?.length === 3 && merged.provenance.map(p => p.source).join() === 'clawhub,claude-code,github',
+    'provenance from every source');
+  record(merged.downloads === 1200 && merged.stars === 340 && merged.lists?.join() === 'travisvn/awesome-claude-skills',
+    `traction merged → ${merged.downloads} downloads, ${merged.stars} stars, lists ${merged.lists}`);
+  record(merged.url === clawhub.url && merged.canonicalId === 'github:alice/pdf-tools', 'primary entry kept, canonicalId set');
+
+  // Pipeline: the same skill from a registry and an awesome-list becomes one card
+  const candidate = (id: string, url: string, rawScore: number, extra: Partial<SourceCandidate> = {}): SourceCandidate => ({
+    skillId: id, skillName: id, description: 'Extract text and tables from PDF files for developers', url,
+    categories: ['Development'], rawScore, source: 'Test', ...extra,
+  });
+  registerRecommendationSource({
+    name: 'registry',
+    capabilities: { network: false, languageFilter: true, personalityScoring: true, securityScan: false },
+    fetchCandidates: async () => [candidate('pdf-tools', 'https://clawhub.ai/skills/pdf-tools', 70, { creator: 'alice', downloads: 900 })],
+    normalizeScore: raw => raw,
+  });
+  registerRecommendationSource({
+    name: 'awesome',
+    capabilities: { network: false, languageFilter: true, personalityScoring: true, securityScan: false },
+    fetchCandidates: async () => [
+      candidate('https://github.com/openclaw/skills/tree/main/skills/alice/pdf-tools',
+        'https://github.com/openclaw/skills/tree/main/skills/alice/pdf-tools', 90, { lists: ['VoltAgent/awesome-openclaw-skills'] }),
+    ],
+    normalizeScore: raw => raw,
+  });
+
+  const recs = await refreshRecommendations(
+    { mainCategories: ['Development'], subCategories: [], personalityType: 'The Optimizer' },
+    { sources: ['registry', 'awesome'] },
+  );
+  const card = recs[0];
+  record(recs.length === 1, `pipeline: one card for two sources → ${recs.length}`);
+  record(card?.matchScore === 90 && card.downloads === 900 && card.lists?.[0] === 'VoltAgent/awesome-openclaw-skills' &&
+    card.provenance?.map(p => p.source).sort().join() === 'awesome,registry',
+    'pipeline: best entry kept with provenance, downloads and list membership');
+
+  finish();
+}
+
+main();
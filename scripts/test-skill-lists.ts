@@ -0,0 +1,151 @@
+/**
+ * Regression test: configurable skill lists — GitHub at a ref, raw URLs,
+ * local file:// markdown and JSON, trust levels (no network).
+ * Usage: npx ts-node scripts/test-skill-lists.ts
+ */
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { refreshRecommendations } from '../src/recommendation-pipeline';
+import { parseAwesomeList, parseSkillListJson } from '../src/parsers/awesome-list-parser';
+import { validateSkillListsConfig } from '../src/parsers/skill-lists-parser';
+import { getSkillLists, mergeSkillListsConfigs, toAwesomeListAdapter } from '../src/utils/skill-lists';
+import { computeTrustScore } from '../src/utils/trust-score';
+import { createTestRun } from './harness';
+
+const TEAM_LIST = `# Team Skills
+
+## Writing
+
+- [Release Notes](https://github.com/team/release-notes) - Productivity helper that drafts release notes from merged PRs.
+- [Style Guide](./style-guide) - Productivity check of docs against the house style guide.
+
+## Sailing
+
+- [Tide Tables](https://github.com/team/tide-tables) - Almanac of coastal harbour tides for weekend sailors.
+`;
+
+const TEAM_JSON = JSON.stringify({
+  skills: [
+    { name: 'Doc Writer', url: 'https://github.com/team/doc-writer', description: 'Productivity assistant for design docs', categories: ['Writing', 'Docs'], author: 'dana' },
+    { name: 'No Link', description: 'Missing its url' },
+    { name: 'Doc Writer again', url: 'https://github.com/team/doc-writer', description: 'Duplicate' },
+  ],
+});
+
+async function main() {
+  const { record, finish } = createTestRun();
+
+  // Validation
+  const errors = validateSkillListsConfig({
+    lists: [
+      { id: 'both', github: 'a/b', url: 'https://x.y/list.md' },
+      { id: 'bad-repo', github: 'not a repo' },
+      { id: 'relative', url: 'lists/team.md' },
+      { id: 'ftp', url: 'ftp://x.y/list.md' },
+      { id: 'nowhere', trust: 'gold' },
+      { id: 'ref-on-url', url: 'https://x.y/list.md', ref: 'main' },
+      { id: 'adapter', github: 'a/b', adapter: { titleDepth: 9, skipSections: '(', extra: 1 } },
+      { id: 'both', github: 'c/d' },
+    ],
+  });
+  const expected = ['not both', '"owner/repo"', 'absolute file://', 'http(s):// or file://', 'needs a "github"', '"trust" must be',
+    'only applies to github', 'titleDepth', 'invalid "adapter.skipSections"', 'unknown adapter field', 'duplicate id'];
+  record(expected.every(e => errors.some(err => err.includes(e))), `every problem reported (${errors.length})`);
+  record(validateSkillListsConfig({ lists: [{ id: 'tonysurfly/awesome-claude', enabled: false }] }, false).length === 0,
+    'an extension may name a list by id alone');
+
+  // Merging with the defaults
+  const defaults = { lists: [{ id: 'a/list', github: 'a/list', trust: 'community' as const }, { id: 'b/list', github: 'b/list' }] };
+  const merged = mergeSkillListsConfigs(defaults, {
+    lists: [{ id: 'a/list', trust: 'untrusted', ref: 'v1.0' }, { id: 'b/list', enabled: false }, { id: 'team', url: 'file:///srv/team.md' }],
+  });
+  record(merged.lists.length === 3 && merged.lists[0].github === 'a/list' && merged.lists[0].trust === 'untrusted' && merged.lists[0].ref === 'v1.0',
+    'same id overrides only the given fields');
+  const moved = mergeSkillListsConfigs(
+    { lists: [{ id: 'a/list', github: 'a/list', ref: 'main', path: 'docs/LIST.md', trust: 'trusted' as const }, { id: 'team', url: 'file:///srv/team.md' }] },
+    { lists: [{ id: 'a/list', url: 'https://mirror.example.com/a-list.md' }, { id: 'team', github: 'team/list' }] },
+  );
+  record(JSON.stringify(moved.lists) === JSON.stringify([
+    { id: 'a/list', trust: 'trusted', url: 'https://mirror.example.com/a-list.md' },
+    { id: 'team', github: 'team/list' },
+  ]) && validateSkillListsConfig(moved).length === 0, 'an override with github or url replaces the whole location');
+  record(mergeSkillListsConfigs(defaults, { defaults: false, lists: [{ id: 'team', url: 'file:///srv/team.md' }] }).lists.length === 1,
+    'defaults: false drops the built-in lists');
+
+  // Link resolution per source
+  const pinned = parseAwesomeList('## Tools\n\n- [Runner](../tools/runner) - Runs things.\n', {
+    owner: 'acme', repo: 'lists', ref: 'v2.1.0', path: 'docs/README.md',
+  });
+  record(pinned.entries[0]?.url === 'https://github.com/acme/lists/tree/v2.1.0/tools/runner',
+    `GitHub list at a pinned ref, relative to its file → ${pinned.entries[0]?.url}`);
+  const raw = parseAwesomeList('- [Runner](runner.md) - Runs things.\n', { baseUrl: 'https://lists.example.com/team/skills.md', name: 'team' });
+  record(raw.entries[0]?.url === 'https://lists.example.com/team/runner.md' && raw.report.list === 'team',
+    `raw URL list resolves next to the document → ${raw.entries[0]?.url}`);
+
+  const json = parseSkillListJson(TEAM_JSON, { baseUrl: 'file:///srv/team.json', name: 'team-json' });
+  record(json.entries.length === 1 && json.entries[0].categoryPath.join('/') === 'Writing/Docs' && json.entries[0].author === 'dana' &&
+    json.report.skipped['no-link'] === 1 && json.report.skipped.duplicate === 1, 'JSON list: entries, categories, author and yield report');
+  let threw = false;
+  try { parseSkillListJson('{"lists": 1}', { baseUrl: 'file:///x.json', name: 'x' }); } catch { threw = true; }
+  record(threw, 'JSON that is not a list throws');
+
+  const adapter = toAwesomeListAdapter({ linkPattern: '^https://github\\.com/team/', skipSections: '^writing' });
+  record(adapter.acceptLink?.('https://github.com/team/x') === true && adapter.acceptLink?.('https://x.y') === false &&
+    adapter.skipSections?.test('Writing') === true, 'adapter settings become parser options');
+
+  // Local lists through the pipeline
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bloom-lists-'));
+  fs.writeFileSync(path.join(dir, 'team.md'), TEAM_LIST);
+  fs.writeFileSync(path.join(dir, 'team.json'), TEAM_JSON);
+  const configPath = path.join(dir, 'lists.yaml');
+  fs.writeFileSync(configPath, [
+    'defaults: false',
+    'lists:',
+    '  - id: team-md',
+    `    url: ${pathToFileURL(path.join(dir, 'team.md')).href}`,
+    '    trust: trusted',
+    '  - id: team-json',
+    `    url: ${pathToFileURL(path.join(dir, 'team.json')).href}`,
+    '    trust: untrusted',
+    '',
+  ].join('\n'));
+  process.env.BLOOM_SKILL_LISTS_PATH = configPath;
+  process.env.BLOOM_REPO_METADATA = 'off'; // Covered by test-repo-metadata; keep this run off the network
+
+  const lists = getSkillLists();
+  record(lists.map(l => `${l.id}:${l.format}:${l.trust}`).join() === 'team-md:markdown:trusted,team-json:json:untrusted',
+    `config file replaces the defaults → ${lists.map(l => l.id).join(', ')}`);
+
+  const identity = { mainCategories: ['Productivity'], subCategories: [], personalityType: 'The Optimizer' };
+  const recs = await refreshRecommendations(identity, { sources: ['claude-code'], explorationSlots: 0, feedbackLog: false });
+  const notes = recs.find(r => r.skillName === 'Release Notes');
+  const style = recs.find(r => r.skillName === 'Style Guide');
+  const doc = recs.find(r => r.skillName === 'Doc Writer');
+  record(notes?.trust?.factors.some(f => f.signal === 'list-trust' && f.points > 0) === true && notes.lists?.includes('team-md') === true,
+    `file:// markdown list, trusted → trust ${notes?.trust?.score}`);
+  record(!recs.some(r => r.skillName === 'Tide Tables'), 'a trusted list does not make an off-topic entry a match');
+  record(style?.url === pathToFileURL(path.join(dir, 'style-guide')).href, `relative links in a local list stay local → ${style?.url}`);
+  record(doc?.trust?.factors.some(f => f.signal === 'list-trust' && f.points < 0) === true, `file:// JSON list, untrusted → trust ${doc?.trust?.score}`);
+
+  record(computeTrustScore({ listTrust: 'trusted' }).score === 55 && computeTrustScore({ listTrust: 'community' }).score === 40,
+    'trusted lists raise trust, community lists leave it alone');
+
+  // A default GitHub list pointed at a mirror keeps every other list
+  const mirrorPath = path.join(dir, 'mirror.yaml');
+  fs.writeFileSync(mirrorPath, 'lists:\n  - id: anthropics/skills\n    url: https://mirror.example.com/skills.md\n');
+  process.env.BLOOM_SKILL_LISTS_PATH = mirrorPath;
+  const mirrored = getSkillLists();
+  const official = mirrored.find(l => l.id === 'anthropics/skills');
+  record(mirrored.length > 1 && official?.url === 'https://mirror.example.com/skills.md' && official.github === undefined && official.trust === 'official',
+    `default list moved to a url → ${mirrored.length} lists, ${official?.url}`);
+
+  delete process.env.BLOOM_SKILL_LISTS_PATH;
+  record(getSkillLists().some(l => l.id === 'anthropics/skills' && l.trust === 'official'), 'without a config file the defaults apply');
+  fs.rmSync(dir, { recursive: true, force: true });
+
+  finish();
+}
+
+main();
@@ -0,0 +1,152 @@
+/**
+ * Regression test: trust score from provenance signals, creator history across
+ * runs, and the minimum trust threshold (no network).
+ * Usage: npx ts-node scripts/test-trust-score.ts
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { refreshRecommendations } from '../src/recommendation-pipeline';
+import { SkillRejection, SourceCandidate, registerRecommendationSource } from '../src/recommendation-sources';
+import { HISTORY_TTL_DAYS, createCreatorHistory } from '../src/utils/creator-history';
+import { computeTrustScore, formatTrust, mergeTrustSignals } from '../src/utils/trust-score';
+import { createTestRun } from './harness';
+
+const NOW = Date.parse('2026-06-01T00:00:00Z');
+const daysAgo = (days: number) => new Date(NOW - days * 24 * 60 * 60 * 1000).toISOString();
+
+async function main() {
+  const { record, finish } = createTestRun();
+
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bloom-trust-'));
+  process.env.BLOOM_CREATOR_HISTORY_CACHE = path.join(dir, 'creator-history.json');
+
+  const unknown = computeTrustScore({}, NOW);
+  record(unknown.score === 40 && unknown.factors.length === 1, `no signals → base score only (${unknown.score})`);
+
+  const established = computeTrustScore({
+    stars: 12000, license: 'MIT', repoCreatedAt: daysAgo(800), lastCommitAt: daysAgo(10),
+  }, NOW);
+  record(established.score === 40 + 15 + 5 + 10 + 10, `established GitHub repo → ${formatTrust(established)}`);
+
+  const official = computeTrustScore({ official: true }, NOW);
+  record(official.score === 65 && official.factors.some(f => f.signal === 'official'), `official listing → ${official.score}`);
+
+  const clawHub = computeTrustScore({
+    moderation: { isSuspicious: false, isMalwareBlocked: false }, verifiedOnGitHub: true, downloads: 1500, registryStars: 9, riskLevel: 'low',
+  }, NOW);
+  record(clawHub.score === 40 + 10 + 16 + 5 + 10, `verified ClawHub skill with traction → ${formatTrust(clawHub)}`);
+
+  const risky = computeTrustScore({ moderation: { isSuspicious: true, isMalwareBlocked: false }, downloads: 300, riskLevel: 'medium' }, NOW);
+  record(risky.score === 40 - 25 + 12 - 10, `suspicious + medium risk → ${formatTrust(risky)}`);
+  record(computeTrustScore({ moderation: { isSuspicious: false, isMalwareBlocked: true }, official: true }, NOW).score === 0, 'malware is 0 regardless');
+
+  const abandoned = computeTrustScore({ license: null, repoCreatedAt: daysAgo(10), lastCommitAt: daysAgo(1000) }, NOW);
+  record(abandoned.factors.map(f => f.signal).join() === 'base,license,repo-age,last-commit' && abandoned.score === 40 - 5 - 5 - 10,
+    `no license, brand-new repo, stale commits → ${formatTrust(abandoned)}`);
+
+  record(computeTrustScore({ creatorFlagged: 1 }, NOW).score === 25 && computeTrustScore({ creatorFlagged: 0 }, NOW).score === 40,
+    'creator flags cost points; a clean creator earns nothing');
+
+  const merged = mergeTrustSignals([
+    { moderation: { isSuspicious: true, isMalwareBlocked: false }, downloads: 50, riskLevel: 'low' },
+    { stars: 800, license: null, repoCreatedAt: daysAgo(100), lastCommitAt: daysAgo(300) },
+    { stars: 200, license: 'Apache-2.0', repoCreatedAt: daysAgo(400), lastCommitAt: daysAgo(5), riskLevel: 'medium' },
+    undefined,
+  ]);
+  record(merged?.moderation?.isSuspicious === true && merged.stars === 800 && merged.license === 'Apache-2.0' &&
+    merged.riskLevel === 'medium' && merged.repoCreatedAt === daysAgo(400) && merged.lastCommitAt === daysAgo(5),
+    'merge keeps the worst flags and scan, the most traction, a known license, the oldest repo and the latest commit');
+
+  // Pipeline: trust on every card, threshold drops low-trust skills but not installed ones
+  const candidate = (id: string, extra: Partial<SourceCandidate>): SourceCandidate => ({
+    skillId: id, skillName: id, description: `Design helper ${id} for everyday work`, url: `https://github.com/acme/${id}`,
+    categories: ['Design'], rawScore: 80, source: 'Test', ...extra,
+  });
+  registerRecommendationSource({
+    name: 'trust-test',
+    capabilities: { network: false, languageFilter: true, personalityScoring: true, securityScan: false },
+    fetchCandidates: async () => [
+      candidate('figma-kit', { trustSignals: { official: true } }),
+      candidate('sketchy', { trustSignals: { moderation: { isSuspicious: true, isMalwareBlocked: false } } }),
+      candidate('my-palette', { installed: true }),
+    ],
+    normalizeScore: raw => raw,
+  });
+  registerRecommendationSource({
+    name: 'trust-test-mirror',
+    capabilities: { network: false, languageFilter: true, personalityScoring: true, securityScan: false },
+    fetchCandidates: async () => [candidate('figma-kit', { trustSignals: { stars: 5000, license: 'MIT' }, source: 'Mirror' })],
+    normalizeScore: raw => raw,
+  });
+  const identity = { mainCategories: ['Design'], subCategories: [], personalityType: 'The Optimizer' };
+  let rejections: SkillRejection[] = [];
+  const recs = await refreshRecommendations(identity, {
+    sources: ['trust-test', 'trust-test-mirror'], minTrust: 50, explorationSlots: 0, feedbackLog: false,
+    debug: true, onRejections: r => { rejections = r; },
+  });
+  const figma = recs.find(r => r.skillId === 'figma-kit');
+  record(figma?.trust?.factors.some(f => f.signal === 'official') === true && figma.trust.factors.some(f => f.signal === 'license'),
+    `duplicates pool their signals → ${figma && formatTrust(figma.trust!)}`);
+  record(!recs.some(r => r.skillId === 'sketchy') && rejections.some(r => r.skillId === 'sketchy' && r.gate === 'min-trust' && r.values?.minTrust === 50),
+    `minTrust drops low-trust skills with a rejection record → ${rejections.find(r => r.gate === 'min-trust')?.detail}`);
+  record(recs.some(r => r.skillId === 'my-palette' && r.trust?.score === 40), 'installed skills are kept below the threshold');
+
+  // Creator flags: a sibling dropped by the suspicious gate still counts; volume alone earns nothing
+  registerRecommendationSource({
+    name: 'trust-test-creators',
+    capabilities: { network: false, languageFilter: true, personalityScoring: true, securityScan: false },
+    fetchCandidates: async (_identity, { reject }) => {
+      reject({ skillId: 'mallory-drainer', skillName: 'mallory-drainer', url: 'https://clawhub.ai/skills/mallory-drainer', creator: 'Mallory', gate: 'suspicious', detail: 'suspicious + low downloads (3)' });
+      return [
+        candidate('mallory-colors', { creator: 'mallory' }),
+        ...['a', 'b', 'c', 'd'].map(id => candidate(`prolific-${id}`, { creator: 'prolific' })),
+      ];
+    },
+    normalizeScore: raw => raw,
+  });
+  const byCreator = await refreshRecommendations(identity, { sources: ['trust-test-creators'], explorationSlots: 0, feedbackLog: false });
+  const mallory = byCreator.find(r => r.skillId === 'mallory-colors')?.trust;
+  record(mallory?.score === 25 && mallory.factors.some(f => f.signal === 'creator-flags'),
+    `creator's rejected suspicious skill counts against their others → ${mallory && formatTrust(mallory)}`);
+  record(byCreator.filter(r => r.skillId.startsWith('prolific-')).every(r => r.trust?.score === 40),
+    'many skills by one creator earn no bonus');
+
+  // Creator history: the flag outlives the search that saw it, until ClawHub clears the skill
+  let drainer: SourceCandidate | undefined;
+  registerRecommendationSource({
+    name: 'trust-test-later',
+    capabilities: { network: false, languageFilter: true, personalityScoring: true, securityScan: false },
+    fetchCandidates: async () => [candidate('mallory-colors', { creator: 'mallory' }), ...(drainer ? [drainer] : [])],
+    normalizeScore: raw => raw,
+  });
+  const colorsTrust = async () => (await refreshRecommendations(identity, { sources: ['trust-test-later'], explorationSlots: 0, feedbackLog: false }))
+    .find(r => r.skillId === 'mallory-colors')?.trust;
+  const later = await colorsTrust();
+  record(later?.score === 25 && later.factors.some(f => f.signal === 'creator-flags'),
+    `a later search without the flagged skill still counts it → ${later && formatTrust(later)}`);
+  drainer = candidate('mallory-drainer', { creator: 'Mallory', trustSignals: { moderation: { isSuspicious: false, isMalwareBlocked: false } } });
+  const cleared = await colorsTrust();
+  drainer = undefined;
+  record(cleared?.score === 40 && (await colorsTrust())?.score === 40, 'once ClawHub clears the skill, it stops counting');
+
+  const history = createCreatorHistory();
+  history.record('eve', 'old-flag', true, NOW - (HISTORY_TTL_DAYS + 1) * 24 * 60 * 60 * 1000);
+  history.record('eve', 'new-flag', true, NOW);
+  history.save(NOW);
+  record(createCreatorHistory().flaggedSkills('Eve').join() === 'new-flag', `skills not seen for ${HISTORY_TTL_DAYS} days are forgotten`);
+
+  process.env.BLOOM_HTTP_CACHE = 'off';
+  record(createCreatorHistory().flaggedSkills('eve').length === 0, 'BLOOM_HTTP_CACHE=off: history not read');
+  delete process.env.BLOOM_HTTP_CACHE;
+
+  const open = await refreshRecommendations(identity, { sources: ['trust-test'], explorationSlots: 0, feedbackLog: false });
+  record(open.some(r => r.skillId === 'sketchy'), 'no threshold by default');
+
+  delete process.env.BLOOM_CREATOR_HISTORY_CACHE;
+  fs.rmSync(dir, { recursive: true, force: true });
+
+  finish();
+}
+
+main();
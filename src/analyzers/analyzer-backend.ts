@@ -0,0 +1,105 @@
+/**
+ * Analyzer Backend
+ *
+ * Contract for the scoring engines behind PersonalityAnalyzer, plus the text
+ * helpers every backend shares. A backend turns UserData into conviction and
+ * intuition scores (with evidence), detected categories and interests;
+ * the analyzer keeps classification, taglines and descriptions.
+ *
+ * Backends:
+ * - keyword: hand-tuned keyword counting (default)
+ * - bayes:   naive Bayes classifier trained on labelled transcripts, fully local
+ */
+
+import type { UserData, DimensionEvidence } from './personality-analyzer';
+import type { PersonalityType } from '../types/personality';
+
+export interface ScoredDimension {
+  base: number;
+  score: number;
+  evidence: DimensionEvidence[];
+}
+
+export interface AnalyzerBackend {
+  readonly name: string;
+  calculateConviction(userData: UserData): ScoredDimension;
+  calculateIntuition(userData: UserData): ScoredDimension;
+  detectCategories(userData: UserData): string[];
+  extractInterests(userData: UserData): string[];
+}
+
+/**
+ * A conversation with a known personality type and categories, used to train
+ * model-based backends.
+ */
+export interface LabelledTranscript {
+  text: string;
+  personalityType: PersonalityType;
+  categories: string[];
+}
+
+// Max message excerpts attached to a single evidence entry
+const MAX_SNIPPETS = 2;
+const SNIPPET_RADIUS = 60;
+
+/**
+ * Extract all text from user data
+ */
+export function extractAllText(userData: UserData): string {
+  const textParts: string[] = [];
+
+  if (userData.twitter) {
+    textParts.push(userData.twitter.bio);
+    textParts.push(...userData.twitter.tweets.map(t => t.text || ''));
+    textParts.push(...userData.twitter.following);
+  }
+
+  if (userData.farcaster) {
+    textParts.push(userData.farcaster.bio);
+    textParts.push(...userData.farcaster.casts.map(c => c.text || ''));
+    textParts.push(...userData.farcaster.channels);
+  }
+
+  if (userData.conversationMemory) {
+    textParts.push(...userData.conversationMemory.topics);
+    textParts.push(...userData.conversationMemory.interests);
+    textParts.push(...userData.conversationMemory.preferences);
+    textParts.push(...userData.conversationMemory.history);
+  }
+
+  return textParts.join(' ');
+}
+
+/**
+ * Find short message excerpts that contain any of the given keywords
+ */
+export function findSnippets(userData: UserData, keywords: string[]): string[] {
+  if (keywords.length === 0) return [];
+
+  const messages = [
+    ...(userData.conversationMemory?.history ?? []),
+    ...(userData.twitter?.tweets ?? []).map(t => t.text || ''),
+    ...(userData.farcaster?.casts ?? []).map(c => c.text || ''),
+  ];
+
+  const snippets: string[] = [];
+  const used = new Set<string>();
+  for (const keyword of keywords) {
+    const message = messages.find(m => !used.has(m) && m.toLowerCase().includes(keyword));
+    if (!message) continue;
+
+    used.add(message);
+    snippets.push(excerpt(message, message.toLowerCase().indexOf(keyword)));
+    if (snippets.length >= MAX_SNIPPETS) break;
+  }
+  return snippets;
+}
+
+/**
+ * Trim a message to a window around the given position
+ */
+export function excerpt(text: string, at = 0): string {
+  const start = Math.max(0, at - SNIPPET_RADIUS);
+  const end = Math.min(text.length, at + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+}
@@ -0,0 +1,392 @@
+/**
+ * Naive Bayes Backend
+ *
+ * Local, dependency-free alternative to the keyword backend. Trains three
+ * multinomial naive Bayes models on labelled transcripts:
+ * - conviction: high (Visionary, Optimizer) vs low (Explorer, Innovator)
+ * - intuition:  high (Visionary, Explorer) vs low (Optimizer, Innovator)
+ * - category:   one class per canonical category, seeded with CATEGORY_KEYWORDS
+ *
+ * Scores are the mean per-message posterior, so one long message can't
+ * saturate a dimension the way a whole-transcript posterior would.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { PersonalityType } from '../types/personality';
+import { CANONICAL_CATEGORIES, CATEGORY_KEYWORDS } from '../types/categories';
+import type { UserData, DimensionEvidence } from './personality-analyzer';
+import { AnalyzerBackend, LabelledTranscript, ScoredDimension, extractAllText, findSnippets } from './analyzer-backend';
+
+// Category posterior a message needs before it counts towards that category
+const MIN_MESSAGE_POSTERIOR = 0.5;
+// Summed posterior mass a category needs to be detected
+const MIN_CATEGORY_MASS = 1.5;
+// Tokens reported as evidence / interests
+const TOP_TOKENS = 5;
+const MAX_INTERESTS = 10;
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'that', 'this', 'with', 'you', 'your', 'are', 'was', 'have', 'has',
+  'but', 'not', 'all', 'can', 'what', 'when', 'how', 'about', 'from', 'they', 'them', 'just',
+  'into', 'its', 'it', 'is', 'to', 'of', 'in', 'on', 'a', 'an', 'or', 'be', 'so', 'my', 'me',
+  'we', 'our', 'do', 'if', 'as', 'at', 'by', 'i', 'im', 've', 'ive', 'ill', 'been', 'more',
+  'than', 'there', 'their', 'would', 'could', 'should', 'like', 'really', 'one', 'out', 'up',
+  'user', 'assistant', 'human', 'also', 'any', 'some', 'very', 'much', 'most',
+]);
+
+/**
+ * Lowercase word tokens plus adjacent bigrams, stopwords removed
+ */
+export function tokenize(text: string): string[] {
+  const words = text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(w => w.length >= 2 && !STOPWORDS.has(w));
+
+  const bigrams: string[] = [];
+  for (let i = 0; i < words.length - 1; i++) {
+    bigrams.push(`${words[i]} ${words[i + 1]}`);
+  }
+  return [...words, ...bigrams];
+}
+
+/**
+ * Multinomial naive Bayes with Laplace smoothing
+ */
+export class NaiveBayesClassifier<L extends string> {
+  private docCounts = new Map<L, number>();
+  private tokenCounts = new Map<L, Map<string, number>>();
+  private totalTokens = new Map<L, number>();
+  private vocabulary = new Set<string>();
+  private totalDocs = 0;
+
+  train(label: L, text: string): void {
+    const tokens = tokenize(text);
+    if (tokens.length === 0) return;
+
+    this.totalDocs++;
+    this.docCounts.set(label, (this.docCounts.get(label) || 0) + 1);
+
+    const counts = this.tokenCounts.get(label) || new Map<string, number>();
+    for (const token of tokens) {
+      counts.set(token, (counts.get(token) || 0) + 1);
+      this.vocabulary.add(token);
+    }
+    this.tokenCounts.set(label, counts);
+    this.totalTokens.set(label, (this.totalTokens.get(label) || 0) + tokens.length);
+  }
+
+  get labels(): L[] {
+    return Array.from(this.docCounts.keys());
+  }
+
+  /**
+   * Posterior probability per label. Returns the prior when no token is known.
+   */
+  predict(text: string): Record<L, number> {
+    const tokens = tokenize(text).filter(t => this.vocabulary.has(t));
+    const logScores = new Map<L, number>();
+
+    for (const label of this.labels) {
+      let logScore = Math.log(this.docCounts.get(label)! / this.totalDocs);
+      for (const token of tokens) {
+        logScore += Math.log(this.likelihood(label, token));
+      }
+      logScores.set(label, logScore);
+    }
+
+    // Softmax in log space
+    const max = Math.max(...logScores.values());
+    let sum = 0;
+    for (const [label, logScore] of logScores) {
+      const value = Math.exp(logScore - max);
+      logScores.set(label, value);
+      sum += value;
+    }
+
+    const posterior = {} as Record<L, number>;
+    for (const [label, value] of logScores) {
+      posterior[label] = value / sum;
+    }
+    return posterior;
+  }
+
+  /**
+   * Known tokens in the text ranked by how strongly they favour `label`
+   */
+  topTokens(text: string, label: L, limit = TOP_TOKENS): string[] {
+    const others = this.labels.filter(l => l !== label);
+    const seen = new Set<string>();
+    const ranked: Array<{ token: string; ratio: number }> = [];
+
+    for (const token of tokenize(text)) {
+      if (seen.has(token) || !this.vocabulary.has(token)) continue;
+      seen.add(token);
+
+      const own = Math.log(this.likelihood(label, token));
+      const rest = Math.max(...others.map(l => Math.log(this.likelihood(l, token))));
+      const ratio = own - rest;
+      if (ratio > 0) ranked.push({ token, ratio });
+    }
+
+    return ranked
+      .sort((a, b) => b.ratio - a.ratio || a.token.localeCompare(b.token))
+      .slice(0, limit)
+      .map(r => r.token);
+  }
+
+  private likelihood(label: L, token: string): number {
+    const count = this.tokenCounts.get(label)?.get(token) || 0;
+    return (count + 1) / ((this.totalTokens.get(label) || 0) + this.vocabulary.size);
+  }
+}
+
+// ─── Training data ───────────────────────────────────────────────────────
+
+/**
+ * Built-in seed corpus: short labelled monologues, one style per type.
+ * Extend with loadLabelledTranscripts() for a richer model.
+ */
+export const SEED_TRANSCRIPTS: LabelledTranscript[] = [
+  {
+    personalityType: PersonalityType.THE_VISIONARY,
+    categories: ['Crypto'],
+    text: `I believe onchain identity is the future. Most people don't see the potential yet, but I'm all in and committed for years.
+I back founders early, before the data exists, because I trust my conviction about where the paradigm is heading.
+Decentralized governance will be revolutionary and I'm willing to wait for the vision to play out.`,
+  },
+  {
+    personalityType: PersonalityType.THE_VISIONARY,
+    categories: ['AI Tools'],
+    text: `Autonomous agents are going to reshape how every company works. I've doubled down on one agent framework and I'm building on it daily.
+It's a bold bet and I don't need benchmarks to know it's right — I can feel the shift coming before it's obvious.`,
+  },
+  {
+    personalityType: PersonalityType.THE_EXPLORER,
+    categories: ['AI Tools', 'Wellness'],
+    text: `I'm curious about so many things right now — meditation apps, new AI image tools, sleep trackers.
+I love exploring and trying new things every week, falling down a rabbit hole and then jumping to something completely different.
+Variety keeps me going, I always want to discover what else is out there.`,
+  },
+  {
+    personalityType: PersonalityType.THE_EXPLORER,
+    categories: ['Lifestyle', 'Design'],
+    text: `This month I experimented with film photography, then got into typography, and now I'm comparing travel planning tools.
+I stumble upon something interesting and I just have to try it. My interests are all over the place and I like it that way.`,
+  },
+  {
+    personalityType: PersonalityType.THE_OPTIMIZER,
+    categories: ['Productivity'],
+    text: `I track the metrics first, find the bottleneck, then optimize. Our workflow data showed we lose hours to context switching.
+I ran an A/B test on two task management setups and measured the ROI before rolling anything out.
+Every change needs a clear performance improvement backed by numbers.`,
+  },
+  {
+    personalityType: PersonalityType.THE_OPTIMIZER,
+    categories: ['Finance'],
+    text: `I only invest after reviewing the track record, the returns and the risk metrics. I rebalance my portfolio on a fixed schedule.
+My budget lives in a spreadsheet with monthly analysis, and I refine the system whenever the numbers drift.`,
+  },
+  {
+    personalityType: PersonalityType.THE_INNOVATOR,
+    categories: ['Development', 'AI Tools'],
+    text: `I've been hacking on a CLI that wires an LLM into my debugging workflow, then I switched to prototyping a Rust parser.
+I like combining tools in unexpected ways and testing what breaks. Each weekend I build a different experimental project to learn how it works under the hood.`,
+  },
+  {
+    personalityType: PersonalityType.THE_INNOVATOR,
+    categories: ['Development'],
+    text: `Right now I'm mixing WebAssembly with a Python data pipeline just to see if it's faster. Last week it was a TypeScript code generator.
+I keep tinkering with new frameworks and APIs, prototyping quickly and moving on to the next technical challenge.`,
+  },
+  {
+    personalityType: PersonalityType.THE_CULTIVATOR,
+    categories: ['Education'],
+    text: `I wrote a tutorial series for beginners and I mentor a small study group every week.
+I share feedback with the course creators and helped the community build a better curriculum. Supporting other learners is what I love most.`,
+  },
+  {
+    personalityType: PersonalityType.THE_CULTIVATOR,
+    categories: ['Marketing'],
+    text: `I published a guide on community growth and I review every newsletter draft from our contributors.
+I recommend tools I love to the whole community and collect suggestions to improve the onboarding for new members.`,
+  },
+];
+
+const CONVICTION_HIGH = new Set([PersonalityType.THE_VISIONARY, PersonalityType.THE_OPTIMIZER]);
+const CONVICTION_LOW = new Set([PersonalityType.THE_EXPLORER, PersonalityType.THE_INNOVATOR]);
+const INTUITION_HIGH = new Set([PersonalityType.THE_VISIONARY, PersonalityType.THE_EXPLORER]);
+const INTUITION_LOW = new Set([PersonalityType.THE_OPTIMIZER, PersonalityType.THE_INNOVATOR]);
+
+// Filename slugs used by loadLabelledTranscripts that don't prefix a category name
+const CATEGORY_SLUGS: Record<string, string> = {
+  ai: 'AI Tools',
+  dev: 'Development',
+};
+
+/**
+ * Load labelled transcripts from a directory of `NN-<type>-<category>-<category>.txt`
+ * files, e.g. `02-explorer-ai-wellness.txt` (the layout of test-fixtures/).
+ */
+export function loadLabelledTranscripts(dir: string): LabelledTranscript[] {
+  const transcripts: LabelledTranscript[] = [];
+
+  for (const file of fs.readdirSync(dir).filter(f => f.endsWith('.txt')).sort()) {
+    const [, typeSlug, ...categorySlugs] = path.basename(file, '.txt').split('-');
+    const personalityType = Object.values(PersonalityType)
+      .find(t => t.replace(/^The /, '').toLowerCase() === typeSlug);
+    if (!personalityType) continue;
+
+    const categories = categorySlugs
+      .map(slug => CATEGORY_SLUGS[slug] || CANONICAL_CATEGORIES.find(c => c.toLowerCase().startsWith(slug)))
+      .filter((c): c is typeof CANONICAL_CATEGORIES[number] => !!c);
+
+    transcripts.push({
+      text: fs.readFileSync(path.join(dir, file), 'utf-8'),
+      personalityType,
+      categories,
+    });
+  }
+
+  return transcripts;
+}
+
+// ─── Backend ─────────────────────────────────────────────────────────────
+
+export class BayesBackend implements AnalyzerBackend {
+  readonly name = 'bayes';
+
+  private conviction = new NaiveBayesClassifier<'high' | 'low'>();
+  private intuition = new NaiveBayesClassifier<'high' | 'low'>();
+  private category = new NaiveBayesClassifier<string>();
+
+  constructor(transcripts: LabelledTranscript[] = SEED_TRANSCRIPTS) {
+    // Taxonomy keywords seed every category, so categories without transcripts still classify
+    for (const [category, keywords] of Object.entries(CATEGORY_KEYWORDS)) {
+      this.category.train(category, keywords.join(' '));
+    }
+
+    for (const transcript of transcripts) {
+      for (const message of this.userMessages(transcript.text)) {
+        if (CONVICTION_HIGH.has(transcript.personalityType)) this.conviction.train('high', message);
+        if (CONVICTION_LOW.has(transcript.personalityType)) this.conviction.train('low', message);
+        if (INTUITION_HIGH.has(transcript.personalityType)) this.intuition.train('high', message);
+        if (INTUITION_LOW.has(transcript.personalityType)) this.intuition.train('low', message);
+        for (const category of transcript.categories) {
+          this.category.train(category, message);
+        }
+      }
+    }
+  }
+
+  calculateConviction(userData: UserData): ScoredDimension {
+    return this.scoreDimension(this.conviction, userData, 'conviction');
+  }
+
+  calculateIntuition(userData: UserData): ScoredDimension {
+    return this.scoreDimension(this.intuition, userData, 'intuition');
+  }
+
+  detectCategories(userData: UserData): string[] {
+    const mass = this.categoryMass(userData);
+
+    const qualified = Object.entries(mass)
+      .filter(([, score]) => score >= MIN_CATEGORY_MASS)
+      .sort(([, a], [, b]) => b - a)
+      .map(([category]) => category);
+
+    // Always return at least 1 category (fallback to highest mass)
+    if (qualified.length === 0) {
+      const fallback = Object.entries(mass).sort(([, a], [, b]) => b - a);
+      return fallback.length > 0 ? [fallback[0][0]] : [];
+    }
+
+    return qualified.slice(0, 3);
+  }
+
+  /**
+   * Interests are the user's own words that most favour their detected categories
+   */
+  extractInterests(userData: UserData): string[] {
+    const text = extractAllText(userData);
+    const interests = new Set<string>();
+
+    for (const category of this.detectCategories(userData)) {
+      for (const token of this.category.topTokens(text, category)) {
+        interests.add(token.replace(/\b\w/g, c => c.toUpperCase()));
+      }
+    }
+
+    return Array.from(interests).slice(0, MAX_INTERESTS);
+  }
+
+  private scoreDimension(
+    model: NaiveBayesClassifier<'high' | 'low'>,
+    userData: UserData,
+    dimension: string,
+  ): ScoredDimension {
+    const base = 50;
+    const messages = this.messagesOf(userData);
+    if (messages.length === 0 || model.labels.length < 2) {
+      return { base, score: base, evidence: [] };
+    }
+
+    const meanHigh = messages.reduce((sum, m) => sum + model.predict(m).high, 0) / messages.length;
+    const score = Math.round(meanHigh * 100);
+
+    const text = messages.join(' ');
+    const pole = meanHigh >= 0.5 ? 'high' : 'low';
+    const keywords = model.topTokens(text, pole);
+    const evidence: DimensionEvidence[] = [{
+      signal: 'model',
+      detail: `Naive Bayes P(${dimension} ${pole}) over ${messages.length} messages = ${(pole === 'high' ? meanHigh : 1 - meanHigh).toFixed(2)}`,
+      delta: score - base,
+      keywords,
+      snippets: findSnippets(userData, keywords),
+    }];
+
+    return { base, score, evidence };
+  }
+
+  private categoryMass(userData: UserData): Record<string, number> {
+    const mass: Record<string, number> = {};
+    for (const message of this.messagesOf(userData)) {
+      const posterior = this.category.predict(message);
+      for (const [category, p] of Object.entries(posterior)) {
+        if (p >= MIN_MESSAGE_POSTERIOR) {
+          mass[category] = (mass[category] || 0) + p;
+        }
+      }
+    }
+    return mass;
+  }
+
+  /**
+   * Individual messages to classify: conversation user turns, tweets and casts
+   */
+  private messagesOf(userData: UserData): string[] {
+    const history = userData.conversationMemory?.history ?? [];
+    const conversation = history.some(m => /^(User|Human):/i.test(m))
+      ? history.filter(m => /^(User|Human):/i.test(m))
+      : history;
+
+    return [
+      ...conversation,
+      ...(userData.twitter?.tweets ?? []).map(t => t.text || ''),
+      ...(userData.farcaster?.casts ?? []).map(c => c.text || ''),
+    ]
+      .map(m => m.replace(/^(User|Human):/i, '').trim())
+      .filter(m => tokenize(m).length > 0);
+  }
+
+  /**
+   * Split a raw transcript into user turns (or lines, if it has no speaker labels)
+   */
+  private userMessages(text: string): string[] {
+    const turns = text.split(/\n(?=User:|Assistant:|Human:|AI:)/i).map(t => t.trim()).filter(Boolean);
+    const userTurns = turns.filter(t => /^(User|Human):/i.test(t));
+    const messages = userTurns.length > 0 ? userTurns : text.split('\n');
+    return messages.map(m => m.replace(/^(User|Human):/i, '').trim()).filter(Boolean);
+  }
+}
@@ -5,7 +5,9 @@
  * when permissions are denied or data is unavailable.
  */
 
-import { CATEGORY_KEYWORDS } from '../types/categories';
+import { Language, categoryKeywordsFor } from '../types/category-locales';
+import { matchKeywords, scoreCategoriesInContext } from '../utils/keyword-matcher';
+import { detectConversationLanguages } from '../utils/language-detector';
 
 export interface TwitterData {
   bio: string;
@@ -69,6 +71,7 @@ export interface ConversationMemory {
   preferences: string[]; // Stated preferences
   history: string[];     // Raw conversation snippets
   messageCount: number;  // Number of messages analyzed (minimum 3 required)
+  languages?: Language[]; // Languages the user writes in, most used first
 }
 
 export interface UserData {
@@ -127,6 +130,7 @@ export class EnhancedDataCollector {
         preferences: analysis.preferences,
         history: analysis.history,
         messageCount: analysis.messageCount,
+        languages: analysis.languages,
       };
 
       userData.sources.push('Conversation');
@@ -419,6 +423,7 @@ export class EnhancedDataCollector {
         preferences: analysis.preferences,
         history: analysis.history,
         messageCount: analysis.messageCount,
+        languages: analysis.languages,
       };
     } catch (error) {
       console.error('❌ Failed to read session history:', error);
@@ -465,6 +470,7 @@ export class EnhancedDataCollector {
     preferences: string[];
     history: string[];
     messageCount: number;
+    languages: Language[];
   } {
     // Split conversation into messages (simple heuristic)
     const messages = conversationText
@@ -486,8 +492,11 @@ export class EnhancedDataCollector {
 
     const allText = conversationText.toLowerCase();
 
+    // Detect which languages the user writes in (picks the keyword packs)
+    const languages = detectConversationLanguages(userMessages);
+
     // Extract topics (common themes)
-    const topics = this.extractTopicsFromText(userMessages.join(' '));
+    const topics = this.extractTopicsFromText(userMessages.join(' '), languages);
 
     // Extract interests
     const interests = this.extractInterestsFromText(userMessages.join(' '));
@@ -505,24 +514,34 @@ export class EnhancedDataCollector {
       preferences,
       history: recentMessages,
       messageCount,
+      languages,
     };
   }
 
-  /**
-   * Extract topics from text
-   */
   /**
    * Extract topics from text using frequency-weighted scoring.
    * A topic needs >= 2 distinct keyword hits to qualify,
    * preventing a single casual mention from becoming a "main topic".
+   *
+   * Each distinct keyword counts up to 1, weighted by context: a keyword that
+   * only appears negated ("done with crypto") counts 0, one that only appears
+   * in past tense or in questions to the assistant counts 0.5.
    */
-  private extractTopicsFromText(text: string): string[] {
-    const lowerText = text.toLowerCase();
-
+  private extractTopicsFromText(text: string, languages: Language[] = ['en']): string[] {
     const topicScores: Array<{ topic: string; score: number }> = [];
+    const keywords = categoryKeywordsFor(languages);
+
+    for (const [topic, { hits }] of Object.entries(scoreCategoriesInContext(text, keywords))) {
+      const weightByKeyword = new Map<string, number>();
+      for (const hit of hits) {
+        weightByKeyword.set(hit.keyword, (weightByKeyword.get(hit.keyword) || 0) + hit.weight);
+      }
+
+      let distinctMatches = 0;
+      for (const weight of weightByKeyword.values()) {
+        distinctMatches += Math.min(weight, 1);
+      }
 
-    for (const [topic, keywords] of Object.entries(CATEGORY_KEYWORDS)) {
-      const distinctMatches = keywords.filter(kw => lowerText.includes(kw)).length;
       if (distinctMatches >= 2) {
         topicScores.push({ topic, score: distinctMatches });
       }
@@ -538,9 +557,6 @@ export class EnhancedDataCollector {
    * Extract interests from text
    */
   private extractInterestsFromText(text: string): string[] {
-    const interests = new Set<string>();
-    const lowerText = text.toLowerCase();
-
     const interestKeywords = [
       'ai tools', 'machine learning', 'crypto', 'defi', 'nft',
       'productivity', 'automation', 'workflow', 'task management',
@@ -553,15 +569,9 @@ export class EnhancedDataCollector {
       'investing', 'trading', 'finance',
     ];
 
-    for (const keyword of interestKeywords) {
-      if (lowerText.includes(keyword)) {
-        interests.add(
-          keyword.split(' ').map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(' ')
-        );
-      }
-    }
-
-    return Array.from(interests).slice(0, 15);
+    return matchKeywords(text, interestKeywords)
+      .map(m => m.keyword.split(' ').map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(' '))
+      .slice(0, 15);
   }
 
   /**
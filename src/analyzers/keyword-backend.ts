@@ -0,0 +1,315 @@
+/**
+ * Keyword Backend (default)
+ *
+ * Hand-tuned keyword counting against CATEGORY_KEYWORDS (plus the locale packs
+ * for the conversation's languages) and the per-dimension keyword lists.
+ * Every rule that fires is recorded as DimensionEvidence.
+ */
+
+import { categoryKeywordsFor } from '../types/category-locales';
+import { TAXONOMY_SEPARATOR, getTaxonomy } from '../types/taxonomy';
+import type { UserData, DimensionEvidence } from './personality-analyzer';
+import { AnalyzerBackend, ScoredDimension, extractAllText, findSnippets, excerpt } from './analyzer-backend';
+import { matchKeywords, scoreCategoriesInContext } from '../utils/keyword-matcher';
+
+// Minimum keyword frequency score to qualify as a detected category
+const MIN_CATEGORY_SCORE = 3;
+
+// Max tweet excerpts attached to the trend evidence entry
+const MAX_TREND_SNIPPETS = 2;
+
+// Context-weighted hits a taxonomy sub-category needs to become an interest
+const MIN_SUBCATEGORY_SCORE = 2;
+const MAX_SUBCATEGORIES = 5;
+
+export class KeywordBackend implements AnalyzerBackend {
+  readonly name = 'keyword';
+
+  /**
+   * Calculate Conviction (0-100)
+   * High = Few deep commitments, focused topics, repeated themes
+   * Low = Diverse interests, many topics, always exploring
+   */
+  calculateConviction(userData: UserData): ScoredDimension {
+    const base = 50; // Start at midpoint
+    let score = base;
+    const evidence: DimensionEvidence[] = [];
+    const add = (delta: number, item: Omit<DimensionEvidence, 'delta'>) => {
+      score += delta;
+      evidence.push({ ...item, delta });
+    };
+
+    // Factor 0: Conversation topic focus (primary signal for conversation-only)
+    if (userData.conversationMemory) {
+      const topicCount = userData.conversationMemory.topics.length;
+      const topics = userData.conversationMemory.topics;
+
+      // Fewer topics = more focused = higher conviction
+      if (topicCount <= 1) add(15, { signal: 'topic', detail: `Focused on ${topicCount} topic(s)`, keywords: topics });
+      else if (topicCount <= 2) add(5, { signal: 'topic', detail: `Focused on ${topicCount} topics`, keywords: topics });
+      else if (topicCount <= 3) score += 0;
+      else if (topicCount >= 6) add(-10, { signal: 'topic', detail: `Spread across ${topicCount} topics`, keywords: topics });
+      else if (topicCount >= 8) add(-20, { signal: 'topic', detail: `Spread across ${topicCount} topics`, keywords: topics });
+
+      // Topic dominance: use all available text (history + topics + interests)
+      const history = extractAllText(userData).toLowerCase();
+      const topicMentions = userData.conversationMemory.topics.map(topic => {
+        // Count how many times each topic's keywords appear in history
+        const topicWord = topic.toLowerCase().split(' ')[0];
+        const regex = new RegExp(topicWord, 'g');
+        return { topic, count: (history.match(regex) || []).length };
+      });
+      topicMentions.sort((a, b) => b.count - a.count);
+
+      if (topicMentions.length >= 2) {
+        const topCount = topicMentions[0].count;
+        const secondCount = topicMentions[1].count;
+        const mentions = topicMentions.map(t => `${t.topic} ×${t.count}`);
+        // Dominant topic = focused person = high conviction
+        if (topCount >= 3 * secondCount && topCount >= 3) {
+          add(20, { signal: 'topic', detail: `${topicMentions[0].topic} dominates repeated topics (3x runner-up)`, keywords: mentions });
+        } else if (topCount >= 2 * secondCount && topCount >= 2) {
+          add(10, { signal: 'topic', detail: `${topicMentions[0].topic} leads repeated topics (2x runner-up)`, keywords: mentions });
+        }
+        // Even spread across many topics = explorer = low conviction
+        else if (topCount <= secondCount + 1) {
+          add(-10, { signal: 'topic', detail: 'Repeated topics are evenly spread', keywords: mentions });
+        }
+      }
+
+      // Many topics + even spread = strong explorer signal
+      if (topicCount >= 4 && topicMentions.length >= 2) {
+        const topCount = topicMentions[0].count;
+        const bottomCount = topicMentions[topicMentions.length - 1].count;
+        // If top and bottom topics have similar mentions, very even = explorer
+        if (topCount <= bottomCount * 2) {
+          add(-10, { signal: 'topic', detail: 'Least and most mentioned topics are within 2x', keywords: topicMentions.map(t => t.topic) });
+        }
+      }
+
+      // Explorer language detection: curiosity/exploration words lower conviction
+      // These signal someone who explores broadly rather than commits deeply
+      const explorerKeywords = [
+        'curious', 'explore', 'exploring', 'explorer', 'discovery', 'discover',
+        'experiment', 'experimenting', 'variety', 'diverse', 'try new',
+        'always looking', 'different', 'comparing', 'new things', 'so many things',
+        'rabbit hole', 'stumble upon',
+      ];
+      const convictionKeywords = [
+        'committed', 'dedicated', 'focused', 'deep dive', 'specialize',
+        'expert', 'obsessed', 'passionate about', 'all in', 'doubled down',
+      ];
+      const explorerHits = explorerKeywords.filter(kw => history.includes(kw));
+      const convictionHits = convictionKeywords.filter(kw => history.includes(kw));
+      const explorerNet = explorerHits.length - convictionHits.length;
+      const languageEvidence = (detail: string) => ({
+        signal: 'keyword' as const,
+        detail: `${detail} (${explorerHits.length} explorer vs ${convictionHits.length} conviction)`,
+        keywords: [...explorerHits, ...convictionHits],
+        snippets: findSnippets(userData, [...explorerHits, ...convictionHits]),
+      });
+      if (explorerNet >= 4) add(-25, languageEvidence('Explorer language strongly outweighs conviction language'));
+      else if (explorerNet >= 2) add(-15, languageEvidence('Explorer language outweighs conviction language'));
+      else if (explorerNet >= 1) add(-5, languageEvidence('Slightly more explorer than conviction language'));
+      else if (explorerNet <= -2) add(10, languageEvidence('Conviction language outweighs explorer language'));
+    }
+
+    if (userData.wallet) {
+      const { transactions = [], contracts = [], tokens = [] } = userData.wallet;
+
+      // Portfolio concentration (fewer contracts = higher conviction)
+      const uniqueContracts = new Set(contracts).size;
+      if (uniqueContracts > 0) {
+        if (uniqueContracts <= 5) add(20, { signal: 'wallet', detail: `Concentrated on ${uniqueContracts} contracts` });
+        else if (uniqueContracts <= 10) add(10, { signal: 'wallet', detail: `Concentrated on ${uniqueContracts} contracts` });
+        else if (uniqueContracts > 30) add(-20, { signal: 'wallet', detail: `Spread across ${uniqueContracts} contracts` });
+      }
+
+      // Repeat interactions
+      const contractCounts = contracts.reduce((acc, addr) => {
+        acc[addr] = (acc[addr] || 0) + 1;
+        return acc;
+      }, {} as Record<string, number>);
+      const avgInteractionsPerContract = Object.values(contractCounts).reduce((a, b) => a + b, 0) / uniqueContracts;
+      const avgDisplay = Number.isFinite(avgInteractionsPerContract) ? avgInteractionsPerContract.toFixed(1) : '0';
+      if (avgInteractionsPerContract > 5) add(15, { signal: 'wallet', detail: `${avgDisplay} repeat interactions per contract` });
+      else if (avgInteractionsPerContract > 2) add(5, { signal: 'wallet', detail: `${avgDisplay} repeat interactions per contract` });
+      else if (avgInteractionsPerContract < 1.5) add(-10, { signal: 'wallet', detail: `${avgDisplay} interactions per contract` });
+
+      // Token holding
+      const uniqueTokens = new Set(tokens.map((t: any) => t.symbol)).size;
+      if (uniqueTokens > 20) add(-15, { signal: 'wallet', detail: `Holds ${uniqueTokens} different tokens` });
+      else if (uniqueTokens < 5) add(10, { signal: 'wallet', detail: `Holds only ${uniqueTokens} tokens` });
+    }
+
+    // Social signals
+    if (userData.twitter) {
+      const followingCount = userData.twitter.following.length;
+      if (followingCount < 100) add(5, { signal: 'social', detail: `Follows ${followingCount} accounts` });
+      else if (followingCount > 500) add(-5, { signal: 'social', detail: `Follows ${followingCount} accounts` });
+    }
+
+    return { base, score, evidence };
+  }
+
+  /**
+   * Calculate Intuition (0-100)
+   * High = Vision-driven, backs pre-launch, trend-spotter
+   * Low = Data-driven, waits for metrics, mature protocols
+   */
+  calculateIntuition(userData: UserData): ScoredDimension {
+    const base = 50; // Start at midpoint
+    let score = base;
+    const evidence: DimensionEvidence[] = [];
+    const add = (delta: number, item: Omit<DimensionEvidence, 'delta'>) => {
+      score += delta;
+      evidence.push({ ...item, delta });
+    };
+
+    const allText = extractAllText(userData).toLowerCase();
+
+    // Factor 1: Vision/narrative language vs data/metrics language
+    const visionKeywords = ['vision', 'future', 'believe', 'potential', 'revolutionary', 'paradigm', 'early', 'first'];
+    const analysisKeywords = ['data', 'metrics', 'roi', 'tvl', 'apy', 'analysis', 'performance', 'track record'];
+
+    const visionHits = visionKeywords.filter(k => allText.includes(k));
+    const analysisHits = analysisKeywords.filter(k => allText.includes(k));
+
+    if (visionHits.length > 0) {
+      add(visionHits.length * 5, {
+        signal: 'keyword',
+        detail: 'Vision/narrative language',
+        keywords: visionHits,
+        snippets: findSnippets(userData, visionHits),
+      });
+    }
+    if (analysisHits.length > 0) {
+      add(-analysisHits.length * 5, {
+        signal: 'keyword',
+        detail: 'Data/metrics language',
+        keywords: analysisHits,
+        snippets: findSnippets(userData, analysisHits),
+      });
+    }
+
+    // Factor 2: Wallet activity - pre-launch vs established protocols
+    if (userData.wallet) {
+      const { transactions = [] } = userData.wallet;
+
+      // Pre-launch signals: interacting with new contracts (deployed < 30 days ago)
+      // Established signals: using high-TVL mature protocols
+      // Note: In production, this would call blockchain APIs to check contract age and TVL
+      // For hackathon, we'll use heuristics
+
+      const establishedProtocols = ['uniswap', 'aave', 'compound', 'curve', 'maker'];
+      const establishedTxCount = transactions.filter((tx: any) =>
+        establishedProtocols.some(p => tx.to?.toLowerCase().includes(p))
+      ).length;
+
+      if (establishedTxCount > 10) add(-10, { signal: 'wallet', detail: `${establishedTxCount} txs with established protocols` }); // Prefers mature protocols
+      else if (establishedTxCount < 3) add(10, { signal: 'wallet', detail: `Only ${establishedTxCount} txs with established protocols` }); // Avoids established
+
+      // High transaction count = willing to experiment early
+      if (transactions.length > 100) add(5, { signal: 'wallet', detail: `${transactions.length} transactions` });
+    }
+
+    // Factor 3: Social behavior - talks about trends vs analysis
+    if (userData.twitter) {
+      const tweets = userData.twitter.tweets || [];
+      const trendKeywords = ['trend', 'new', 'launch', 'alpha', 'early'];
+      const trendTweets = tweets.filter((t: any) =>
+        trendKeywords.some(k => t.text?.toLowerCase().includes(k))
+      );
+
+      if (trendTweets.length > 0) {
+        add(trendTweets.length * 2, {
+          signal: 'social',
+          detail: `${trendTweets.length} tweets about trends/launches`,
+          keywords: trendKeywords.filter(k => trendTweets.some((t: any) => t.text?.toLowerCase().includes(k))),
+          snippets: trendTweets.slice(0, MAX_TREND_SNIPPETS).map((t: any) => excerpt(t.text)),
+        });
+      }
+    }
+
+    return { base, score, evidence };
+  }
+
+  /**
+   * Detect top categories from user data
+   *
+   * Uses frequency-weighted scoring: sums context-weighted keyword hits per category.
+   * A category must reach MIN_CATEGORY_SCORE to qualify — a single passing
+   * mention of "blockchain" won't label someone as a Crypto person.
+   */
+  detectCategories(userData: UserData): string[] {
+    // Hits are weighted by context: negated mentions count 0, past/question mentions half,
+    // first-person intent ("I'm building…") one and a half
+    const keywords = categoryKeywordsFor(userData.conversationMemory?.languages ?? ['en']);
+    const scored = scoreCategoriesInContext(extractAllText(userData), keywords);
+    const categoryScores: Record<string, number> = {};
+    for (const [category, { score }] of Object.entries(scored)) {
+      categoryScores[category] = score;
+    }
+
+    // Filter by minimum score, then sort by score descending
+    const qualified = Object.entries(categoryScores)
+      .filter(([, score]) => score >= MIN_CATEGORY_SCORE)
+      .sort(([, a], [, b]) => b - a)
+      .map(([category]) => category);
+
+    // Always return at least 1 category (fallback to highest scoring)
+    if (qualified.length === 0) {
+      const fallback = Object.entries(categoryScores)
+        .sort(([, a], [, b]) => b - a)
+        .map(([category]) => category);
+      return fallback.slice(0, 1);
+    }
+
+    return qualified.slice(0, 3);
+  }
+
+  /**
+   * Extract specific interests
+   */
+  extractInterests(userData: UserData): string[] {
+    const allText = extractAllText(userData);
+
+    const interestKeywords = [
+      'AI Tools', 'Machine Learning', 'Crypto', 'DeFi', 'NFTs',
+      'Education', 'Wellness', 'Fitness', 'Productivity', 'Meditation',
+      'Web3', 'DAOs', 'Gaming', 'Art', 'Music', 'Writing',
+      'Coding', 'Design', 'Marketing', 'Finance', 'Health',
+    ];
+
+    // Taxonomy sub-categories first ("Crypto › DeFi › Lending"), then flat interests
+    const subcategories = this.detectSubcategories(allText);
+    const covered = new Set(subcategories.flatMap(label => label.toLowerCase().split(TAXONOMY_SEPARATOR)));
+    const flat = matchKeywords(allText, interestKeywords)
+      .map(m => m.keyword)
+      .filter(k => !covered.has(k.toLowerCase()));
+
+    return [...subcategories, ...flat].slice(0, 10);
+  }
+
+  /**
+   * Taxonomy nodes below the root level, scored on their own and their
+   * children's terms in context; only the most specific qualifying node
+   * of each branch is kept
+   */
+  private detectSubcategories(text: string): string[] {
+    const taxonomy = getTaxonomy();
+    const terms: Record<string, string[]> = {};
+    for (const node of taxonomy.nodes()) {
+      if (node.depth > 0) terms[node.label] = taxonomy.termsFor(node);
+    }
+
+    const qualified = Object.entries(scoreCategoriesInContext(text, terms))
+      .filter(([, { score }]) => score >= MIN_SUBCATEGORY_SCORE)
+      .sort(([, a], [, b]) => b.score - a.score)
+      .map(([label]) => label);
+
+    return qualified
+      .filter(label => !qualified.some(other => other.startsWith(label + TAXONOMY_SEPARATOR)))
+      .slice(0, MAX_SUBCATEGORIES);
+  }
+}
@@ -6,7 +6,11 @@
  */
 
 import { PersonalityType } from '../types/personality';
-import { CATEGORY_KEYWORDS } from '../types/categories';
+import type { Language } from '../types/category-locales';
+import type { NudgeReason } from './signal-merger';
+import { AnalyzerBackend, ScoredDimension, extractAllText, findSnippets } from './analyzer-backend';
+import { KeywordBackend } from './keyword-backend';
+import { BayesBackend } from './bayes-backend';
 
 export interface UserData {
   sources: string[];
@@ -31,6 +35,7 @@ export interface UserData {
     interests: string[];
     preferences: string[];
     history: string[];
+    languages?: Language[];
   };
 }
 
@@ -40,6 +45,49 @@ export interface DimensionScores {
   contribution: number;  // 0-100: Contribution behavior score
 }
 
+export type DimensionName = keyof DimensionScores;
+
+/**
+ * One scoring rule that moved a dimension, with the text that triggered it.
+ */
+export interface DimensionEvidence {
+  signal: 'keyword' | 'topic' | 'wallet' | 'social' | 'model' | 'cap';
+  detail: string;          // Human-readable rule, e.g. "Explorer language outweighs conviction language"
+  delta: number;           // Points this rule added (negative = pushed down)
+  keywords?: string[];     // Keyword hits behind the rule
+  snippets?: string[];     // Message excerpts containing those hits
+}
+
+export interface DimensionExplanation {
+  base: number;            // Starting score before any rule fired
+  evidence: DimensionEvidence[];
+  raw: number;             // base + sum(evidence), before clamping
+  nudge: number;           // Applied USER.md nudge (0 if none)
+  final: number;           // Score used for classification (0-100)
+}
+
+export interface PersonalityExplanation {
+  conviction: DimensionExplanation;
+  intuition: DimensionExplanation;
+  contribution: DimensionExplanation;
+  nudges: NudgeReason[];   // USER.md rules from mergeSignals that were applied
+  classification: string;  // Which classifyPersonality rule produced the type
+}
+
+/**
+ * Soft classification: how strongly the scores belong to each type.
+ * `primary` always matches the hard classifyPersonality result; right at a
+ * threshold the blend can favour another type, which is then `secondary`.
+ */
+export interface PersonalityBlend {
+  probabilities: Record<PersonalityType, number>; // Sums to 1
+  primary: PersonalityType;
+  secondary: PersonalityType;
+  borderline: boolean;     // Primary and secondary are too close to call
+  ruleDisagrees: boolean;  // The blend gives secondary more weight than primary
+  label: string;           // e.g. "The Visionary with Explorer tendencies"
+}
+
 export interface PersonalityAnalysis {
   personalityType: PersonalityType;
   tagline: string;
@@ -48,23 +96,49 @@ export interface PersonalityAnalysis {
   detectedCategories: string[]; // Top categories for tagline generation
   dimensions: DimensionScores;
   confidence: number;
+  explanation: PersonalityExplanation;
+  blend: PersonalityBlend;
 }
 
-// Minimum keyword frequency score to qualify as a detected category
-const MIN_CATEGORY_SCORE = 3;
+// Softness of the quadrant boundaries: a score this far past a threshold is ~73% on that side
+const BLEND_TEMPERATURE = 8;
+// Probability gap between primary and secondary below which a user is borderline
+const BORDERLINE_GAP = 0.15;
+// Minimum secondary share before it is mentioned in the label and description
+const SECONDARY_MIN_SHARE = 0.2;
 
 /**
- * Tagline templates by personality type
+ * Tagline nouns by personality type ("The {category} {noun}")
  */
-const TAGLINE_TEMPLATES = {
-  [PersonalityType.THE_VISIONARY]: (category: string) => `The ${category} Pioneer`,
-  [PersonalityType.THE_EXPLORER]: (category: string) => `The ${category} Nomad`,
-  [PersonalityType.THE_CULTIVATOR]: (category: string) => `The ${category} Gardener`,
-  [PersonalityType.THE_OPTIMIZER]: (category: string) => `The ${category} Analyst`,
-  [PersonalityType.THE_INNOVATOR]: (category: string) => `The ${category} Architect`,
+const TAGLINE_NOUNS = {
+  [PersonalityType.THE_VISIONARY]: 'Pioneer',
+  [PersonalityType.THE_EXPLORER]: 'Nomad',
+  [PersonalityType.THE_CULTIVATOR]: 'Gardener',
+  [PersonalityType.THE_OPTIMIZER]: 'Analyst',
+  [PersonalityType.THE_INNOVATOR]: 'Architect',
+};
+
+/**
+ * One-line secondary tendency appended to the description for blended profiles
+ */
+const SECONDARY_TENDENCIES = {
+  [PersonalityType.THE_VISIONARY]: `There's a Visionary streak in you too — you'll back a bold idea before the proof is in.`,
+  [PersonalityType.THE_EXPLORER]: `You also carry Explorer tendencies — a new rabbit hole is never far away.`,
+  [PersonalityType.THE_CULTIVATOR]: `You lean Cultivator as well — you like to give back to the projects you use.`,
+  [PersonalityType.THE_OPTIMIZER]: `You have an Optimizer side too — you want the numbers before you commit.`,
+  [PersonalityType.THE_INNOVATOR]: `There's an Innovator in you as well — you like to know how things work under the hood.`,
 };
 
 export class PersonalityAnalyzer {
+  private backend: AnalyzerBackend;
+
+  /**
+   * @param backend Scoring engine for conviction, intuition, categories and interests
+   */
+  constructor(backend: AnalyzerBackend = new KeywordBackend()) {
+    this.backend = backend;
+  }
+
   /**
    * Main analysis method — calculates dimensions and determines personality
    *
@@ -72,12 +146,13 @@ export class PersonalityAnalyzer {
    */
   async analyze(
     userData: UserData,
-    nudges?: { conviction: number; intuition: number; contribution: number },
+    nudges?: { conviction: number; intuition: number; contribution: number; reasons?: NudgeReason[] },
   ): Promise<PersonalityAnalysis> {
-    console.log('🤖 Analyzing user data for 2-axis personality classification...');
+    console.log(`🤖 Analyzing user data for 2-axis personality classification (${this.backend.name} backend)...`);
 
     // Step 1: Calculate dimension scores
-    const dimensions = this.calculateDimensions(userData);
+    const scored = this.calculateDimensions(userData);
+    const dimensions = this.clampDimensions(scored);
 
     // Step 1.5: Apply dimension nudges from USER.md (if present)
     if (nudges) {
@@ -90,24 +165,28 @@ export class PersonalityAnalyzer {
 
     // Step 2: Classify personality type (contribution override logic)
     const personalityType = this.classifyPersonality(dimensions);
-    console.log(`✨ Personality Type: ${personalityType}`);
+    const blend = this.blendPersonality(dimensions);
+    console.log(`✨ Personality Type: ${personalityType}${blend.borderline ? ` (borderline: ${blend.label})` : ''}`);
 
     // Step 3: Detect categories for tagline
-    const detectedCategories = this.detectCategories(userData);
+    const detectedCategories = this.backend.detectCategories(userData);
     const topCategory = detectedCategories[0] || 'Tech';
 
     // Step 4: Generate dynamic tagline
-    const tagline = TAGLINE_TEMPLATES[personalityType](topCategory);
+    const tagline = this.generateTagline(personalityType, topCategory, blend);
 
     // Step 5: Generate personalized description
-    const description = await this.generateDescription(personalityType, detectedCategories, dimensions);
+    const description = await this.generateDescription(personalityType, detectedCategories, dimensions, blend);
 
     // Step 6: Extract detailed interests
-    const detectedInterests = this.extractInterests(userData);
+    const detectedInterests = this.backend.extractInterests(userData);
 
     // Step 7: Calculate confidence (based on data sources)
     const confidence = this.calculateConfidence(userData);
 
+    // Step 8: Assemble the evidence trace so the classification can be audited
+    const explanation = this.buildExplanation(userData, scored, dimensions, nudges);
+
     return {
       personalityType,
       tagline,
@@ -116,181 +195,31 @@ export class PersonalityAnalyzer {
       detectedCategories,
       dimensions,
       confidence,
+      explanation,
+      blend,
     };
   }
 
   /**
-   * Calculate all three dimension scores (0-100 each)
+   * Calculate all three dimension scores with the evidence behind each
    */
-  private calculateDimensions(userData: UserData): DimensionScores {
-    const conviction = this.calculateConviction(userData);
-    const intuition = this.calculateIntuition(userData);
-    const contribution = this.calculateContribution(userData);
-
+  private calculateDimensions(userData: UserData): Record<DimensionName, ScoredDimension> {
     return {
-      conviction: Math.min(Math.max(Math.round(conviction), 0), 100),
-      intuition: Math.min(Math.max(Math.round(intuition), 0), 100),
-      contribution: Math.min(Math.max(Math.round(contribution), 0), 100),
+      conviction: this.backend.calculateConviction(userData),
+      intuition: this.backend.calculateIntuition(userData),
+      contribution: this.calculateContribution(userData),
     };
   }
 
   /**
-   * Calculate Conviction (0-100)
-   * High = Few deep commitments, focused topics, repeated themes
-   * Low = Diverse interests, many topics, always exploring
-   */
-  private calculateConviction(userData: UserData): number {
-    let score = 50; // Start at midpoint
-
-    // Factor 0: Conversation topic focus (primary signal for conversation-only)
-    if (userData.conversationMemory) {
-      const topicCount = userData.conversationMemory.topics.length;
-
-      // Fewer topics = more focused = higher conviction
-      if (topicCount <= 1) score += 15;
-      else if (topicCount <= 2) score += 5;
-      else if (topicCount <= 3) score += 0;
-      else if (topicCount >= 6) score -= 10;
-      else if (topicCount >= 8) score -= 20;
-
-      // Topic dominance: use all available text (history + topics + interests)
-      const history = this.extractAllText(userData).toLowerCase();
-      const topicMentions = userData.conversationMemory.topics.map(topic => {
-        // Count how many times each topic's keywords appear in history
-        const topicWord = topic.toLowerCase().split(' ')[0];
-        const regex = new RegExp(topicWord, 'g');
-        return { topic, count: (history.match(regex) || []).length };
-      });
-      topicMentions.sort((a, b) => b.count - a.count);
-
-      if (topicMentions.length >= 2) {
-        const topCount = topicMentions[0].count;
-        const secondCount = topicMentions[1].count;
-        // Dominant topic = focused person = high conviction
-        if (topCount >= 3 * secondCount && topCount >= 3) score += 20;
-        else if (topCount >= 2 * secondCount && topCount >= 2) score += 10;
-        // Even spread across many topics = explorer = low conviction
-        else if (topCount <= secondCount + 1) score -= 10;
-      }
-
-      // Many topics + even spread = strong explorer signal
-      if (topicCount >= 4 && topicMentions.length >= 2) {
-        const topCount = topicMentions[0].count;
-        const bottomCount = topicMentions[topicMentions.length - 1].count;
-        // If top and bottom topics have similar mentions, very even = explorer
-        if (topCount <= bottomCount * 2) score -= 10;
-      }
-
-      // Explorer language detection: curiosity/exploration words lower conviction
-      // These signal someone who explores broadly rather than commits deeply
-      const explorerKeywords = [
-        'curious', 'explore', 'exploring', 'explorer', 'discovery', 'discover',
-        'experiment', 'experimenting', 'variety', 'diverse', 'try new',
-        'always looking', 'different', 'comparing', 'new things', 'so many things',
-        'rabbit hole', 'stumble upon',
-      ];
-      const convictionKeywords = [
-        'committed', 'dedicated', 'focused', 'deep dive', 'specialize',
-        'expert', 'obsessed', 'passionate about', 'all in', 'doubled down',
-      ];
-      const explorerHits = explorerKeywords.filter(kw => history.includes(kw)).length;
-      const convictionHits = convictionKeywords.filter(kw => history.includes(kw)).length;
-      const explorerNet = explorerHits - convictionHits;
-      if (explorerNet >= 4) score -= 25;
-      else if (explorerNet >= 2) score -= 15;
-      else if (explorerNet >= 1) score -= 5;
-      else if (explorerNet <= -2) score += 10;
-    }
-
-    if (userData.wallet) {
-      const { transactions = [], contracts = [], tokens = [] } = userData.wallet;
-
-      // Portfolio concentration (fewer contracts = higher conviction)
-      const uniqueContracts = new Set(contracts).size;
-      if (uniqueContracts > 0) {
-        if (uniqueContracts <= 5) score += 20;
-        else if (uniqueContracts <= 10) score += 10;
-        else if (uniqueContracts > 30) score -= 20;
-      }
-
-      // Repeat interactions
-      const contractCounts = contracts.reduce((acc, addr) => {
-        acc[addr] = (acc[addr] || 0) + 1;
-        return acc;
-      }, {} as Record<string, number>);
-      const avgInteractionsPerContract = Object.values(contractCounts).reduce((a, b) => a + b, 0) / uniqueContracts;
-      if (avgInteractionsPerContract > 5) score += 15;
-      else if (avgInteractionsPerContract > 2) score += 5;
-      else if (avgInteractionsPerContract < 1.5) score -= 10;
-
-      // Token holding
-      const uniqueTokens = new Set(tokens.map((t: any) => t.symbol)).size;
-      if (uniqueTokens > 20) score -= 15;
-      else if (uniqueTokens < 5) score += 10;
-    }
-
-    // Social signals
-    if (userData.twitter) {
-      const followingCount = userData.twitter.following.length;
-      if (followingCount < 100) score += 5;
-      else if (followingCount > 500) score -= 5;
-    }
-
-    return score;
-  }
-
-  /**
-   * Calculate Intuition (0-100)
-   * High = Vision-driven, backs pre-launch, trend-spotter
-   * Low = Data-driven, waits for metrics, mature protocols
+   * Round and clamp raw dimension scores to 0-100
    */
-  private calculateIntuition(userData: UserData): number {
-    let score = 50; // Start at midpoint
-
-    const allText = this.extractAllText(userData).toLowerCase();
-
-    // Factor 1: Vision/narrative language vs data/metrics language
-    const visionKeywords = ['vision', 'future', 'believe', 'potential', 'revolutionary', 'paradigm', 'early', 'first'];
-    const analysisKeywords = ['data', 'metrics', 'roi', 'tvl', 'apy', 'analysis', 'performance', 'track record'];
-
-    const visionScore = visionKeywords.filter(k => allText.includes(k)).length;
-    const analysisScore = analysisKeywords.filter(k => allText.includes(k)).length;
-
-    score += (visionScore - analysisScore) * 5;
-
-    // Factor 2: Wallet activity - pre-launch vs established protocols
-    if (userData.wallet) {
-      const { transactions = [] } = userData.wallet;
-
-      // Pre-launch signals: interacting with new contracts (deployed < 30 days ago)
-      // Established signals: using high-TVL mature protocols
-      // Note: In production, this would call blockchain APIs to check contract age and TVL
-      // For hackathon, we'll use heuristics
-
-      const establishedProtocols = ['uniswap', 'aave', 'compound', 'curve', 'maker'];
-      const establishedTxCount = transactions.filter((tx: any) =>
-        establishedProtocols.some(p => tx.to?.toLowerCase().includes(p))
-      ).length;
-
-      if (establishedTxCount > 10) score -= 10; // Prefers mature protocols
-      else if (establishedTxCount < 3) score += 10; // Avoids established
-
-      // High transaction count = willing to experiment early
-      if (transactions.length > 100) score += 5;
-    }
-
-    // Factor 3: Social behavior - talks about trends vs analysis
-    if (userData.twitter) {
-      const tweets = userData.twitter.tweets || [];
-      const trendKeywords = ['trend', 'new', 'launch', 'alpha', 'early'];
-      const trendMentions = tweets.filter((t: any) =>
-        trendKeywords.some(k => t.text?.toLowerCase().includes(k))
-      ).length;
-
-      score += trendMentions * 2;
-    }
-
-    return score;
+  private clampDimensions(scored: Record<DimensionName, ScoredDimension>): DimensionScores {
+    return {
+      conviction: Math.min(Math.max(Math.round(scored.conviction.score), 0), 100),
+      intuition: Math.min(Math.max(Math.round(scored.intuition.score), 0), 100),
+      contribution: Math.min(Math.max(Math.round(scored.contribution.score), 0), 100),
+    };
   }
 
   /**
@@ -298,22 +227,31 @@ export class PersonalityAnalyzer {
    * >65 = The Cultivator (override personality classification)
    * Detects: content creation, feedback, referrals, governance
    */
-  private calculateContribution(userData: UserData): number {
-    let score = 0;
+  private calculateContribution(userData: UserData): ScoredDimension {
+    const base = 0;
+    let score = base;
+    const evidence: DimensionEvidence[] = [];
+    const add = (delta: number, item: Omit<DimensionEvidence, 'delta'>) => {
+      score += delta;
+      evidence.push({ ...item, delta });
+    };
+    const addKeywords = (keywords: string[], points: number, detail: string) => {
+      const hits = keywords.filter(k => allText.includes(k));
+      if (hits.length > 0) {
+        add(hits.length * points, { signal: 'keyword', detail, keywords: hits, snippets: findSnippets(userData, hits) });
+      }
+    };
 
-    const allText = this.extractAllText(userData).toLowerCase();
+    const allText = extractAllText(userData).toLowerCase();
 
     // Factor 1: Content creation
-    const contentKeywords = ['wrote', 'published', 'created', 'shared', 'tutorial', 'guide', 'review'];
-    score += contentKeywords.filter(k => allText.includes(k)).length * 5;
+    addKeywords(['wrote', 'published', 'created', 'shared', 'tutorial', 'guide', 'review'], 5, 'Content creation');
 
     // Factor 2: Community engagement
-    const engagementKeywords = ['feedback', 'suggestion', 'improvement', 'helped', 'support', 'community'];
-    score += engagementKeywords.filter(k => allText.includes(k)).length * 5;
+    addKeywords(['feedback', 'suggestion', 'improvement', 'helped', 'support', 'community'], 5, 'Community engagement');
 
     // Factor 3: Referrals and evangelism
-    const referralKeywords = ['recommend', 'check out', 'try this', 'using', 'love this'];
-    score += referralKeywords.filter(k => allText.includes(k)).length * 3;
+    addKeywords(['recommend', 'check out', 'try this', 'using', 'love this'], 3, 'Referrals and evangelism');
 
     // Factor 4: Governance participation
     if (userData.wallet) {
@@ -321,23 +259,27 @@ export class PersonalityAnalyzer {
       const governanceTxs = transactions.filter((tx: any) =>
         tx.method?.includes('vote') || tx.method?.includes('propose')
       ).length;
-      score += governanceTxs * 10;
+      if (governanceTxs > 0) add(governanceTxs * 10, { signal: 'wallet', detail: `${governanceTxs} governance transactions` });
     }
 
     // Factor 5: Twitter/Farcaster engagement volume
     if (userData.twitter) {
       const tweets = userData.twitter.tweets || [];
-      if (tweets.length > 100) score += 10;
-      else if (tweets.length > 50) score += 5;
+      if (tweets.length > 100) add(10, { signal: 'social', detail: `${tweets.length} tweets` });
+      else if (tweets.length > 50) add(5, { signal: 'social', detail: `${tweets.length} tweets` });
     }
 
     if (userData.farcaster) {
       const casts = userData.farcaster.casts || [];
-      if (casts.length > 100) score += 10;
-      else if (casts.length > 50) score += 5;
+      if (casts.length > 100) add(10, { signal: 'social', detail: `${casts.length} casts` });
+      else if (casts.length > 50) add(5, { signal: 'social', detail: `${casts.length} casts` });
+    }
+
+    if (score > 100) {
+      evidence.push({ signal: 'cap', detail: 'Contribution capped at 100', delta: 100 - score });
     }
 
-    return Math.min(score, 100);
+    return { base, score: Math.min(score, 100), evidence };
   }
 
   /**
@@ -369,45 +311,101 @@ export class PersonalityAnalyzer {
   }
 
   /**
-   * Detect top categories from user data
+   * Probability distribution over all five types.
    *
-   * Uses frequency-weighted scoring: counts total keyword hits per category.
-   * A category must reach MIN_CATEGORY_SCORE to qualify — a single passing
-   * mention of "blockchain" won't label someone as a Crypto person.
+   * Each threshold in classifyPersonality becomes a logistic curve, so a user at
+   * conviction 51 / intuition 49 splits almost evenly while 95/5 is near-certain.
+   * Cultivator takes its override share first; the quadrants split the rest.
    */
-  private detectCategories(userData: UserData): string[] {
-    const allText = this.extractAllText(userData).toLowerCase();
-    const categoryScores: Record<string, number> = {};
-
-    for (const [category, keywords] of Object.entries(CATEGORY_KEYWORDS)) {
-      let score = 0;
-      for (const keyword of keywords) {
-        // Use word boundary for short keywords to avoid false matches
-        const pattern = keyword.length <= 3 ? `\\b${keyword}\\b` : keyword;
-        const regex = new RegExp(pattern, 'gi');
-        const matches = allText.match(regex);
-        if (matches) {
-          score += matches.length;
-        }
-      }
-      categoryScores[category] = score;
+  private blendPersonality(dimensions: DimensionScores): PersonalityBlend {
+    const { conviction, intuition, contribution } = dimensions;
+    const sigmoid = (x: number) => 1 / (1 + Math.exp(-x / BLEND_TEMPERATURE));
+
+    const pCultivator = sigmoid(contribution - 55);
+    const pConviction = sigmoid(conviction - 50);
+    const pIntuition = sigmoid(intuition - 50);
+    const rest = 1 - pCultivator;
+
+    const probabilities: Record<PersonalityType, number> = {
+      [PersonalityType.THE_VISIONARY]: rest * pConviction * pIntuition,
+      [PersonalityType.THE_EXPLORER]: rest * (1 - pConviction) * pIntuition,
+      [PersonalityType.THE_CULTIVATOR]: pCultivator,
+      [PersonalityType.THE_OPTIMIZER]: rest * pConviction * (1 - pIntuition),
+      [PersonalityType.THE_INNOVATOR]: rest * (1 - pConviction) * (1 - pIntuition),
+    };
+    for (const type of Object.keys(probabilities) as PersonalityType[]) {
+      probabilities[type] = Math.round(probabilities[type] * 1000) / 1000;
     }
 
-    // Filter by minimum score, then sort by score descending
-    const qualified = Object.entries(categoryScores)
-      .filter(([, score]) => score >= MIN_CATEGORY_SCORE)
-      .sort(([, a], [, b]) => b - a)
-      .map(([category]) => category);
-
-    // Always return at least 1 category (fallback to highest scoring)
-    if (qualified.length === 0) {
-      const fallback = Object.entries(categoryScores)
-        .sort(([, a], [, b]) => b - a)
-        .map(([category]) => category);
-      return fallback.slice(0, 1);
+    const primary = this.classifyPersonality(dimensions);
+    const secondary = (Object.keys(probabilities) as PersonalityType[])
+      .filter(type => type !== primary)
+      .sort((a, b) => probabilities[b] - probabilities[a])[0];
+
+    // Negative when the scores sit right at a threshold and the blend leans the other way
+    const gap = probabilities[primary] - probabilities[secondary];
+    const ruleDisagrees = gap < 0;
+    const borderline = gap < BORDERLINE_GAP;
+    const secondaryName = secondary.replace(/^The /, '');
+    const label = ruleDisagrees
+      ? `${primary}, bordering on ${secondaryName}`
+      : probabilities[secondary] >= SECONDARY_MIN_SHARE
+        ? `${primary} with ${secondaryName} tendencies`
+        : primary;
+
+    return { probabilities, primary, secondary, borderline, ruleDisagrees, label };
+  }
+
+  /**
+   * Describe which classifyPersonality rule fired, in the same terms as the rule itself
+   */
+  private describeClassification(dimensions: DimensionScores): string {
+    const { conviction, intuition, contribution } = dimensions;
+    const type = this.classifyPersonality(dimensions);
+
+    if (contribution > 55) {
+      return `Contribution ${contribution} > 55 → ${type} (override)`;
     }
 
-    return qualified.slice(0, 3);
+    const convictionSide = conviction >= 50 ? `Conviction ${conviction} ≥ 50` : `Conviction ${conviction} < 50`;
+    const intuitionSide = intuition >= 50 ? `Intuition ${intuition} ≥ 50` : `Intuition ${intuition} < 50`;
+    return `${convictionSide}, ${intuitionSide}, Contribution ${contribution} ≤ 55 → ${type}`;
+  }
+
+  /**
+   * Build the per-dimension evidence trace returned alongside the scores
+   */
+  private buildExplanation(
+    userData: UserData,
+    scored: Record<DimensionName, ScoredDimension>,
+    dimensions: DimensionScores,
+    nudges?: { conviction: number; intuition: number; contribution: number; reasons?: NudgeReason[] },
+  ): PersonalityExplanation {
+    const explain = (name: DimensionName): DimensionExplanation => ({
+      base: scored[name].base,
+      evidence: scored[name].evidence,
+      raw: scored[name].base + scored[name].evidence.reduce((sum, e) => sum + e.delta, 0),
+      nudge: nudges?.[name] ?? 0,
+      final: dimensions[name],
+    });
+
+    return {
+      conviction: explain('conviction'),
+      intuition: explain('intuition'),
+      contribution: explain('contribution'),
+      nudges: (nudges?.reasons ?? []).filter(r => (nudges?.[r.dimension] ?? 0) !== 0),
+      classification: this.describeClassification(dimensions),
+    };
+  }
+
+  /**
+   * "The {category} {noun}"; borderline profiles get both nouns ("The Crypto Pioneer-Nomad")
+   */
+  private generateTagline(type: PersonalityType, category: string, blend: PersonalityBlend): string {
+    const noun = blend.borderline && blend.primary === type
+      ? `${TAGLINE_NOUNS[type]}-${TAGLINE_NOUNS[blend.secondary]}`
+      : TAGLINE_NOUNS[type];
+    return `The ${category} ${noun}`;
   }
 
   /**
@@ -416,7 +414,8 @@ export class PersonalityAnalyzer {
   private async generateDescription(
     type: PersonalityType,
     categories: string[],
-    dimensions: DimensionScores
+    dimensions: DimensionScores,
+    blend?: PersonalityBlend,
   ): Promise<string> {
     const descriptions = {
       [PersonalityType.THE_VISIONARY]: [
@@ -443,58 +442,12 @@ export class PersonalityAnalyzer {
 
     const options = descriptions[type];
     const randomIndex = Math.floor(Math.random() * options.length);
-    return options[randomIndex];
-  }
-
-  /**
-   * Extract all text from user data
-   */
-  private extractAllText(userData: UserData): string {
-    const textParts: string[] = [];
-
-    if (userData.twitter) {
-      textParts.push(userData.twitter.bio);
-      textParts.push(...userData.twitter.tweets.map(t => t.text || ''));
-      textParts.push(...userData.twitter.following);
-    }
-
-    if (userData.farcaster) {
-      textParts.push(userData.farcaster.bio);
-      textParts.push(...userData.farcaster.casts.map(c => c.text || ''));
-      textParts.push(...userData.farcaster.channels);
-    }
 
-    if (userData.conversationMemory) {
-      textParts.push(...userData.conversationMemory.topics);
-      textParts.push(...userData.conversationMemory.interests);
-      textParts.push(...userData.conversationMemory.preferences);
-      textParts.push(...userData.conversationMemory.history);
+    // Blended and borderline profiles get one sentence about their secondary type
+    if (blend && blend.primary === type && (blend.borderline || blend.probabilities[blend.secondary] >= SECONDARY_MIN_SHARE)) {
+      return `${options[randomIndex]} ${SECONDARY_TENDENCIES[blend.secondary]}`;
     }
-
-    return textParts.join(' ');
-  }
-
-  /**
-   * Extract specific interests
-   */
-  private extractInterests(userData: UserData): string[] {
-    const interests = new Set<string>();
-    const allText = this.extractAllText(userData).toLowerCase();
-
-    const interestKeywords = [
-      'AI Tools', 'Machine Learning', 'Crypto', 'DeFi', 'NFTs',
-      'Education', 'Wellness', 'Fitness', 'Productivity', 'Meditation',
-      'Web3', 'DAOs', 'Gaming', 'Art', 'Music', 'Writing',
-      'Coding', 'Design', 'Marketing', 'Finance', 'Health',
-    ];
-
-    for (const keyword of interestKeywords) {
-      if (allText.includes(keyword.toLowerCase())) {
-        interests.add(keyword);
-      }
-    }
-
-    return Array.from(interests).slice(0, 10);
+    return options[randomIndex];
   }
 
   /**
@@ -511,3 +464,18 @@ export class PersonalityAnalyzer {
     return Math.min(confidence, 100);
   }
 }
+
+/**
+ * Create the analyzer backend by name (defaults to ANALYZER_BACKEND, then 'keyword')
+ */
+export function createAnalyzerBackend(name: string = process.env.ANALYZER_BACKEND || 'keyword'): AnalyzerBackend {
+  switch (name) {
+    case 'bayes':
+      return new BayesBackend();
+    case 'keyword':
+      return new KeywordBackend();
+    default:
+      console.warn(`⚠️  Unknown analyzer backend "${name}", using keyword`);
+      return new KeywordBackend();
+  }
+}
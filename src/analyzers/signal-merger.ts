@@ -21,6 +21,16 @@ export interface FeedbackData {
   eventCount: number;
 }
 
+/**
+ * One USER.md rule that nudged a dimension, before userMdWeight scaling.
+ */
+export interface NudgeReason {
+  dimension: 'conviction' | 'intuition' | 'contribution';
+  delta: number;
+  field: 'workingStyle' | 'role';
+  value: string;
+}
+
 export interface MergedSignals {
   mainCategories: string[];
   subCategories: string[];
@@ -28,9 +38,14 @@ export interface MergedSignals {
     conviction: number; // -15 to +15
     intuition: number;
     contribution: number;
+    reasons?: NudgeReason[]; // Which USER.md rules produced the nudges
   };
   excludedSkillIds?: string[];
   categoryWeights?: Record<string, number>;
+  userMd?: {
+    categories: string[];  // Categories and interests USER.md contributed
+    weight: number;        // Its blend weight (0.2–0.3)
+  };
 }
 
 /**
@@ -105,8 +120,8 @@ export function mergeSignals(
 
   // ─── Dimension nudges ──────────────────────────────────────────────
 
-  const dimensionNudges = userMd ? calculateDimensionNudges(userMd) : {
-    conviction: 0, intuition: 0, contribution: 0,
+  const dimensionNudges: MergedSignals['dimensionNudges'] = userMd ? calculateDimensionNudges(userMd) : {
+    conviction: 0, intuition: 0, contribution: 0, reasons: [],
   };
 
   // Scale nudges by userMdWeight (less influence when feedback dominates)
@@ -120,6 +135,7 @@ export function mergeSignals(
     dimensionNudges,
     excludedSkillIds: feedback?.excludeSkillIds,
     categoryWeights: feedback?.categoryWeights,
+    userMd: userMd ? { categories: [...userMdCategories, ...userMdSubCategories], weight: userMdWeight } : undefined,
   };
 }
 
@@ -194,38 +210,41 @@ function calculateDimensionNudges(userMd: UserMdSignals): {
   conviction: number;
   intuition: number;
   contribution: number;
+  reasons: NudgeReason[];
 } {
-  let conviction = 0;
-  let intuition = 0;
-  let contribution = 0;
+  const reasons: NudgeReason[] = [];
 
   // Working style nudges
   if (userMd.workingStyle === 'deep-focus') {
-    conviction += 15;
+    reasons.push({ dimension: 'conviction', delta: 15, field: 'workingStyle', value: userMd.workingStyle });
   } else if (userMd.workingStyle === 'explorer' || userMd.workingStyle === 'multitasker') {
-    conviction -= 10;
-    intuition += 10;
+    reasons.push({ dimension: 'conviction', delta: -10, field: 'workingStyle', value: userMd.workingStyle });
+    reasons.push({ dimension: 'intuition', delta: 10, field: 'workingStyle', value: userMd.workingStyle });
   }
 
   // Role nudges
   if (userMd.role) {
     const roleLower = userMd.role.toLowerCase();
     if (/research/i.test(roleLower)) {
-      intuition += 10;
+      reasons.push({ dimension: 'intuition', delta: 10, field: 'role', value: userMd.role });
     }
     if (/community|bd|business dev|ambassador/i.test(roleLower)) {
-      contribution += 10;
+      reasons.push({ dimension: 'contribution', delta: 10, field: 'role', value: userMd.role });
     }
     if (/founder|cto|ceo|co-founder/i.test(roleLower)) {
-      conviction += 10;
+      reasons.push({ dimension: 'conviction', delta: 10, field: 'role', value: userMd.role });
     }
   }
 
+  const sum = (dimension: NudgeReason['dimension']) =>
+    reasons.filter(r => r.dimension === dimension).reduce((total, r) => total + r.delta, 0);
+
   // Clamp each nudge to [-15, +15]
   return {
-    conviction: clamp(conviction, -15, 15),
-    intuition: clamp(intuition, -15, 15),
-    contribution: clamp(contribution, -15, 15),
+    conviction: clamp(sum('conviction'), -15, 15),
+    intuition: clamp(sum('intuition'), -15, 15),
+    contribution: clamp(sum('contribution'), -15, 15),
+    reasons,
   };
 }
 
@@ -20,6 +20,9 @@ import { walletStorage } from './wallet-storage';
 import * as crypto from 'crypto';
 import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
 import type { PrivateKeyAccount } from 'viem';
+import type { PersonalityExplanation, PersonalityBlend } from '../analyzers/personality-analyzer';
+import type { RecommendationExplanation } from '../utils/recommendation-reasons';
+import type { TrustScore } from '../utils/trust-score';
 
 export interface AgentWalletConfig {
   userId: string;  // ⭐ Required for per-user wallets
@@ -400,6 +403,9 @@ export class AgentWallet {
         intuition: number;
         contribution: number;
       };
+      blend?: PersonalityBlend;
+      explanation?: PersonalityExplanation;
+      languages?: string[];
       recommendations?: Array<{
         skillId: string;
         skillName: string;
@@ -409,9 +415,17 @@ export class AgentWallet {
         matchScore: number;
         creator?: string;
         creatorUserId?: number | string;
-        source?: 'ClawHub' | 'ClaudeCode' | 'GitHub';
+        source?: string;
         stars?: number;
         language?: string;
+        riskLabel?: string;
+        installed?: boolean;
+        canonicalId?: string;
+        lists?: string[];
+        provenance?: Array<{ source: string; skillId: string; url: string }>;
+        reason?: string;
+        explanation?: RecommendationExplanation;
+        trust?: TrustScore;
       }>;
     }
   ): Promise<{ agentUserId: number; x402Endpoint: string }> {
@@ -610,6 +624,9 @@ export class AgentWallet {
         intuition: number;
         contribution: number;
       };
+      blend?: PersonalityBlend;
+      explanation?: PersonalityExplanation;
+      languages?: string[];
       recommendations?: Array<{
         skillId: string;
         skillName: string;
@@ -619,9 +636,17 @@ export class AgentWallet {
         matchScore: number;
         creator?: string;
         creatorUserId?: number | string;
-        source?: 'ClawHub' | 'ClaudeCode' | 'GitHub';
+        source?: string;
         stars?: number;
         language?: string;
+        riskLabel?: string;
+        installed?: boolean;
+        canonicalId?: string;
+        lists?: string[];
+        provenance?: Array<{ source: string; skillId: string; url: string }>;
+        reason?: string;
+        explanation?: RecommendationExplanation;
+        trust?: TrustScore;
       }>;
     }
   ): Promise<{ agentUserId: number; dashboardUrl: string }> {
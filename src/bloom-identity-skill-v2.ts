@@ -8,7 +8,7 @@
  * - Graceful degradation
  */
 
-import { PersonalityAnalyzer } from './analyzers/personality-analyzer';
+import { PersonalityAnalyzer, PersonalityExplanation, PersonalityBlend, createAnalyzerBackend } from './analyzers/personality-analyzer';
 import { EnhancedDataCollector } from './analyzers/data-collector-enhanced';
 import { ManualQAFallback, ManualAnswer } from './analyzers/manual-qa-fallback';
 import { CategoryMapper } from './analyzers/category-mapper';
@@ -18,14 +18,16 @@ import { mintIdentitySbt } from './blockchain/identity-sbt';
 import { captureAndUploadCardImage } from './blockchain/card-image';
 import { TwitterShare, createTwitterShare } from './integrations/twitter-share';
 import { PersonalityType } from './types/personality';
+import { Language, normalizeLanguage } from './types/category-locales';
 import { refreshRecommendations, SkillRecommendation } from './recommendation-pipeline';
 import { syncDiscoveries } from './discovery-sync';
 import { parseUserMd, UserMdSignals } from './parsers/user-md-parser';
 import { mergeSignals, MergedSignals, FeedbackData } from './analyzers/signal-merger';
+import { impressionEvents, isFeedbackEnabled, loadFeedbackData, recordFeedbackEvents } from './utils/feedback-store';
 
 // Re-export for backwards compatibility
 export { PersonalityType };
-export type { SkillRecommendation, FeedbackData, UserMdSignals };
+export type { SkillRecommendation, FeedbackData, UserMdSignals, PersonalityExplanation, PersonalityBlend };
 
 export interface IdentityData {
   personalityType: PersonalityType;
@@ -38,6 +40,8 @@ export interface IdentityData {
     intuition: number;
     contribution: number;
   };
+  blend?: PersonalityBlend; // Probabilities + secondary type (data mode only)
+  languages?: Language[];   // Languages the user accepts recommendations in
 }
 
 /**
@@ -61,7 +65,7 @@ export class BloomIdentitySkillV2 {
   private twitterShare: TwitterShare;
 
   constructor() {
-    this.personalityAnalyzer = new PersonalityAnalyzer();
+    this.personalityAnalyzer = new PersonalityAnalyzer(createAnalyzerBackend());
     this.dataCollector = new EnhancedDataCollector();
     this.manualQA = new ManualQAFallback();
     this.categoryMapper = new CategoryMapper();
@@ -114,7 +118,8 @@ export class BloomIdentitySkillV2 {
       manualAnswers?: ManualAnswer[]; // If already collected
       conversationText?: string; // ⭐ NEW: Direct conversation text from OpenClaw bot
       userMdPath?: string;       // Path to USER.md, default ~/.config/claude/USER.md
-      feedback?: FeedbackData;   // Feedback signals from recommendation interactions
+      feedback?: FeedbackData;   // Feedback signals (default: derived from the local feedback log)
+      languages?: string[];      // Accepted recommendation languages (overrides USER.md)
       // SBT minting is automatic when SBT_CONTRACT_ADDRESS is set
     }
   ): Promise<{
@@ -131,6 +136,7 @@ export class BloomIdentitySkillV2 {
       intuition: number;
       contribution: number;
     };
+    explanation?: PersonalityExplanation;
     actions?: {
       share?: {
         url: string;
@@ -163,6 +169,8 @@ export class BloomIdentitySkillV2 {
       let dataQuality = 0;
       let usedManualQA = false;
       let dimensions: { conviction: number; intuition: number; contribution: number } | undefined;
+      let explanation: PersonalityExplanation | undefined;
+      let conversationLanguages: Language[] = [];
       let mintAction: { contractAddress: string; tokenUri: string; txHash: string; network: string } | undefined;
 
       // Step 1.5: Parse USER.md for static profile signals
@@ -174,6 +182,12 @@ export class BloomIdentitySkillV2 {
         console.log('📋 No USER.md found (graceful degradation)');
       }
 
+      // Step 1.6: Feedback from the local event log, unless the caller passed it
+      const feedback = options?.feedback ?? loadFeedbackData();
+      if (feedback && !options?.feedback) {
+        console.log(`✅ Feedback log: ${feedback.eventCount} recent events, ${Object.keys(feedback.categoryWeights ?? {}).length} weighted categories, ${feedback.excludeSkillIds?.length ?? 0} dismissed skills`);
+      }
+
       if (mode !== ExecutionMode.MANUAL) {
         console.log('📊 Step 1: Attempting data collection...');
 
@@ -220,12 +234,12 @@ export class BloomIdentitySkillV2 {
             console.log('✅ Sufficient data available, proceeding with AI analysis...');
 
             // Pre-compute dimension nudges from USER.md + feedback
-            const preNudges = (userMdSignals || options?.feedback)
+            const preNudges = (userMdSignals || feedback)
               ? mergeSignals(
                   [], // categories not needed yet, just computing nudges
                   { conviction: 0, intuition: 0, contribution: 0 },
                   userMdSignals,
-                  options?.feedback ?? null,
+                  feedback ?? null,
                 )
               : null;
 
@@ -245,7 +259,7 @@ export class BloomIdentitySkillV2 {
               conversationCategories,
               analysis.dimensions,
               userMdSignals,
-              options?.feedback ?? null,
+              feedback ?? null,
             );
 
             identityData = {
@@ -257,12 +271,15 @@ export class BloomIdentitySkillV2 {
                 s => !analysis.detectedInterests.includes(s),
               )],
               dimensions: analysis.dimensions,
+              blend: analysis.blend,
             };
 
             // ⭐ Capture 2x2 metrics
             dimensions = analysis.dimensions;
+            conversationLanguages = userData.conversationMemory?.languages ?? [];
+            explanation = analysis.explanation;
 
-            if (userMdSignals || options?.feedback) {
+            if (userMdSignals || feedback) {
               console.log(`✅ Signals merged: categories=${merged.mainCategories.join(', ')}`);
             }
 
@@ -316,16 +333,25 @@ export class BloomIdentitySkillV2 {
 
       // Step 3: Recommend OpenClaw Skills ⭐ NEW
       console.log('🔍 Step 3: Finding matching OpenClaw Skills...');
-      const merged = (userMdSignals || options?.feedback)
+      const merged = (userMdSignals || feedback)
         ? mergeSignals(
             identityData!.mainCategories,
             identityData!.dimensions || { conviction: 50, intuition: 50, contribution: 50 },
             userMdSignals,
-            options?.feedback ?? null,
+            feedback ?? null,
           )
         : null;
+      identityData!.languages = this.resolveLanguages(options?.languages, userMdSignals?.languages, conversationLanguages);
+      console.log(`🌐 Accepting recommendations in: ${identityData!.languages.join(', ')}`);
       const recommendations = await this.recommendSkills(identityData!, merged);
       console.log(`✅ Found ${recommendations.length} matching skills`);
+      if (isFeedbackEnabled()) {
+        try {
+          recordFeedbackEvents(impressionEvents(recommendations));
+        } catch (error) {
+          console.warn('⚠️ Could not record impressions (non-critical):', error instanceof Error ? error.message : error);
+        }
+      }
 
       // Step 4: Initialize Agent Wallet ⭐ Per-User Wallet
       console.log('🤖 Step 4: Initializing Agent Wallet...');
@@ -346,6 +372,9 @@ export class BloomIdentitySkillV2 {
         confidence: dataQuality,
         mode: (usedManualQA ? 'manual' : 'data') as 'data' | 'manual',
         dimensions,
+        blend: identityData!.blend,
+        explanation,
+        languages: identityData!.languages,
         recommendations,
       };
 
@@ -473,6 +502,7 @@ export class BloomIdentitySkillV2 {
         shareUrl,
         dataQuality,
         dimensions, // ⭐ Include 2x2 metrics in result
+        explanation, // Evidence trace behind the dimensions (data mode only)
         // ⭐ Frontend action buttons data
         actions: {
           share: shareData, // For "Share on X" button
@@ -514,6 +544,9 @@ export class BloomIdentitySkillV2 {
       external_url: dashboardUrl,
       attributes: [
         { trait_type: 'Personality Type', value: identity.personalityType },
+        ...(identity.blend && identity.blend.label !== identity.personalityType
+          ? [{ trait_type: 'Secondary Type', value: identity.blend.secondary }]
+          : []),
         ...identity.mainCategories.map(c => ({ trait_type: 'Category', value: c })),
         { trait_type: 'Discovery Mode', value: 'Active' },
       ],
@@ -552,8 +585,27 @@ export class BloomIdentitySkillV2 {
         categoryWeights: merged.categoryWeights,
         excludeSkillIds: merged.excludedSkillIds,
       } : undefined,
+      userMd: merged?.userMd,
+      languages: identity.languages,
     });
   }
+
+  /**
+   * Accepted recommendation languages: an explicit option wins, then USER.md,
+   * otherwise English plus whatever the user writes in
+   */
+  private resolveLanguages(
+    explicit: string[] | undefined,
+    userMd: Language[] | undefined,
+    conversation: Language[],
+  ): Language[] {
+    const fromOption = (explicit || [])
+      .map(normalizeLanguage)
+      .filter((language): language is Language => language !== null);
+    if (fromOption.length > 0) return Array.from(new Set(fromOption));
+    if (userMd && userMd.length > 0) return userMd;
+    return Array.from(new Set<Language>(['en', ...conversation]));
+  }
 }
 
 /**
@@ -582,6 +634,7 @@ export const bloomIdentitySkillV2 = {
       mode: ExecutionMode.AUTO,
       skipShare: !context.enableShare, // Only if user enables
       manualAnswers,
+      languages: context.languages,
     });
 
     if (!result.success) {
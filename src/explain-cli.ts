@@ -0,0 +1,83 @@
+/**
+ * Bloom Skill Explainer - CLI Entry Point
+ *
+ * "Why isn't this skill recommended?" Runs the recommendation pipeline in
+ * debug mode for the given interests and explains one skill: where it
+ * ranked, or which gate dropped it and on what values.
+ *
+ * Usage:
+ *   npx ts-node src/explain-cli.ts pdf-tools --categories Development
+ *   npx ts-node src/explain-cli.ts https://clawhub.ai/skills/pdf-tools --categories "AI Tools,Productivity" --personality "The Optimizer"
+ *   npx ts-node src/explain-cli.ts pdf-tools --categories Development --replay ./fixtures/run.json
+ */
+
+import 'dotenv/config';
+import { Command } from 'commander';
+import { SkillRejection } from './recommendation-sources';
+import { refreshRecommendations } from './recommendation-pipeline';
+import { Language } from './types/category-locales';
+import { PersonalityType } from './types/personality';
+import { installHttpFixturesFromEnv } from './utils/http-fixtures';
+import { diagnoseSkill, formatDiagnosis } from './utils/skill-diagnostics';
+
+const program = new Command();
+
+program
+  .name('bloom-explain')
+  .description('Explain why a skill is or is not recommended')
+  .version('2.0.0')
+  .argument('<skill>', 'Skill slug or URL')
+  .requiredOption('--categories <list>', 'Comma-separated main categories (e.g. "Development,AI Tools")')
+  .option('--interests <list>', 'Comma-separated sub-interests')
+  .option('--personality <type>', 'Personality type', PersonalityType.THE_EXPLORER)
+  .option('--languages <list>', 'Comma-separated languages to accept recommendations in (e.g. en,zh)')
+  .option('--sources <list>', 'Comma-separated recommendation sources (default: BLOOM_RECOMMENDATION_SOURCES)')
+  .option('--offline', 'Serve recommendations from the HTTP cache only, without network requests', false)
+  .option('--min-trust <score>', 'Drop recommendations with a lower trust score (0-100)')
+  .option('--record <file>', 'Record every HTTP exchange to a fixture bundle')
+  .option('--replay <file>', 'Answer HTTP requests from a fixture bundle instead of the network')
+  .parse(process.argv);
+
+const options = program.opts();
+const [query] = program.args;
+
+if (options.record || options.replay) {
+  process.env.BLOOM_HTTP_FIXTURES = options.replay ? 'replay' : 'record';
+  process.env.BLOOM_HTTP_FIXTURE_PATH = options.replay ?? options.record;
+}
+installHttpFixturesFromEnv();
+
+const list = (value?: string) => value?.split(',').map((s: string) => s.trim()).filter(Boolean);
+
+async function main() {
+  try {
+    let rejections: SkillRejection[] = [];
+    const recommendations = await refreshRecommendations(
+      {
+        mainCategories: list(options.categories) ?? [],
+        subCategories: list(options.interests) ?? [],
+        personalityType: options.personality,
+        languages: list(options.languages) as Language[] | undefined,
+      },
+      {
+        sources: list(options.sources),
+        offline: options.offline || undefined,
+        minTrust: options.minTrust !== undefined ? Number(options.minTrust) : undefined,
+        debug: true,
+        onRejections: r => { rejections = r; },
+      },
+    );
+
+    console.log(`\n🔎 ${query}\n`);
+    for (const line of formatDiagnosis(diagnoseSkill(query, recommendations, rejections))) {
+      console.log(line);
+    }
+    console.log('');
+  } catch (error) {
+    console.error('\n❌ Error:', error instanceof Error ? error.message : 'Unknown error');
+    process.exit(1);
+  }
+}
+
+// Run the CLI
+main();
@@ -0,0 +1,107 @@
+/**
+ * Bloom Feedback - CLI Entry Point
+ *
+ * Records reactions to recommendations in the local feedback log and shows
+ * the weights derived from it. Recommendation runs read the log by default.
+ *
+ * Usage:
+ *   npx ts-node src/feedback-cli.ts like pdf-tools
+ *   npx ts-node src/feedback-cli.ts dismiss https://github.com/owner/repo --category Crypto
+ *   npx ts-node src/feedback-cli.ts tip pdf-tools --amount 5
+ *   npx ts-node src/feedback-cli.ts weights
+ *   npx ts-node src/feedback-cli.ts log --limit 20
+ */
+
+import { Command } from 'commander';
+import {
+  FeedbackEventType,
+  categorySignals,
+  deriveFeedbackData,
+  feedbackLogPath,
+  readFeedbackEvents,
+  recordFeedbackEvents,
+  resolveFeedbackSkillId,
+} from './utils/feedback-store';
+
+const program = new Command();
+
+program
+  .name('bloom-feedback')
+  .description('Record feedback on recommended skills and inspect the derived weights')
+  .version('2.0.0');
+
+// Impressions are recorded by recommendation runs; everything else by hand
+const REACTIONS: [FeedbackEventType, string][] = [
+  ['open', 'You opened the skill'],
+  ['install', 'You installed the skill'],
+  ['like', 'You liked the skill'],
+  ['dismiss', 'Never recommend the skill again (a later like, open, install or tip undoes it)'],
+  ['tip', 'You tipped the skill creator'],
+];
+
+for (const [type, description] of REACTIONS) {
+  const command = program
+    .command(`${type} <skill>`)
+    .description(`${description} — slug, name or URL`)
+    .option('--category <list>', 'Comma-separated categories (default: from earlier impressions of the skill)');
+  if (type === 'tip') command.option('--amount <usdc>', 'Tip amount in USDC');
+
+  command.action((skill: string, options: { category?: string; amount?: string }) => {
+    const file = feedbackLogPath();
+    const skillId = resolveFeedbackSkillId(skill, readFeedbackEvents(file));
+    const categories = options.category?.split(',').map(c => c.trim()).filter(Boolean);
+    const amount = options.amount !== undefined ? Number(options.amount) : undefined;
+    if (amount !== undefined && !(amount > 0)) {
+      console.error(`❌ Invalid tip amount "${options.amount}"`);
+      process.exit(1);
+    }
+
+    recordFeedbackEvents([{
+      type,
+      skillId,
+      at: new Date().toISOString(),
+      ...(categories?.length && { categories }),
+      ...(amount !== undefined && { amount }),
+    }], file);
+    console.log(`✅ Recorded ${type} for ${skillId}${skillId !== skill ? ` (from "${skill}")` : ''}`);
+  });
+}
+
+program
+  .command('weights')
+  .description('Show the category weights, dismissed skills and event count derived from the log')
+  .option('--half-life <days>', 'Decay half-life in days (default: BLOOM_FEEDBACK_HALF_LIFE_DAYS, then 30)')
+  .action((options: { halfLife?: string }) => {
+    const file = feedbackLogPath();
+    const events = readFeedbackEvents(file);
+    const decay = { halfLifeDays: options.halfLife ? Number(options.halfLife) : undefined };
+    const data = deriveFeedbackData(events, decay);
+
+    console.log(`📒 ${file}: ${events.length} events (${data.eventCount} recent engaged)\n`);
+    const signals = categorySignals(events, decay);
+    if (signals.length === 0) {
+      console.log('No category signals yet.');
+    }
+    for (const signal of signals) {
+      const arrow = signal.weight > 1 ? '▲' : signal.weight < 1 ? '▼' : '•';
+      console.log(`${arrow} ${signal.category.padEnd(32)} ×${signal.weight.toFixed(2)}  (signal ${signal.score.toFixed(2)}, ${signal.events} events)`);
+    }
+    if (data.excludeSkillIds?.length) {
+      console.log(`\n🚫 Dismissed: ${data.excludeSkillIds.join(', ')}`);
+    }
+  });
+
+program
+  .command('log')
+  .description('Show the latest events')
+  .option('--limit <n>', 'Number of events', '20')
+  .action((options: { limit: string }) => {
+    const events = readFeedbackEvents();
+    for (const event of events.slice(-Number(options.limit))) {
+      const categories = event.categories?.length ? ` [${event.categories.join(', ')}]` : '';
+      const amount = event.amount !== undefined ? ` ${event.amount} USDC` : '';
+      console.log(`${event.at}  ${event.type.padEnd(10)} ${event.skillId}${amount}${categories}`);
+    }
+  });
+
+program.parse(process.argv);
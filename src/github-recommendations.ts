@@ -6,7 +6,12 @@
  */
 
 import type { IdentityData } from './bloom-identity-skill-v2';
-import { CATEGORY_GITHUB_TOPICS, containsBlockedKeyword } from './types/categories';
+import { describeVerdict, getContentPolicy } from './utils/content-policy';
+import { CACHE_HEADER, CachedFetchOptions, cachedFetch } from './utils/http-cache';
+import { getTaxonomy } from './types/taxonomy';
+import { RecommendationExplanation, renderReason } from './utils/recommendation-reasons';
+import type { SourceFetchContext } from './recommendation-sources';
+import type { TrustSignals } from './utils/trust-score';
 
 export interface GitHubRecommendation {
   skillId: string;
@@ -16,11 +21,13 @@ export interface GitHubRecommendation {
   categories: string[];
   matchScore: number;
   reason?: string;
+  explanation?: RecommendationExplanation;
   creator?: string;
   creatorUserId?: number | string;
   source: 'GitHub';
   stars?: number;
   language?: string;
+  trustSignals?: TrustSignals;
 }
 
 interface GitHubRepo {
@@ -35,6 +42,10 @@ interface GitHubRepo {
     login: string;
   };
   updated_at: string;
+  created_at?: string;
+  pushed_at?: string;
+  license?: { spdx_id: string | null; name: string } | null;
+  policyMultiplier?: number; // Set locally from the content-policy verdict
 }
 
 interface GitHubSearchResponse {
@@ -42,21 +53,28 @@ interface GitHubSearchResponse {
   total_count: number;
 }
 
-// Use canonical category → GitHub topic mapping from shared source
-const CATEGORY_TO_TOPICS: Record<string, string[]> = CATEGORY_GITHUB_TOPICS;
+// What search and scoring need from an identity (IdentityData or pipeline input)
+type GitHubSearchIdentity = Pick<IdentityData, 'mainCategories' | 'subCategories' | 'dimensions'>;
+
+// Repos scoring below this are dropped
+const MIN_MATCH_SCORE = 30;
 
 export class GitHubRecommendations {
   private apiToken?: string;
   private baseUrl = 'https://api.github.com';
+  private reject: SourceFetchContext['reject'];
+  private http: CachedFetchOptions;
 
-  constructor(apiToken?: string) {
+  constructor(apiToken?: string, reject: SourceFetchContext['reject'] = () => {}, http: CachedFetchOptions = {}) {
     this.apiToken = apiToken;
+    this.reject = reject;
+    this.http = http;
   }
 
   /**
    * Get GitHub repository recommendations based on identity
    */
-  async getRecommendations(identity: IdentityData, limit = 10): Promise<GitHubRecommendation[]> {
+  async getRecommendations(identity: GitHubSearchIdentity, limit = 10): Promise<GitHubRecommendation[]> {
     console.log('🔍 Searching GitHub for repositories...');
 
     try {
@@ -76,6 +94,11 @@ export class GitHubRecommendations {
 
       // Return top N
       const topRecommendations = recommendations.slice(0, limit);
+      recommendations.slice(limit).forEach((rec, i) => this.reject({
+        skillId: rec.skillId, skillName: rec.skillName, url: rec.url, creator: rec.creator,
+        gate: 'source-quota', detail: `ranked #${limit + i + 1} of ${recommendations.length}, limit is ${limit}`,
+        values: { rank: limit + i + 1, limit, matchScore: rec.matchScore },
+      }));
       console.log(`✅ Found ${topRecommendations.length} GitHub repositories`);
 
       return topRecommendations;
@@ -89,19 +112,26 @@ export class GitHubRecommendations {
   /**
    * Build GitHub search topics from identity categories
    */
-  private buildSearchTopics(identity: IdentityData): string[] {
+  private buildSearchTopics(identity: GitHubSearchIdentity): string[] {
     const topics = new Set<string>();
+    const taxonomy = getTaxonomy();
 
-    // Map main categories to GitHub topics
+    // Map main categories to GitHub topics (any taxonomy depth)
     for (const category of identity.mainCategories) {
-      const categoryTopics = CATEGORY_TO_TOPICS[category] || [];
+      const node = taxonomy.resolve(category);
+      const categoryTopics = node ? taxonomy.githubTopicsFor(node) : [];
       categoryTopics.forEach(t => topics.add(t));
     }
 
-    // Map sub-categories (interests) to topics
+    // Map sub-categories (interests) to topics — taxonomy nodes use their
+    // topics, free text is slugified
     for (const interest of identity.subCategories) {
-      const normalized = interest.toLowerCase().replace(/\s+/g, '-');
-      topics.add(normalized);
+      const node = taxonomy.resolve(interest);
+      if (node) {
+        taxonomy.githubTopicsFor(node).forEach(t => topics.add(t));
+      } else {
+        topics.add(interest.toLowerCase().replace(/\s+/g, '-'));
+      }
     }
 
     return Array.from(topics);
@@ -118,6 +148,7 @@ export class GitHubRecommendations {
     const topTopics = topics.slice(0, 3);
 
     for (const topic of topTopics) {
+      let lastOrigin: string | null = null;
       try {
         // Build search query: topic + stars + recent activity
         const sixMonthsAgo = new Date();
@@ -135,7 +166,8 @@ export class GitHubRecommendations {
           headers['Authorization'] = `token ${this.apiToken}`;
         }
 
-        const response = await fetch(url, { headers });
+        const response = await cachedFetch(url, { headers }, this.http);
+        lastOrigin = response.headers.get(CACHE_HEADER);
 
         if (!response.ok) {
           console.warn(`⚠️  GitHub API returned ${response.status} for topic: ${topic}`);
@@ -144,26 +176,40 @@ export class GitHubRecommendations {
 
         const data: GitHubSearchResponse = await response.json();
 
-        // Add unique repos, filtering out blocked keywords
+        // Add unique repos, applying the content policy
         for (const repo of data.items) {
           if (seenRepos.has(repo.full_name)) continue;
 
-          const textToCheck = `${repo.name} ${repo.description || ''} ${repo.topics.join(' ')}`;
-          if (containsBlockedKeyword(textToCheck)) {
-            console.log(`🚫 Blocked repo: ${repo.full_name} (matched blocklist)`);
+          const verdict = getContentPolicy().evaluate({
+            text: `${repo.name} ${repo.description || ''} ${repo.topics.join(' ')}`,
+            slug: repo.name,
+            creator: repo.owner.login,
+            urls: [repo.html_url],
+          });
+          if (verdict.action === 'block') {
+            console.log(`🚫 Blocked repo: ${repo.full_name} (${describeVerdict(verdict)})`);
+            this.reject({
+              skillId: repo.full_name.replace('/', '-'), skillName: repo.name, url: repo.html_url, creator: repo.owner.login,
+              gate: 'content-policy', detail: describeVerdict(verdict), values: { rules: verdict.matches.map(m => m.ruleId).join(',') },
+            });
             continue;
           }
+          if (verdict.action !== 'allow') {
+            console.log(`⚠️  Policy ${verdict.action} for repo: ${repo.full_name} (${describeVerdict(verdict)})`);
+          }
 
           seenRepos.add(repo.full_name);
-          repos.push(repo);
+          repos.push({ ...repo, policyMultiplier: verdict.scoreMultiplier });
         }
 
       } catch (error) {
         console.warn(`⚠️  Failed to search topic: ${topic}`, error);
       }
 
-      // Small delay to avoid rate limiting
-      await new Promise(resolve => setTimeout(resolve, 300));
+      // Small delay to avoid rate limiting (cached answers cost nothing)
+      if (lastOrigin !== 'hit') {
+        await new Promise(resolve => setTimeout(resolve, 300));
+      }
     }
 
     return repos;
@@ -172,7 +218,7 @@ export class GitHubRecommendations {
   /**
    * Score and rank repositories based on relevance + personality signals
    */
-  private scoreRepositories(repos: GitHubRepo[], identity: IdentityData): GitHubRecommendation[] {
+  private scoreRepositories(repos: GitHubRepo[], identity: GitHubSearchIdentity): GitHubRecommendation[] {
     const recommendations: GitHubRecommendation[] = [];
     const dims = identity.dimensions;
 
@@ -225,20 +271,26 @@ export class GitHubRecommendations {
         }
       }
 
-      // Normalize to 0-100
-      matchScore = Math.min(Math.round(matchScore), 100);
+      // Content-policy downrank, then normalize to 0-100
+      matchScore = Math.min(Math.round(matchScore * (repo.policyMultiplier ?? 1)), 100);
 
       // Only include repos with decent match score
-      if (matchScore >= 30) {
-        // Generate reason from matched topics
-        const matchedTopicNames = repo.topics.filter(t => userTopics.includes(t));
-        const starsDisplay = repo.stargazers_count >= 1000
-          ? `${(repo.stargazers_count / 1000).toFixed(1)}k`
-          : `${repo.stargazers_count}`;
+      if (matchScore < MIN_MATCH_SCORE) {
+        this.reject({
+          skillId: repo.full_name.replace('/', '-'), skillName: repo.name, url: repo.html_url, creator: repo.owner.login,
+          gate: 'min-score', detail: `match score ${matchScore} < ${MIN_MATCH_SCORE}`,
+          values: { matchScore, minScore: MIN_MATCH_SCORE, topicMatches, stars: repo.stargazers_count },
+        });
+      } else {
+        // Explain from matched topics and stars
         const humanizeTopic = (t: string) => t.replace(/-/g, ' ').replace(/\b\w/g, c => c.toUpperCase());
-        const reason = matchedTopicNames.length > 0
-          ? `Because you're into ${humanizeTopic(matchedTopicNames[0])} — ${starsDisplay} stars on GitHub`
-          : `Popular in your area of interest — ${starsDisplay} stars`;
+        const explanation: RecommendationExplanation = {
+          interests: repo.topics
+            .filter(t => userTopics.includes(t))
+            .map(t => ({ interest: humanizeTopic(t), fields: ['topics'] })),
+          traction: { stars: repo.stargazers_count },
+          adjustments: [],
+        };
 
         recommendations.push({
           skillId: repo.full_name.replace('/', '-'),
@@ -247,11 +299,19 @@ export class GitHubRecommendations {
           url: repo.html_url,
           categories: repo.topics.length > 0 ? repo.topics : ['General'],
           matchScore,
-          reason,
+          reason: renderReason(explanation),
+          explanation,
           creator: repo.owner.login,
           source: 'GitHub',
           stars: repo.stargazers_count,
           language: repo.language || undefined,
+          trustSignals: {
+            stars: repo.stargazers_count,
+            // spdx_id is 'NOASSERTION' for a license GitHub can't identify — still a license
+            ...(repo.license !== undefined && { license: repo.license ? (repo.license.spdx_id ?? repo.license.name) : null }),
+            repoCreatedAt: repo.created_at,
+            lastCommitAt: repo.pushed_at,
+          },
         });
       }
     }
@@ -7,6 +7,7 @@
 import 'dotenv/config';
 import { Command } from 'commander';
 import { BloomIdentitySkillV2, ExecutionMode } from './bloom-identity-skill-v2';
+import { installHttpFixturesFromEnv } from './utils/http-fixtures';
 
 const program = new Command();
 
@@ -17,10 +18,28 @@ program
   .requiredOption('--user-id <userId>', 'OpenClaw user ID')
   .option('--mode <mode>', 'Execution mode: auto, manual, or hybrid', 'auto')
   .option('--skip-share', 'Skip Twitter share link generation', false)
+  .option('--languages <list>', 'Comma-separated languages to accept recommendations in (e.g. en,zh)')
+  .option('--offline', 'Serve recommendations from the HTTP cache only, without network requests', false)
+  .option('--min-trust <score>', 'Drop recommendations with a lower trust score (0-100)')
+  .option('--record <file>', 'Record every HTTP exchange to a fixture bundle')
+  .option('--replay <file>', 'Answer HTTP requests from a fixture bundle instead of the network')
   .parse(process.argv);
 
 const options = program.opts();
 
+if (options.record || options.replay) {
+  process.env.BLOOM_HTTP_FIXTURES = options.replay ? 'replay' : 'record';
+  process.env.BLOOM_HTTP_FIXTURE_PATH = options.replay ?? options.record;
+}
+installHttpFixturesFromEnv();
+
+if (options.offline) {
+  process.env.BLOOM_OFFLINE = '1';
+}
+if (options.minTrust !== undefined) {
+  process.env.BLOOM_MIN_TRUST = options.minTrust;
+}
+
 async function main() {
   try {
     console.log('🌸 Bloom Identity Card Generator');
@@ -31,6 +50,7 @@ async function main() {
     const result = await skill.execute(options.userId, {
       mode: options.mode as ExecutionMode,
       skipShare: options.skipShare,
+      languages: options.languages?.split(','),
     });
 
     if (!result.success) {
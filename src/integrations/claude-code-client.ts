@@ -1,71 +1,64 @@
 /**
  * Claude Code Client
  *
- * Aggregates official and community Claude Code skills from GitHub repositories
+ * Aggregates Claude Code skills from curated skill lists
  *
- * Data Sources:
+ * Default lists (see utils/skill-lists, configurable via BLOOM_SKILL_LISTS_PATH):
  * - anthropics/skills (Official Anthropic skills)
  * - travisvn/awesome-claude-skills (Community curated)
  * - VoltAgent/awesome-agent-skills (200+ cross-compatible skills)
  * - hesreallyhim/awesome-claude-code (Broader ecosystem)
+ *
+ * Markdown lists are parsed as an AST (see parsers/awesome-list-parser), with
+ * a per-list adapter for layouts the defaults get wrong. Likely picks are then
+ * enriched with their GitHub repo's metadata (see github-repo-metadata), and
+ * archived or abandoned repos are down-ranked.
  */
 
-import { containsBlockedKeyword } from '../types/categories';
-
-const SKILL_REPOS = [
-  {
-    owner: 'anthropics',
-    repo: 'skills',
-    url: 'https://github.com/anthropics/skills',
-    type: 'official' as const,
-  },
-  {
-    owner: 'travisvn',
-    repo: 'awesome-claude-skills',
-    url: 'https://github.com/travisvn/awesome-claude-skills',
-    type: 'community' as const,
-  },
-  {
-    owner: 'VoltAgent',
-    repo: 'awesome-agent-skills',
-    url: 'https://github.com/VoltAgent/awesome-agent-skills',
-    type: 'community' as const,
-  },
-  {
-    owner: 'hesreallyhim',
-    repo: 'awesome-claude-code',
-    url: 'https://github.com/hesreallyhim/awesome-claude-code',
-    type: 'community' as const,
-  },
-  {
-    owner: 'jqueryscript',
-    repo: 'awesome-claude-code',
-    url: 'https://github.com/jqueryscript/awesome-claude-code',
-    type: 'community' as const,
-  },
-  {
-    owner: 'tonysurfly',
-    repo: 'awesome-claude',
-    url: 'https://github.com/tonysurfly/awesome-claude',
-    type: 'community' as const,
-  },
-  {
-    owner: 'VoltAgent',
-    repo: 'awesome-openclaw-skills',
-    url: 'https://github.com/VoltAgent/awesome-openclaw-skills',
-    type: 'community' as const,
-  },
-];
+import { promises as fs } from 'fs';
+import { fileURLToPath } from 'url';
+import {
+  AwesomeListEntry,
+  AwesomeListReport,
+  AwesomeListSource,
+  formatListReport,
+  parseAwesomeList,
+  parseSkillListJson,
+} from '../parsers/awesome-list-parser';
+import {
+  REPO_HEALTH_MULTIPLIER,
+  RepoHealth,
+  RepoMetadata,
+  fetchRepoMetadata,
+  isRepoMetadataEnabled,
+  parseGitHubRepoUrl,
+  repoHealth,
+} from './github-repo-metadata';
+import { describeVerdict, getContentPolicy } from '../utils/content-policy';
+import { CachedFetchOptions, cachedFetch } from '../utils/http-cache';
+import { containsPhrase, matchKeywords } from '../utils/keyword-matcher';
+import { SkillList, SkillListTrust, getSkillLists, higherListTrust, toAwesomeListAdapter } from '../utils/skill-lists';
+
+// Match boost by list trust
+const LIST_TRUST_BOOST: Record<SkillListTrust, number> = { official: 5, trusted: 3, community: 0, untrusted: 0 };
+
+// Matches enriched per requested result, so down-ranked ones can be replaced
+const ENRICH_POOL_FACTOR = 2;
 
 export interface ClaudeCodeSkill {
   skillName: string;
   description: string;
   url: string;
-  category?: string;
+  category?: string;     // Innermost heading
+  categoryPath?: string[]; // Every heading above it, outermost first
   creator?: string;
-  type: 'official' | 'community';
+  trust: SkillListTrust; // Most trusted list that includes it
   source: 'ClaudeCode';
+  lists: string[];      // Ids of the lists that include it
   matchScore?: number; // Raw keyword match score from matchSkills()
+  repo?: RepoMetadata;  // The GitHub repo its link resolves to
+  inRepo?: boolean;     // The link is a path inside the repo (e.g. a monorepo folder), not the repo itself
+  repoHealth?: RepoHealth;
 }
 
 export interface ClaudeCodeSearchOptions {
@@ -77,11 +70,18 @@ export interface ClaudeCodeSearchOptions {
 /**
  * Claude Code Client
  *
- * Fetches and parses Claude Code skills from GitHub repositories
+ * Fetches and parses Claude Code skills from the configured skill lists
  */
 export class ClaudeCodeClient {
-  private cache: Map<string, ClaudeCodeSkill[]> = new Map();
-  private cacheExpiry: number = 1000 * 60 * 60; // 1 hour
+  private reports: AwesomeListReport[] = [];
+  private http: CachedFetchOptions;
+
+  /**
+   * @param http Per-run HTTP cache options (e.g. offline), also used for repo metadata
+   */
+  constructor(http: CachedFetchOptions = {}) {
+    this.http = http;
+  }
 
   /**
    * Get recommendations based on user's categories
@@ -98,8 +98,11 @@ export class ClaudeCodeClient {
       // Match skills to user's categories
       const matchedSkills = this.matchSkills(allSkills, mainCategories, subCategories);
 
+      // Repo metadata for the likely picks; archived and abandoned repos sink
+      const enrichedSkills = await this.enrichWithRepoMetadata(matchedSkills.slice(0, limit * ENRICH_POOL_FACTOR));
+
       // Limit results
-      const limitedSkills = matchedSkills.slice(0, limit);
+      const limitedSkills = enrichedSkills.slice(0, limit);
 
       console.log(`✅ Found ${limitedSkills.length} Claude Code skills`);
       return limitedSkills;
@@ -110,125 +113,105 @@ export class ClaudeCodeClient {
   }
 
   /**
-   * Fetch skills from all GitHub repositories
+   * Entries yielded vs. skipped per list, fetching them if not yet fetched
    */
-  private async fetchAllSkills(): Promise<ClaudeCodeSkill[]> {
-    const cacheKey = 'all_skills';
-    const cached = this.cache.get(cacheKey);
-
-    if (cached) {
-      console.log('📦 Using cached Claude Code skills');
-      return cached;
-    }
+  async getListReports(): Promise<AwesomeListReport[]> {
+    if (this.reports.length === 0) await this.fetchAllSkills();
+    return this.reports;
+  }
 
-    console.log('🌐 Fetching Claude Code skills from GitHub...');
+  /**
+   * Fetch skills from every enabled list
+   */
+  private async fetchAllSkills(): Promise<ClaudeCodeSkill[]> {
+    // Remote lists come through the shared disk cache, so repeat runs are cheap
+    console.log('🌐 Fetching Claude Code skills from skill lists...');
 
-    // Fetch from all repos in parallel
-    const skillsPromises = SKILL_REPOS.map(repo => this.fetchRepoSkills(repo));
-    const skillsArrays = await Promise.all(skillsPromises);
+    // Fetch from all lists in parallel
+    const lists = getSkillLists();
+    const skillsPromises = lists.map(list => this.fetchListSkills(list));
+    const results = await Promise.all(skillsPromises);
+    const skillsArrays = results.map(result => result.skills);
+    this.reports = results.map(result => result.report).filter((r): r is AwesomeListReport => !!r);
 
     // Flatten and deduplicate
     const allSkills = skillsArrays.flat();
     const uniqueSkills = this.deduplicateSkills(allSkills);
 
-    // Cache results
-    this.cache.set(cacheKey, uniqueSkills);
-    setTimeout(() => this.cache.delete(cacheKey), this.cacheExpiry);
-
-    console.log(`✅ Fetched ${uniqueSkills.length} unique skills from ${SKILL_REPOS.length} repos`);
+    console.log(`✅ Fetched ${uniqueSkills.length} unique skills from ${lists.length} lists`);
     return uniqueSkills;
   }
 
   /**
-   * Fetch skills from a single GitHub repository
+   * Fetch and parse a single list
    */
-  private async fetchRepoSkills(repo: typeof SKILL_REPOS[0]): Promise<ClaudeCodeSkill[]> {
+  private async fetchListSkills(list: SkillList): Promise<{ skills: ClaudeCodeSkill[]; report?: AwesomeListReport }> {
     try {
-      // Fetch README from GitHub API
-      const url = `https://api.github.com/repos/${repo.owner}/${repo.repo}/readme`;
-      const response = await fetch(url, {
-        headers: {
-          'Accept': 'application/vnd.github.v3.raw',
-          'User-Agent': 'Bloom-Identity-Skill',
-        },
-      });
-
-      if (!response.ok) {
-        console.warn(`⚠️  Failed to fetch ${repo.owner}/${repo.repo}: ${response.status}`);
-        return [];
-      }
-
-      const markdown = await response.text();
+      const document = await this.readList(list);
+      if (document === null) return { skills: [] };
 
-      // Parse markdown to extract skills
-      const skills = this.parseMarkdown(markdown, repo);
+      // Parse the list to extract skills
+      const { entries, report } = list.format === 'json'
+        ? parseSkillListJson(document.content, document.source, toAwesomeListAdapter(list.adapter))
+        : parseAwesomeList(document.content, document.source, toAwesomeListAdapter(list.adapter));
+      const skills = entries.map(entry => this.toSkill(entry, list));
 
-      console.log(`✅ Parsed ${skills.length} skills from ${repo.owner}/${repo.repo}`);
-      return skills;
+      console.log(`✅ Parsed ${formatListReport(report)}`);
+      return { skills, report };
     } catch (error) {
-      console.error(`❌ Error fetching ${repo.owner}/${repo.repo}:`, error);
-      return [];
+      console.error(`❌ Error fetching ${list.id}:`, error);
+      return { skills: [] };
     }
   }
 
   /**
-   * Parse markdown README to extract skills
-   *
-   * Common patterns:
-   * - [Skill Name](url) - Description
-   * - **[Skill Name](url)** - Description
-   * - ### Category\n- [Skill Name](url) - Description
+   * A list's document and where its relative links point, or null if it couldn't be fetched
    */
-  private parseMarkdown(markdown: string, repo: typeof SKILL_REPOS[0]): ClaudeCodeSkill[] {
-    const skills: ClaudeCodeSkill[] = [];
-    const lines = markdown.split('\n');
-
-    let currentCategory = 'General';
-
-    for (const line of lines) {
-      // Detect category headers (### Category or ## Category)
-      const categoryMatch = line.match(/^#{2,3}\s+(.+)$/);
-      if (categoryMatch) {
-        currentCategory = categoryMatch[1].trim();
-        continue;
-      }
+  private async readList(list: SkillList): Promise<{ content: string; source: AwesomeListSource } | null> {
+    if (list.url?.startsWith('file:')) {
+      const content = await fs.readFile(fileURLToPath(list.url), 'utf-8');
+      return { content, source: { baseUrl: list.url, name: list.id } };
+    }
 
-      // Match skill links: - [Skill Name](url) - Description
-      // Also matches: * [Skill Name](url) - Description
-      const skillMatch = line.match(/^[\s-*]+\[([^\]]+)\]\(([^\)]+)\)\s*[-–—]\s*(.+)$/);
-      if (skillMatch) {
-        const [, skillName, url, description] = skillMatch;
-
-        skills.push({
-          skillName: skillName.trim(),
-          description: description.trim(),
-          url: url.trim(),
-          category: currentCategory,
-          creator: repo.owner === 'anthropics' ? 'Anthropic' : undefined,
-          type: repo.type,
-          source: 'ClaudeCode',
-        });
-        continue;
-      }
+    let url: string;
+    let source: AwesomeListSource;
+    if (list.github) {
+      // README or a given file from the GitHub API, at the pinned ref if any
+      const [owner, repo] = list.github.split('/');
+      const file = list.path ? `contents/${list.path.replace(/^\/+/, '')}` : 'readme';
+      url = `https://api.github.com/repos/${owner}/${repo}/${file}${list.ref ? `?ref=${encodeURIComponent(list.ref)}` : ''}`;
+      source = { owner, repo, ref: list.ref, path: list.path, name: list.id };
+    } else {
+      url = list.url!;
+      source = { baseUrl: url, name: list.id };
+    }
 
-      // Alternative pattern: - [Skill Name](url): Description
-      const altMatch = line.match(/^[\s-*]+\[([^\]]+)\]\(([^\)]+)\):\s*(.+)$/);
-      if (altMatch) {
-        const [, skillName, url, description] = altMatch;
-
-        skills.push({
-          skillName: skillName.trim(),
-          description: description.trim(),
-          url: url.trim(),
-          category: currentCategory,
-          creator: repo.owner === 'anthropics' ? 'Anthropic' : undefined,
-          type: repo.type,
-          source: 'ClaudeCode',
-        });
-      }
+    const response = await cachedFetch(url, {
+      headers: {
+        'Accept': 'application/vnd.github.v3.raw',
+        'User-Agent': 'Bloom-Identity-Skill',
+      },
+    }, this.http);
+
+    if (!response.ok) {
+      console.warn(`⚠️  Failed to fetch ${list.id}: ${response.status}`);
+      return null;
     }
+    return { content: await response.text(), source };
+  }
 
-    return skills;
+  private toSkill(entry: AwesomeListEntry, list: SkillList): ClaudeCodeSkill {
+    return {
+      skillName: entry.name,
+      description: entry.description,
+      url: entry.url,
+      category: entry.categoryPath.at(-1) ?? 'General',
+      categoryPath: entry.categoryPath,
+      creator: list.github?.split('/')[0] === 'anthropics' ? 'Anthropic' : entry.author,
+      trust: list.trust,
+      source: 'ClaudeCode',
+      lists: [list.id],
+    };
   }
 
   /**
@@ -241,69 +224,109 @@ export class ClaudeCodeClient {
   ): ClaudeCodeSkill[] {
     const allCategories = [...mainCategories, ...subCategories].map(c => c.toLowerCase());
 
+    const policy = getContentPolicy();
+
     return skills
       .map(skill => {
         let score = 0;
 
         // Match skill name and description against categories
-        const searchText = `${skill.skillName} ${skill.description} ${skill.category || ''}`.toLowerCase();
+        const searchText = `${skill.skillName} ${skill.description} ${(skill.categoryPath ?? [skill.category]).join(' ')}`.toLowerCase();
 
         for (const category of allCategories) {
-          if (searchText.includes(category)) {
+          if (containsPhrase(searchText, category)) {
             score += 10;
           }
 
           // Partial matches
-          const words = category.split(' ');
-          for (const word of words) {
-            if (word.length > 3 && searchText.includes(word)) {
-              score += 2;
-            }
-          }
-        }
-
-        // Boost official skills
-        if (skill.type === 'official') {
-          score += 5;
+          const words = category.split(' ').filter(word => word.length > 3);
+          score += 2 * matchKeywords(searchText, words).length;
         }
 
         return { skill, score };
       })
       .filter(({ score }) => score > 0) // Only include matches
-      .filter(({ skill }) => {
-        // Block skills with malicious keywords in name or description
-        const textToCheck = `${skill.skillName} ${skill.description}`;
-        if (containsBlockedKeyword(textToCheck)) {
-          console.log(`🚫 Blocked skill: ${skill.skillName} (matched blocklist)`);
-          return false;
+      // Boost matches from official and trusted lists; the boost alone is not a match
+      .map(({ skill, score }) => ({ skill, score: score + LIST_TRUST_BOOST[skill.trust] }))
+      .map(({ skill, score }) => {
+        // Content policy: block, warn or downrank
+        const verdict = policy.evaluate({
+          text: `${skill.skillName} ${skill.description}`,
+          creator: skill.creator,
+          urls: [skill.url],
+        });
+        if (verdict.action === 'block') {
+          console.log(`🚫 Blocked skill: ${skill.skillName} (${describeVerdict(verdict)})`);
+          return null;
         }
-        return true;
+        if (verdict.action !== 'allow') {
+          console.log(`⚠️  Policy ${verdict.action} for skill: ${skill.skillName} (${describeVerdict(verdict)})`);
+        }
+        return { skill, score: score * verdict.scoreMultiplier };
       })
+      .filter((entry): entry is { skill: ClaudeCodeSkill; score: number } => entry !== null)
       .sort((a, b) => b.score - a.score) // Sort by score
       .map(({ skill, score }) => ({ ...skill, matchScore: score })); // Preserve score
   }
 
   /**
-   * Remove duplicate skills (same URL)
+   * Attach each skill's GitHub repo metadata (one batched, cached lookup)
+   * and scale its match score by the repo's health, re-sorting
+   */
+  private async enrichWithRepoMetadata(skills: ClaudeCodeSkill[]): Promise<ClaudeCodeSkill[]> {
+    if (!isRepoMetadataEnabled()) return skills;
+
+    const repoOf = new Map(skills.map(skill => [skill, parseGitHubRepoUrl(skill.url)]));
+    const repos = Array.from(repoOf.values()).filter(r => r !== null).map(r => r!.repo);
+    if (repos.length === 0) return skills;
+
+    const metadata = await fetchRepoMetadata(repos, process.env.GITHUB_TOKEN, this.http);
+
+    return skills
+      .map(skill => {
+        const link = repoOf.get(skill);
+        const repo = link ? metadata.get(link.repo.toLowerCase()) : undefined;
+        if (!link || !repo) return skill;
+
+        const health = repoHealth(repo);
+        if (health !== 'active') console.log(`📉 Down-ranked ${skill.skillName}: repo ${repo.fullName} is ${health}`);
+        return {
+          ...skill,
+          repo,
+          inRepo: link.inRepo,
+          repoHealth: health,
+          matchScore: (skill.matchScore ?? 0) * REPO_HEALTH_MULTIPLIER[health],
+        };
+      })
+      .sort((a, b) => (b.matchScore ?? 0) - (a.matchScore ?? 0));
+  }
+
+  /**
+   * Remove duplicate skills (same URL), keeping every list they appear on
    */
   private deduplicateSkills(skills: ClaudeCodeSkill[]): ClaudeCodeSkill[] {
-    const seen = new Set<string>();
-    const unique: ClaudeCodeSkill[] = [];
+    const byUrl = new Map<string, ClaudeCodeSkill>();
 
     for (const skill of skills) {
-      if (!seen.has(skill.url)) {
-        seen.add(skill.url);
-        unique.push(skill);
+      const existing = byUrl.get(skill.url);
+      if (!existing) {
+        byUrl.set(skill.url, { ...skill, lists: [...skill.lists] });
+      } else {
+        // Same link on several lists: keep the first entry, remember every list and the most trusted
+        for (const list of skill.lists) {
+          if (!existing.lists.includes(list)) existing.lists.push(list);
+        }
+        existing.trust = higherListTrust(existing.trust, skill.trust);
       }
     }
 
-    return unique;
+    return Array.from(byUrl.values());
   }
 }
 
 /**
  * Create a ClaudeCodeClient instance
  */
-export function createClaudeCodeClient(): ClaudeCodeClient {
-  return new ClaudeCodeClient();
+export function createClaudeCodeClient(http?: CachedFetchOptions): ClaudeCodeClient {
+  return new ClaudeCodeClient(http);
 }
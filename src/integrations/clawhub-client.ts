@@ -9,7 +9,10 @@
  * - HTTP API: https://clawhub.ai/api/v1/
  */
 
-import { CATEGORY_KEYWORDS } from '../types/categories';
+import { matchCategories } from '../utils/keyword-matcher';
+import { categoryKeywordsForText } from '../utils/language-detector';
+import { getTaxonomy } from '../types/taxonomy';
+import { CachedFetchOptions, cachedFetch } from '../utils/http-cache';
 
 const CLAWHUB_API_BASE = 'https://clawhub.ai/api/v1';
 
@@ -47,6 +50,15 @@ export interface ClawHubSearchOptions {
  * Searches OpenClaw skills using ClawHub registry
  */
 export class ClawHubClient {
+  private http: CachedFetchOptions;
+
+  /**
+   * @param http Per-run HTTP cache options (e.g. offline)
+   */
+  constructor(http: CachedFetchOptions = {}) {
+    this.http = http;
+  }
+
   /**
    * Search for skills using ClawHub HTTP API
    *
@@ -60,7 +72,7 @@ export class ClawHubClient {
     try {
       // Call ClawHub search API
       const url = `${CLAWHUB_API_BASE}/search?q=${encodeURIComponent(query)}&limit=${limit}`;
-      const response = await fetch(url);
+      const response = await cachedFetch(url, {}, this.http);
 
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
@@ -121,7 +133,7 @@ export class ClawHubClient {
   async getSkillDetails(slug: string): Promise<ClawHubSkill | null> {
     try {
       const url = `${CLAWHUB_API_BASE}/skills/${encodeURIComponent(slug)}`;
-      const response = await fetch(url);
+      const response = await cachedFetch(url, {}, this.http);
 
       if (!response.ok) {
         if (response.status === 404) {
@@ -226,17 +238,13 @@ export class ClawHubClient {
   }
 
   /**
-   * Infer categories from slug and description
+   * Infer root categories and taxonomy sub-categories from slug and description
    */
   private inferCategories(slug: string, description: string): string[] {
-    const categories: string[] = [];
-    const text = `${slug} ${description}`.toLowerCase();
-
-    for (const [category, keywords] of Object.entries(CATEGORY_KEYWORDS)) {
-      if (keywords.some(keyword => text.includes(keyword))) {
-        categories.push(category);
-      }
-    }
+    const text = `${slug} ${description}`;
+    const roots = matchCategories(text, categoryKeywordsForText(description));
+    const subcategories = matchCategories(text, getTaxonomy().keywordMap(1));
+    const categories = [...roots, ...subcategories];
 
     return categories.length > 0 ? categories : ['General'];
   }
@@ -278,6 +286,6 @@ export class ClawHubClient {
 /**
  * Create a ClawHub client instance
  */
-export function createClawHubClient(): ClawHubClient {
-  return new ClawHubClient();
+export function createClawHubClient(http?: CachedFetchOptions): ClawHubClient {
+  return new ClawHubClient(http);
 }
@@ -0,0 +1,294 @@
+/**
+ * GitHub Repo Metadata
+ *
+ * Stars, license, language, creation and last-push dates and the archived
+ * flag for the repos awesome-list entries link to, so list skills face the
+ * same trust and quality signals as registry skills.
+ *
+ * Lookups are batched and cached:
+ *
+ * - with GITHUB_TOKEN, one GraphQL query per 50 repos
+ * - without, one REST call per repo through the HTTP cache, capped per run
+ *   (the unauthenticated rate limit is 60 an hour)
+ * - results, including repos that don't exist, are kept per repo for a day
+ *   in ~/.cache/bloom/repo-metadata.json (BLOOM_REPO_METADATA_CACHE), so a
+ *   repo looked up in one batch is not looked up again in the next
+ *
+ * Offline (BLOOM_OFFLINE or the caller's `offline`), cached metadata is served
+ * however old and nothing is fetched. Like the HTTP cache, the per-repo cache
+ * is bypassed while an HTTP fixture session is active, so a recording holds
+ * every lookup and a replay doesn't depend on what is on disk.
+ * BLOOM_REPO_METADATA=off skips enrichment entirely.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CachedFetchOptions, cachedFetch, isOffline } from '../utils/http-cache';
+import { isFixtureSessionActive } from '../utils/http-fixtures';
+import type { TrustSignals } from '../utils/trust-score';
+
+export interface RepoMetadata {
+  fullName: string;            // "owner/repo" as GitHub spells it
+  stars: number;
+  language: string | null;
+  license: string | null;      // SPDX id (or name); null when there is none
+  createdAt: string;           // ISO
+  pushedAt: string;            // ISO
+  archived: boolean;
+}
+
+/** archived: read-only on GitHub. abandoned: no push for ABANDONED_AFTER_DAYS */
+export type RepoHealth = 'active' | 'abandoned' | 'archived';
+
+export const ABANDONED_AFTER_DAYS = 730;
+
+// Match score multiplier by repo health
+export const REPO_HEALTH_MULTIPLIER: Record<RepoHealth, number> = { active: 1, abandoned: 0.7, archived: 0.5 };
+
+const GRAPHQL_BATCH_SIZE = 50;
+const MAX_UNAUTHENTICATED_LOOKUPS = 30;
+const METADATA_TTL_MS = 24 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// github.com/<these>/… are site pages, not repos
+const RESERVED_OWNERS = new Set([
+  'about', 'apps', 'collections', 'enterprise', 'features', 'marketplace', 'orgs', 'organizations',
+  'pricing', 'settings', 'sponsors', 'topics', 'trending', 'users',
+]);
+
+interface CacheFile {
+  version: 1;
+  repos: Record<string, { metadata: RepoMetadata | null; fetchedAt: number }>;
+}
+
+/**
+ * Whether repo enrichment is on (BLOOM_REPO_METADATA=off turns it off)
+ */
+export function isRepoMetadataEnabled(): boolean {
+  return process.env.BLOOM_REPO_METADATA !== 'off';
+}
+
+/**
+ * The repo a GitHub link points into, and whether it points at the repo
+ * itself or at a path inside it (a skill folder in a monorepo)
+ */
+export function parseGitHubRepoUrl(url: string): { repo: string; inRepo: boolean } | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  const host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+  const segments = parsed.pathname.split('/').filter(Boolean);
+  if (segments.length < 2) return null;
+  const [owner, name] = [segments[0], segments[1].replace(/\.git$/i, '')];
+  if (!/^[\w.-]+$/.test(owner) || !/^[\w.-]+$/.test(name)) return null;
+
+  if (host === 'raw.githubusercontent.com') {
+    return { repo: `${owner}/${name}`, inRepo: true };
+  }
+  if (host !== 'github.com' || RESERVED_OWNERS.has(owner.toLowerCase())) return null;
+
+  // tree/<ref> and blob/<ref>/README.md are the repo; anything deeper is a path in it
+  const inRepo = (segments[2] === 'tree' || segments[2] === 'blob') && segments.length > 4 &&
+    !(segments.length === 5 && /^readme(\.\w+)?$/i.test(segments[4]));
+  return { repo: `${owner}/${name}`, inRepo };
+}
+
+/**
+ * Archived, abandoned (no push for two years) or active
+ */
+export function repoHealth(metadata: RepoMetadata, now = Date.now()): RepoHealth {
+  if (metadata.archived) return 'archived';
+  const pushed = Date.parse(metadata.pushedAt);
+  return !Number.isNaN(pushed) && now - pushed > ABANDONED_AFTER_DAYS * DAY_MS ? 'abandoned' : 'active';
+}
+
+/**
+ * Trust signals from repo metadata. Stars only count when the skill is the
+ * repo itself; a folder in a popular monorepo doesn't inherit its stars.
+ */
+export function repoTrustSignals(metadata: RepoMetadata, inRepo: boolean): TrustSignals {
+  return {
+    ...(!inRepo && { stars: metadata.stars }),
+    license: metadata.license,
+    repoCreatedAt: metadata.createdAt,
+    lastCommitAt: metadata.pushedAt,
+    ...(metadata.archived && { archived: true }),
+  };
+}
+
+/**
+ * Metadata for each "owner/repo" (keys lowercased): null if the repo doesn't
+ * exist or isn't visible, missing if it couldn't be looked up this run
+ */
+export async function fetchRepoMetadata(
+  repos: string[],
+  token = process.env.GITHUB_TOKEN,
+  http: CachedFetchOptions = {},
+): Promise<Map<string, RepoMetadata | null>> {
+  const results = new Map<string, RepoMetadata | null>();
+  const offline = http.offline ?? isOffline();
+  const wanted = Array.from(new Set(repos.map(r => r.toLowerCase())));
+  const cache = readCache();
+  const now = Date.now();
+
+  const missing: string[] = [];
+  for (const repo of wanted) {
+    const entry = cache.repos[repo];
+    if (entry && (offline || now - entry.fetchedAt < METADATA_TTL_MS)) results.set(repo, entry.metadata);
+    else missing.push(repo);
+  }
+  if (missing.length === 0 || offline) return results;
+
+  const fetched = token
+    ? await fetchWithGraphQL(missing, token, http.signal)
+    : await fetchWithRest(missing.slice(0, MAX_UNAUTHENTICATED_LOOKUPS), http);
+  if (!token && missing.length > MAX_UNAUTHENTICATED_LOOKUPS) {
+    console.warn(`⚠️  Looked up ${MAX_UNAUTHENTICATED_LOOKUPS} of ${missing.length} repos; set GITHUB_TOKEN to batch the rest`);
+  }
+
+  for (const [repo, metadata] of fetched) {
+    results.set(repo, metadata);
+    cache.repos[repo] = { metadata, fetchedAt: now };
+  }
+  if (fetched.size > 0) writeCache(cache);
+  return results;
+}
+
+// ─── Internal helpers ────────────────────────────────────────────────────
+
+/**
+ * One query per batch, a `repository` alias per repo. Repos that don't
+ * exist come back null with a NOT_FOUND error; other failures leave the
+ * batch unknown.
+ */
+async function fetchWithGraphQL(repos: string[], token: string, signal?: AbortSignal): Promise<Map<string, RepoMetadata | null>> {
+  const results = new Map<string, RepoMetadata | null>();
+
+  for (let start = 0; start < repos.length; start += GRAPHQL_BATCH_SIZE) {
+    const batch = repos.slice(start, start + GRAPHQL_BATCH_SIZE);
+    const fields = 'nameWithOwner stargazerCount primaryLanguage { name } licenseInfo { spdxId name } createdAt pushedAt isArchived';
+    const query = `query {\n${batch.map((repo, i) => {
+      const [owner, name] = repo.split('/');
+      return `  r${i}: repository(owner: ${JSON.stringify(owner)}, name: ${JSON.stringify(name)}) { ${fields} }`;
+    }).join('\n')}\n}`;
+
+    try {
+      const response = await fetch('https://api.github.com/graphql', {
+        method: 'POST',
+        headers: {
+          'Authorization': `bearer ${token}`,
+          'Content-Type': 'application/json',
+          'User-Agent': 'Bloom-Identity-Skill',
+        },
+        body: JSON.stringify({ query }),
+        signal,
+      });
+      if (!response.ok) {
+        console.warn(`⚠️  GitHub GraphQL returned ${response.status} for ${batch.length} repos`);
+        continue;
+      }
+
+      const body: { data?: Record<string, any> | null; errors?: { type?: string; path?: string[] }[] } = await response.json();
+      if (!body.data) continue;
+      const notFound = new Set((body.errors ?? []).filter(e => e.type === 'NOT_FOUND').map(e => e.path?.[0]));
+
+      batch.forEach((repo, i) => {
+        const node = body.data![`r${i}`];
+        if (node) {
+          results.set(repo, {
+            fullName: node.nameWithOwner,
+            stars: node.stargazerCount,
+            language: node.primaryLanguage?.name ?? null,
+            license: node.licenseInfo ? (node.licenseInfo.spdxId ?? node.licenseInfo.name) : null,
+            createdAt: node.createdAt,
+            pushedAt: node.pushedAt,
+            archived: node.isArchived,
+          });
+        } else if (notFound.has(`r${i}`)) {
+          results.set(repo, null);
+        }
+      });
+    } catch (error) {
+      console.warn(`⚠️  GitHub GraphQL lookup failed for ${batch.length} repos:`, error);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * One cached REST call per repo; a 404 means it doesn't exist
+ */
+async function fetchWithRest(repos: string[], http: CachedFetchOptions): Promise<Map<string, RepoMetadata | null>> {
+  const results = new Map<string, RepoMetadata | null>();
+
+  for (const repo of repos) {
+    try {
+      const response = await cachedFetch(`https://api.github.com/repos/${repo}`, {
+        headers: {
+          'Accept': 'application/vnd.github.v3+json',
+          'User-Agent': 'Bloom-Identity-Skill',
+        },
+      }, http);
+      if (response.status === 404) {
+        results.set(repo, null);
+        continue;
+      }
+      if (!response.ok) {
+        // Rate limited or down: the rest would fail the same way
+        console.warn(`⚠️  GitHub API returned ${response.status} for ${repo}`);
+        break;
+      }
+
+      const data = await response.json();
+      results.set(repo, {
+        fullName: data.full_name,
+        stars: data.stargazers_count,
+        language: data.language ?? null,
+        // spdx_id is 'NOASSERTION' for a license GitHub can't identify — still a license
+        license: data.license ? (data.license.spdx_id ?? data.license.name) : null,
+        createdAt: data.created_at,
+        pushedAt: data.pushed_at,
+        archived: !!data.archived,
+      });
+    } catch (error) {
+      console.warn(`⚠️  Repo lookup failed for ${repo}:`, error);
+    }
+  }
+
+  return results;
+}
+
+function cachePath(): string {
+  return process.env.BLOOM_REPO_METADATA_CACHE || path.join(os.homedir(), '.cache', 'bloom', 'repo-metadata.json');
+}
+
+function cacheBypassed(): boolean {
+  return process.env.BLOOM_HTTP_CACHE === 'off' || isFixtureSessionActive();
+}
+
+function readCache(): CacheFile {
+  if (cacheBypassed()) return { version: 1, repos: {} };
+  try {
+    const parsed = JSON.parse(fs.readFileSync(cachePath(), 'utf-8'));
+    if (parsed?.version === 1 && typeof parsed.repos === 'object') return parsed;
+  } catch {
+    // Missing or unreadable: start empty
+  }
+  return { version: 1, repos: {} };
+}
+
+function writeCache(cache: CacheFile): void {
+  if (cacheBypassed()) return;
+  try {
+    fs.mkdirSync(path.dirname(cachePath()), { recursive: true });
+    fs.writeFileSync(cachePath(), JSON.stringify(cache));
+  } catch (error) {
+    console.warn('⚠️  Could not write repo metadata cache:', error);
+  }
+}
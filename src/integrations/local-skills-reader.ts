@@ -0,0 +1,231 @@
+/**
+ * Local Skills Reader
+ *
+ * Finds the skills already installed on this machine — every directory with a
+ * SKILL.md under the skill roots — and whether they have been used lately.
+ * Filesystem only, so it works offline.
+ *
+ * Skill roots (override with BLOOM_SKILL_DIRS, separated by the platform path delimiter):
+ * - ~/.claude/skills and ./.claude/skills (Claude Code)
+ * - ~/.openclaw/skills and ~/.openclaw/workspace/skills (OpenClaw)
+ *
+ * Usage is a heuristic: a skill counts as used when a recent Claude Code
+ * transcript (~/.claude/projects) or OpenClaw session (~/.openclaw/agents/{agent}/sessions)
+ * mentions its directory ("skills/pdf-tools/") or invokes it by name.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { frontmatterList, frontmatterString, parseSkillMd } from '../parsers/skill-md-parser';
+
+export type SkillLocation = 'claude' | 'openclaw' | 'custom';
+
+export interface InstalledSkill {
+  id: string;            // Directory name
+  name: string;          // Frontmatter name, else directory name
+  description: string;
+  path: string;          // Skill directory
+  location: SkillLocation;
+  homepage?: string;
+  tags: string[];
+  lastUsedAt?: number;   // mtime of the latest transcript mentioning it (set by markSkillUsage)
+}
+
+export interface SkillRoot {
+  dir: string;
+  location: SkillLocation;
+}
+
+// Bound the transcript scan: most recent files only, and only their tail
+const MAX_TRANSCRIPTS = 50;
+const MAX_TRANSCRIPT_BYTES = 2_000_000;
+
+/**
+ * Skill roots to scan (BLOOM_SKILL_DIRS, else the Claude Code and OpenClaw defaults)
+ */
+export function defaultSkillRoots(): SkillRoot[] {
+  const custom = (process.env.BLOOM_SKILL_DIRS ?? '').split(path.delimiter).map(d => d.trim()).filter(Boolean);
+  if (custom.length > 0) {
+    return custom.map(dir => ({ dir: path.resolve(dir), location: 'custom' as const }));
+  }
+
+  const home = os.homedir();
+  return [
+    { dir: path.join(home, '.claude', 'skills'), location: 'claude' },
+    { dir: path.join(process.cwd(), '.claude', 'skills'), location: 'claude' },
+    { dir: path.join(home, '.openclaw', 'skills'), location: 'openclaw' },
+    { dir: path.join(home, '.openclaw', 'workspace', 'skills'), location: 'openclaw' },
+  ];
+}
+
+/**
+ * Every installed skill under the given roots. Missing roots are skipped;
+ * the same directory reached through two roots is listed once.
+ */
+export function readInstalledSkills(roots: SkillRoot[] = defaultSkillRoots()): InstalledSkill[] {
+  const skills: InstalledSkill[] = [];
+  const seen = new Set<string>();
+
+  for (const root of roots) {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(root.dir, { withFileTypes: true });
+    } catch {
+      continue;
+    }
+
+    for (const entry of entries) {
+      if (!entry.isDirectory() && !entry.isSymbolicLink()) continue;
+
+      const skillDir = path.join(root.dir, entry.name);
+      const skillMd = path.join(skillDir, 'SKILL.md');
+      let realDir: string;
+      let content: string;
+      try {
+        realDir = fs.realpathSync(skillDir);
+        content = fs.readFileSync(skillMd, 'utf-8');
+      } catch {
+        continue;
+      }
+      if (seen.has(realDir)) continue;
+      seen.add(realDir);
+
+      const { frontmatter, body } = parseSkillMd(content);
+      const metadata = frontmatter.metadata && typeof frontmatter.metadata === 'object'
+        ? frontmatter.metadata as Record<string, unknown>
+        : {};
+
+      skills.push({
+        id: entry.name,
+        name: frontmatterString(frontmatter, 'name') ?? entry.name,
+        description: frontmatterString(frontmatter, 'description') ?? firstParagraph(body),
+        path: skillDir,
+        location: root.location,
+        homepage: frontmatterString(frontmatter, 'homepage') ?? frontmatterString(metadata, 'homepage'),
+        tags: [...frontmatterList(frontmatter, 'tags'), ...frontmatterList(metadata, 'tags')],
+      });
+    }
+  }
+
+  return skills;
+}
+
+/**
+ * Set lastUsedAt on skills mentioned in recent Claude Code / OpenClaw transcripts
+ */
+export function markSkillUsage(skills: InstalledSkill[], transcriptDirs: string[] = defaultTranscriptDirs()): InstalledSkill[] {
+  if (skills.length === 0) return skills;
+
+  const transcripts = transcriptDirs
+    .flatMap(dir => listJsonl(dir, 2))
+    .sort((a, b) => b.mtimeMs - a.mtimeMs)
+    .slice(0, MAX_TRANSCRIPTS);
+
+  for (const transcript of transcripts) {
+    const text = readTail(transcript.file, MAX_TRANSCRIPT_BYTES);
+    if (!text) continue;
+
+    for (const skill of skills) {
+      if (skill.lastUsedAt !== undefined) continue; // Newest transcripts come first
+      const markers = [`skills/${skill.id}/`, `"skill":"${skill.name}"`, `"skill": "${skill.name}"`, `"command":"/${skill.name}"`];
+      if (markers.some(m => text.includes(m))) {
+        skill.lastUsedAt = transcript.mtimeMs;
+      }
+    }
+  }
+
+  return skills;
+}
+
+/**
+ * The installed skill a recommendation refers to, if any — matched by
+ * slug/name (case- and punctuation-insensitive) or homepage URL
+ */
+export function findInstalledSkill(
+  rec: { skillId: string; skillName: string; url: string },
+  skills: InstalledSkill[],
+): InstalledSkill | undefined {
+  const url = normalizeUrl(rec.url);
+  const keys = new Set([rec.skillId, rec.skillName, lastPathSegment(rec.url)].map(slugKey).filter(Boolean));
+
+  return skills.find(skill =>
+    keys.has(slugKey(skill.id)) ||
+    keys.has(slugKey(skill.name)) ||
+    (!!skill.homepage && normalizeUrl(skill.homepage) === url),
+  );
+}
+
+// ─── Internal helpers ────────────────────────────────────────────────────
+
+function defaultTranscriptDirs(): string[] {
+  const home = os.homedir();
+  const agentsDir = path.join(home, '.openclaw', 'agents');
+  let agents: string[] = [];
+  try {
+    agents = fs.readdirSync(agentsDir).map(agent => path.join(agentsDir, agent, 'sessions'));
+  } catch {
+    // No OpenClaw install
+  }
+  return [path.join(home, '.claude', 'projects'), ...agents];
+}
+
+function listJsonl(dir: string, depth: number): { file: string; mtimeMs: number }[] {
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const files: { file: string; mtimeMs: number }[] = [];
+  for (const entry of entries) {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory() && depth > 1) {
+      files.push(...listJsonl(full, depth - 1));
+    } else if (entry.isFile() && entry.name.endsWith('.jsonl')) {
+      try {
+        files.push({ file: full, mtimeMs: fs.statSync(full).mtimeMs });
+      } catch {
+        // Vanished between readdir and stat
+      }
+    }
+  }
+  return files;
+}
+
+function readTail(file: string, maxBytes: number): string | null {
+  let fd: number | undefined;
+  try {
+    fd = fs.openSync(file, 'r');
+    const size = fs.fstatSync(fd).size;
+    const length = Math.min(size, maxBytes);
+    const buffer = Buffer.alloc(length);
+    fs.readSync(fd, buffer, 0, length, size - length);
+    return buffer.toString('utf-8');
+  } catch {
+    return null;
+  } finally {
+    if (fd !== undefined) fs.closeSync(fd);
+  }
+}
+
+function firstParagraph(markdown: string): string {
+  const paragraph = markdown
+    .split(/\n\s*\n/)
+    .map(p => p.trim())
+    .find(p => p && !p.startsWith('#'));
+  return paragraph ? paragraph.replace(/\s+/g, ' ').slice(0, 300) : '';
+}
+
+function slugKey(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '');
+}
+
+function lastPathSegment(url: string): string {
+  return url.replace(/[?#].*$/, '').replace(/\/+$/, '').split('/').pop() ?? '';
+}
+
+function normalizeUrl(url: string): string {
+  return url.toLowerCase().replace(/^https?:\/\/(www\.)?/, '').replace(/[?#].*$/, '').replace(/\/+$/, '');
+}
@@ -12,7 +12,9 @@
 import fs from 'fs';
 import path from 'path';
 import os from 'os';
-import { CATEGORY_KEYWORDS } from '../types/categories';
+import { Language, categoryKeywordsFor } from '../types/category-locales';
+import { matchKeywords, scoreCategories } from '../utils/keyword-matcher';
+import { detectConversationLanguages } from '../utils/language-detector';
 
 export interface SessionMessage {
   role: 'user' | 'assistant';
@@ -26,6 +28,7 @@ export interface ConversationAnalysis {
   preferences: string[]; // Stated preferences (e.g., "early stage", "open source")
   history: string[];     // Raw conversation snippets for context
   messageCount: number;  // Total messages analyzed
+  languages: Language[]; // Languages the user writes in, most used first
 }
 
 /**
@@ -152,8 +155,11 @@ export class OpenClawSessionReader {
     // Also include assistant messages for context
     const allText = messages.map(m => m.text).join('\n').toLowerCase();
 
+    // Detect which languages the user writes in (picks the keyword packs)
+    const languages = detectConversationLanguages(userMessages);
+
     // Extract topics (common themes)
-    const topics = this.extractTopics(userMessages);
+    const topics = this.extractTopics(userMessages, languages);
 
     // Extract interests (things they ask about or mention positively)
     const interests = this.extractInterests(userMessages);
@@ -173,24 +179,19 @@ export class OpenClawSessionReader {
       preferences,
       history: recentMessages,
       messageCount: messages.length,
+      languages,
     };
   }
 
   /**
    * Extract main topics from conversation
    */
-  private extractTopics(userMessages: string[]): string[] {
-    const allText = userMessages.join(' ').toLowerCase();
-    const topics: string[] = [];
-
-    for (const [topic, keywords] of Object.entries(CATEGORY_KEYWORDS)) {
-      const matches = keywords.filter(kw => allText.includes(kw)).length;
-      if (matches >= 2) {
-        topics.push(topic);
-      }
-    }
+  private extractTopics(userMessages: string[], languages: Language[]): string[] {
+    const scores = scoreCategories(userMessages.join(' '), categoryKeywordsFor(languages), true);
 
-    return topics;
+    return Object.entries(scores)
+      .filter(([, distinctMatches]) => distinctMatches >= 2)
+      .map(([topic]) => topic);
   }
 
   /**
@@ -213,13 +214,11 @@ export class OpenClawSessionReader {
       'investing', 'trading', 'finance',
     ];
 
-    for (const keyword of interestKeywords) {
-      if (allText.includes(keyword)) {
-        // Capitalize properly
-        interests.add(
-          keyword.split(' ').map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(' ')
-        );
-      }
+    for (const { keyword } of matchKeywords(allText, interestKeywords)) {
+      // Capitalize properly
+      interests.add(
+        keyword.split(' ').map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(' ')
+      );
     }
 
     // Extract phrases after "interested in", "looking for", "need", "want"
@@ -286,6 +285,7 @@ export class OpenClawSessionReader {
       preferences: [],
       history: [],
       messageCount: 0,
+      languages: ['en'],
     };
   }
 }
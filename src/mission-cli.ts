@@ -12,6 +12,7 @@
 import 'dotenv/config';
 import { Command } from 'commander';
 import { BloomMissionSkill } from './bloom-mission-skill';
+import { installHttpFixturesFromEnv } from './utils/http-fixtures';
 
 const program = new Command();
 
@@ -24,10 +25,18 @@ program
   .option('--agent-id <id>', 'Agent user ID for taste-profile matching')
   .option('--status', 'Check submission status instead of discovering missions')
   .option('--agent-name <name>', 'Agent name (used for submission status)')
+  .option('--record <file>', 'Record every HTTP exchange to a fixture bundle')
+  .option('--replay <file>', 'Answer HTTP requests from a fixture bundle instead of the network')
   .parse(process.argv);
 
 const options = program.opts();
 
+if (options.record || options.replay) {
+  process.env.BLOOM_HTTP_FIXTURES = options.replay ? 'replay' : 'record';
+  process.env.BLOOM_HTTP_FIXTURE_PATH = options.replay ?? options.record;
+}
+installHttpFixturesFromEnv();
+
 async function main() {
   try {
     const skill = new BloomMissionSkill();
@@ -0,0 +1,348 @@
+/**
+ * Awesome-List Parser
+ *
+ * Walks the markdown AST of an awesome-list README and pulls out one entry
+ * per linked skill:
+ *
+ * - list items, nested lists and tables; badge images and formatting are
+ *   dropped from names and descriptions
+ * - categories from the heading hierarchy below the list title (and
+ *   `<details><summary>` blocks), e.g. ["Development", "Testing"]
+ * - relative links resolved to absolute GitHub URLs on the list's repo (at
+ *   its pinned ref), or against the document URL for lists hosted elsewhere
+ * - "[name](url) by [author](url) — description" credits the author
+ *
+ * Every linked item that doesn't become an entry is counted by reason, so a
+ * list whose format changed shows up as a drop in yield rather than silence.
+ * Per-repo quirks go in an AwesomeListAdapter. JSON lists (parseSkillListJson)
+ * yield the same entries and report.
+ */
+
+import { Lexer, Token, Tokens } from 'marked';
+
+export interface AwesomeListEntry {
+  name: string;
+  url: string;
+  description: string;
+  categoryPath: string[];      // Outermost heading first; empty outside any section
+  author?: string;             // From "by [author](url)"
+}
+
+export type AwesomeListSkipReason =
+  | 'no-link'                  // Item or row without a usable link
+  | 'anchor-link'              // In-page link (table of contents)
+  | 'unsupported-link'         // mailto:, javascript:, …
+  | 'rejected-link'            // Refused by the adapter
+  | 'no-description'
+  | 'duplicate'                // Same URL earlier in the list
+  | 'skipped-section';         // Under a contents, contributing, license… heading
+
+/** Where a list lives, for resolving its relative links */
+export type AwesomeListSource =
+  | { owner: string; repo: string; ref?: string; path?: string; name?: string }  // GitHub; path of the file in the repo
+  | { baseUrl: string; name: string };                                           // Raw URL or file:// path
+
+export interface AwesomeListReport {
+  list: string;                // Source name, "owner/repo" by default
+  entries: number;
+  skipped: Partial<Record<AwesomeListSkipReason, number>>;
+}
+
+export interface AwesomeListAdapter {
+  titleDepth?: number;         // Headings this deep or shallower title the list rather than a category (default 1)
+  skipSections?: RegExp;       // Headings whose sections hold no skills (default: contents, contributing, license, …)
+  requireDescription?: boolean; // Default true
+  acceptLink?: (url: string) => boolean;
+}
+
+export const DEFAULT_SKIP_SECTIONS =
+  /^(table of contents|contents|contributing|contributors|contribution|license|licence|acknowledg|star history|support|sponsors?)/i;
+
+/**
+ * Entries and yield report for one README
+ */
+export function parseAwesomeList(
+  markdown: string,
+  source: AwesomeListSource,
+  adapter: AwesomeListAdapter = {},
+): { entries: AwesomeListEntry[]; report: AwesomeListReport } {
+  const titleDepth = adapter.titleDepth ?? 1;
+  const skipSections = adapter.skipSections ?? DEFAULT_SKIP_SECTIONS;
+  const requireDescription = adapter.requireDescription ?? true;
+
+  const entries: AwesomeListEntry[] = [];
+  const skipped: AwesomeListReport['skipped'] = {};
+  const seen = new Set<string>();
+  const skip = (reason: AwesomeListSkipReason) => { skipped[reason] = (skipped[reason] ?? 0) + 1; };
+
+  // Open sections: headings (depth 2–6) and <details> summaries (depth 7+, innermost)
+  const sections: { depth: number; title: string }[] = [];
+  const path = () => sections.map(s => s.title);
+  const inSkippedSection = () => sections.some(s => skipSections.test(s.title));
+
+  const addEntry = (inline: Token[], extra: Token[], categoryPath: string[]) => {
+    const found = splitEntry(inline);
+    if (!found) {
+      // Links that are only badges or anchors aren't skills; count plain text only when it has a link somewhere
+      if (hasLink(inline)) skip(inline.some(t => t.type === 'link' && (t as Tokens.Link).href.startsWith('#')) ? 'anchor-link' : 'no-link');
+      return;
+    }
+    if (inSkippedSection()) return skip('skipped-section');
+
+    const url = resolveLink(found.href, source);
+    if (url === 'anchor') return skip('anchor-link');
+    if (!url) return skip('unsupported-link');
+    if (adapter.acceptLink && !adapter.acceptLink(url)) return skip('rejected-link');
+
+    const description = cleanDescription(found.description || plainText(extra));
+    if (requireDescription && !description) return skip('no-description');
+    if (seen.has(url)) return skip('duplicate');
+    seen.add(url);
+
+    entries.push({ name: found.name, url, description, categoryPath, ...(found.author && { author: found.author }) });
+  };
+
+  const walkList = (list: Tokens.List, categoryPath: string[]) => {
+    for (const item of list.items) {
+      const inline = item.tokens.find(t => t.type === 'text' || t.type === 'paragraph') as Tokens.Text | Tokens.Paragraph | undefined;
+      const inlineTokens = inline?.tokens ?? [];
+      const extra = item.tokens.filter(t => t !== inline && (t.type === 'paragraph' || t.type === 'text'))
+        .flatMap(t => (t as Tokens.Paragraph).tokens ?? []);
+      const nested = item.tokens.filter((t): t is Tokens.List => t.type === 'list');
+
+      // A linkless parent item ("**Testing**") names a sub-category for its children
+      if (nested.length > 0 && !splitEntry(inlineTokens)) {
+        const label = cleanTitle(plainText(inlineTokens));
+        for (const child of nested) walkList(child, label ? [...categoryPath, label] : categoryPath);
+        continue;
+      }
+      addEntry(inlineTokens, extra, categoryPath);
+      for (const child of nested) walkList(child, categoryPath);
+    }
+  };
+
+  const walkTable = (table: Tokens.Table, categoryPath: string[]) => {
+    const headers = table.header.map(cell => plainText(cell.tokens).toLowerCase());
+    const linkColumn = table.rows.length > 0
+      ? headers.findIndex((_, i) => table.rows.some(row => row[i] && splitEntry(row[i].tokens)))
+      : -1;
+    const described = headers.findIndex((h, i) => i !== linkColumn && /desc|about|what|summary|purpose/.test(h));
+
+    for (const row of table.rows) {
+      if (linkColumn < 0 || !row[linkColumn]) {
+        if (row.some(cell => hasLink(cell.tokens))) skip('no-link');
+        continue;
+      }
+      // No "Description" header: the longest other cell
+      const descriptionColumn = described >= 0 ? described : row
+        .map((cell, i) => ({ i, length: i === linkColumn ? -1 : plainText(cell.tokens).length }))
+        .sort((a, b) => b.length - a.length)[0]?.i;
+      const extra = descriptionColumn !== undefined && descriptionColumn !== linkColumn ? row[descriptionColumn]?.tokens ?? [] : [];
+      addEntry(row[linkColumn].tokens, extra, categoryPath);
+    }
+  };
+
+  for (const token of new Lexer({ gfm: true }).lex(markdown)) {
+    switch (token.type) {
+      case 'heading': {
+        const heading = token as Tokens.Heading;
+        while (sections.length > 0 && sections[sections.length - 1].depth >= heading.depth) sections.pop();
+        const title = cleanTitle(plainText(heading.tokens));
+        if (heading.depth > titleDepth && title) sections.push({ depth: heading.depth, title });
+        break;
+      }
+      case 'html': {
+        // <details><summary>Category</summary> … </details>
+        for (const match of (token as Tokens.HTML).text.matchAll(/<summary>([\s\S]*?)<\/summary>|<\/details>/gi)) {
+          if (match[1] !== undefined) {
+            const depth = Math.max(7, (sections[sections.length - 1]?.depth ?? 0) + 1);
+            const title = cleanTitle(decodeEntities(match[1].replace(/<[^>]+>/g, '')));
+            if (title) sections.push({ depth, title });
+          } else if ((sections[sections.length - 1]?.depth ?? 0) >= 7) {
+            sections.pop();
+          }
+        }
+        break;
+      }
+      case 'list':
+        walkList(token as Tokens.List, path());
+        break;
+      case 'table':
+        walkTable(token as Tokens.Table, path());
+        break;
+    }
+  }
+
+  return { entries, report: { list: listName(source), entries: entries.length, skipped } };
+}
+
+/**
+ * Entries and yield report for a JSON list: an array of entries, or
+ * `{ "skills": [...] }`. Each entry has `name`, `url`, `description` and
+ * optionally `category` or `categories` (outermost first) and `author`.
+ * Throws if the document isn't a list.
+ */
+export function parseSkillListJson(
+  json: string,
+  source: AwesomeListSource,
+  adapter: AwesomeListAdapter = {},
+): { entries: AwesomeListEntry[]; report: AwesomeListReport } {
+  const raw = JSON.parse(json);
+  const items: unknown[] | undefined = Array.isArray(raw) ? raw : Array.isArray(raw?.skills) ? raw.skills : undefined;
+  if (!items) throw new Error(`${listName(source)}: expected a JSON array or { "skills": [...] }`);
+
+  const requireDescription = adapter.requireDescription ?? true;
+  const entries: AwesomeListEntry[] = [];
+  const skipped: AwesomeListReport['skipped'] = {};
+  const seen = new Set<string>();
+  const skip = (reason: AwesomeListSkipReason) => { skipped[reason] = (skipped[reason] ?? 0) + 1; };
+
+  for (const item of items) {
+    const entry = (typeof item === 'object' && item !== null ? item : {}) as Record<string, unknown>;
+    const name = typeof entry.name === 'string' ? entry.name.trim() : '';
+    if (!name || typeof entry.url !== 'string' || !entry.url.trim()) {
+      skip('no-link');
+      continue;
+    }
+
+    const url = resolveLink(entry.url, source);
+    if (url === 'anchor') { skip('anchor-link'); continue; }
+    if (!url) { skip('unsupported-link'); continue; }
+    if (adapter.acceptLink && !adapter.acceptLink(url)) { skip('rejected-link'); continue; }
+
+    const description = typeof entry.description === 'string' ? cleanDescription(entry.description) : '';
+    if (requireDescription && !description) { skip('no-description'); continue; }
+    if (seen.has(url)) { skip('duplicate'); continue; }
+    seen.add(url);
+
+    const categoryPath = Array.isArray(entry.categories)
+      ? entry.categories.filter((c): c is string => typeof c === 'string' && c.trim() !== '').map(c => c.trim())
+      : typeof entry.category === 'string' && entry.category.trim() ? [entry.category.trim()] : [];
+    const author = typeof entry.author === 'string' && entry.author.trim() ? entry.author.trim() : undefined;
+    entries.push({ name, url, description, categoryPath, ...(author && { author }) });
+  }
+
+  return { entries, report: { list: listName(source), entries: entries.length, skipped } };
+}
+
+/**
+ * "owner/repo: 120 entries, 14 skipped (9 anchor-link, 5 no-description)"
+ */
+export function formatListReport(report: AwesomeListReport): string {
+  const reasons = Object.entries(report.skipped).sort((a, b) => b[1] - a[1]);
+  const total = reasons.reduce((sum, [, count]) => sum + count, 0);
+  const detail = reasons.map(([reason, count]) => `${count} ${reason}`).join(', ');
+  return `${report.list}: ${report.entries} entries, ${total} skipped${detail ? ` (${detail})` : ''}`;
+}
+
+// ─── Internal helpers ────────────────────────────────────────────────────
+
+/**
+ * The first link with visible text (not a badge), the author credit after it
+ * and the text that follows as the description
+ */
+function splitEntry(tokens: Token[]): { name: string; href: string; author?: string; description: string } | null {
+  const flat = flattenInline(tokens);
+  const index = flat.findIndex(t => t.type === 'link' && plainText((t as Tokens.Link).tokens).trim() !== '');
+  if (index < 0) return null;
+  const link = flat[index] as Tokens.Link;
+
+  let rest = flat.slice(index + 1);
+  let author: string | undefined;
+  const byIndex = rest.findIndex(t => t.type !== 'image' && plainText([t]).trim() !== '');
+  if (byIndex >= 0 && /^\s*(?:[-–—,]\s*)?by\s*$/i.test(plainText([rest[byIndex]])) && rest[byIndex + 1]?.type === 'link') {
+    author = plainText((rest[byIndex + 1] as Tokens.Link).tokens).trim() || undefined;
+    rest = rest.slice(byIndex + 2);
+  }
+
+  return { name: cleanTitle(plainText(link.tokens)), href: link.href, author, description: plainText(rest) };
+}
+
+/**
+ * Inline tokens with strong/em wrappers around links opened up, so
+ * "**[Name](url)** - description" splits like "[Name](url) - description"
+ */
+function flattenInline(tokens: Token[]): Token[] {
+  return tokens.flatMap(token => {
+    if ((token.type === 'strong' || token.type === 'em') && hasLink((token as Tokens.Strong).tokens)) {
+      return flattenInline((token as Tokens.Strong).tokens);
+    }
+    if (token.type === 'text' && (token as Tokens.Text).tokens?.length) return flattenInline((token as Tokens.Text).tokens!);
+    return [token];
+  });
+}
+
+function hasLink(tokens: Token[]): boolean {
+  return tokens.some(token => token.type === 'link' ||
+    ('tokens' in token && Array.isArray(token.tokens) && hasLink(token.tokens as Token[])));
+}
+
+/**
+ * Visible text: link text kept, images (badges) and HTML tags dropped
+ */
+function plainText(tokens: Token[]): string {
+  return tokens.map(token => {
+    switch (token.type) {
+      case 'image':
+        return '';
+      case 'html':
+        return (token as Tokens.HTML).text.replace(/<[^>]+>/g, '');
+      case 'br':
+        return ' ';
+      case 'codespan':
+        return decodeEntities((token as Tokens.Codespan).text);
+      default:
+        if ('tokens' in token && Array.isArray(token.tokens)) return plainText(token.tokens as Token[]);
+        return decodeEntities('text' in token ? String(token.text) : '');
+    }
+  }).join('');
+}
+
+function listName(source: AwesomeListSource): string {
+  return source.name ?? ('owner' in source ? `${source.owner}/${source.repo}` : source.baseUrl);
+}
+
+/**
+ * Absolute URL; relative links point into the list's own repo (or next to
+ * the document elsewhere); 'anchor' for in-page links, null for other schemes
+ */
+function resolveLink(href: string, source: AwesomeListSource): string | 'anchor' | null {
+  const trimmed = href.trim();
+  if (trimmed.startsWith('#')) return 'anchor';
+  if (/^https?:\/\//i.test(trimmed)) return trimmed;
+  if (/^[a-z][a-z0-9+.-]*:/i.test(trimmed)) return null;
+
+  if (!('owner' in source)) {
+    const resolved = new URL(trimmed, source.baseUrl);
+    return /^(https?|file):$/.test(resolved.protocol) ? resolved.href : null;
+  }
+
+  // Relative to the list file's directory in the repo; ".." can't climb above the root
+  const dir = source.path?.includes('/') ? source.path.slice(0, source.path.lastIndexOf('/') + 1) : '';
+  const { pathname } = new URL(trimmed.startsWith('/') ? trimmed : dir + trimmed, 'https://repo.invalid/');
+  const repoPath = pathname.replace(/^\/+|\/+$/g, '');
+  // Files are blobs, directories are trees
+  const kind = /\.[a-z0-9]+$/i.test(repoPath) ? 'blob' : 'tree';
+  return `https://github.com/${source.owner}/${source.repo}/${kind}/${source.ref ?? 'HEAD'}${repoPath ? `/${repoPath}` : ''}`;
+}
+
+function cleanDescription(text: string): string {
+  return text.replace(/\s+/g, ' ').replace(/^[\s\-–—:|.,]+/, '').trim();
+}
+
+/**
+ * Heading or name without leading emoji and punctuation
+ */
+function cleanTitle(text: string): string {
+  return text.replace(/\s+/g, ' ').replace(/^[^\p{L}\p{N}]+/u, '').trim();
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#0?39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
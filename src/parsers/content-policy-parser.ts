@@ -0,0 +1,172 @@
+/**
+ * Content Policy Parser
+ *
+ * Reads content-policy rules from JSON or YAML and validates them. Every
+ * problem is collected, so one run reports all of them:
+ *
+ *   version: 1
+ *   rules:
+ *     - id: sketchy-creator
+ *       type: creator
+ *       pattern: some-handle
+ *       severity: downrank
+ *       factor: 0.3
+ *       reason: Repeatedly published low-quality skills
+ *   allow:
+ *     - type: slug
+ *       pattern: exploit-scanner
+ *       rules: [intrusion]
+ */
+
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import yaml from 'js-yaml';
+import {
+  POLICY_RULE_TYPES,
+  POLICY_SEVERITIES,
+  type ContentPolicyConfig,
+} from '../utils/content-policy';
+
+const RULE_KEYS = new Set(['id', 'type', 'pattern', 'severity', 'reason', 'factor']);
+const ALLOW_KEYS = new Set(['type', 'pattern', 'rules', 'reason']);
+
+/**
+ * Read and validate a content-policy file (.json, .yaml or .yml).
+ * An extension file may omit "rules" and its allow entries may refer to
+ * rules defined elsewhere. Throws with every validation error listed.
+ */
+export function loadContentPolicyConfig(filePath: string): ContentPolicyConfig {
+  const content = readFileSync(filePath, 'utf-8');
+  const ext = extname(filePath).toLowerCase();
+
+  let raw: any;
+  try {
+    raw = ext === '.yaml' || ext === '.yml' ? yaml.load(content) : JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Invalid content policy ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (isObject(raw) && raw.rules === undefined) raw.rules = [];
+
+  const errors = validateContentPolicyConfig(raw, false);
+  if (errors.length > 0) {
+    throw new Error(`Invalid content policy ${filePath}:\n  - ${errors.join('\n  - ')}`);
+  }
+
+  return raw as ContentPolicyConfig;
+}
+
+/**
+ * Validate a parsed content policy. Returns a list of problems (empty if valid).
+ * With `checkRuleRefs`, allow entries must only name rules defined in `raw`.
+ */
+export function validateContentPolicyConfig(raw: unknown, checkRuleRefs = true): string[] {
+  const errors: string[] = [];
+
+  if (!isObject(raw)) {
+    return ['content policy must be an object with a "rules" list'];
+  }
+  if (raw.version !== undefined && raw.version !== 1) {
+    errors.push(`unsupported version ${JSON.stringify(raw.version)} (expected 1)`);
+  }
+  for (const key of Object.keys(raw)) {
+    if (!['version', 'rules', 'allow'].includes(key)) errors.push(`unknown field "${key}"`);
+  }
+  if (!Array.isArray(raw.rules)) {
+    errors.push('"rules" must be a list');
+    return errors;
+  }
+
+  const ids = new Set<string>();
+  raw.rules.forEach((rule, index) => {
+    const where = isObject(rule) && typeof rule.id === 'string' && rule.id ? `rule "${rule.id}"` : `rules[${index}]`;
+    if (!isObject(rule)) {
+      errors.push(`${where}: must be an object`);
+      return;
+    }
+
+    if (typeof rule.id !== 'string' || !rule.id.trim()) {
+      errors.push(`${where}: "id" must be a non-empty string`);
+    } else if (ids.has(rule.id)) {
+      errors.push(`${where}: duplicate id`);
+    } else {
+      ids.add(rule.id);
+    }
+
+    for (const key of Object.keys(rule)) {
+      if (!RULE_KEYS.has(key)) errors.push(`${where}: unknown field "${key}"`);
+    }
+    if (!POLICY_SEVERITIES.includes(rule.severity)) {
+      errors.push(`${where}: "severity" must be one of ${POLICY_SEVERITIES.join(', ')}`);
+    }
+    if (typeof rule.reason !== 'string' || !rule.reason.trim()) {
+      errors.push(`${where}: "reason" must be a non-empty string`);
+    }
+    if (rule.factor !== undefined) {
+      if (rule.severity !== 'downrank') {
+        errors.push(`${where}: "factor" only applies to downrank rules`);
+      } else if (typeof rule.factor !== 'number' || rule.factor <= 0 || rule.factor >= 1) {
+        errors.push(`${where}: "factor" must be a number between 0 and 1`);
+      }
+    }
+    errors.push(...validatePattern(where, rule.type, rule.pattern));
+  });
+
+  if (raw.allow !== undefined) {
+    if (!Array.isArray(raw.allow)) {
+      errors.push('"allow" must be a list');
+      return errors;
+    }
+
+    raw.allow.forEach((entry, index) => {
+      const where = `allow[${index}]`;
+      if (!isObject(entry)) {
+        errors.push(`${where}: must be an object`);
+        return;
+      }
+
+      for (const key of Object.keys(entry)) {
+        if (!ALLOW_KEYS.has(key)) errors.push(`${where}: unknown field "${key}"`);
+      }
+      errors.push(...validatePattern(where, entry.type, entry.pattern));
+
+      if (entry.rules !== undefined) {
+        if (!Array.isArray(entry.rules) || entry.rules.some(r => typeof r !== 'string')) {
+          errors.push(`${where}: "rules" must be a list of rule ids`);
+        } else if (checkRuleRefs) {
+          for (const id of entry.rules) {
+            if (!ids.has(id)) errors.push(`${where}: unknown rule "${id}"`);
+          }
+        }
+      }
+    });
+  }
+
+  return errors;
+}
+
+// ─── Internal helpers ────────────────────────────────────────────────────
+
+function validatePattern(where: string, type: unknown, pattern: unknown): string[] {
+  if (!POLICY_RULE_TYPES.includes(type as any)) {
+    return [`${where}: "type" must be one of ${POLICY_RULE_TYPES.join(', ')}`];
+  }
+  if (typeof pattern !== 'string' || !pattern.trim()) {
+    return [`${where}: "pattern" must be a non-empty string`];
+  }
+  if (type === 'regex') {
+    try {
+      new RegExp(pattern, 'i');
+    } catch (error) {
+      return [`${where}: invalid regex: ${error instanceof Error ? error.message : error}`];
+    }
+  }
+  if (type === 'domain' && /[/:\s]/.test(pattern)) {
+    return [`${where}: domain must be a bare host like "example.com"`];
+  }
+  return [];
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,181 @@
+/**
+ * Skill Lists Parser
+ *
+ * Reads the skill lists the claude-code source scans from JSON or YAML and
+ * validates them. Every problem is collected, so one run reports all of them:
+ *
+ *   version: 1
+ *   lists:
+ *     - id: team-skills
+ *       url: file:///srv/shared/team-skills.md
+ *       trust: trusted
+ *     - id: acme/awesome-skills
+ *       github: acme/awesome-skills
+ *       ref: v2.1.0
+ *       adapter:
+ *         skipSections: ^(articles|videos)
+ *     - id: tonysurfly/awesome-claude
+ *       enabled: false
+ */
+
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import yaml from 'js-yaml';
+import {
+  SKILL_LIST_FORMATS,
+  SKILL_LIST_TRUST_LEVELS,
+  type SkillListsConfig,
+} from '../utils/skill-lists';
+
+const LIST_KEYS = new Set(['id', 'github', 'ref', 'path', 'url', 'format', 'trust', 'enabled', 'adapter']);
+const ADAPTER_KEYS = new Set(['titleDepth', 'skipSections', 'requireDescription', 'linkPattern']);
+
+/**
+ * Read and validate a skill-lists file (.json, .yaml or .yml).
+ * An extension file may name a list by id alone to disable or adjust one
+ * defined elsewhere. Throws with every validation error listed.
+ */
+export function loadSkillListsConfig(filePath: string): SkillListsConfig {
+  const content = readFileSync(filePath, 'utf-8');
+  const ext = extname(filePath).toLowerCase();
+
+  let raw: any;
+  try {
+    raw = ext === '.yaml' || ext === '.yml' ? yaml.load(content) : JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Invalid skill lists ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const errors = validateSkillListsConfig(raw, false);
+  if (errors.length > 0) {
+    throw new Error(`Invalid skill lists ${filePath}:\n  - ${errors.join('\n  - ')}`);
+  }
+
+  return raw as SkillListsConfig;
+}
+
+/**
+ * Validate parsed skill lists. Returns a list of problems (empty if valid).
+ * With `requireSource`, every enabled list must have a github repo or a url.
+ */
+export function validateSkillListsConfig(raw: unknown, requireSource = true): string[] {
+  const errors: string[] = [];
+
+  if (!isObject(raw)) {
+    return ['skill lists must be an object with a "lists" list'];
+  }
+  if (raw.version !== undefined && raw.version !== 1) {
+    errors.push(`unsupported version ${JSON.stringify(raw.version)} (expected 1)`);
+  }
+  for (const key of Object.keys(raw)) {
+    if (!['version', 'defaults', 'lists'].includes(key)) errors.push(`unknown field "${key}"`);
+  }
+  if (raw.defaults !== undefined && typeof raw.defaults !== 'boolean') {
+    errors.push('"defaults" must be true or false');
+  }
+  if (!Array.isArray(raw.lists)) {
+    errors.push('"lists" must be a list');
+    return errors;
+  }
+
+  const ids = new Set<string>();
+  raw.lists.forEach((list, index) => {
+    const where = isObject(list) && typeof list.id === 'string' && list.id ? `list "${list.id}"` : `lists[${index}]`;
+    if (!isObject(list)) {
+      errors.push(`${where}: must be an object`);
+      return;
+    }
+
+    if (typeof list.id !== 'string' || !list.id.trim()) {
+      errors.push(`${where}: "id" must be a non-empty string`);
+    } else if (ids.has(list.id)) {
+      errors.push(`${where}: duplicate id`);
+    } else {
+      ids.add(list.id);
+    }
+
+    for (const key of Object.keys(list)) {
+      if (!LIST_KEYS.has(key)) errors.push(`${where}: unknown field "${key}"`);
+    }
+
+    // Where the list lives
+    if (list.github !== undefined && list.url !== undefined) {
+      errors.push(`${where}: use either "github" or "url", not both`);
+    }
+    if (list.github !== undefined && (typeof list.github !== 'string' || !/^[\w.-]+\/[\w.-]+$/.test(list.github))) {
+      errors.push(`${where}: "github" must be "owner/repo"`);
+    }
+    for (const key of ['ref', 'path'] as const) {
+      if (list[key] === undefined) continue;
+      if (typeof list[key] !== 'string' || !list[key].trim()) errors.push(`${where}: "${key}" must be a non-empty string`);
+      else if (list.url !== undefined) errors.push(`${where}: "${key}" only applies to github lists`);
+    }
+    if (list.url !== undefined) errors.push(...validateUrl(where, list.url));
+    if (requireSource && list.enabled !== false && list.github === undefined && list.url === undefined) {
+      errors.push(`${where}: needs a "github" repo or a "url"`);
+    }
+
+    if (list.format !== undefined && !SKILL_LIST_FORMATS.includes(list.format)) {
+      errors.push(`${where}: "format" must be one of ${SKILL_LIST_FORMATS.join(', ')}`);
+    }
+    if (list.trust !== undefined && !SKILL_LIST_TRUST_LEVELS.includes(list.trust)) {
+      errors.push(`${where}: "trust" must be one of ${SKILL_LIST_TRUST_LEVELS.join(', ')}`);
+    }
+    if (list.enabled !== undefined && typeof list.enabled !== 'boolean') {
+      errors.push(`${where}: "enabled" must be true or false`);
+    }
+    if (list.adapter !== undefined) errors.push(...validateAdapter(where, list.adapter));
+  });
+
+  return errors;
+}
+
+// ─── Internal helpers ────────────────────────────────────────────────────
+
+function validateUrl(where: string, url: unknown): string[] {
+  if (typeof url !== 'string' || !url.trim()) {
+    return [`${where}: "url" must be a non-empty string`];
+  }
+  try {
+    const { protocol } = new URL(url);
+    if (!['http:', 'https:', 'file:'].includes(protocol)) {
+      return [`${where}: "url" must be http(s):// or file://`];
+    }
+  } catch {
+    return [`${where}: "url" is not a valid URL (local lists need an absolute file:// URL)`];
+  }
+  return [];
+}
+
+function validateAdapter(where: string, adapter: unknown): string[] {
+  if (!isObject(adapter)) return [`${where}: "adapter" must be an object`];
+
+  const errors: string[] = [];
+  for (const key of Object.keys(adapter)) {
+    if (!ADAPTER_KEYS.has(key)) errors.push(`${where}: unknown adapter field "${key}"`);
+  }
+  if (adapter.titleDepth !== undefined &&
+    (!Number.isInteger(adapter.titleDepth) || adapter.titleDepth < 1 || adapter.titleDepth > 6)) {
+    errors.push(`${where}: "adapter.titleDepth" must be a heading depth from 1 to 6`);
+  }
+  if (adapter.requireDescription !== undefined && typeof adapter.requireDescription !== 'boolean') {
+    errors.push(`${where}: "adapter.requireDescription" must be true or false`);
+  }
+  for (const key of ['skipSections', 'linkPattern'] as const) {
+    if (adapter[key] === undefined) continue;
+    if (typeof adapter[key] !== 'string' || !adapter[key].trim()) {
+      errors.push(`${where}: "adapter.${key}" must be a non-empty regex`);
+      continue;
+    }
+    try {
+      new RegExp(adapter[key], 'i');
+    } catch (error) {
+      errors.push(`${where}: invalid "adapter.${key}" regex: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  return errors;
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,64 @@
+/**
+ * SKILL.md Parser
+ *
+ * Splits a SKILL.md file into its YAML frontmatter and markdown body:
+ *
+ *   ---
+ *   name: pdf-tools
+ *   description: Extract text and tables from PDFs
+ *   metadata:
+ *     tags: [pdf, documents]
+ *   ---
+ *   # PDF Tools
+ *   ...
+ *
+ * Broken or missing frontmatter yields an empty object rather than an error —
+ * a skill we can't fully parse is still an installed skill.
+ */
+
+import yaml from 'js-yaml';
+
+export interface SkillMdDocument {
+  frontmatter: Record<string, unknown>;
+  body: string;
+}
+
+const FRONTMATTER = /^\uFEFF?---[ \t]*\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+/**
+ * Parse SKILL.md content into frontmatter + body
+ */
+export function parseSkillMd(content: string): SkillMdDocument {
+  const match = content.match(FRONTMATTER);
+  if (!match) return { frontmatter: {}, body: content };
+
+  let frontmatter: Record<string, unknown> = {};
+  try {
+    const parsed = yaml.load(match[1]);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      frontmatter = parsed as Record<string, unknown>;
+    }
+  } catch {
+    // Unparseable YAML — keep the body, drop the frontmatter
+  }
+
+  return { frontmatter, body: content.slice(match[0].length) };
+}
+
+/**
+ * String field from frontmatter (trimmed), or undefined
+ */
+export function frontmatterString(frontmatter: Record<string, unknown>, key: string): string | undefined {
+  const value = frontmatter[key];
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * String list from frontmatter — accepts a YAML list or a comma-separated string
+ */
+export function frontmatterList(frontmatter: Record<string, unknown>, key: string): string[] {
+  const value = frontmatter[key];
+  if (Array.isArray(value)) return value.filter((v): v is string => typeof v === 'string').map(v => v.trim()).filter(Boolean);
+  if (typeof value === 'string') return value.split(',').map(v => v.trim()).filter(Boolean);
+  return [];
+}
@@ -0,0 +1,158 @@
+/**
+ * Taxonomy Parser
+ *
+ * Reads a category taxonomy from JSON or YAML and validates it before it is
+ * used anywhere. Every problem is collected, so one run reports all of them:
+ *
+ *   version: 1
+ *   categories:
+ *     - name: Crypto
+ *       aliases: [Web3]
+ *       children:
+ *         - name: DeFi
+ *           keywords: [defi, liquidity]
+ *           githubTopics: [defi]
+ *           children:
+ *             - name: Lending
+ *               keywords: [lending, borrowing]
+ */
+
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import yaml from 'js-yaml';
+import type { TaxonomyConfig, TaxonomyNodeConfig } from '../types/taxonomy';
+
+// Deepest allowed level (root = 0): Crypto › DeFi › Lending › Aave
+const MAX_DEPTH = 3;
+
+const NODE_KEYS = new Set(['name', 'keywords', 'githubTopics', 'aliases', 'children']);
+const GITHUB_TOPIC = /^[a-z0-9][a-z0-9-]{0,49}$/;
+
+/**
+ * Read and validate a taxonomy file (.json, .yaml or .yml).
+ * Throws with every validation error listed if the file is invalid.
+ */
+export function loadTaxonomyConfig(filePath: string): TaxonomyConfig {
+  const content = readFileSync(filePath, 'utf-8');
+  const ext = extname(filePath).toLowerCase();
+
+  let raw: unknown;
+  try {
+    raw = ext === '.yaml' || ext === '.yml' ? yaml.load(content) : JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Invalid taxonomy ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const errors = validateTaxonomyConfig(raw);
+  if (errors.length > 0) {
+    throw new Error(`Invalid taxonomy ${filePath}:\n  - ${errors.join('\n  - ')}`);
+  }
+
+  return raw as TaxonomyConfig;
+}
+
+/**
+ * Validate a parsed taxonomy. Returns a list of problems (empty if valid).
+ */
+export function validateTaxonomyConfig(raw: unknown): string[] {
+  const errors: string[] = [];
+
+  if (!isObject(raw)) {
+    return ['taxonomy must be an object with a "categories" list'];
+  }
+  if (raw.version !== undefined && raw.version !== 1) {
+    errors.push(`unsupported version ${JSON.stringify(raw.version)} (expected 1)`);
+  }
+  if (!Array.isArray(raw.categories) || raw.categories.length === 0) {
+    errors.push('"categories" must be a non-empty list');
+    return errors;
+  }
+
+  // Names and aliases must resolve to exactly one node
+  const owners = new Map<string, string>();
+  validateNodes(raw.categories, [], errors, owners);
+
+  return errors;
+}
+
+// ─── Internal helpers ────────────────────────────────────────────────────
+
+function validateNodes(
+  nodes: unknown[],
+  parentPath: string[],
+  errors: string[],
+  owners: Map<string, string>,
+): void {
+  const siblings = new Set<string>();
+
+  nodes.forEach((node, index) => {
+    const where = parentPath.length > 0 ? `${parentPath.join(' › ')} › [${index}]` : `categories[${index}]`;
+
+    if (!isObject(node)) {
+      errors.push(`${where}: must be an object`);
+      return;
+    }
+
+    if (typeof node.name !== 'string' || !node.name.trim()) {
+      errors.push(`${where}: "name" must be a non-empty string`);
+      return;
+    }
+
+    const name = node.name.trim();
+    const path = [...parentPath, name];
+    const label = path.join(' › ');
+
+    if (/[›/]/.test(name)) {
+      errors.push(`${label}: name must not contain "›" or "/"`);
+    }
+    if (siblings.has(name.toLowerCase())) {
+      errors.push(`${label}: duplicate name under ${parentPath.join(' › ') || 'root'}`);
+    }
+    siblings.add(name.toLowerCase());
+
+    for (const key of Object.keys(node)) {
+      if (!NODE_KEYS.has(key)) errors.push(`${label}: unknown field "${key}"`);
+    }
+
+    for (const field of ['keywords', 'githubTopics', 'aliases'] as const) {
+      const value = node[field];
+      if (value === undefined) continue;
+      if (!Array.isArray(value) || value.some(v => typeof v !== 'string' || !v.trim())) {
+        errors.push(`${label}: "${field}" must be a list of non-empty strings`);
+      }
+    }
+
+    if (Array.isArray(node.githubTopics)) {
+      for (const topic of node.githubTopics) {
+        if (typeof topic === 'string' && !GITHUB_TOPIC.test(topic)) {
+          errors.push(`${label}: invalid GitHub topic "${topic}" (lowercase letters, digits and hyphens)`);
+        }
+      }
+    }
+
+    for (const term of [name, ...(Array.isArray(node.aliases) ? node.aliases : [])]) {
+      if (typeof term !== 'string') continue;
+      const key = term.trim().toLowerCase();
+      const owner = owners.get(key);
+      if (owner && owner !== label) {
+        errors.push(`${label}: "${term}" is already a name or alias of ${owner}`);
+      } else {
+        owners.set(key, label);
+      }
+    }
+
+    if (node.children !== undefined) {
+      if (!Array.isArray(node.children)) {
+        errors.push(`${label}: "children" must be a list`);
+      } else if (parentPath.length >= MAX_DEPTH) {
+        errors.push(`${label}: too deep (max ${MAX_DEPTH + 1} levels)`);
+      } else {
+        validateNodes(node.children, path, errors, owners);
+      }
+    }
+  });
+}
+
+function isObject(value: unknown): value is Record<string, any> & Partial<TaxonomyNodeConfig> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -10,6 +10,7 @@
 import { readFileSync, existsSync } from 'fs';
 import { join } from 'path';
 import { homedir } from 'os';
+import { Language, normalizeLanguage } from '../types/category-locales';
 
 export interface UserMdSignals {
   role?: string;               // "BD Lead", "Senior Engineer"
@@ -17,6 +18,7 @@ export interface UserMdSignals {
   techStack?: string[];        // ["claude-code", "typescript", "solidity"]
   interests?: string[];        // ["music production", "generative art"]
   workingStyle?: string;       // "explorer" | "deep-focus" | "multitasker"
+  languages?: Language[];      // ["en", "zh"] — languages to accept recommendations in
   raw?: Record<string, string>; // Unparsed sections for future use
 }
 
@@ -61,6 +63,8 @@ export function parseUserMd(filePath?: string): UserMdSignals | null {
       signals.interests = extractListValues(body);
     } else if (matchesHeader(normalized, ['working style', 'style', 'work style', 'approach'])) {
       signals.workingStyle = inferWorkingStyle(body);
+    } else if (matchesHeader(normalized, ['language'])) {
+      signals.languages = parseLanguages(body);
     }
   }
 
@@ -69,7 +73,8 @@ export function parseUserMd(filePath?: string): UserMdSignals | null {
 
   // Only return if we extracted at least one meaningful signal
   const hasSignals = signals.role || signals.currentFocus?.length ||
-    signals.techStack?.length || signals.interests?.length || signals.workingStyle;
+    signals.techStack?.length || signals.interests?.length || signals.workingStyle ||
+    signals.languages?.length;
 
   return hasSignals ? signals : null;
 }
@@ -193,3 +198,15 @@ function inferWorkingStyle(body: string): string {
   // Default based on content length — short, decisive = deep-focus
   return 'deep-focus';
 }
+
+/**
+ * Parse a languages section ("English, 中文", "- Español") into supported codes.
+ * Unsupported names (e.g. programming languages) are ignored.
+ */
+function parseLanguages(body: string): Language[] | undefined {
+  const languages = extractListValues(body)
+    .map(value => normalizeLanguage(value.replace(/\(.*?\)/g, '')))
+    .filter((language): language is Language => language !== null);
+
+  return languages.length > 0 ? Array.from(new Set(languages)) : undefined;
+}
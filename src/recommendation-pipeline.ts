@@ -4,19 +4,56 @@
  * Extracted from BloomIdentitySkillV2 so the backend can refresh
  * recommendations independently via Bull queue jobs.
  *
- * Sources: ClawHub registry (verified via GitHub cross-check) + Claude Code awesome-lists.
- * Deduplicates by URL, groups by user categories, applies personality scoring.
+ * Sources come from the recommendation-sources registry: ClawHub registry (verified
+ * via GitHub cross-check, SKILL.md + scripts security-scanned) and Claude Code
+ * awesome-lists by default, GitHub repos and custom sources on request.
+ * Applies personality scoring, fuses the per-source rankings (reciprocal rank
+ * fusion by default, weighted per source), merges the same skill found by
+ * several sources into one recommendation (see skill-identity), groups by
+ * user categories and fills each category's slots by maximal marginal relevance.
  */
 
-import { ClaudeCodeClient, createClaudeCodeClient } from './integrations/claude-code-client';
-import { ClawHubClient, createClawHubClient } from './integrations/clawhub-client';
+import { createClaudeCodeClient } from './integrations/claude-code-client';
+import { REPO_HEALTH_MULTIPLIER, repoTrustSignals } from './integrations/github-repo-metadata';
+import { createClawHubClient } from './integrations/clawhub-client';
+import { GitHubRecommendations } from './github-recommendations';
+import { InstalledSkill, findInstalledSkill, markSkillUsage, readInstalledSkills } from './integrations/local-skills-reader';
+import {
+  RecommendationSource,
+  RejectionHandler,
+  SkillRejection,
+  SourceCandidate,
+  SourceFetchContext,
+  SourceRunOptions,
+  SourceStats,
+  formatSourceStats,
+  getRecommendationSources,
+  registerRecommendationSource,
+  resolveSourceWeights,
+  runRecommendationSources,
+} from './recommendation-sources';
 import { PersonalityType } from './types/personality';
 import {
-  CANONICAL_CATEGORIES,
   CATEGORY_KEYWORDS,
   DEFAULT_FALLBACK_CATEGORIES,
-  containsBlockedKeyword,
 } from './types/categories';
+import { TAXONOMY_SEPARATOR, getTaxonomy } from './types/taxonomy';
+import { Language, LOCALE_CATEGORY_KEYWORDS } from './types/category-locales';
+import { containsPhrase, matchKeywords, scoreCategories } from './utils/keyword-matcher';
+import { DetectedLanguage, categoryKeywordsForText, detectLanguage } from './utils/language-detector';
+import { describeVerdict, getContentPolicy } from './utils/content-policy';
+import { CachedFetchOptions, cachedFetch, isOffline } from './utils/http-cache';
+import { DEFAULT_DIVERSITY, rerankForDiversity } from './utils/diversity-reranker';
+import { SkillProvenance, mergeDuplicateSkills, resolveSkillIdentities } from './utils/skill-identity';
+import { FUSION_METHODS, FusedItem, FusionMethod, formatFusionDiagnostic, fuseRankings } from './utils/rank-fusion';
+import { InterestMatch, MatchField, RecommendationExplanation, ScoreAdjustment, renderReason } from './utils/recommendation-reasons';
+import { SkillFile, SkillRiskReport, riskLabel, scanSkillFiles } from './utils/skill-security-scanner';
+import { formatRejection, summarizeRejections } from './utils/skill-diagnostics';
+import { deriveFeedbackData, engagementStats, isFeedbackEnabled, readFeedbackEvents } from './utils/feedback-store';
+import { IMPERSONATION_MODES, ImpersonationMode, ImpersonationSuspicion, detectImpersonation, impersonationTargets } from './utils/impersonation-detector';
+import { TrustScore, TrustSignals, computeTrustScore, mergeTrustSignals } from './utils/trust-score';
+import { createCreatorHistory } from './utils/creator-history';
+import { DEFAULT_EXPLORATION_SLOTS, EXPLORATION_POLICIES, ExplorationPolicy, categoryToExplore, selectExplorations } from './utils/exploration';
 
 export interface RefreshIdentityInput {
   mainCategories: string[];
@@ -31,6 +68,11 @@ export interface RefreshIdentityInput {
     categoryWeights?: Record<string, number>;
     excludeSkillIds?: string[];
   };
+  userMd?: {
+    categories: string[];  // Categories and interests that came from USER.md (for explanations)
+    weight: number;
+  };
+  languages?: Language[]; // Languages the user accepts recommendations in (default: English)
 }
 
 export interface SkillRecommendation {
@@ -39,57 +81,117 @@ export interface SkillRecommendation {
   description: string;
   url: string;
   categories: string[];
-  matchScore: number;
-  reason?: string;
+  matchScore: number;       // Best per-source score (0–100), shown as "% match"
+  fusedScore?: number;      // Cross-source rank fusion score — orders recommendations
+  reason?: string;          // Short human reason, rendered from `explanation` when there is one
+  explanation?: RecommendationExplanation; // Evidence behind the recommendation
   creator?: string;
   creatorUserId?: number | string;
-  source?: 'ClaudeCode' | 'ClawHub';
+  source?: string;          // 'ClaudeCode' | 'ClawHub' | 'GitHub' for built-in sources
   stars?: number;
   downloads?: number;
   language?: string;
+  descriptionLanguage?: DetectedLanguage;
+  risk?: SkillRiskReport;   // Static scan of SKILL.md + scripts (ClawHub)
+  riskLabel?: string;       // e.g. "⚠️ Medium risk: Recursive force delete"
+  trustSignals?: TrustSignals; // Provenance signals behind `trust`, merged across sources
+  trust?: TrustScore;       // 0–100 with the factors that make it up
+  impersonation?: ImpersonationSuspicion[]; // Suspected lookalikes, kept flagged rather than dropped
+  installed?: boolean;      // Already in a local skill directory
+  lists?: string[];         // Awesome-lists that include it ("owner/repo")
+  canonicalId?: string;     // Cross-source identity, e.g. "github:owner/repo/skills/pdf"
+  provenance?: SkillProvenance[]; // Every source that found it (duplicates are merged)
   categoryGroup?: string;
+  exploring?: boolean;      // Fills an exploration slot rather than a category pick
 }
 
 // ─── Quality & language helpers ─────────────────────────────────────────
 
+const DEFAULT_LANGUAGES: Language[] = ['en'];
+
 /**
- * Reject text that is likely non-English (e.g. Chinese descriptions from GitHub/ClawHub).
- * Heuristic: if more than 30% of characters are non-ASCII, consider it non-English.
+ * Whether a description is in one of the user's accepted languages.
+ * Text too short to detect is accepted; unsupported languages never are.
  */
-function isLikelyEnglish(text: string): boolean {
-  if (!text || text.length === 0) return true;
-  let nonAscii = 0;
-  for (let i = 0; i < text.length; i++) {
-    if (text.charCodeAt(i) > 127) nonAscii++;
-  }
-  return nonAscii / text.length <= 0.3;
+function isAcceptedLanguage(language: DetectedLanguage, accepted: Language[]): boolean {
+  if (language === 'unknown') return true;
+  return language !== 'other' && accepted.includes(language);
 }
 
 /**
- * Normalize free-form category strings to canonical categories.
- * "DeFi" → Crypto, "Web3" → Crypto, "Blockchain" → Crypto, etc.
+ * Locale keyword pack for a root category, if the text is in a packed language
+ */
+function localePack(category: string, language: DetectedLanguage): string[] {
+  if (language === 'en' || language === 'other' || language === 'unknown') return [];
+  return LOCALE_CATEGORY_KEYWORDS[language][category as keyof typeof CATEGORY_KEYWORDS] || [];
+}
+
+/**
+ * Whether skill text mentions a user category — by taxonomy name or alias,
+ * or via the category's keyword pack when the text is in another language
+ */
+function mentionsCategory(text: string, category: string, language: DetectedLanguage): boolean {
+  const node = getTaxonomy().resolve(category);
+  if (!node) return containsPhrase(text, category);
+  if (matchKeywords(text, [node.name, ...node.aliases]).length > 0) return true;
+  const pack = localePack(node.label, language);
+  return pack.length > 0 && matchKeywords(text, pack).length > 0;
+}
+
+/**
+ * The user's interests (main categories first) a skill mentions, and in which of its fields
+ */
+function matchInterests(
+  identity: RefreshIdentityInput,
+  fields: Partial<Record<MatchField, string>>,
+  language: DetectedLanguage,
+): InterestMatch[] {
+  const text = Object.values(fields).join(' ').toLowerCase();
+  const present = (Object.keys(fields) as MatchField[]).filter(field => fields[field]);
+  return [...identity.mainCategories, ...identity.subCategories]
+    .filter(interest => mentionsCategory(text, interest, language))
+    .map(interest => ({
+      interest,
+      fields: present.filter(field => mentionsCategory(fields[field]!.toLowerCase(), interest, language)),
+    }));
+}
+
+/**
+ * Resolve a free-form category string to a taxonomy label at any depth.
+ * Exact names/aliases/paths win; otherwise the best keyword match, preferring
+ * the deeper node on ties ("DeFi lending" → Crypto › DeFi › Lending).
+ */
+function resolveCategory(value: string): string | null {
+  const lower = value.toLowerCase().trim();
+  if (!lower) return null;
+
+  const node = getTaxonomy().resolve(lower);
+  if (node) return node.label;
+
+  const keywords = categoryKeywordsForText(lower, Infinity);
+  const depthOf = (label: string) => label.split(TAXONOMY_SEPARATOR).length;
+  const scores = Object.entries(scoreCategories(lower, keywords))
+    .filter(([, score]) => score > 0)
+    .sort(([labelA, a], [labelB, b]) => b - a || depthOf(labelB) - depthOf(labelA));
+  if (scores.length > 0) return scores[0][0];
+
+  // Input is part of a keyword phrase ("machine" → 'machine learning')
+  const partial = Object.entries(keywords)
+    .find(([, terms]) => terms.some(kw => containsPhrase(kw, lower)));
+  return partial ? partial[0] : null;
+}
+
+/**
+ * Normalize free-form category strings to taxonomy labels.
+ * "Web3" → Crypto, "DeFi" → Crypto › DeFi, "Figma plugins" → Design › Figma Plugins.
  * Deduplicates the result. Falls back to DEFAULT_FALLBACK_CATEGORIES if nothing matches.
  */
-function normalizeToCanonical(categories: string[]): string[] {
+export function normalizeToCanonical(categories: string[]): string[] {
   const matched = new Set<string>();
 
   for (const cat of categories) {
-    const lower = cat.toLowerCase().trim();
-
-    // Direct match against canonical list (case-insensitive)
-    const direct = CANONICAL_CATEGORIES.find(c => c.toLowerCase() === lower);
-    if (direct) {
-      matched.add(direct);
-      continue;
-    }
-
-    // Keyword match — scan each canonical category's keyword list
-    for (const [canonical, keywords] of Object.entries(CATEGORY_KEYWORDS)) {
-      if (keywords.some(kw => lower.includes(kw) || kw.includes(lower))) {
-        matched.add(canonical);
-        break; // one match per input category is enough
-      }
-    }
+    const label = resolveCategory(cat);
+    if (label) matched.add(label);
   }
 
   if (matched.size === 0) {
@@ -99,110 +201,405 @@ function normalizeToCanonical(categories: string[]): string[] {
   return Array.from(matched);
 }
 
+/**
+ * Map sub-interests onto the taxonomy where possible ("DeFi lending" →
+ * Crypto › DeFi › Lending); anything unrecognised is kept as free text
+ */
+function normalizeSubCategories(subCategories: string[]): string[] {
+  const taxonomy = getTaxonomy();
+  const labels = subCategories.map(s => taxonomy.resolve(s)?.label ?? s);
+  return Array.from(new Set(labels));
+}
+
+/**
+ * Registry search phrase for a category label (leaf name, qualified below the root level)
+ */
+function toSearchTerm(category: string): string {
+  const taxonomy = getTaxonomy();
+  const node = taxonomy.resolve(category);
+  return node ? taxonomy.searchTerm(node) : category;
+}
+
 // ─── GitHub cross-check (verify skill exists in openclaw/skills monorepo) ───
 
 const GITHUB_SKILLS_REPO = 'openclaw/skills';
 
+// Bundled files worth scanning, and limits so one skill can't stall the run
+const SCANNABLE_FILE = /(^SKILL\.md$|\.(sh|bash|zsh|py|js|mjs|cjs|ts|rb|ps1)$)/i;
+const MAX_SCANNED_FILES = 12;
+const MAX_SCANNED_BYTES = 200_000;
+
+interface GitHubContentEntry {
+  name: string;
+  path: string;
+  type: 'file' | 'dir';
+  size: number;
+  download_url: string | null;
+}
+
+const GITHUB_HEADERS = {
+  'User-Agent': 'Bloom-Identity-Skill',
+  'Accept': 'application/vnd.github.v3+json',
+};
+
 /**
- * Verify a ClawHub skill exists in the openclaw/skills GitHub monorepo.
- * Path: skills/{owner.toLowerCase()}/{slug}/SKILL.md
- * Uses unauthenticated GitHub contents API (60 req/hr, enough for 20 checks).
+ * List a ClawHub skill's files in the openclaw/skills GitHub monorepo
+ * (skills/{owner.toLowerCase()}/{slug}/, plus its scripts/ directory).
+ * Returns null unless SKILL.md is there — that's the cross-check.
+ * Uses the unauthenticated contents API (60 req/hr) through the disk cache,
+ * so repeat runs mostly cost nothing.
  */
-async function verifySkillOnGitHub(owner: string, slug: string): Promise<boolean> {
-  try {
-    const path = `skills/${owner.toLowerCase()}/${slug}/SKILL.md`;
+async function listSkillFilesOnGitHub(owner: string, slug: string, http: CachedFetchOptions): Promise<GitHubContentEntry[] | null> {
+  const listDir = async (path: string): Promise<GitHubContentEntry[] | null> => {
     const url = `https://api.github.com/repos/${GITHUB_SKILLS_REPO}/contents/${path}`;
-    const response = await fetch(url, {
-      method: 'HEAD',
-      headers: {
-        'User-Agent': 'Bloom-Identity-Skill',
-        'Accept': 'application/vnd.github.v3+json',
-      },
-    });
-    return response.status === 200;
+    const response = await cachedFetch(url, { headers: GITHUB_HEADERS }, http);
+    if (!response.ok) return null;
+    const data = await response.json();
+    return Array.isArray(data) ? data : null;
+  };
+
+  try {
+    const entries = await listDir(`skills/${owner.toLowerCase()}/${slug}`);
+    if (!entries?.some(e => e.type === 'file' && e.name === 'SKILL.md')) return null;
+
+    const scriptsDir = entries.find(e => e.type === 'dir' && e.name === 'scripts');
+    const scripts = scriptsDir ? await listDir(scriptsDir.path) : null;
+
+    return [...entries, ...(scripts ?? [])].filter(e => e.type === 'file');
   } catch {
     // Network error — treat as unverified
-    return false;
+    return null;
+  }
+}
+
+/**
+ * Download SKILL.md and bundled scripts and scan them statically
+ */
+async function scanSkillOnGitHub(entries: GitHubContentEntry[], http: CachedFetchOptions): Promise<SkillRiskReport> {
+  const files: SkillFile[] = [];
+  const skipped: string[] = [];
+
+  const candidates = entries
+    .filter(e => SCANNABLE_FILE.test(e.name))
+    .sort((a, b) => (a.name === 'SKILL.md' ? -1 : b.name === 'SKILL.md' ? 1 : 0));
+
+  for (const [index, entry] of candidates.entries()) {
+    if (index >= MAX_SCANNED_FILES || entry.size > MAX_SCANNED_BYTES || !entry.download_url) {
+      skipped.push(entry.path);
+      continue;
+    }
+    try {
+      const response = await cachedFetch(entry.download_url, { headers: { 'User-Agent': GITHUB_HEADERS['User-Agent'] } }, http);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      files.push({ path: entry.path, content: await response.text() });
+    } catch {
+      skipped.push(entry.path);
+    }
   }
+
+  return scanSkillFiles(files, skipped);
 }
 
 // ─── Main pipeline ──────────────────────────────────────────────────────
 
+export interface RefreshOptions {
+  sources?: string[];                               // Source names (default: BLOOM_RECOMMENDATION_SOURCES, then local + clawhub + claude-code)
+  sourceOptions?: Record<string, SourceRunOptions>; // Per-source timeout, quota and fusion weight
+  installedSkills?: 'exclude' | 'mark';             // Remote picks the user already has (default: BLOOM_INSTALLED_SKILLS, then exclude)
+  offline?: boolean;                                // Serve network sources from the HTTP cache only (default: BLOOM_OFFLINE=1)
+  fusion?: FusionMethod;                            // How source rankings are merged (default: BLOOM_RANK_FUSION, then rrf)
+  diversity?: number;                               // 0–1 redundancy penalty within a category (default: BLOOM_DIVERSITY, then 0.3)
+  onSourceStats?: (stats: SourceStats[]) => void;
+  onFusion?: (fused: FusedItem<SkillRecommendation>[]) => void; // Per-source and fused ranks (also logged with BLOOM_RANK_DIAGNOSTIC=1)
+  debug?: boolean;                                  // Record why every dropped candidate was dropped (default: BLOOM_DEBUG_REJECTIONS=1)
+  onRejections?: (rejections: SkillRejection[]) => void; // Every rejection record, when debug is on
+  feedbackLog?: string | false;                     // Event log for feedback when identity.feedback is absent, and for exploration (default: BLOOM_FEEDBACK_LOG; false to skip)
+  explorationSlots?: number;                        // Extra cards from outside the category picks (default: BLOOM_EXPLORATION_SLOTS, then 1; 0 disables)
+  explorationPolicy?: ExplorationPolicy;            // Bandit policy for those slots (default: BLOOM_EXPLORATION_POLICY, then thompson)
+  explorationSeed?: number | string;                // Reproducible exploration picks (default: BLOOM_EXPLORATION_SEED, then random)
+  impersonation?: ImpersonationMode;                // Lookalikes of official/popular skills and brands (default: BLOOM_IMPERSONATION, then drop)
+  minTrust?: number;                                // Drop recommendations with a lower trust score, installed skills aside (default: BLOOM_MIN_TRUST, then 0)
+}
+
 /**
  * Run the full recommendation pipeline: fetch, score, deduplicate, group.
- * Stateless — creates fresh client instances each call.
+ * Stateless — sources create fresh client instances each call.
  */
 export async function refreshRecommendations(
   identity: RefreshIdentityInput,
+  options: RefreshOptions = {},
 ): Promise<SkillRecommendation[]> {
-  const claudeCodeClient = createClaudeCodeClient();
-  const clawHubClient = createClawHubClient();
-
-  // Normalize categories before anything else (Fix 2)
-  const normalizedCategories = normalizeToCanonical(identity.mainCategories);
-  const normalizedIdentity: RefreshIdentityInput = {
-    ...identity,
-    mainCategories: normalizedCategories,
+  // "Why not?" records for every dropped candidate, collected only when debugging
+  const debug = options.debug ?? process.env.BLOOM_DEBUG_REJECTIONS === '1';
+  const rejections: SkillRejection[] = [];
+  const reject: RejectionHandler | undefined = debug ? rejection => rejections.push(rejection) : undefined;
+
+  // ClawHub moderation per creator across runs, including skills the moderation gates drop before trust is scored
+  const creatorHistory = createCreatorHistory();
+  const onSourceReject: RejectionHandler = rejection => {
+    if (rejection.gate === 'suspicious' || rejection.gate === 'malware') creatorHistory.record(rejection.creator, rejection.skillId, true);
+    reject?.(rejection);
   };
 
-  console.log(
-    `[recommendation-pipeline] Searching for ${identity.personalityType}...` +
-    ` (categories: ${identity.mainCategories.join(', ')} → ${normalizedCategories.join(', ')})`,
-  );
+  // Feedback: the caller's, else derived from the local event log (which also drives exploration)
+  const feedbackEvents = options.feedbackLog === false || !isFeedbackEnabled() ? [] : readFeedbackEvents(options.feedbackLog || undefined);
+  const feedback = identity.feedback ?? (feedbackEvents.length > 0 ? deriveFeedbackData(feedbackEvents) : undefined);
 
   try {
-    // Search both sources in parallel
-    const [claudeCodeSkills, clawHubSkills] = await Promise.all([
-      getClaudeCodeRecommendations(claudeCodeClient, normalizedIdentity),
-      getClawHubRecommendations(clawHubClient, normalizedIdentity).catch(err => {
-        console.error('[recommendation-pipeline] ClawHub search failed:', err);
-        return [] as SkillRecommendation[];
-      }),
-    ]);
-
-    // Merge and deduplicate by URL — keep highest-scoring entry
-    const all = [...claudeCodeSkills, ...clawHubSkills];
-    const byUrl = new Map<string, SkillRecommendation>();
-    for (const rec of all) {
-      const key = rec.url.toLowerCase().replace(/\/+$/, '');
-      const existing = byUrl.get(key);
-      if (!existing || rec.matchScore > existing.matchScore) {
-        byUrl.set(key, rec);
+    // Normalize categories before anything else (Fix 2); an invalid BLOOM_TAXONOMY_PATH throws here
+    const normalizedCategories = normalizeToCanonical(identity.mainCategories);
+    const normalizedIdentity: RefreshIdentityInput = {
+      ...identity,
+      mainCategories: normalizedCategories,
+      subCategories: normalizeSubCategories(identity.subCategories),
+    };
+
+    console.log(
+      `[recommendation-pipeline] Searching for ${identity.personalityType}...` +
+      ` (categories: ${identity.mainCategories.join(', ')} → ${normalizedCategories.join(', ')})`,
+    );
+
+    // Run every enabled source in parallel, each with its own timeout and quota
+    // Offline, sources behind the HTTP cache run from cached responses; other network sources are skipped
+    const offline = options.offline ?? isOffline();
+    const sources = getRecommendationSources(options.sources)
+      .filter(source => !offline || !source.capabilities.network || source.capabilities.httpCache);
+    if (offline) {
+      console.log(`[recommendation-pipeline] Offline: using ${sources.map(s => s.name).join(', ') || 'no sources'}`);
+    }
+
+    // Installed skills, read once: the local source recommends from them, the rest are checked against them
+    const installed = readInstalledSkills();
+
+    // Exploration needs candidates from outside the user's categories: search one suppressed or unexplored category too
+    const slots = explorationSlots(options.explorationSlots);
+    const seed = options.explorationSeed ?? process.env.BLOOM_EXPLORATION_SEED ?? Math.floor(Math.random() * 2 ** 32);
+    const armStats = engagementStats(feedbackEvents);
+    const exploreCategory = slots > 0
+      ? categoryToExplore(getTaxonomy().roots.map(root => root.label), {
+        mainCategories: normalizedCategories, weights: feedback?.categoryWeights, stats: armStats, seed,
+      })
+      : null;
+    const searchIdentity = exploreCategory
+      ? { ...normalizedIdentity, mainCategories: [...normalizedCategories, exploreCategory] }
+      : normalizedIdentity;
+    if (exploreCategory) console.log(`[recommendation-pipeline] Also searching ${exploreCategory} to explore`);
+
+    // Offline reaches cachedFetch through each source's context, so concurrent runs don't share it
+    const { candidates, stats } = await runRecommendationSources(
+      sources, searchIdentity, options.sourceOptions, onSourceReject, { installedSkills: installed, offline },
+    );
+    console.log(`[recommendation-pipeline] Sources: ${formatSourceStats(stats)}`);
+    options.onSourceStats?.(stats);
+
+    const accepted = identity.languages ?? DEFAULT_LANGUAGES;
+    const all: SkillRecommendation[] = [];
+    const sourceOf = new Map<SkillRecommendation, string>();
+    for (const { source, candidate, normalizedScore } of candidates) {
+      const { rawScore, boost, ...rec } = candidate;
+
+      // Language preference, for sources that don't apply it themselves
+      if (!source.capabilities.languageFilter && !source.capabilities.skipLanguageFilter) {
+        const descriptionLanguage = rec.descriptionLanguage ?? detectLanguage(rec.description);
+        if (!isAcceptedLanguage(descriptionLanguage, accepted)) {
+          const detail = `description language ${descriptionLanguage} not in [${accepted.join(', ')}]`;
+          console.log(`[${source.name}] Skipped ${rec.skillName}: ${detail}`);
+          reject?.(rejectionOf(rec, source.name, 'language', detail, { language: descriptionLanguage, accepted: accepted.join(',') }));
+          continue;
+        }
+        rec.descriptionLanguage = descriptionLanguage;
+      }
+
+      let personalityBoost = boost ?? 0;
+      if (!source.capabilities.personalityScoring) {
+        const personality = calculatePersonalityBoost(rec, normalizedIdentity);
+        personalityBoost = personality.boost;
+        if (rec.explanation) {
+          rec.explanation = {
+            ...rec.explanation,
+            personality: { type: identity.personalityType, keywords: personality.matchedKeywords },
+          };
+        }
       }
+
+      const scored = { ...rec, matchScore: Math.min(normalizedScore + personalityBoost, 100) };
+      all.push(scored);
+      sourceOf.set(scored, source.name);
     }
-    let deduplicated = Array.from(byUrl.values());
+
+    // Already-installed skills: drop or mark what other sources found again
+    const installedMode = options.installedSkills ?? (process.env.BLOOM_INSTALLED_SKILLS === 'mark' ? 'mark' : 'exclude');
+    if (installed.length > 0) {
+      const before = all.length;
+      for (let i = all.length - 1; i >= 0; i--) {
+        const rec = all[i];
+        const match = rec.installed ? undefined : findInstalledSkill(rec, installed);
+        if (!match) continue;
+        if (installedMode === 'exclude') {
+          all.splice(i, 1);
+          reject?.(rejectionOf(rec, sourceOf.get(rec)!, 'installed', `already installed at ${match.path}`, { path: match.path }));
+        } else {
+          rec.installed = true;
+        }
+      }
+      if (installedMode === 'exclude' && before !== all.length) {
+        console.log(`[recommendation-pipeline] Excluded ${before - all.length} already-installed skills`);
+      }
+    }
+
+    // Resolve every candidate to a canonical skill — the same skill from two sources shares one
+    const identities = resolveSkillIdentities(all);
+    const members = new Map<string, { source: string; item: SkillRecommendation }[]>();
+    for (const rec of all) {
+      const key = identities.get(rec)!;
+      members.set(key, [...(members.get(key) ?? []), { source: sourceOf.get(rec)!, item: rec }]);
+    }
+
+    // Fuse source rankings per canonical skill; duplicates merge into their highest-scoring entry
+    const fused = fuseRankings(
+      all.map(rec => ({
+        source: sourceOf.get(rec)!,
+        key: identities.get(rec)!,
+        score: rec.matchScore,
+        item: rec,
+      })),
+      { method: fusionMethod(options.fusion), weights: resolveSourceWeights(sources, options.sourceOptions) },
+    );
+    const merged = fused.filter(f => members.get(f.key)!.length > 1).length;
+    if (merged > 0) {
+      console.log(`[recommendation-pipeline] Merged ${all.length - fused.length} duplicates into ${merged} skills`);
+    }
+    if (process.env.BLOOM_RANK_DIAGNOSTIC === '1') {
+      console.log(`[recommendation-pipeline] Rank fusion:\n${formatFusionDiagnostic(fused, rec => rec.skillName)}`);
+    }
+    options.onFusion?.(fused);
+    let deduplicated = fused.map(f => {
+      const trustSignals = mergeTrustSignals(members.get(f.key)!.map(m => m.item.trustSignals));
+      return {
+        ...mergeDuplicateSkills(f.key, f.item, members.get(f.key)!),
+        fusedScore: f.fusedScore,
+        ...(trustSignals && { trustSignals }),
+      };
+    });
 
     // Apply feedback filters: exclude dismissed skills
-    if (identity.feedback?.excludeSkillIds?.length) {
-      const excludeSet = new Set(identity.feedback.excludeSkillIds.map(id => id.toLowerCase()));
+    if (feedback?.excludeSkillIds?.length) {
+      const excludeSet = new Set(feedback.excludeSkillIds.map(id => id.toLowerCase()));
       const before = deduplicated.length;
-      deduplicated = deduplicated.filter(s => !excludeSet.has(s.skillId.toLowerCase()));
+      deduplicated = deduplicated.filter(s => {
+        if (!excludeSet.has(s.skillId.toLowerCase())) return true;
+        reject?.(rejectionOf(s, 'pipeline', 'dismissed', 'dismissed in your feedback'));
+        return false;
+      });
       if (before !== deduplicated.length) {
         console.log(`[recommendation-pipeline] Excluded ${before - deduplicated.length} dismissed skills`);
       }
     }
 
+    // Impersonation: lookalikes of official or high-traction skills and protected brands
+    const impersonation = impersonationMode(options.impersonation);
+    if (impersonation !== 'off') {
+      const targets = impersonationTargets(deduplicated);
+      deduplicated = deduplicated.filter(skill => {
+        const suspicions = detectImpersonation(skill, targets);
+        if (suspicions.length === 0) return true;
+        const [first] = suspicions;
+        const detail = `${first.field} "${first.value}" looks like "${first.target}" (${first.kind}${first.distance ? `, distance ${first.distance}` : ''})`;
+        if (impersonation === 'strict' || (impersonation === 'drop' && suspicions.some(s => s.confidence === 'high'))) {
+          console.log(`[recommendation-pipeline] Skipped ${skill.skillName}: ${detail}`);
+          reject?.(rejectionOf(skill, 'pipeline', 'impersonation', detail, {
+            kind: first.kind, field: first.field, target: first.target, confidence: first.confidence,
+          }));
+          return false;
+        }
+        console.log(`[recommendation-pipeline] Flagged ${skill.skillName}: ${detail}`);
+        skill.impersonation = suspicions;
+        skill.trustSignals = { ...skill.trustSignals, impersonates: first.target };
+        return true;
+      });
+    }
+
+    // Trust: every provenance signal plus the creator's other flagged skills, in this search or earlier ones, then the minimum
+    for (const skill of deduplicated) {
+      const moderation = skill.trustSignals?.moderation;
+      if (moderation) creatorHistory.record(skill.creator, skill.skillId, moderation.isSuspicious || moderation.isMalwareBlocked);
+    }
+    creatorHistory.save();
+    const minTrust = trustThreshold(options.minTrust);
+    deduplicated = deduplicated.filter(skill => {
+      const creatorFlagged = creatorHistory.flaggedSkills(skill.creator, skill.skillId).length;
+      skill.trust = computeTrustScore({ ...skill.trustSignals, ...(creatorFlagged > 0 && { creatorFlagged }) });
+      if (skill.installed || skill.trust.score >= minTrust) return true;
+      reject?.(rejectionOf(skill, 'pipeline', 'min-trust', `trust ${skill.trust.score} < ${minTrust}`, {
+        trust: skill.trust.score, minTrust,
+      }));
+      return false;
+    });
+
     // Apply feedback category weights as score multiplier
-    if (identity.feedback?.categoryWeights) {
-      const weights = identity.feedback.categoryWeights;
+    const adjustmentsOf = new Map<SkillRecommendation, ScoreAdjustment[]>();
+    if (feedback?.categoryWeights) {
+      const weights = feedback.categoryWeights;
       for (const skill of deduplicated) {
         for (const cat of skill.categories) {
           const w = weights[cat];
           if (w !== undefined && w !== 1.0) {
             skill.matchScore = Math.min(Math.round(skill.matchScore * w), 100);
+            skill.fusedScore = (skill.fusedScore ?? 0) * w;
+            adjustmentsOf.set(skill, [{ origin: 'feedback', category: cat, weight: w }]);
             break; // Apply best matching category weight once
           }
         }
       }
     }
 
-    // Group by normalized categories (3-7 per category)
-    const grouped = groupByCategory(deduplicated, normalizedCategories);
+    // Explanations: merged traction, the weights applied, then the short reason
+    for (const skill of deduplicated) {
+      if (!skill.explanation) continue;
+      if (exploreCategory) {
+        // Searched to explore, not one of the user's interests
+        const interests = skill.explanation.interests.filter(match => match.interest !== exploreCategory);
+        skill.explanation = { ...skill.explanation, interests };
+      }
+      skill.explanation = explainWithSignals(skill, identity.userMd, adjustmentsOf.get(skill) ?? []);
+      skill.reason = renderReason(skill.explanation);
+    }
 
-    console.log(
-      `[recommendation-pipeline] ${claudeCodeSkills.length} Claude Code + ${clawHubSkills.length} ClawHub => ${grouped.length} grouped`,
+    // Group by normalized categories (3-7 per category), then pick each category's slots for diversity
+    const { picked, overflow } = groupByCategory(
+      deduplicated, normalizedCategories, diversityLevel(options.diversity), exploreCategory ? [exploreCategory] : [],
     );
 
+    // Exploration slots: candidates that missed the category picks, chosen by a bandit over categories and sources
+    const policy = explorationPolicy(options.explorationPolicy);
+    const explorations = slots > 0 && overflow.length > 0
+      ? selectExplorations(overflow.map(o => o.skill), { slots, policy, seed, stats: armStats })
+      : [];
+    if (explorations.length > 0) {
+      console.log(`[recommendation-pipeline] Exploring ${explorations.map(e => `${e.item.skillName} (${e.category})`).join(', ')} — ${policy}, seed ${seed}`);
+    }
+    const explored = explorations.map(({ item, category, source }) => {
+      const card: SkillRecommendation = { ...item, exploring: true };
+      if (card.explanation) {
+        card.explanation = { ...card.explanation, exploring: { category, source, policy } };
+        card.reason = renderReason(card.explanation);
+      } else {
+        card.reason = `Exploring ${category}`;
+      }
+      return card;
+    });
+    for (const { skill, rejection } of overflow) {
+      if (!explorations.some(e => e.item === skill)) reject?.(rejection);
+    }
+    const grouped = [...picked, ...explored];
+
+    console.log(`[recommendation-pipeline] ${all.length} candidates => ${grouped.length} grouped`);
+    if (debug) {
+      console.log(`[recommendation-pipeline] Rejected ${rejections.length} candidates: ${summarizeRejections(rejections) || 'none'}`);
+      for (const rejection of rejections) console.log(`  ${formatRejection(rejection)}`);
+      options.onRejections?.(rejections);
+    }
+
     return grouped;
   } catch (error) {
     console.error('[recommendation-pipeline] Failed:', error);
@@ -210,198 +607,489 @@ export async function refreshRecommendations(
   }
 }
 
-// ─── ClawHub recommendations (Fix 1: replaces GitHub) ───────────────────
+/**
+ * Rejection record for a candidate the pipeline itself dropped
+ */
+function rejectionOf(
+  rec: Pick<SkillRecommendation, 'skillId' | 'skillName' | 'url' | 'creator'>,
+  source: string,
+  gate: string,
+  detail: string,
+  values?: SkillRejection['values'],
+): SkillRejection {
+  return { source, skillId: rec.skillId, skillName: rec.skillName, url: rec.url, creator: rec.creator, gate, detail, values };
+}
 
-async function getClawHubRecommendations(
-  client: ClawHubClient,
-  identity: RefreshIdentityInput,
-): Promise<SkillRecommendation[]> {
-  try {
-    // 1. Search ClawHub for skills matching user categories
-    const rawSkills = await client.getRecommendations({
-      mainCategories: identity.mainCategories,
-      subCategories: identity.subCategories,
-      limit: 20,
-    });
+/**
+ * A recommendation's explanation with the traction of every merged source,
+ * the feedback weights applied and the matched interests USER.md contributed
+ */
+function explainWithSignals(
+  skill: SkillRecommendation,
+  userMd: RefreshIdentityInput['userMd'],
+  adjustments: ScoreAdjustment[],
+): RecommendationExplanation {
+  const fromUserMd = new Set((userMd?.categories ?? []).map(c => (resolveCategory(c) ?? c).toLowerCase()));
+  const userMdAdjustments: ScoreAdjustment[] = skill.explanation!.interests
+    .filter(match => fromUserMd.has(match.interest.toLowerCase()))
+    .map(match => ({ origin: 'user-md', category: match.interest, weight: userMd!.weight }));
+
+  return {
+    ...skill.explanation!,
+    traction: {
+      ...(skill.downloads !== undefined && { downloads: skill.downloads }),
+      ...(skill.stars !== undefined && { stars: skill.stars }),
+      ...(skill.lists?.length && { lists: skill.lists }),
+    },
+    adjustments: [...skill.explanation!.adjustments, ...adjustments, ...userMdAdjustments],
+  };
+}
 
-    if (rawSkills.length === 0) return [];
-
-    // 2. For each result, fetch details first (search results don't include owner)
-    //    then GitHub cross-check with the owner from details
-    const verifiedSkills = await Promise.all(
-      rawSkills.map(async (skill): Promise<SkillRecommendation | null> => {
-        // Step A: Fetch full details (includes owner, stats, moderation)
-        const details = await client.getSkillDetails(skill.slug).catch(() => null);
-        if (!details) return null;
-
-        // Step B: GitHub cross-check using owner from details
-        const owner = details.creator;
-        if (!owner) {
-          console.log(`[clawhub] Skipped ${skill.slug}: no owner`);
-          return null;
-        }
+/**
+ * Fusion method from the option, else BLOOM_RANK_FUSION, else rrf
+ */
+function fusionMethod(requested?: FusionMethod): FusionMethod {
+  const method = requested ?? process.env.BLOOM_RANK_FUSION;
+  if (!method) return 'rrf';
+  if (FUSION_METHODS.includes(method as FusionMethod)) return method as FusionMethod;
+  console.warn(`⚠️  Unknown rank fusion method "${method}" (use ${FUSION_METHODS.join(' or ')}), using rrf`);
+  return 'rrf';
+}
 
-        const isVerified = await verifySkillOnGitHub(owner, skill.slug);
-        if (!isVerified) {
-          console.log(`[clawhub] Skipped ${skill.slug}: GitHub cross-check failed (owner: ${owner})`);
-          return null;
-        }
+/**
+ * Exploration slot count from the option, else BLOOM_EXPLORATION_SLOTS, else the default
+ */
+function explorationSlots(requested?: number): number {
+  const value = requested ?? (process.env.BLOOM_EXPLORATION_SLOTS ? Number(process.env.BLOOM_EXPLORATION_SLOTS) : DEFAULT_EXPLORATION_SLOTS);
+  if (Number.isInteger(value) && value >= 0) return value;
+  console.warn(`⚠️  Exploration slots must be a whole number, got "${requested ?? process.env.BLOOM_EXPLORATION_SLOTS}", using ${DEFAULT_EXPLORATION_SLOTS}`);
+  return DEFAULT_EXPLORATION_SLOTS;
+}
 
-        // Quality gates
+/**
+ * Exploration policy from the option, else BLOOM_EXPLORATION_POLICY, else thompson
+ */
+function explorationPolicy(requested?: ExplorationPolicy): ExplorationPolicy {
+  const policy = requested ?? process.env.BLOOM_EXPLORATION_POLICY;
+  if (!policy) return 'thompson';
+  if (EXPLORATION_POLICIES.includes(policy as ExplorationPolicy)) return policy as ExplorationPolicy;
+  console.warn(`⚠️  Unknown exploration policy "${policy}" (use ${EXPLORATION_POLICIES.join(' or ')}), using thompson`);
+  return 'thompson';
+}
 
-        // Traction — read early, used in moderation gate below
-        const downloads = details.stats?.downloads ?? 0;
+/**
+ * Impersonation handling from the option, else BLOOM_IMPERSONATION, else drop
+ */
+function impersonationMode(requested?: ImpersonationMode): ImpersonationMode {
+  const mode = requested ?? process.env.BLOOM_IMPERSONATION;
+  if (!mode) return 'drop';
+  if (IMPERSONATION_MODES.includes(mode as ImpersonationMode)) return mode as ImpersonationMode;
+  console.warn(`⚠️  Unknown impersonation mode "${mode}" (use ${IMPERSONATION_MODES.join(', ')}), using drop`);
+  return 'drop';
+}
 
-        // Moderation flags: always block malware; suspicious is OK if high traction
-        if (details.moderation?.isMalwareBlocked === true) {
-          console.log(`[clawhub] Skipped ${skill.slug}: malware blocked`);
-          return null;
-        }
-        if (details.moderation?.isSuspicious === true && downloads <= 200) {
-          console.log(`[clawhub] Skipped ${skill.slug}: suspicious + low downloads (${downloads})`);
-          return null;
-        }
+/**
+ * Minimum trust score from the option, else BLOOM_MIN_TRUST, else 0
+ */
+function trustThreshold(requested?: number): number {
+  const value = requested ?? (process.env.BLOOM_MIN_TRUST ? Number(process.env.BLOOM_MIN_TRUST) : 0);
+  if (Number.isFinite(value) && value >= 0 && value <= 100) return value;
+  console.warn(`⚠️  Minimum trust must be between 0 and 100, got "${requested ?? process.env.BLOOM_MIN_TRUST}", using 0`);
+  return 0;
+}
 
-        const description = details.description || '';
+/**
+ * Diversity knob from the option, else BLOOM_DIVERSITY, else the default
+ */
+function diversityLevel(requested?: number): number {
+  const value = requested ?? (process.env.BLOOM_DIVERSITY ? Number(process.env.BLOOM_DIVERSITY) : DEFAULT_DIVERSITY);
+  if (Number.isFinite(value) && value >= 0 && value <= 1) return value;
+  console.warn(`⚠️  Diversity must be between 0 and 1, got "${requested ?? process.env.BLOOM_DIVERSITY}", using ${DEFAULT_DIVERSITY}`);
+  return DEFAULT_DIVERSITY;
+}
 
-        // Description quality
-        if (description.length < 20) return null;
+// ─── ClawHub source (Fix 1: replaces GitHub) ────────────────────────────
 
-        // English-only filter (Fix 3)
-        if (!isLikelyEnglish(description)) {
-          console.log(`[clawhub] Skipped ${skill.slug}: non-English description`);
-          return null;
-        }
+// ClawHub similarity scores top out around 4
+const CLAWHUB_SCORE_CEILING = 4;
 
-        // Blocked keywords
-        if (containsBlockedKeyword(`${details.name} ${description}`)) {
-          console.log(`[clawhub] Skipped ${skill.slug}: blocked keyword`);
-          return null;
-        }
+// ClawHub quality gates
+const MIN_DESCRIPTION_LENGTH = 20;
+const MIN_DOWNLOADS = 20;
+const SUSPICIOUS_MIN_DOWNLOADS = 200; // Flagged suspicious is OK above this
+const MIN_SIMILARITY = 0.5;
+
+const clawHubSource: RecommendationSource = {
+  name: 'clawhub',
+  capabilities: { network: true, languageFilter: true, personalityScoring: true, securityScan: true, httpCache: true },
+  fetchCandidates: (identity, { limit, reject, offline, signal }) => getClawHubCandidates(identity, limit, reject, { offline, signal }),
+  normalizeScore: raw => (raw / CLAWHUB_SCORE_CEILING) * 100,
+};
+
+async function getClawHubCandidates(
+  identity: RefreshIdentityInput,
+  limit: number,
+  reject: SourceFetchContext['reject'],
+  http: CachedFetchOptions,
+): Promise<SourceCandidate[]> {
+  const client = createClawHubClient(http);
+
+  // 1. Search ClawHub for skills matching user categories
+  const rawSkills = await client.getRecommendations({
+    mainCategories: identity.mainCategories.map(toSearchTerm),
+    subCategories: identity.subCategories.map(toSearchTerm),
+    limit,
+  });
+
+  if (rawSkills.length === 0) return [];
+
+  const accepted = identity.languages ?? DEFAULT_LANGUAGES;
+
+  // 2. For each result, fetch details first (search results don't include owner)
+  //    then GitHub cross-check with the owner from details
+  const verifiedSkills = await Promise.all(
+    rawSkills.map(async (skill): Promise<SourceCandidate | null> => {
+      // Every gate below logs and records why the skill was dropped
+      let owner: string | undefined;
+      const skip = (gate: string, detail: string, values?: SkillRejection['values']): null => {
+        console.log(`[clawhub] Skipped ${skill.slug}: ${detail}`);
+        reject({ skillId: skill.slug, skillName: skill.name, url: `https://clawhub.ai/skills/${skill.slug}`, creator: owner, gate, detail, values });
+        return null;
+      };
+
+      // Step A: Fetch full details (includes owner, stats, moderation)
+      const details = await client.getSkillDetails(skill.slug).catch(() => null);
+      if (!details) return skip('details', 'details unavailable');
+
+      // Step B: GitHub cross-check using owner from details
+      owner = details.creator;
+      if (!owner) return skip('owner', 'no owner');
+
+      const skillFiles = await listSkillFilesOnGitHub(owner, skill.slug, http);
+      if (!skillFiles) {
+        return skip('github-cross-check', `GitHub cross-check failed (owner: ${owner})`, {
+          repo: GITHUB_SKILLS_REPO,
+          path: `skills/${owner.toLowerCase()}/${skill.slug}`,
+        });
+      }
+
+      // Quality gates
 
-        // Traction gate: minimum 20 downloads
-        if (downloads < 20) return null;
+      // Traction — read early, used in moderation gate below
+      const downloads = details.stats?.downloads ?? 0;
 
-        // Relevance gate: similarity score minimum
-        if (skill.similarityScore < 0.5) return null;
+      // Moderation flags: always block malware; suspicious is OK if high traction
+      if (details.moderation?.isMalwareBlocked === true) {
+        return skip('malware', 'malware blocked', { isMalwareBlocked: true });
+      }
+      if (details.moderation?.isSuspicious === true && downloads <= SUSPICIOUS_MIN_DOWNLOADS) {
+        return skip('suspicious', `suspicious + low downloads (${downloads})`, {
+          isSuspicious: true, downloads, minDownloads: SUSPICIOUS_MIN_DOWNLOADS + 1,
+        });
+      }
 
-        // Map to SkillRecommendation
-        const normalizedScore = Math.min(Math.round((skill.similarityScore / 4) * 100), 100);
+      const description = details.description || '';
 
-        const searchText = `${details.name} ${description} ${(details.categories || []).join(' ')}`.toLowerCase();
-        const matchedCategory = [...identity.mainCategories, ...identity.subCategories]
-          .find(c => searchText.includes(c.toLowerCase()));
+      // Description quality
+      if (description.length < MIN_DESCRIPTION_LENGTH) {
+        return skip('description', `description too short (${description.length} < ${MIN_DESCRIPTION_LENGTH} chars)`, {
+          length: description.length, minLength: MIN_DESCRIPTION_LENGTH,
+        });
+      }
 
-        const { boost, matchedKeywords } = calculatePersonalityBoost(
-          { description, categories: details.categories || [] },
-          identity,
-        );
+      // Language preference filter
+      const descriptionLanguage = detectLanguage(description);
+      if (!isAcceptedLanguage(descriptionLanguage, accepted)) {
+        return skip('language', `description language ${descriptionLanguage} not in [${accepted.join(', ')}]`, {
+          language: descriptionLanguage, accepted: accepted.join(','),
+        });
+      }
 
-        const downloadsDisplay = downloads >= 1000
-          ? `${(downloads / 1000).toFixed(1)}k`
-          : `${downloads}`;
+      // Content policy
+      const verdict = getContentPolicy().evaluate({
+        text: `${details.name} ${description}`,
+        slug: skill.slug,
+        creator: owner,
+        urls: [`https://clawhub.ai/skills/${skill.slug}`],
+      });
+      if (verdict.action === 'block') {
+        return skip('content-policy', describeVerdict(verdict), { rules: verdict.matches.map(m => m.ruleId).join(',') });
+      }
+      if (verdict.action !== 'allow') {
+        console.log(`[clawhub] Policy ${skill.slug}: ${describeVerdict(verdict)}`);
+      }
 
-        const typeName = identity.personalityType.replace(/^The /, '');
-        const reason = matchedCategory && matchedKeywords.length > 0
-          ? `Because you're into ${matchedCategory} — ${downloadsDisplay} downloads`
-          : matchedCategory
-            ? `Because you're into ${matchedCategory} — ${downloadsDisplay} downloads`
-            : matchedKeywords.length > 0
-              ? `Fits your ${typeName} style — ${downloadsDisplay} downloads`
-              : `Fits your ${typeName} profile — ${downloadsDisplay} downloads`;
+      // Traction gate: minimum downloads
+      if (downloads < MIN_DOWNLOADS) {
+        return skip('min-downloads', `${downloads} downloads < ${MIN_DOWNLOADS}`, { downloads, minDownloads: MIN_DOWNLOADS });
+      }
+
+      // Relevance gate: similarity score minimum
+      if (skill.similarityScore < MIN_SIMILARITY) {
+        return skip('min-similarity', `similarity ${skill.similarityScore.toFixed(2)} < ${MIN_SIMILARITY}`, {
+          similarity: skill.similarityScore, minSimilarity: MIN_SIMILARITY,
+        });
+      }
+
+      // Security gate: static scan of SKILL.md + bundled scripts
+      const risk = await scanSkillOnGitHub(skillFiles, http);
+      if (!risk.scannedFiles.some(f => f.endsWith('/SKILL.md'))) {
+        return skip('security-scan', 'SKILL.md could not be scanned', { skippedFiles: risk.skippedFiles.length });
+      }
+      if (risk.level === 'high') {
+        const rules = Array.from(new Set(risk.findings.filter(f => f.level === 'high').map(f => f.ruleId)));
+        return skip('high-risk', `high-risk content (${rules.join(', ')})`, { riskLevel: risk.level, rules: rules.join(',') });
+      }
 
-        return {
-          skillId: skill.slug,
-          skillName: details.name || skill.name,
+      // Map to a candidate (content-policy downrank applies to the raw score)
+
+      const { boost, matchedKeywords } = calculatePersonalityBoost(
+        { description, categories: details.categories || [] },
+        identity,
+      );
+
+      const explanation: RecommendationExplanation = {
+        interests: matchInterests(identity, {
+          name: details.name,
           description,
-          url: `https://clawhub.ai/skills/${skill.slug}`,
-          categories: details.categories || ['General'],
-          matchScore: Math.min(normalizedScore + boost, 100),
-          reason,
-          creator: owner,
-          creatorUserId: details.creatorUserId,
-          source: 'ClawHub' as const,
+          categories: (details.categories || []).join(' '),
+        }, descriptionLanguage),
+        personality: { type: identity.personalityType, keywords: matchedKeywords },
+        traction: { downloads },
+        adjustments: [],
+      };
+
+      return {
+        skillId: skill.slug,
+        skillName: details.name || skill.name,
+        description,
+        url: `https://clawhub.ai/skills/${skill.slug}`,
+        categories: details.categories || ['General'],
+        rawScore: skill.similarityScore * verdict.scoreMultiplier,
+        boost,
+        reason: renderReason(explanation),
+        explanation,
+        creator: owner,
+        creatorUserId: details.creatorUserId,
+        source: 'ClawHub',
+        downloads,
+        descriptionLanguage,
+        risk,
+        riskLabel: riskLabel(risk),
+        trustSignals: {
+          moderation: details.moderation,
+          verifiedOnGitHub: true,
           downloads,
-        };
-      }),
-    );
+          registryStars: details.stats?.stars,
+          riskLevel: risk.level,
+        },
+      };
+    }),
+  );
 
-    return verifiedSkills.filter((s): s is SkillRecommendation => s !== null);
-  } catch (error) {
-    console.error('[recommendation-pipeline] ClawHub recommendations failed:', error);
-    return [];
-  }
+  return verifiedSkills.filter((s): s is SourceCandidate => s !== null);
 }
 
-// ─── Claude Code recommendations ────────────────────────────────────────
+// ─── Claude Code source ─────────────────────────────────────────────────
+
+// matchSkills scores: +10 per category phrase, +2 per word, +5 official
+const CLAUDE_CODE_SCORE_CEILING = 30;
+
+const claudeCodeSource: RecommendationSource = {
+  name: 'claude-code',
+  capabilities: { network: true, languageFilter: true, personalityScoring: true, securityScan: false, httpCache: true },
+  fetchCandidates: (identity, { limit, reject, offline, signal }) => getClaudeCodeCandidates(identity, limit, reject, { offline, signal }),
+  normalizeScore: raw => (raw / CLAUDE_CODE_SCORE_CEILING) * 100,
+};
 
-async function getClaudeCodeRecommendations(
-  client: ClaudeCodeClient,
+async function getClaudeCodeCandidates(
   identity: RefreshIdentityInput,
-): Promise<SkillRecommendation[]> {
-  try {
-    const claudeCodeSkills = await client.getRecommendations({
-      mainCategories: identity.mainCategories,
-      subCategories: identity.subCategories,
-      limit: 20,
+  limit: number,
+  reject: SourceFetchContext['reject'],
+  http: CachedFetchOptions,
+): Promise<SourceCandidate[]> {
+  const claudeCodeSkills = await createClaudeCodeClient(http).getRecommendations({
+    mainCategories: identity.mainCategories.map(toSearchTerm),
+    subCategories: identity.subCategories.map(toSearchTerm),
+    limit,
+  });
+
+  const accepted = identity.languages ?? DEFAULT_LANGUAGES;
+
+  return claudeCodeSkills
+    .map(skill => ({ skill, descriptionLanguage: detectLanguage(skill.description) }))
+    .filter(({ skill, descriptionLanguage }) => {
+      // Language preference filter
+      if (!isAcceptedLanguage(descriptionLanguage, accepted)) {
+        const detail = `description language ${descriptionLanguage} not in [${accepted.join(', ')}]`;
+        console.log(`[claude-code] Skipped ${skill.skillName}: ${detail}`);
+        reject({
+          skillId: skill.url, skillName: skill.skillName, url: skill.url, creator: skill.creator,
+          gate: 'language', detail, values: { language: descriptionLanguage, accepted: accepted.join(',') },
+        });
+        return false;
+      }
+      return true;
+    })
+    .map(({ skill, descriptionLanguage }): SourceCandidate => {
+      const { boost, matchedKeywords } = calculatePersonalityBoost(
+        {
+          description: skill.description,
+          categories: skill.categoryPath ?? (skill.category ? [skill.category] : []),
+          stars: skill.repo && !skill.inRepo ? skill.repo.stars : undefined,
+        },
+        identity,
+      );
+
+      const explanation: RecommendationExplanation = {
+        interests: matchInterests(identity, {
+          name: skill.skillName,
+          description: skill.description,
+          categories: skill.category,
+        }, descriptionLanguage),
+        personality: { type: identity.personalityType, keywords: matchedKeywords },
+        traction: {
+          ...(skill.repo && !skill.inRepo && { stars: skill.repo.stars }),
+          ...(skill.lists.length > 0 && { lists: skill.lists }),
+        },
+        adjustments: skill.repoHealth && skill.repoHealth !== 'active'
+          ? [{ origin: 'repo-health', category: skill.repoHealth, weight: REPO_HEALTH_MULTIPLIER[skill.repoHealth] }]
+          : [],
+      };
+
+      return {
+        skillId: skill.url,
+        skillName: skill.skillName,
+        rawScore: skill.matchScore || 0,
+        boost,
+        reason: renderReason(explanation),
+        explanation,
+        description: skill.description,
+        url: skill.url,
+        categories: skill.category ? [skill.category] : ['General'],
+        creator: skill.creator,
+        source: 'ClaudeCode',
+        lists: skill.lists,
+        ...(skill.repo && !skill.inRepo && { stars: skill.repo.stars }),
+        ...(skill.repo?.language && { language: skill.repo.language }),
+        descriptionLanguage,
+        trustSignals: {
+          official: skill.trust === 'official',
+          listTrust: skill.trust,
+          ...(skill.repo && repoTrustSignals(skill.repo, !!skill.inRepo)),
+        },
+      };
     });
+}
 
-    return claudeCodeSkills
-      .filter(skill => {
-        // English-only filter (Fix 3)
-        if (!isLikelyEnglish(skill.description)) {
-          console.log(`[claude-code] Skipped ${skill.skillName}: non-English description`);
-          return false;
-        }
-        return true;
-      })
-      .map(skill => {
-        const CLAUDE_CODE_SCORE_CEILING = 30;
-        const rawScore = skill.matchScore || 0;
-        const normalizedScore = Math.min(Math.round((rawScore / CLAUDE_CODE_SCORE_CEILING) * 100), 100);
-
-        const searchText = `${skill.skillName} ${skill.description} ${skill.category || ''}`.toLowerCase();
-        const matchedCategory = [...identity.mainCategories, ...identity.subCategories]
-          .find(c => searchText.includes(c.toLowerCase()));
-
-        const { boost, matchedKeywords } = calculatePersonalityBoost(
-          { description: skill.description, categories: skill.category ? [skill.category] : [] },
-          identity,
-        );
-
-        const typeName = identity.personalityType.replace(/^The /, '');
-        const reason = matchedCategory && matchedKeywords.length > 0
-          ? `Because you're into ${matchedCategory} — fits your ${typeName} style`
-          : matchedCategory
-            ? `Because you're into ${matchedCategory}`
-            : matchedKeywords.length > 0
-              ? `Fits your ${typeName} style`
-              : `Fits your ${typeName} profile`;
-
-        return {
-          skillId: skill.url,
-          skillName: skill.skillName,
-          matchScore: Math.min(normalizedScore + boost, 100),
-          reason,
-          description: skill.description,
-          url: skill.url,
-          categories: skill.category ? [skill.category] : ['General'],
-          creator: skill.creator,
-          source: 'ClaudeCode' as const,
-        };
-      });
-  } catch (error) {
-    console.error('[recommendation-pipeline] Claude Code search failed:', error);
-    return [];
-  }
+// ─── GitHub source (opt-in) ─────────────────────────────────────────────
+
+const gitHubSource: RecommendationSource = {
+  name: 'github',
+  capabilities: { network: true, languageFilter: false, personalityScoring: true, securityScan: false, httpCache: true },
+  defaultQuota: 10,
+  fetchCandidates: async (identity, { limit, reject, offline, signal }) => {
+    const repos = await new GitHubRecommendations(process.env.GITHUB_TOKEN, reject, { offline, signal }).getRecommendations(identity, limit);
+    return repos.map(({ matchScore, ...repo }) => ({ ...repo, rawScore: matchScore }));
+  },
+  // Already scored 0–100, personality bonuses included
+  normalizeScore: raw => raw,
+};
+
+// ─── Local source (installed but unused skills) ─────────────────────────
+
+// Installed skills not used for this long are worth a reminder
+const LOCAL_UNUSED_DAYS = 30;
+
+const localSource: RecommendationSource = {
+  name: 'local',
+  // Installed skills are the user's own — no language filter on purpose
+  capabilities: { network: false, languageFilter: false, skipLanguageFilter: true, personalityScoring: false, securityScan: false },
+  defaultQuota: 5,
+  fetchCandidates: async (identity, { reject, installedSkills }) =>
+    getLocalCandidates(identity, markSkillUsage(installedSkills ?? readInstalledSkills()), reject),
+  normalizeScore: raw => (raw / CLAUDE_CODE_SCORE_CEILING) * 100,
+};
+
+function getLocalCandidates(
+  identity: RefreshIdentityInput,
+  skills: InstalledSkill[],
+  reject: SourceFetchContext['reject'],
+): SourceCandidate[] {
+  const cutoff = Date.now() - LOCAL_UNUSED_DAYS * 24 * 60 * 60 * 1000;
+  const taxonomy = getTaxonomy();
+  const categories = [...identity.mainCategories, ...identity.subCategories];
+  const skip = (skill: InstalledSkill, gate: string, detail: string, values?: SkillRejection['values']): null => {
+    reject({ skillId: `local:${skill.id}`, skillName: skill.name, url: skill.homepage ?? `file://${skill.path}`, gate, detail, values });
+    return null;
+  };
+
+  return skills
+    .map((skill): SourceCandidate | null => {
+      if (skill.lastUsedAt !== undefined && skill.lastUsedAt >= cutoff) {
+        const days = Math.floor((Date.now() - skill.lastUsedAt) / (24 * 60 * 60 * 1000));
+        return skip(skill, 'recently-used', `used ${days} days ago (reminders after ${LOCAL_UNUSED_DAYS})`, {
+          lastUsedAt: new Date(skill.lastUsedAt).toISOString(), unusedDays: LOCAL_UNUSED_DAYS,
+        });
+      }
+
+      const text = `${skill.name} ${skill.description} ${skill.tags.join(' ')}`.toLowerCase();
+      const language = detectLanguage(skill.description);
+      const interests = matchInterests(identity, {
+        name: skill.name,
+        description: skill.description,
+        tags: skill.tags.join(' '),
+      }, language);
+
+      // Same scale as Claude Code matchSkills: +10 per category, +2 per keyword
+      let rawScore = 10 * interests.length;
+      for (const category of categories) {
+        const node = taxonomy.resolve(category);
+        if (node) rawScore += 2 * matchKeywords(text, taxonomy.termsFor(node)).length;
+      }
+      if (rawScore === 0) return skip(skill, 'no-interest-match', 'matches none of your categories or interests');
+
+      const explanation: RecommendationExplanation = {
+        interests,
+        traction: {},
+        installed: { usage: skill.lastUsedAt === undefined ? 'never-used' : 'unused', days: LOCAL_UNUSED_DAYS },
+        adjustments: [],
+      };
+      return {
+        skillId: `local:${skill.id}`,
+        skillName: skill.name,
+        description: skill.description,
+        url: skill.homepage ?? `file://${skill.path}`,
+        categories: skill.tags.length > 0 ? skill.tags : ['General'],
+        rawScore,
+        reason: renderReason(explanation),
+        explanation,
+        source: 'Local',
+        descriptionLanguage: language,
+        installed: true,
+      };
+    })
+    .filter((c): c is SourceCandidate => c !== null);
 }
 
+registerRecommendationSource(localSource);
+registerRecommendationSource(clawHubSource);
+registerRecommendationSource(claudeCodeSource);
+registerRecommendationSource(gitHubSource);
+
 // ─── Category grouping ──────────────────────────────────────────────────
 
-function groupByCategory(
+/**
+ * Each category's picks, plus every candidate that missed them — or that no
+ * category could hold, or that fits a category searched only to explore
+ * best — with the rejection it gets unless an exploration slot takes it
+ */
+export function groupByCategory(
   skills: SkillRecommendation[],
   mainCategories: string[],
-): SkillRecommendation[] {
+  diversity: number,
+  exploreCategories: string[] = [],
+): { picked: SkillRecommendation[]; overflow: { skill: SkillRecommendation; rejection: SkillRejection }[] } {
   const MIN_PER_CATEGORY = 3;
   const MAX_PER_CATEGORY = 7;
   const SCORE_THRESHOLD = 25;
@@ -411,25 +1099,40 @@ function groupByCategory(
     buckets.set(cat, []);
   }
 
+  const overflow: { skill: SkillRecommendation; rejection: SkillRejection }[] = [];
   for (const skill of skills) {
-    const bestCategory = findBestCategory(skill, mainCategories);
-    if (bestCategory) {
+    const bestCategory = findBestCategory(skill, [...mainCategories, ...exploreCategories]);
+    if (bestCategory && buckets.has(bestCategory)) {
       buckets.get(bestCategory)!.push({ ...skill, categoryGroup: bestCategory });
+    } else if (bestCategory) {
+      overflow.push({ skill, rejection: rejectionOf(skill, 'pipeline', 'no-category', `fits ${bestCategory}, searched only to explore`, {
+        category: bestCategory,
+      }) });
+    } else {
+      overflow.push({ skill, rejection: rejectionOf(skill, 'pipeline', 'no-category', 'no category to place it in', {
+        categories: skill.categories.join(','),
+      }) });
     }
   }
 
   const result: SkillRecommendation[] = [];
   for (const cat of mainCategories) {
     const bucket = buckets.get(cat)!;
-    bucket.sort((a, b) => b.matchScore - a.matchScore);
+    bucket.sort((a, b) => (b.fusedScore ?? 0) - (a.fusedScore ?? 0) || b.matchScore - a.matchScore);
 
     let count = bucket.filter(s => s.matchScore >= SCORE_THRESHOLD).length;
     count = Math.max(Math.min(count, MAX_PER_CATEGORY), Math.min(MIN_PER_CATEGORY, bucket.length));
 
-    result.push(...bucket.slice(0, count));
+    // Slot count comes from relevance; which skills fill the slots also weighs redundancy
+    const picked = rerankForDiversity(bucket, count, { diversity });
+    result.push(...picked);
+    bucket.filter(skill => !picked.includes(skill)).forEach(skill => overflow.push({ skill, rejection: rejectionOf(
+      skill, 'pipeline', 'category-slots', `not among the ${count} picks for ${cat} (ranked #${bucket.indexOf(skill) + 1} of ${bucket.length})`,
+      { category: cat, slots: count, rank: bucket.indexOf(skill) + 1, matchScore: skill.matchScore },
+    ) }));
   }
 
-  return result;
+  return { picked: result, overflow };
 }
 
 function findBestCategory(skill: SkillRecommendation, mainCategories: string[]): string | null {
@@ -439,21 +1142,31 @@ function findBestCategory(skill: SkillRecommendation, mainCategories: string[]):
     skill.skillName,
   ].join(' ').toLowerCase();
 
+  const taxonomy = getTaxonomy();
+  const categoryKeywords = categoryKeywordsForText(skillText);
   let bestCat: string | null = null;
   let bestScore = 0;
 
   for (const cat of mainCategories) {
     let score = 0;
-
-    if (skill.categories.some(c => c.toLowerCase() === cat.toLowerCase())) {
+    const node = taxonomy.resolve(cat);
+
+    // Exact category, or a skill category that sits below it in the tree
+    const inCategory = (c: string) => {
+      const skillNode = taxonomy.resolve(c);
+      return c.toLowerCase() === cat.toLowerCase() ||
+        (!!node && !!skillNode && (skillNode === node || skillNode.label.startsWith(node.label + TAXONOMY_SEPARATOR)));
+    };
+    if (skill.categories.some(inCategory)) {
       score += 10;
     }
 
-    const keywords = CATEGORY_KEYWORDS[cat as keyof typeof CATEGORY_KEYWORDS] || [];
-    for (const kw of keywords) {
-      if (skillText.includes(kw)) {
-        score += 2;
-      }
+    // Keywords of the node and everything below it (+ locale pack for roots)
+    const keywords = node
+      ? Array.from(new Set([...(categoryKeywords[node.label] || []), ...taxonomy.termsFor(node)]))
+      : [];
+    for (const match of matchKeywords(skillText, keywords)) {
+      score += 2 * match.weight;
     }
 
     if (score > bestScore) {
@@ -480,7 +1193,7 @@ function calculatePersonalityBoost(
   const catText = (skill.categories || []).join(' ').toLowerCase();
   const searchText = `${descLower} ${catText}`;
 
-  const matchedKeywords = personalityKeywords.filter(k => searchText.includes(k));
+  const matchedKeywords = matchKeywords(searchText, personalityKeywords).map(m => m.keyword);
   let keywordBoost = 0;
   for (let i = 0; i < matchedKeywords.length; i++) {
     if (i < 3) keywordBoost += 3;
@@ -523,8 +1236,7 @@ function calculatePersonalityBoost(
     }
 
     if (dims.contribution > 55) {
-      const isCommunity = searchText.includes('community') || searchText.includes('collaborat') ||
-        searchText.includes('contribut') || searchText.includes('open-source') || searchText.includes('governance');
+      const isCommunity = matchKeywords(searchText, COMMUNITY_KEYWORDS).length > 0;
       if (isCommunity) dimensionBoost += 6;
     }
 
@@ -534,6 +1246,11 @@ function calculatePersonalityBoost(
   return { boost: keywordBoost + dimensionBoost, matchedKeywords };
 }
 
+const COMMUNITY_KEYWORDS = [
+  'community', 'collaborate', 'collaboration', 'collaborative',
+  'contribute', 'contribution', 'contributor', 'open source', 'governance',
+];
+
 function getPersonalityKeywords(type: PersonalityType): string[] {
   const keywordMap: Record<string, string[]> = {
     [PersonalityType.THE_VISIONARY]: [
@@ -0,0 +1,289 @@
+/**
+ * Recommendation Sources
+ *
+ * Contract and registry for the places recommendations come from. The
+ * pipeline runs every enabled source with its own timeout and quota, merges
+ * their candidates and reports per-source stats.
+ *
+ * Built-in sources (registered by recommendation-pipeline):
+ * - local:       installed but unused skills (offline)
+ * - clawhub:     ClawHub registry, GitHub cross-checked and security-scanned
+ * - claude-code: Claude Code awesome-lists
+ * - github:      GitHub repository search (opt-in)
+ *
+ * Adding a source without forking the pipeline: put a module that exports a
+ * RecommendationSource (as `default` or `source`) somewhere and list it in
+ * BLOOM_RECOMMENDATION_SOURCE_MODULES; enable it by name via
+ * BLOOM_RECOMMENDATION_SOURCES or the pipeline's `sources` option.
+ */
+
+import { resolve } from 'path';
+import type { RefreshIdentityInput, SkillRecommendation } from './recommendation-pipeline';
+import type { InstalledSkill } from './integrations/local-skills-reader';
+
+export interface SourceCapabilities {
+  network: boolean;            // Needs network access
+  languageFilter: boolean;     // Applies identity.languages itself (else the pipeline does)
+  skipLanguageFilter?: boolean; // Exempt from identity.languages altogether (e.g. skills the user already has)
+  personalityScoring: boolean; // Sets `boost` itself (else the pipeline does)
+  securityScan: boolean;       // Scans skill content before returning it
+  httpCache?: boolean;         // Fetches through the shared HTTP cache, so it can still run offline
+}
+
+/**
+ * A recommendation before score normalization. `rawScore` is on the source's
+ * own scale; `boost` is added after normalizing.
+ */
+export interface SourceCandidate extends Omit<SkillRecommendation, 'matchScore'> {
+  rawScore: number;
+  boost?: number;
+}
+
+export interface SourceFetchContext {
+  limit: number;         // Candidates worth fetching (the quota)
+  signal: AbortSignal;   // Aborted on timeout — late results are discarded either way
+  reject: (rejection: Omit<SkillRejection, 'source'>) => void; // Record a dropped candidate ("why not?")
+  installedSkills?: InstalledSkill[]; // Read once per run by the pipeline
+  offline?: boolean;     // The run's offline mode — pass it on to cachedFetch
+}
+
+/** Per-run state shared by every source's fetch context */
+export type SharedFetchContext = Omit<SourceFetchContext, 'limit' | 'signal' | 'reject'>;
+
+/**
+ * A candidate that was dropped, the gate that dropped it and the values it
+ * was judged on — e.g. gate 'min-downloads', detail "12 downloads < 20"
+ */
+export interface SkillRejection {
+  source: string;        // Source name, or 'pipeline' for pipeline-wide gates
+  skillId: string;
+  skillName?: string;
+  url?: string;
+  creator?: string;
+  gate: string;
+  detail: string;
+  values?: Record<string, string | number | boolean>;
+}
+
+export type RejectionHandler = (rejection: SkillRejection) => void;
+
+export interface RecommendationSource {
+  readonly name: string;
+  readonly capabilities: SourceCapabilities;
+  readonly defaultTimeoutMs?: number;
+  readonly defaultQuota?: number;
+  readonly defaultWeight?: number;  // Share of the fused ranking (default 1)
+  fetchCandidates(identity: RefreshIdentityInput, context: SourceFetchContext): Promise<SourceCandidate[]>;
+  /** Map a raw score onto 0–100 */
+  normalizeScore(rawScore: number): number;
+}
+
+export interface SourceRunOptions {
+  timeoutMs?: number;
+  quota?: number;
+  weight?: number;
+}
+
+export interface SourceStats {
+  source: string;
+  status: 'ok' | 'timeout' | 'error';
+  candidates: number;    // Returned by the source
+  kept: number;          // After the quota
+  durationMs: number;
+  error?: string;
+}
+
+export interface ScoredCandidate {
+  source: RecommendationSource;
+  candidate: SourceCandidate;
+  normalizedScore: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_QUOTA = 20;
+
+// Enabled when neither the caller nor BLOOM_RECOMMENDATION_SOURCES says otherwise
+export const DEFAULT_SOURCE_NAMES = ['local', 'clawhub', 'claude-code'];
+
+// ─── Registry ────────────────────────────────────────────────────────────
+
+const registry = new Map<string, RecommendationSource>();
+let modulesLoaded = false;
+
+/**
+ * Register a source. A later registration with the same name replaces it.
+ */
+export function registerRecommendationSource(source: RecommendationSource): void {
+  registry.set(source.name, source);
+}
+
+/**
+ * Names of every registered source
+ */
+export function listRecommendationSources(): string[] {
+  loadSourceModules();
+  return Array.from(registry.keys());
+}
+
+/**
+ * Resolve source names (default: BLOOM_RECOMMENDATION_SOURCES, then
+ * DEFAULT_SOURCE_NAMES) to registered sources. Unknown names are warned about.
+ */
+export function getRecommendationSources(names?: string[]): RecommendationSource[] {
+  loadSourceModules();
+
+  const wanted = names ?? parseList(process.env.BLOOM_RECOMMENDATION_SOURCES) ?? DEFAULT_SOURCE_NAMES;
+  const sources: RecommendationSource[] = [];
+  for (const name of new Set(wanted)) {
+    const source = registry.get(name);
+    if (source) sources.push(source);
+    else console.warn(`⚠️  Unknown recommendation source "${name}" (registered: ${Array.from(registry.keys()).join(', ')})`);
+  }
+  return sources;
+}
+
+/**
+ * Require every module in BLOOM_RECOMMENDATION_SOURCE_MODULES once and
+ * register the source it exports
+ */
+function loadSourceModules(): void {
+  if (modulesLoaded) return;
+  modulesLoaded = true;
+
+  for (const modulePath of parseList(process.env.BLOOM_RECOMMENDATION_SOURCE_MODULES) ?? []) {
+    try {
+      const loaded = require(resolve(modulePath));
+      const source: RecommendationSource | undefined = loaded.default ?? loaded.source;
+      if (!source?.name || typeof source.fetchCandidates !== 'function' || typeof source.normalizeScore !== 'function') {
+        console.warn(`⚠️  ${modulePath} does not export a RecommendationSource`);
+        continue;
+      }
+      registerRecommendationSource(source);
+      console.log(`🔌 Loaded recommendation source "${source.name}" from ${modulePath}`);
+    } catch (error) {
+      console.warn(`⚠️  Failed to load recommendation source ${modulePath}:`, error instanceof Error ? error.message : error);
+    }
+  }
+}
+
+// ─── Running sources ─────────────────────────────────────────────────────
+
+/**
+ * Run sources in parallel, each under its own timeout and quota. A failing
+ * or slow source contributes nothing but never fails the run.
+ */
+export async function runRecommendationSources(
+  sources: RecommendationSource[],
+  identity: RefreshIdentityInput,
+  options: Record<string, SourceRunOptions> = {},
+  onReject?: RejectionHandler,
+  shared: SharedFetchContext = {},
+): Promise<{ candidates: ScoredCandidate[]; stats: SourceStats[] }> {
+  const results = await Promise.all(sources.map(source => runSource(source, identity, options[source.name] ?? {}, onReject, shared)));
+  return {
+    candidates: results.flatMap(r => r.candidates),
+    stats: results.map(r => r.stats),
+  };
+}
+
+/**
+ * Fusion weight per source: run options, then BLOOM_SOURCE_WEIGHTS
+ * ("clawhub=1.5,github=0.5"), then the source's default, then 1
+ */
+export function resolveSourceWeights(
+  sources: RecommendationSource[],
+  options: Record<string, SourceRunOptions> = {},
+): Record<string, number> {
+  const fromEnv: Record<string, number> = {};
+  for (const pair of parseList(process.env.BLOOM_SOURCE_WEIGHTS) ?? []) {
+    const [name, value] = pair.split('=').map(s => s.trim());
+    const weight = Number(value);
+    if (name && value && Number.isFinite(weight) && weight >= 0) fromEnv[name] = weight;
+    else console.warn(`⚠️  Ignoring BLOOM_SOURCE_WEIGHTS entry "${pair}"`);
+  }
+
+  return Object.fromEntries(sources.map(source => [
+    source.name,
+    options[source.name]?.weight ?? fromEnv[source.name] ?? source.defaultWeight ?? 1,
+  ]));
+}
+
+/**
+ * One-line summary per source, e.g. "clawhub ok 12/15 in 2.3s"
+ */
+export function formatSourceStats(stats: SourceStats[]): string {
+  return stats
+    .map(s => {
+      const counts = s.status === 'ok' ? ` ${s.kept}/${s.candidates}` : '';
+      const error = s.error ? ` (${s.error})` : '';
+      return `${s.source} ${s.status}${counts} in ${(s.durationMs / 1000).toFixed(1)}s${error}`;
+    })
+    .join(', ');
+}
+
+async function runSource(
+  source: RecommendationSource,
+  identity: RefreshIdentityInput,
+  options: SourceRunOptions,
+  onReject: RejectionHandler | undefined,
+  shared: SharedFetchContext,
+): Promise<{ candidates: ScoredCandidate[]; stats: SourceStats }> {
+  const timeoutMs = options.timeoutMs ?? source.defaultTimeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const quota = options.quota ?? source.defaultQuota ?? DEFAULT_QUOTA;
+  const controller = new AbortController();
+  const started = Date.now();
+  let timer: NodeJS.Timeout | undefined;
+
+  const stats = (status: SourceStats['status'], candidates = 0, kept = 0, error?: string): SourceStats => ({
+    source: source.name, status, candidates, kept, durationMs: Date.now() - started, error,
+  });
+
+  try {
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new Error(`timed out after ${timeoutMs}ms`));
+      }, timeoutMs);
+    });
+    // Rejections recorded after a timeout are discarded with the results
+    const reject = (rejection: Omit<SkillRejection, 'source'>) => {
+      if (!controller.signal.aborted) onReject?.({ source: source.name, ...rejection });
+    };
+    const fetched = await Promise.race([
+      source.fetchCandidates(identity, { ...shared, limit: quota, signal: controller.signal, reject }),
+      timeout,
+    ]);
+
+    const ranked = fetched
+      .map(candidate => ({
+        source,
+        candidate,
+        normalizedScore: Math.max(0, Math.min(Math.round(source.normalizeScore(candidate.rawScore)), 100)),
+      }))
+      .sort((a, b) => b.normalizedScore - a.normalizedScore);
+    ranked.slice(quota).forEach(({ candidate, normalizedScore }, i) => reject({
+      skillId: candidate.skillId,
+      skillName: candidate.skillName,
+      url: candidate.url,
+      creator: candidate.creator,
+      gate: 'source-quota',
+      detail: `ranked #${quota + i + 1} of ${ranked.length}, quota is ${quota}`,
+      values: { rank: quota + i + 1, quota, score: normalizedScore },
+    }));
+    const scored = ranked.slice(0, quota);
+
+    return { candidates: scored, stats: stats('ok', fetched.length, scored.length) };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const status = controller.signal.aborted ? 'timeout' : 'error';
+    console.error(`[recommendation-sources] ${source.name} ${status}: ${message}`);
+    return { candidates: [], stats: stats(status, 0, 0, message) };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function parseList(value: string | undefined): string[] | null {
+  const items = (value ?? '').split(',').map(s => s.trim()).filter(Boolean);
+  return items.length > 0 ? items : null;
+}
@@ -43,6 +43,31 @@ export const CATEGORY_KEYWORDS: Record<CanonicalCategory, string[]> = {
   'Finance': ['finance', 'investing', 'trading', 'portfolio', 'wealth', 'stock', 'market', 'budget', 'revenue'],
 };
 
+export interface KeywordOptions {
+  /** Relative weight of a match (default 1) */
+  weight?: number;
+  /** Skip stemming — only the keyword itself and its plural match */
+  exact?: boolean;
+}
+
+/**
+ * Per-keyword matching options for CATEGORY_KEYWORDS (keyed by lowercase keyword).
+ * Generic words that show up outside their category count for less.
+ */
+export const CATEGORY_KEYWORD_OPTIONS: Record<string, KeywordOptions> = {
+  'base': { weight: 0.5, exact: true },    // "based on", "knowledge base"
+  'market': { exact: true },               // not "marketing"
+  'model': { weight: 0.5 },                // data model, business model
+  'protocol': { weight: 0.5 },             // HTTP, MCP
+  'token': { weight: 0.5 },                // API/LLM tokens
+  'wallet': { weight: 0.5 },
+  'launch': { weight: 0.5 },
+  'tracking': { weight: 0.5 },
+  'training': { weight: 0.5 },             // model training
+  'template': { weight: 0.5 },
+  'creative': { weight: 0.5 },
+};
+
 /**
  * GitHub search topics for each canonical category.
  * Used by GitHubRecommendations to build search queries.
@@ -69,30 +94,3 @@ export const DEFAULT_FALLBACK_CATEGORIES: CanonicalCategory[] = [
   'Development',
   'Productivity',
 ];
-
-/**
- * Blocked keywords for filtering out potentially malicious or harmful repos/skills.
- * Applied to both GitHub and Claude Code recommendation pipelines.
- */
-export const BLOCKED_KEYWORDS = [
-  'hack', 'crack', 'exploit', 'phishing', 'drainer', 'stealer',
-  'keylogger', 'malware', 'trojan', 'botnet', 'ransomware',
-  'brute-force', 'password-crack', 'rat-tool', 'spyware',
-  'wallet-drainer', 'token-grabber', 'cookie-stealer',
-];
-
-/**
- * Check if text contains any blocked keywords (case-insensitive).
- * Uses word-boundary matching where practical to avoid false positives.
- */
-export function containsBlockedKeyword(text: string): boolean {
-  const lower = text.toLowerCase();
-  return BLOCKED_KEYWORDS.some(keyword => {
-    // Use word boundary regex for single-word keywords, plain includes for hyphenated
-    if (keyword.includes('-')) {
-      return lower.includes(keyword);
-    }
-    const regex = new RegExp(`\\b${keyword}\\b`, 'i');
-    return regex.test(lower);
-  });
-}
@@ -0,0 +1,98 @@
+/**
+ * Locale Keyword Packs
+ *
+ * Per-language keyword lists for the canonical categories. English lives in
+ * the taxonomy (CATEGORY_KEYWORDS for the roots); the packs here are merged
+ * on top of it for text detected as Chinese, Japanese or Spanish
+ * (see utils/language-detector).
+ *
+ * Chinese/Japanese keywords are matched as consecutive characters, so they
+ * don't need word segmentation; Katakana words must match a whole run.
+ * Spanish keywords are matched with accents folded ("educación" matches
+ * "educacion").
+ */
+
+import { CanonicalCategory } from './categories';
+import { getTaxonomy } from './taxonomy';
+
+export const SUPPORTED_LANGUAGES = ['en', 'zh', 'ja', 'es'] as const;
+
+export type Language = (typeof SUPPORTED_LANGUAGES)[number];
+
+/**
+ * Names users write in USER.md or settings → language code
+ */
+const LANGUAGE_ALIASES: Record<string, Language> = {
+  'en': 'en', 'english': 'en', '英文': 'en', '英語': 'en', 'inglés': 'en', 'ingles': 'en',
+  'zh': 'zh', 'zh-cn': 'zh', 'zh-tw': 'zh', 'chinese': 'zh', 'mandarin': 'zh', '中文': 'zh', '汉语': 'zh', '漢語': 'zh', '中国語': 'zh', 'chino': 'zh',
+  'ja': 'ja', 'jp': 'ja', 'japanese': 'ja', '日本語': 'ja', '日语': 'ja', '日文': 'ja', 'japonés': 'ja', 'japones': 'ja',
+  'es': 'es', 'spanish': 'es', 'español': 'es', 'espanol': 'es', 'castellano': 'es', '西班牙语': 'es', 'スペイン語': 'es',
+};
+
+export function isSupportedLanguage(value: string): value is Language {
+  return (SUPPORTED_LANGUAGES as readonly string[]).includes(value);
+}
+
+/**
+ * Resolve a language name or code ("Español", "zh-TW", "English") to a supported code
+ */
+export function normalizeLanguage(value: string): Language | null {
+  return LANGUAGE_ALIASES[value.trim().toLowerCase()] ?? null;
+}
+
+export const LOCALE_CATEGORY_KEYWORDS: Record<Exclude<Language, 'en'>, Record<CanonicalCategory, string[]>> = {
+  zh: {
+    'AI Tools': ['人工智能', '大模型', '机器学习', '神经网络', '智能体', '提示词', '聊天机器人', '生成式', '推理'],
+    'Productivity': ['效率', '生产力', '工作流', '自动化', '任务管理', '日程', '模板', '时间管理'],
+    'Wellness': ['健康', '健身', '冥想', '正念', '心理健康', '瑜伽', '睡眠', '营养', '养生'],
+    'Education': ['教育', '学习', '课程', '教学', '知识', '教程', '导师', '培训', '讲解'],
+    'Crypto': ['加密货币', '区块链', '去中心化', '代币', '智能合约', '钱包', '以太坊', '链上', '数字货币', '币圈'],
+    'Lifestyle': ['生活方式', '时尚', '旅行', '旅游', '美食', '摄影', '个人品牌'],
+    'Design': ['设计', '界面', '用户体验', '视觉', '排版', '原型', '插画', '配图', '封面'],
+    'Development': ['开发', '编程', '软件', '工程', '代码', '开发者', '框架', '架构', '调试', '命令行'],
+    'Marketing': ['营销', '市场营销', '增长', '推广', '广告', '品牌', '转化', '用户增长', '文案', '公众号', '小红书', '社交媒体', '运营'],
+    'Finance': ['金融', '投资', '理财', '交易', '股票', '投资组合', '预算', '收入', '财务'],
+  },
+  ja: {
+    'AI Tools': ['人工知能', '機械学習', 'ニューラル', '生成ai', 'プロンプト', 'チャットボット', 'エージェント', '大規模言語モデル', '推論'],
+    'Productivity': ['生産性', '効率化', 'ワークフロー', '自動化', 'タスク管理', 'スケジュール', 'テンプレート', '時間管理'],
+    'Wellness': ['健康', 'フィットネス', '瞑想', 'マインドフルネス', 'メンタルヘルス', 'ヨガ', '睡眠', '栄養', 'ウェルネス'],
+    'Education': ['教育', '学習', '講座', 'コース', '知識', 'チュートリアル', '勉強', 'メンター', '研修', '解説'],
+    'Crypto': ['暗号資産', '仮想通貨', 'ブロックチェーン', 'トークン', 'スマートコントラクト', 'ウォレット', 'イーサリアム', 'オンチェーン', '分散型'],
+    'Lifestyle': ['ライフスタイル', 'ファッション', '旅行', 'グルメ', '料理', '写真', 'パーソナルブランド'],
+    'Design': ['デザイン', 'ユーザー体験', 'ビジュアル', 'タイポグラフィ', 'レイアウト', 'プロトタイプ', 'イラスト', 'グラフィック'],
+    'Development': ['開発', 'プログラミング', 'ソフトウェア', 'エンジニアリング', 'コード', '開発者', 'フレームワーク', 'アーキテクチャ', 'デバッグ'],
+    'Marketing': ['マーケティング', 'グロース', '広告', 'ブランド', 'コンバージョン', 'キャンペーン', 'コピーライティング', 'ランディングページ', 'ソーシャルメディア', '集客'],
+    'Finance': ['金融', '投資', 'トレード', '株式', 'ポートフォリオ', '資産運用', '予算', '売上', '財務'],
+  },
+  es: {
+    'AI Tools': ['inteligencia artificial', 'ia', 'aprendizaje automático', 'red neuronal', 'modelo de lenguaje', 'agente', 'asistente virtual', 'ia generativa'],
+    'Productivity': ['productividad', 'flujo de trabajo', 'automatización', 'eficiencia', 'gestión de tareas', 'calendario', 'plantilla', 'organización'],
+    'Wellness': ['bienestar', 'salud', 'meditación', 'atención plena', 'salud mental', 'sueño', 'nutrición', 'autocuidado', 'ejercicio'],
+    'Education': ['educación', 'aprendizaje', 'curso', 'enseñanza', 'enseñar', 'conocimiento', 'tutorial', 'estudiar', 'mentoría', 'taller', 'capacitación'],
+    'Crypto': ['criptomoneda', 'cripto', 'cadena de bloques', 'token', 'contrato inteligente', 'billetera', 'descentralizado', 'finanzas descentralizadas'],
+    'Lifestyle': ['estilo de vida', 'moda', 'viajes', 'viajar', 'comida', 'gastronomía', 'fotografía', 'marca personal'],
+    'Design': ['diseño', 'experiencia de usuario', 'interfaz', 'creativo', 'tipografía', 'maqueta', 'prototipo', 'ilustración', 'gráfico'],
+    'Development': ['desarrollo', 'programación', 'programar', 'código', 'desarrollador', 'ingeniería de software', 'arquitectura', 'depuración'],
+    'Marketing': ['mercadotecnia', 'crecimiento', 'publicidad', 'anuncios', 'marca', 'conversión', 'embudo', 'campaña', 'audiencia', 'redes sociales', 'página de aterrizaje'],
+    'Finance': ['finanzas', 'inversión', 'invertir', 'bolsa', 'acciones', 'cartera', 'patrimonio', 'presupuesto', 'ingresos'],
+  },
+};
+
+/**
+ * Root category keywords extended with the packs for the given languages
+ * (English always included). With maxDepth > 0, taxonomy nodes down to that
+ * depth are included too, keyed by label ("Crypto › DeFi").
+ */
+export function categoryKeywordsFor(languages: Language[], maxDepth = 0): Record<string, string[]> {
+  const merged = getTaxonomy().keywordMap(0, maxDepth);
+  for (const language of new Set(languages)) {
+    if (language === 'en') continue;
+    const pack = LOCALE_CATEGORY_KEYWORDS[language];
+    for (const category of Object.keys(pack) as CanonicalCategory[]) {
+      if (!merged[category]) continue;
+      merged[category] = Array.from(new Set([...merged[category], ...pack[category]]));
+    }
+  }
+  return merged;
+}
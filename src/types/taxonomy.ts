@@ -0,0 +1,228 @@
+/**
+ * Category Taxonomy
+ *
+ * Tree of categories (Crypto › DeFi › Lending) with keywords, GitHub topics
+ * and aliases on every node. The ten CANONICAL_CATEGORIES are the root level;
+ * their keywords and topics come from categories.ts, and the tree below them
+ * from default-taxonomy.json.
+ *
+ * Set BLOOM_TAXONOMY_PATH to a JSON/YAML file to extend the default tree:
+ * nodes with an existing name are merged (keywords, topics and aliases are
+ * added, children merged recursively), new nodes are appended.
+ *
+ * Nodes are referred to by label — the path joined with " › " — which is what
+ * ends up in mainCategories/subCategories. Root labels are the plain category
+ * names, so existing category strings keep working.
+ */
+
+import { CANONICAL_CATEGORIES, CATEGORY_GITHUB_TOPICS, CATEGORY_KEYWORDS } from './categories';
+import defaultTaxonomy from './default-taxonomy.json';
+import { loadTaxonomyConfig, validateTaxonomyConfig } from '../parsers/taxonomy-parser';
+
+export const TAXONOMY_SEPARATOR = ' › ';
+
+export interface TaxonomyNodeConfig {
+  name: string;
+  keywords?: string[];
+  githubTopics?: string[];
+  aliases?: string[];
+  children?: TaxonomyNodeConfig[];
+}
+
+export interface TaxonomyConfig {
+  version?: 1;
+  categories: TaxonomyNodeConfig[];
+}
+
+export interface TaxonomyNode {
+  name: string;
+  label: string;        // "Crypto › DeFi › Lending"
+  path: string[];       // ['Crypto', 'DeFi', 'Lending']
+  depth: number;        // 0 for root categories
+  keywords: string[];
+  githubTopics: string[];
+  aliases: string[];
+  parent?: TaxonomyNode;
+  children: TaxonomyNode[];
+}
+
+export class Taxonomy {
+  readonly roots: TaxonomyNode[];
+  private byLabel = new Map<string, TaxonomyNode>();
+  private byTerm = new Map<string, TaxonomyNode>(); // lowercase name/alias → node
+
+  constructor(config: TaxonomyConfig) {
+    this.roots = config.categories.map(c => this.build(c));
+  }
+
+  /**
+   * All nodes, depth-first (parents before children)
+   */
+  nodes(): TaxonomyNode[] {
+    const out: TaxonomyNode[] = [];
+    const walk = (node: TaxonomyNode) => {
+      out.push(node);
+      node.children.forEach(walk);
+    };
+    this.roots.forEach(walk);
+    return out;
+  }
+
+  /**
+   * Find a node by label ("Crypto › DeFi"), path ("crypto/defi", "Crypto > DeFi"),
+   * name or alias — case-insensitive
+   */
+  resolve(value: string): TaxonomyNode | null {
+    const trimmed = value.trim();
+    if (!trimmed) return null;
+
+    const parts = trimmed.split(/\s*(?:›|>|\/)\s*/).filter(Boolean);
+    if (parts.length > 1) {
+      const byPath = this.byLabel.get(parts.join(TAXONOMY_SEPARATOR).toLowerCase());
+      if (byPath) return byPath;
+    }
+
+    return this.byLabel.get(trimmed.toLowerCase()) ?? this.byTerm.get(trimmed.toLowerCase()) ?? null;
+  }
+
+  /**
+   * Root category of a node
+   */
+  rootOf(node: TaxonomyNode): TaxonomyNode {
+    let current = node;
+    while (current.parent) current = current.parent;
+    return current;
+  }
+
+  /**
+   * Everything that signals a node: its keywords, aliases and name.
+   * With `descendants`, a node also matches on its children's terms
+   * (a lending skill is a DeFi skill).
+   */
+  termsFor(node: TaxonomyNode, descendants = true): string[] {
+    const terms = new Set<string>([...node.keywords, ...node.aliases, node.name].map(t => t.toLowerCase()));
+    if (descendants) {
+      for (const child of node.children) {
+        this.termsFor(child, true).forEach(t => terms.add(t));
+      }
+    }
+    return Array.from(terms);
+  }
+
+  /**
+   * GitHub topics for a node — its own, else the nearest ancestor's
+   */
+  githubTopicsFor(node: TaxonomyNode): string[] {
+    let current: TaxonomyNode | undefined = node;
+    while (current) {
+      if (current.githubTopics.length > 0) return current.githubTopics;
+      current = current.parent;
+    }
+    return [];
+  }
+
+  /**
+   * Search phrase for registries: the leaf name, qualified by its parent
+   * below the root level ("DeFi Lending" rather than just "Lending")
+   */
+  searchTerm(node: TaxonomyNode): string {
+    return node.depth >= 2 ? node.path.slice(-2).join(' ') : node.name;
+  }
+
+  /**
+   * label → match terms for every node within the depth range.
+   * Root categories use their keyword list only, matching CATEGORY_KEYWORDS.
+   */
+  keywordMap(minDepth = 0, maxDepth = Infinity): Record<string, string[]> {
+    const map: Record<string, string[]> = {};
+    for (const node of this.nodes()) {
+      if (node.depth < minDepth || node.depth > maxDepth) continue;
+      map[node.label] = node.depth === 0 ? node.keywords : this.termsFor(node, false);
+    }
+    return map;
+  }
+
+  private build(config: TaxonomyNodeConfig, parent?: TaxonomyNode): TaxonomyNode {
+    const name = config.name.trim();
+    const path = parent ? [...parent.path, name] : [name];
+    const node: TaxonomyNode = {
+      name,
+      label: path.join(TAXONOMY_SEPARATOR),
+      path,
+      depth: path.length - 1,
+      keywords: config.keywords ?? [],
+      githubTopics: config.githubTopics ?? [],
+      aliases: config.aliases ?? [],
+      parent,
+      children: [],
+    };
+
+    this.byLabel.set(node.label.toLowerCase(), node);
+    for (const term of [name, ...node.aliases]) {
+      this.byTerm.set(term.toLowerCase(), node);
+    }
+
+    node.children = (config.children ?? []).map(c => this.build(c, node));
+    return node;
+  }
+}
+
+/**
+ * Merge `extra` into `base`: same-named nodes combine their lists and children
+ */
+export function mergeTaxonomyConfigs(base: TaxonomyNodeConfig[], extra: TaxonomyNodeConfig[]): TaxonomyNodeConfig[] {
+  const merged = base.map(node => ({ ...node }));
+  for (const node of extra) {
+    const existing = merged.find(n => n.name.toLowerCase() === node.name.trim().toLowerCase());
+    if (!existing) {
+      merged.push(node);
+      continue;
+    }
+    const union = (a?: string[], b?: string[]) => Array.from(new Set([...(a ?? []), ...(b ?? [])]));
+    existing.keywords = union(existing.keywords, node.keywords);
+    existing.githubTopics = union(existing.githubTopics, node.githubTopics);
+    existing.aliases = union(existing.aliases, node.aliases);
+    existing.children = mergeTaxonomyConfigs(existing.children ?? [], node.children ?? []);
+  }
+  return merged;
+}
+
+/**
+ * Built-in taxonomy: categories.ts roots + default-taxonomy.json
+ */
+function defaultTaxonomyConfig(): TaxonomyConfig {
+  const roots: TaxonomyNodeConfig[] = CANONICAL_CATEGORIES.map(name => ({
+    name,
+    keywords: CATEGORY_KEYWORDS[name],
+    githubTopics: CATEGORY_GITHUB_TOPICS[name],
+  }));
+  const bundled = defaultTaxonomy as TaxonomyConfig;
+  return { version: 1, categories: mergeTaxonomyConfigs(roots, bundled.categories) };
+}
+
+let cached: Taxonomy | null = null;
+
+/**
+ * The active taxonomy (default tree, extended by BLOOM_TAXONOMY_PATH if set)
+ */
+export function getTaxonomy(): Taxonomy {
+  if (cached) return cached;
+
+  const config = defaultTaxonomyConfig();
+  const overridePath = process.env.BLOOM_TAXONOMY_PATH;
+
+  if (overridePath) {
+    const extra = loadTaxonomyConfig(overridePath);
+    config.categories = mergeTaxonomyConfigs(config.categories, extra.categories);
+    console.log(`🌳 Loaded taxonomy extension from ${overridePath}`);
+  }
+
+  // Merging can introduce clashes neither source has on its own
+  const errors = validateTaxonomyConfig(config);
+  if (errors.length > 0) {
+    throw new Error(`Invalid taxonomy${overridePath ? ` after merging ${overridePath}` : ''}:\n  - ${errors.join('\n  - ')}`);
+  }
+
+  cached = new Taxonomy(config);
+  return cached;
+}
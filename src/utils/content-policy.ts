@@ -0,0 +1,232 @@
+/**
+ * Content Policy
+ *
+ * Rule-based filter applied to every recommendation source (Claude Code lists,
+ * ClawHub, GitHub). Each rule has a type, a severity and a reason:
+ *
+ * - regex:   pattern tested against name + description (+ topics)
+ * - slug:    exact skill slug / repo name
+ * - creator: exact creator handle (also the owner in github.com URLs)
+ * - domain:  host of any URL on the subject, including subdomains
+ *
+ * Severities: block (drop it), warn (keep it, log it), downrank (keep it,
+ * multiply its score by the rule's factor).
+ *
+ * Allowlist entries exempt a subject from all rules or from the listed ones.
+ * A regex allow entry masks the text it matches instead, so "growth hacks"
+ * is exempt from the hack rule while "growth hacks and a keylogger" is not.
+ *
+ * Default rules live in default-content-policy.json; set
+ * BLOOM_CONTENT_POLICY_PATH to a JSON/YAML file to add rules (same id
+ * replaces) and allow entries.
+ */
+
+import defaultPolicy from '../types/default-content-policy.json';
+import { loadContentPolicyConfig, validateContentPolicyConfig } from '../parsers/content-policy-parser';
+
+export type PolicyRuleType = 'regex' | 'slug' | 'creator' | 'domain';
+export type PolicySeverity = 'block' | 'warn' | 'downrank';
+
+export const POLICY_RULE_TYPES: PolicyRuleType[] = ['regex', 'slug', 'creator', 'domain'];
+export const POLICY_SEVERITIES: PolicySeverity[] = ['block', 'warn', 'downrank'];
+
+// Score multiplier for downrank rules without their own factor
+const DEFAULT_DOWNRANK_FACTOR = 0.5;
+
+export interface PolicyRuleConfig {
+  id: string;
+  type: PolicyRuleType;
+  pattern: string;
+  severity: PolicySeverity;
+  reason: string;
+  factor?: number; // downrank only, 0 < factor < 1
+}
+
+export interface PolicyAllowConfig {
+  type: PolicyRuleType;
+  pattern: string;
+  rules?: string[]; // Rule ids this exempts from (default: all)
+  reason?: string;
+}
+
+export interface ContentPolicyConfig {
+  version?: 1;
+  rules: PolicyRuleConfig[];
+  allow?: PolicyAllowConfig[];
+}
+
+/**
+ * What a policy is evaluated against
+ */
+export interface PolicySubject {
+  text: string;        // Name, description, topics
+  slug?: string;
+  creator?: string;
+  urls?: string[];
+}
+
+export interface PolicyMatch {
+  ruleId: string;
+  type: PolicyRuleType;
+  severity: PolicySeverity;
+  reason: string;
+  matched: string;     // The text, slug, creator or host that triggered the rule
+}
+
+export interface PolicyVerdict {
+  action: 'allow' | PolicySeverity;  // Most severe match wins
+  matches: PolicyMatch[];
+  exempted: string[];                // Rule ids skipped by allow entries
+  scoreMultiplier: number;           // Product of downrank factors (1 if none)
+}
+
+const SEVERITY_ORDER: Record<PolicySeverity, number> = { downrank: 1, warn: 2, block: 3 };
+
+export class ContentPolicy {
+  private rules: PolicyRuleConfig[];
+  private allow: PolicyAllowConfig[];
+
+  constructor(config: ContentPolicyConfig) {
+    this.rules = config.rules;
+    this.allow = config.allow ?? [];
+  }
+
+  /**
+   * Evaluate a subject against every rule
+   */
+  evaluate(subject: PolicySubject): PolicyVerdict {
+    const hosts = (subject.urls ?? []).map(hostOf).filter((h): h is string => !!h);
+    const creators = [subject.creator, ...(subject.urls ?? []).map(githubOwnerOf)]
+      .filter((c): c is string => !!c)
+      .map(c => c.toLowerCase());
+    const slug = subject.slug?.toLowerCase();
+
+    // Allow entries: identity matches exempt whole rules, regex matches mask text
+    const exempted = new Set<string>();
+    const masks: { pattern: RegExp; rules?: string[] }[] = [];
+    for (const entry of this.allow) {
+      if (entry.type === 'regex') {
+        masks.push({ pattern: new RegExp(entry.pattern, 'gi'), rules: entry.rules });
+        continue;
+      }
+      if (this.matchIdentity(entry.type, entry.pattern, slug, creators, hosts)) {
+        (entry.rules ?? this.rules.map(r => r.id)).forEach(id => exempted.add(id));
+      }
+    }
+
+    const matches: PolicyMatch[] = [];
+    for (const rule of this.rules) {
+      if (exempted.has(rule.id)) continue;
+
+      let matched: string | null;
+      if (rule.type === 'regex') {
+        const text = masks
+          .filter(m => !m.rules || m.rules.includes(rule.id))
+          .reduce((t, m) => t.replace(m.pattern, ' '), subject.text);
+        matched = new RegExp(rule.pattern, 'i').exec(text)?.[0] ?? null;
+      } else {
+        matched = this.matchIdentity(rule.type, rule.pattern, slug, creators, hosts);
+      }
+
+      if (matched !== null) {
+        matches.push({ ruleId: rule.id, type: rule.type, severity: rule.severity, reason: rule.reason, matched });
+      }
+    }
+
+    const action = matches.reduce<PolicyVerdict['action']>(
+      (worst, m) => worst === 'allow' || SEVERITY_ORDER[m.severity] > SEVERITY_ORDER[worst] ? m.severity : worst,
+      'allow',
+    );
+    const scoreMultiplier = matches
+      .filter(m => m.severity === 'downrank')
+      .reduce((product, m) => product * (this.rules.find(r => r.id === m.ruleId)?.factor ?? DEFAULT_DOWNRANK_FACTOR), 1);
+
+    return { action, matches, exempted: Array.from(exempted), scoreMultiplier };
+  }
+
+  /**
+   * Slug/creator/domain match → the matched value, or null
+   */
+  private matchIdentity(
+    type: PolicyRuleType,
+    pattern: string,
+    slug: string | undefined,
+    creators: string[],
+    hosts: string[],
+  ): string | null {
+    const target = pattern.toLowerCase();
+    switch (type) {
+      case 'slug':
+        return slug === target ? slug : null;
+      case 'creator':
+        return creators.find(c => c === target) ?? null;
+      case 'domain':
+        return hosts.find(h => h === target || h.endsWith(`.${target}`)) ?? null;
+      default:
+        return null;
+    }
+  }
+}
+
+/**
+ * One-line summary of a verdict for logs: "block: malware (Malware or remote-access tooling: "keylogger")"
+ */
+export function describeVerdict(verdict: PolicyVerdict): string {
+  const details = verdict.matches
+    .map(m => `${m.ruleId} (${m.reason}: "${m.matched}")`)
+    .join(', ');
+  return `${verdict.action}: ${details}`;
+}
+
+/**
+ * Merge `extra` into `base`: rules with the same id are replaced, others appended
+ */
+export function mergeContentPolicyConfigs(base: ContentPolicyConfig, extra: ContentPolicyConfig): ContentPolicyConfig {
+  const rules = base.rules.filter(r => !extra.rules.some(e => e.id === r.id));
+  return {
+    version: 1,
+    rules: [...rules, ...extra.rules],
+    allow: [...(base.allow ?? []), ...(extra.allow ?? [])],
+  };
+}
+
+let cached: ContentPolicy | null = null;
+
+/**
+ * The active content policy (default rules, extended by BLOOM_CONTENT_POLICY_PATH if set)
+ */
+export function getContentPolicy(): ContentPolicy {
+  if (cached) return cached;
+
+  let config = defaultPolicy as ContentPolicyConfig;
+  const overridePath = process.env.BLOOM_CONTENT_POLICY_PATH;
+
+  if (overridePath) {
+    config = mergeContentPolicyConfigs(config, loadContentPolicyConfig(overridePath));
+    console.log(`🛡️  Loaded content policy extension from ${overridePath}`);
+  }
+
+  // Allow entries may reference rules from either file
+  const errors = validateContentPolicyConfig(config);
+  if (errors.length > 0) {
+    throw new Error(`Invalid content policy${overridePath ? ` after merging ${overridePath}` : ''}:\n  - ${errors.join('\n  - ')}`);
+  }
+
+  cached = new ContentPolicy(config);
+  return cached;
+}
+
+// ─── Internal helpers ────────────────────────────────────────────────────
+
+function hostOf(url: string): string | null {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+}
+
+function githubOwnerOf(url: string): string | null {
+  const match = url.match(/^https?:\/\/(?:www\.)?github\.com\/([^/?#]+)/i);
+  return match ? match[1] : null;
+}
@@ -0,0 +1,115 @@
+/**
+ * Creator History
+ *
+ * What ClawHub's moderation said about each creator's skills, kept across
+ * runs so the trust score sees more than the current search: a creator whose
+ * skill was flagged last week is still that creator today, even when the
+ * flagged skill no longer turns up.
+ *
+ * Every run records the moderation state of the ClawHub skills it saw —
+ * candidates and skills the moderation gates dropped alike — per creator in
+ * ~/.cache/bloom/creator-history.json (BLOOM_CREATOR_HISTORY_CACHE). A skill's
+ * latest state wins, so one ClawHub has since cleared stops counting, and
+ * skills not seen for HISTORY_TTL_DAYS are forgotten.
+ *
+ * Like the HTTP cache, the file is neither read nor written with
+ * BLOOM_HTTP_CACHE=off or while an HTTP fixture session is active; the
+ * history then covers the current run only.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { isFixtureSessionActive } from './http-fixtures';
+
+export const HISTORY_TTL_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface CacheFile {
+  version: 1;
+  creators: Record<string, Record<string, { flagged: boolean; seenAt: number }>>; // creator → skillId → state
+}
+
+export class CreatorHistory {
+  private cache: CacheFile;
+  private changed = false;
+
+  constructor(cache: CacheFile) {
+    this.cache = cache;
+  }
+
+  /**
+   * Note a skill's moderation state under its creator
+   */
+  record(creator: string | undefined, skillId: string, flagged: boolean, now = Date.now()): void {
+    if (!creator) return;
+    const skills = this.cache.creators[creator.toLowerCase()] ??= {};
+    skills[skillId.toLowerCase()] = { flagged, seenAt: now };
+    this.changed = true;
+  }
+
+  /**
+   * The creator's skills ClawHub flagged or blocked when last seen, other than `exceptSkillId`
+   */
+  flaggedSkills(creator: string | undefined, exceptSkillId?: string): string[] {
+    if (!creator) return [];
+    const skills = this.cache.creators[creator.toLowerCase()] ?? {};
+    return Object.entries(skills)
+      .filter(([skillId, state]) => state.flagged && skillId !== exceptSkillId?.toLowerCase())
+      .map(([skillId]) => skillId);
+  }
+
+  /**
+   * Forget skills not seen for HISTORY_TTL_DAYS and write the history, if anything was recorded
+   */
+  save(now = Date.now()): void {
+    if (!this.changed) return;
+    for (const [creator, skills] of Object.entries(this.cache.creators)) {
+      for (const [skillId, state] of Object.entries(skills)) {
+        if (now - state.seenAt > HISTORY_TTL_DAYS * DAY_MS) delete skills[skillId];
+      }
+      if (Object.keys(skills).length === 0) delete this.cache.creators[creator];
+    }
+    writeCache(this.cache);
+    this.changed = false;
+  }
+}
+
+/**
+ * Creator history from disk (empty when the cache is off)
+ */
+export function createCreatorHistory(): CreatorHistory {
+  return new CreatorHistory(readCache());
+}
+
+// ─── Internal helpers ────────────────────────────────────────────────────
+
+function cachePath(): string {
+  return process.env.BLOOM_CREATOR_HISTORY_CACHE || path.join(os.homedir(), '.cache', 'bloom', 'creator-history.json');
+}
+
+function cacheBypassed(): boolean {
+  return process.env.BLOOM_HTTP_CACHE === 'off' || isFixtureSessionActive();
+}
+
+function readCache(): CacheFile {
+  if (cacheBypassed()) return { version: 1, creators: {} };
+  try {
+    const parsed = JSON.parse(fs.readFileSync(cachePath(), 'utf-8'));
+    if (parsed?.version === 1 && typeof parsed.creators === 'object') return parsed;
+  } catch {
+    // Missing or unreadable: start empty
+  }
+  return { version: 1, creators: {} };
+}
+
+function writeCache(cache: CacheFile): void {
+  if (cacheBypassed()) return;
+  try {
+    fs.mkdirSync(path.dirname(cachePath()), { recursive: true });
+    fs.writeFileSync(cachePath(), JSON.stringify(cache));
+  } catch (error) {
+    console.warn('⚠️  Could not write creator history:', error);
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * Diversity Re-ranker
+ *
+ * Maximal marginal relevance over one category's candidates. Each pick
+ * maximizes
+ *
+ *   (1 - diversity) × relevance − diversity × (similarity to the closest pick so far)
+ *
+ * so five "markdown converter" skills, or five skills by one creator, give
+ * way to the next-best different one. Similarity mixes name/description
+ * overlap (Jaccard over stemmed tokens), same creator and same source.
+ *
+ * diversity 0 keeps the relevance order; 1 ignores relevance after the first
+ * pick. No randomness: ties fall back to the URL, so the same input always
+ * gives the same output.
+ */
+
+import { stemTokens } from './keyword-matcher';
+
+export interface DiversityCandidate {
+  skillName: string;
+  description: string;
+  url: string;
+  matchScore: number;
+  fusedScore?: number;
+  creator?: string;
+  source?: string;
+}
+
+export interface DiversityOptions {
+  diversity?: number; // 0–1
+}
+
+export const DEFAULT_DIVERSITY = 0.3;
+
+// How much each kind of redundancy counts (sums to 1)
+const TEXT_WEIGHT = 0.6;
+const CREATOR_WEIGHT = 0.25;
+const SOURCE_WEIGHT = 0.15;
+
+// Words every skill description uses
+const STOP_STEMS = new Set([
+  'a', 'an', 'and', 'the', 'for', 'with', 'to', 'of', 'in', 'on', 'or', 'your', 'you', 'from', 'by', 'it', 'is',
+  'skill', 'tool', 'claude', 'agent', 'use', 'help',
+]);
+
+/**
+ * Pick `count` candidates by maximal marginal relevance, in pick order
+ */
+export function rerankForDiversity<T extends DiversityCandidate>(
+  candidates: T[],
+  count: number,
+  options: DiversityOptions = {},
+): T[] {
+  const diversity = Math.max(0, Math.min(options.diversity ?? DEFAULT_DIVERSITY, 1));
+  const ordered = [...candidates].sort(byRelevance);
+  if (diversity === 0 || ordered.length <= 1) return ordered.slice(0, count);
+
+  const top = Math.max(...ordered.map(relevanceOf), Number.EPSILON);
+  const pool = ordered.map(item => ({ item, relevance: relevanceOf(item) / top, tokens: tokenSet(item), closest: 0 }));
+  const picked: T[] = [];
+
+  while (picked.length < count && pool.length > 0) {
+    let bestIndex = 0;
+    let bestScore = -Infinity;
+    pool.forEach((entry, index) => {
+      const score = (1 - diversity) * entry.relevance - diversity * entry.closest;
+      if (score > bestScore) { // Strict: earlier (more relevant) entries win ties
+        bestScore = score;
+        bestIndex = index;
+      }
+    });
+
+    const [chosen] = pool.splice(bestIndex, 1);
+    picked.push(chosen.item);
+    for (const entry of pool) {
+      entry.closest = Math.max(entry.closest, similarity(entry.item, entry.tokens, chosen.item, chosen.tokens));
+    }
+  }
+
+  return picked;
+}
+
+/**
+ * Redundancy between two candidates, 0–1
+ */
+export function candidateSimilarity(a: DiversityCandidate, b: DiversityCandidate): number {
+  return similarity(a, tokenSet(a), b, tokenSet(b));
+}
+
+// ─── Internal helpers ────────────────────────────────────────────────────
+
+function relevanceOf(item: DiversityCandidate): number {
+  return item.fusedScore ?? item.matchScore / 100;
+}
+
+function byRelevance(a: DiversityCandidate, b: DiversityCandidate): number {
+  return relevanceOf(b) - relevanceOf(a) ||
+    b.matchScore - a.matchScore ||
+    (a.url < b.url ? -1 : a.url > b.url ? 1 : 0);
+}
+
+function tokenSet(item: DiversityCandidate): Set<string> {
+  return new Set(stemTokens(`${item.skillName} ${item.description}`).filter(t => t.length > 1 && !STOP_STEMS.has(t)));
+}
+
+function similarity(a: DiversityCandidate, aTokens: Set<string>, b: DiversityCandidate, bTokens: Set<string>): number {
+  let shared = 0;
+  for (const token of aTokens) {
+    if (bTokens.has(token)) shared++;
+  }
+  const union = aTokens.size + bTokens.size - shared;
+  const text = union > 0 ? shared / union : 0;
+
+  const sameCreator = !!a.creator && !!b.creator && a.creator.toLowerCase() === b.creator.toLowerCase();
+  const sameSource = !!a.source && a.source === b.source;
+
+  return TEXT_WEIGHT * text + (sameCreator ? CREATOR_WEIGHT : 0) + (sameSource ? SOURCE_WEIGHT : 0);
+}
@@ -0,0 +1,235 @@
+/**
+ * Exploration
+ *
+ * Category weights only ever reinforce what the user already engaged with:
+ * a category that was dismissed a few times sinks below the slot cut and is
+ * never shown again, so it can never earn its way back. Exploration slots
+ * break the loop. They are filled from candidates that missed the regular
+ * category picks or that no category of the user's could hold, by a bandit
+ * policy over two kinds of arms: the candidate's own category (not the group
+ * it was filed under) and its source. So that a suppressed category has
+ * candidates at all, the sources also search one category outside the
+ * user's own (categoryToExplore).
+ *
+ * Each arm's record comes from the feedback log (decayed impressions,
+ * engagements and dismissals):
+ *
+ * - thompson: sample a success rate from Beta(1 + engaged, 1 + misses) per arm,
+ *   so rarely shown arms get wide, optimistic draws now and then
+ * - ucb: mean success rate plus a confidence bonus that shrinks as an arm is
+ *   shown more
+ *
+ * A candidate's value is the mean of its category and source arms; the best
+ * candidate wins the slot, ties going to relevance. Randomness comes from a
+ * seeded generator, so the same seed and inputs give the same picks.
+ */
+
+import type { ArmEngagement, EngagementStats } from './feedback-store';
+
+export type ExplorationPolicy = 'thompson' | 'ucb';
+
+export const EXPLORATION_POLICIES: ExplorationPolicy[] = ['thompson', 'ucb'];
+
+export const DEFAULT_EXPLORATION_SLOTS = 1;
+
+export interface ExplorationCandidate {
+  url: string;
+  matchScore: number;
+  fusedScore?: number;
+  source?: string;
+  categoryGroup?: string;          // Arm only when the skill has no category of its own
+  categories: string[];
+}
+
+export interface ExplorationSearchOptions {
+  mainCategories: string[];             // Searched anyway, never picked
+  weights?: Record<string, number>;     // Feedback category weights
+  stats?: EngagementStats;
+  seed?: number | string;               // Default: random
+}
+
+export interface ExplorationOptions {
+  slots: number;
+  policy?: ExplorationPolicy;      // Default: thompson
+  seed?: number | string;          // Default: random
+  stats?: EngagementStats;         // Default: no history, every arm alike
+}
+
+export interface ExplorationPick<T> {
+  item: T;
+  category: string;
+  source?: string;
+  value: number;                   // Sampled (thompson) or upper-bound (ucb) success rate, 0–1+
+}
+
+/**
+ * Fill up to `options.slots` exploration slots from `candidates`, one
+ * category per slot while other categories remain
+ */
+export function selectExplorations<T extends ExplorationCandidate>(
+  candidates: T[],
+  options: ExplorationOptions,
+): ExplorationPick<T>[] {
+  const policy = options.policy ?? 'thompson';
+  const random = createSeededRandom(options.seed ?? Math.floor(Math.random() * 2 ** 32));
+  const stats = options.stats ?? { categories: {}, sources: {} };
+  const pool = [...candidates].sort(byRelevance);
+  const picks: ExplorationPick<T>[] = [];
+
+  while (picks.length < options.slots && pool.length > 0) {
+    const explored = new Set(picks.map(pick => pick.category));
+    const fresh = pool.filter(item => !explored.has(categoryOf(item)));
+    const eligible = fresh.length > 0 ? fresh : pool;
+
+    // One value per arm per slot, drawn in name order so input order doesn't move the draws
+    const categoryValues = armValues(unique(eligible.map(categoryOf)), stats.categories, policy, random);
+    const sourceValues = armValues(unique(eligible.map(item => item.source).filter((s): s is string => !!s)), stats.sources, policy, random);
+
+    let best = eligible[0];
+    let bestValue = -Infinity;
+    for (const item of eligible) {
+      const values = [categoryValues.get(categoryOf(item))!];
+      if (item.source) values.push(sourceValues.get(item.source)!);
+      const value = values.reduce((sum, v) => sum + v, 0) / values.length;
+      if (value > bestValue) { // Strict: the pool is in relevance order, so ties keep the more relevant
+        bestValue = value;
+        best = item;
+      }
+    }
+
+    pool.splice(pool.indexOf(best), 1);
+    picks.push({ item: best, category: categoryOf(best), source: best.source, value: Math.round(bestValue * 1000) / 1000 });
+  }
+
+  return picks;
+}
+
+/**
+ * The category outside `mainCategories` the sources should also search: the
+ * most suppressed one (feedback weight below 1), else one of `categories`
+ * with no engagement history, drawn with the seed. Null when there is none.
+ */
+export function categoryToExplore(categories: string[], options: ExplorationSearchOptions): string | null {
+  const own = new Set(options.mainCategories.map(c => c.toLowerCase()));
+  const outside = (category: string) => !own.has(category.toLowerCase()) && category !== 'General';
+
+  const suppressed = Object.entries(options.weights ?? {})
+    .filter(([category, weight]) => weight < 1 && outside(category))
+    .sort(([a, x], [b, y]) => x - y || a.localeCompare(b));
+  if (suppressed.length > 0) return suppressed[0][0];
+
+  const history = options.stats?.categories ?? {};
+  const unexplored = unique(categories.filter(category => outside(category) && !history[category]));
+  if (unexplored.length === 0) return null;
+  const random = createSeededRandom(options.seed ?? Math.floor(Math.random() * 2 ** 32));
+  return unexplored[Math.floor(random() * unexplored.length)];
+}
+
+/**
+ * Deterministic uniform [0, 1) generator (mulberry32) from a number or string seed
+ */
+export function createSeededRandom(seed: number | string): () => number {
+  let state = typeof seed === 'number' ? seed >>> 0 : hashString(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Beta(1 + engaged, 1 + misses) parameters for an arm; misses are dismissals
+ * plus impressions nobody acted on
+ */
+export function armPosterior(arm?: ArmEngagement): { alpha: number; beta: number } {
+  if (!arm) return { alpha: 1, beta: 1 };
+  return { alpha: 1 + arm.engaged, beta: 1 + arm.dismissed + Math.max(0, arm.shown - arm.engaged) };
+}
+
+// ─── Internal helpers ────────────────────────────────────────────────────
+
+function categoryOf(item: ExplorationCandidate): string {
+  return item.categories.find(category => category !== 'General') ?? item.categoryGroup ?? 'General';
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values)).sort();
+}
+
+function armValues(
+  arms: string[],
+  history: Record<string, ArmEngagement>,
+  policy: ExplorationPolicy,
+  random: () => number,
+): Map<string, number> {
+  const values = new Map<string, number>();
+  if (policy === 'ucb') {
+    const trials = (arm: string) => {
+      const { alpha, beta } = armPosterior(history[arm]);
+      return alpha + beta - 2;
+    };
+    const total = arms.reduce((sum, arm) => sum + trials(arm), 0);
+    for (const arm of arms) {
+      const { alpha, beta } = armPosterior(history[arm]);
+      values.set(arm, alpha / (alpha + beta) + Math.sqrt(2 * Math.log(total + 1) / (trials(arm) + 1)));
+    }
+    return values;
+  }
+
+  for (const arm of arms) {
+    const { alpha, beta } = armPosterior(history[arm]);
+    values.set(arm, sampleBeta(alpha, beta, random));
+  }
+  return values;
+}
+
+function sampleBeta(alpha: number, beta: number, random: () => number): number {
+  const x = sampleGamma(alpha, random);
+  const y = sampleGamma(beta, random);
+  return x + y > 0 ? x / (x + y) : 0.5;
+}
+
+/**
+ * Marsaglia–Tsang; shapes below 1 are boosted by U^(1/shape)
+ */
+function sampleGamma(shape: number, random: () => number): number {
+  if (shape < 1) return sampleGamma(shape + 1, random) * Math.pow(random() || Number.EPSILON, 1 / shape);
+
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = sampleNormal(random);
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = random();
+    if (u < 1 - 0.0331 * x ** 4 || Math.log(u || Number.EPSILON) < 0.5 * x * x + d * (1 - v + Math.log(v))) {
+      return d * v;
+    }
+  }
+}
+
+function sampleNormal(random: () => number): number {
+  const u = random() || Number.EPSILON;
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+function hashString(value: string): number {
+  let hash = 0x811c9dc5; // FNV-1a
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function byRelevance(a: ExplorationCandidate, b: ExplorationCandidate): number {
+  return (b.fusedScore ?? 0) - (a.fusedScore ?? 0) ||
+    b.matchScore - a.matchScore ||
+    (a.url < b.url ? -1 : a.url > b.url ? 1 : 0);
+}
@@ -0,0 +1,316 @@
+/**
+ * Feedback Store
+ *
+ * Local, append-only log of how the user reacted to recommendations —
+ * impressions, opens, installs, likes, dismissals and tips — one JSON event
+ * per line. Nothing is rewritten: undoing a dismissal is a later event.
+ *
+ * deriveFeedbackData() folds the log into the FeedbackData that signal
+ * merging and the pipeline consume:
+ *
+ * - categoryWeights: each reaction adds its signal (install +3, tip +3, like +2,
+ *   open +1, dismiss −2) to the skill's categories, decayed by age with a
+ *   half-life (default 30 days). The sum maps onto 0.5–1.5. Impressions don't
+ *   count: every run shows the top categories again, so they would only ever
+ *   sink what the profile already prefers. Exploration reads them instead
+ *   (engagementStats).
+ * - excludeSkillIds: skills whose latest non-impression event is a dismissal
+ * - eventCount: decayed count of engaged (non-impression) events, so stale
+ *   feedback weighs less in signal merging
+ *
+ * Events recorded without categories (e.g. `npm run feedback -- like pdf-tools`)
+ * borrow them from the skill's impressions.
+ *
+ * Environment:
+ * - BLOOM_FEEDBACK_LOG                event log path (default ~/.config/bloom/feedback.jsonl)
+ * - BLOOM_FEEDBACK_HALF_LIFE_DAYS     decay half-life (default 30)
+ * - BLOOM_FEEDBACK=off                neither read nor record feedback
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { FeedbackData } from '../analyzers/signal-merger';
+import { normalizeSlug } from './skill-identity';
+
+export type FeedbackEventType = 'impression' | 'open' | 'install' | 'like' | 'dismiss' | 'tip';
+
+export const FEEDBACK_EVENT_TYPES: FeedbackEventType[] = ['impression', 'open', 'install', 'like', 'dismiss', 'tip'];
+
+export interface FeedbackEvent {
+  type: FeedbackEventType;
+  skillId: string;
+  at: string;              // ISO timestamp
+  skillName?: string;
+  url?: string;
+  categories?: string[];
+  source?: string;         // Recommendation source, e.g. 'clawhub'
+  amount?: number;         // Tips only, in USDC
+}
+
+export interface FeedbackOptions {
+  now?: number;            // Epoch ms the decay is measured from (default: now)
+  halfLifeDays?: number;   // Default: BLOOM_FEEDBACK_HALF_LIFE_DAYS, then 30
+}
+
+/** Decayed reactions to one category or source, for exploration */
+export interface ArmEngagement {
+  shown: number;           // Impressions
+  engaged: number;         // Opens, likes, installs and tips
+  dismissed: number;
+}
+
+export interface EngagementStats {
+  categories: Record<string, ArmEngagement>;
+  sources: Record<string, ArmEngagement>;
+}
+
+/** Per-category detail behind categoryWeights, for inspection */
+export interface CategorySignal {
+  category: string;
+  score: number;           // Decayed signal sum
+  weight: number;          // 0.5–1.5
+  events: number;          // Events that touched it
+}
+
+// Signal per reaction; impressions only feed engagementStats
+const EVENT_SIGNAL: Record<Exclude<FeedbackEventType, 'impression'>, number> = {
+  open: 1,
+  like: 2,
+  install: 3,
+  tip: 3,
+  dismiss: -2,
+};
+
+const DEFAULT_HALF_LIFE_DAYS = 30;
+// Signal sum at which a weight is ~76% of the way to its bound
+const WEIGHT_SCALE = 5;
+const MAX_WEIGHT_SHIFT = 0.5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether feedback is read and recorded (BLOOM_FEEDBACK=off disables it)
+ */
+export function isFeedbackEnabled(): boolean {
+  return process.env.BLOOM_FEEDBACK !== 'off';
+}
+
+/**
+ * Event log path: BLOOM_FEEDBACK_LOG, else ~/.config/bloom/feedback.jsonl
+ */
+export function feedbackLogPath(): string {
+  return process.env.BLOOM_FEEDBACK_LOG || path.join(os.homedir(), '.config', 'bloom', 'feedback.jsonl');
+}
+
+/**
+ * Append events to the log
+ */
+export function recordFeedbackEvents(events: FeedbackEvent[], file = feedbackLogPath()): void {
+  if (events.length === 0) return;
+  for (const event of events) {
+    if (!FEEDBACK_EVENT_TYPES.includes(event.type)) throw new Error(`Unknown feedback event type "${event.type}"`);
+    if (!event.skillId) throw new Error('Feedback event needs a skillId');
+  }
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.appendFileSync(file, events.map(event => JSON.stringify(event)).join('\n') + '\n');
+}
+
+/**
+ * Every event in the log, oldest first. Malformed lines are skipped with a warning.
+ */
+export function readFeedbackEvents(file = feedbackLogPath()): FeedbackEvent[] {
+  let content: string;
+  try {
+    content = fs.readFileSync(file, 'utf-8');
+  } catch {
+    return [];
+  }
+
+  const events: FeedbackEvent[] = [];
+  let skipped = 0;
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const event = JSON.parse(line) as FeedbackEvent;
+      if (FEEDBACK_EVENT_TYPES.includes(event.type) && event.skillId && !Number.isNaN(Date.parse(event.at))) {
+        events.push(event);
+        continue;
+      }
+    } catch {
+      // Counted below
+    }
+    skipped++;
+  }
+  if (skipped > 0) console.warn(`⚠️  Skipped ${skipped} malformed feedback events in ${file}`);
+  return events;
+}
+
+/**
+ * Time-decayed FeedbackData from the log
+ */
+export function deriveFeedbackData(events: FeedbackEvent[], options: FeedbackOptions = {}): FeedbackData {
+  const signals = categorySignals(events, options);
+  const now = options.now ?? Date.now();
+  const halfLife = halfLifeDays(options.halfLifeDays);
+
+  const categoryWeights: Record<string, number> = {};
+  for (const signal of signals) {
+    if (Math.abs(signal.weight - 1) >= 0.01) categoryWeights[signal.category] = signal.weight;
+  }
+
+  // Latest decisive event per skill: a dismissal sticks until a later open, like, install or tip
+  const latest = new Map<string, FeedbackEventType>();
+  for (const event of sortedByTime(events)) {
+    if (event.type !== 'impression') latest.set(event.skillId.toLowerCase(), event.type);
+  }
+  const excludeSkillIds = Array.from(latest.entries())
+    .filter(([, type]) => type === 'dismiss')
+    .map(([skillId]) => skillId);
+
+  const engaged = events
+    .filter(event => event.type !== 'impression')
+    .reduce((sum, event) => sum + decay(event, now, halfLife), 0);
+
+  return {
+    categoryWeights: Object.keys(categoryWeights).length > 0 ? categoryWeights : undefined,
+    excludeSkillIds: excludeSkillIds.length > 0 ? excludeSkillIds : undefined,
+    eventCount: Math.round(engaged),
+  };
+}
+
+/**
+ * Per-category decayed signal and weight from reactions, strongest first
+ */
+export function categorySignals(events: FeedbackEvent[], options: FeedbackOptions = {}): CategorySignal[] {
+  const now = options.now ?? Date.now();
+  const halfLife = halfLifeDays(options.halfLifeDays);
+  const categoriesOf = skillCategories(events);
+
+  const totals = new Map<string, { score: number; events: number }>();
+  for (const event of events) {
+    if (event.type === 'impression') continue;
+    const categories = event.categories?.length ? event.categories : categoriesOf.get(event.skillId.toLowerCase()) ?? [];
+    const signal = EVENT_SIGNAL[event.type] * decay(event, now, halfLife);
+    for (const category of categories) {
+      const total = totals.get(category) ?? { score: 0, events: 0 };
+      total.score += signal;
+      total.events++;
+      totals.set(category, total);
+    }
+  }
+
+  return Array.from(totals.entries())
+    .map(([category, { score, events: count }]) => ({
+      category,
+      score,
+      weight: Math.round((1 + MAX_WEIGHT_SHIFT * Math.tanh(score / WEIGHT_SCALE)) * 100) / 100,
+      events: count,
+    }))
+    .sort((a, b) => b.score - a.score || a.category.localeCompare(b.category));
+}
+
+/**
+ * Decayed impressions, engagements and dismissals per category and per source.
+ * Events without categories or a source borrow them from the skill's impressions.
+ */
+export function engagementStats(events: FeedbackEvent[], options: FeedbackOptions = {}): EngagementStats {
+  const now = options.now ?? Date.now();
+  const halfLife = halfLifeDays(options.halfLifeDays);
+  const categoriesOf = skillCategories(events);
+  const sourceOf = new Map<string, string>();
+  for (const event of sortedByTime(events)) {
+    if (event.source) sourceOf.set(event.skillId.toLowerCase(), event.source);
+  }
+
+  const stats: EngagementStats = { categories: {}, sources: {} };
+  const add = (arms: Record<string, ArmEngagement>, arm: string, event: FeedbackEvent, weight: number) => {
+    const entry = arms[arm] ?? (arms[arm] = { shown: 0, engaged: 0, dismissed: 0 });
+    if (event.type === 'impression') entry.shown += weight;
+    else if (event.type === 'dismiss') entry.dismissed += weight;
+    else entry.engaged += weight;
+  };
+
+  for (const event of events) {
+    const skill = event.skillId.toLowerCase();
+    const weight = decay(event, now, halfLife);
+    const categories = event.categories?.length ? event.categories : categoriesOf.get(skill) ?? [];
+    for (const category of categories) add(stats.categories, category, event, weight);
+    const source = event.source ?? sourceOf.get(skill);
+    if (source) add(stats.sources, source, event, weight);
+  }
+  return stats;
+}
+
+/**
+ * FeedbackData from the local log, or undefined when feedback is off or the log is empty
+ */
+export function loadFeedbackData(file = feedbackLogPath(), options: FeedbackOptions = {}): FeedbackData | undefined {
+  if (!isFeedbackEnabled()) return undefined;
+  const events = readFeedbackEvents(file);
+  return events.length > 0 ? deriveFeedbackData(events, options) : undefined;
+}
+
+/**
+ * One impression event per shown recommendation
+ */
+export function impressionEvents(
+  recommendations: { skillId: string; skillName: string; url: string; categories: string[]; categoryGroup?: string; source?: string }[],
+  at = new Date().toISOString(),
+): FeedbackEvent[] {
+  return recommendations.map(rec => ({
+    type: 'impression',
+    skillId: rec.skillId,
+    at,
+    skillName: rec.skillName,
+    url: rec.url,
+    categories: Array.from(new Set([rec.categoryGroup, ...rec.categories].filter((c): c is string => !!c && c !== 'General'))),
+    source: rec.source,
+  }));
+}
+
+/**
+ * The skillId a user-typed slug, name or URL refers to, from earlier events
+ * in the log; the input itself when nothing matches
+ */
+export function resolveFeedbackSkillId(query: string, events: FeedbackEvent[]): string {
+  const lower = query.trim().toLowerCase();
+  const slug = normalizeSlug(query);
+  const match = [...events].reverse().find(event =>
+    event.skillId.toLowerCase() === lower ||
+    event.url?.toLowerCase() === lower ||
+    (!!slug && (normalizeSlug(event.skillId) === slug || (!!event.skillName && normalizeSlug(event.skillName) === slug))));
+  return match?.skillId ?? query.trim();
+}
+
+// ─── Internal helpers ────────────────────────────────────────────────────
+
+function halfLifeDays(requested?: number): number {
+  const value = requested ?? Number(process.env.BLOOM_FEEDBACK_HALF_LIFE_DAYS || DEFAULT_HALF_LIFE_DAYS);
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_HALF_LIFE_DAYS;
+}
+
+/**
+ * 1 for an event now, 0.5 one half-life ago; events dated in the future count fully
+ */
+function decay(event: FeedbackEvent, now: number, halfLife: number): number {
+  const ageDays = Math.max(0, (now - Date.parse(event.at)) / DAY_MS);
+  return Math.pow(0.5, ageDays / halfLife);
+}
+
+/**
+ * Categories per skill, from the latest event that carries them
+ */
+function skillCategories(events: FeedbackEvent[]): Map<string, string[]> {
+  const categories = new Map<string, string[]>();
+  for (const event of sortedByTime(events)) {
+    if (event.categories?.length) categories.set(event.skillId.toLowerCase(), event.categories);
+  }
+  return categories;
+}
+
+function sortedByTime(events: FeedbackEvent[]): FeedbackEvent[] {
+  return events
+    .map((event, index) => ({ event, index, time: Date.parse(event.at) }))
+    .sort((a, b) => a.time - b.time || a.index - b.index)
+    .map(({ event }) => event);
+}
@@ -0,0 +1,254 @@
+/**
+ * HTTP Cache
+ *
+ * Disk-backed cache shared by every client that talks to GitHub, ClawHub and
+ * the awesome-lists. `cachedFetch` is a drop-in for `fetch` on GET requests:
+ *
+ * - Fresh entries (younger than the host's TTL) are served without a request
+ * - Stale entries are revalidated with If-None-Match / If-Modified-Since;
+ *   a 304 refreshes the entry without re-downloading it
+ * - If the network fails, any cached entry is served, however old
+ * - Offline mode (BLOOM_OFFLINE=1, `--offline`, or `offline` per call) never
+ *   touches the network: cached entries are served, everything else gets a 504
+ *
+ * 200 and 404 responses are cached (a 404 from the contents API costs the
+ * same rate limit as a hit). Entries are JSON files named by a hash of the URL
+ * and Accept header; credentials are never written to disk.
+ *
+ * Environment:
+ * - BLOOM_HTTP_CACHE_DIR     cache directory (default ~/.cache/bloom/http)
+ * - BLOOM_HTTP_CACHE_TTL     per-host TTL overrides in seconds: "api.github.com=600,clawhub.ai=60"
+ * - BLOOM_HTTP_CACHE_MAX_MB  total size limit (default 100); oldest entries are evicted first
+ * - BLOOM_HTTP_CACHE=off     bypass the cache entirely (also bypassed while HTTP fixtures record or replay)
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createHash } from 'crypto';
+import { isFixtureSessionActive } from './http-fixtures';
+
+interface CacheEntry {
+  url: string;
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+  storedAt: number;
+}
+
+// Seconds an entry is served without revalidation
+const DEFAULT_TTL_SECONDS = 60 * 60;
+const HOST_TTL_SECONDS: Record<string, number> = {
+  'api.github.com': 60 * 60,
+  'raw.githubusercontent.com': 6 * 60 * 60,
+  'clawhub.ai': 30 * 60,
+};
+
+const DEFAULT_MAX_CACHE_MB = 100;
+const MAX_ENTRY_BYTES = 5 * 1024 * 1024;
+
+// Response headers worth keeping — validators and content type only
+const STORED_HEADERS = ['content-type', 'etag', 'last-modified'];
+
+const CACHEABLE_STATUSES = new Set([200, 404]);
+
+export const CACHE_HEADER = 'x-bloom-cache';
+export type CacheOrigin = 'hit' | 'revalidated' | 'stale' | 'miss';
+
+export interface CachedFetchOptions {
+  offline?: boolean;     // Offline mode for this call (default: isOffline())
+  signal?: AbortSignal;  // Aborts the request, e.g. when its source times out (init.signal wins)
+}
+
+let cacheSizeBytes: number | null = null;
+
+/**
+ * Whether offline mode is on (BLOOM_OFFLINE=1, set by --offline)
+ */
+export function isOffline(): boolean {
+  return process.env.BLOOM_OFFLINE === '1';
+}
+
+/**
+ * fetch() with the disk cache in front. Non-GET requests go straight to the network.
+ */
+export async function cachedFetch(url: string, init: RequestInit = {}, options: CachedFetchOptions = {}): Promise<Response> {
+  if (!init.signal && options.signal) init = { ...init, signal: options.signal };
+  const method = (init.method ?? 'GET').toUpperCase();
+  // Record/replay sessions must see every request, whatever is on disk
+  if (method !== 'GET' || process.env.BLOOM_HTTP_CACHE === 'off' || isFixtureSessionActive()) {
+    return fetch(url, init);
+  }
+
+  const headers = new Headers(init.headers);
+  const file = entryPath(url, headers.get('accept') ?? '');
+  const cached = readEntry(file);
+
+  if (cached && Date.now() - cached.storedAt < ttlFor(url) * 1000) {
+    return toResponse(cached);
+  }
+
+  if (options.offline ?? isOffline()) {
+    if (cached) return toResponse(cached, 'stale');
+    return new Response(null, { status: 504, statusText: 'Offline and not cached' });
+  }
+
+  if (cached?.headers.etag) headers.set('If-None-Match', cached.headers.etag);
+  if (cached?.headers['last-modified']) headers.set('If-Modified-Since', cached.headers['last-modified']);
+
+  let response: Response;
+  try {
+    response = await fetch(url, { ...init, headers });
+  } catch (error) {
+    // An aborted run wants no answer, stale or not
+    if (cached && !init.signal?.aborted) {
+      console.warn(`⚠️  Network error for ${url}, serving cached copy from ${new Date(cached.storedAt).toISOString()}`);
+      return toResponse(cached, 'stale');
+    }
+    throw error;
+  }
+
+  if (response.status === 304 && cached) {
+    cached.storedAt = Date.now();
+    writeEntry(file, cached);
+    return toResponse(cached, 'revalidated');
+  }
+
+  if (!CACHEABLE_STATUSES.has(response.status)) {
+    // Rate limits and server errors: an old answer beats none
+    if (cached && (response.status === 403 || response.status === 429 || response.status >= 500)) {
+      console.warn(`⚠️  ${url} returned ${response.status}, serving cached copy`);
+      return toResponse(cached, 'stale');
+    }
+    return response;
+  }
+
+  const body = await response.text();
+  const entry: CacheEntry = {
+    url,
+    status: response.status,
+    headers: Object.fromEntries(
+      STORED_HEADERS
+        .map(name => [name, response.headers.get(name)])
+        .filter((pair): pair is [string, string] => pair[1] !== null),
+    ),
+    body,
+    storedAt: Date.now(),
+  };
+  writeEntry(file, entry);
+  return toResponse(entry, 'miss');
+}
+
+/**
+ * Delete every cache entry
+ */
+export function clearHttpCache(): void {
+  fs.rmSync(cacheDir(), { recursive: true, force: true });
+  cacheSizeBytes = null;
+}
+
+// ─── Internal helpers ────────────────────────────────────────────────────
+
+function cacheDir(): string {
+  return process.env.BLOOM_HTTP_CACHE_DIR || path.join(os.homedir(), '.cache', 'bloom', 'http');
+}
+
+function entryPath(url: string, accept: string): string {
+  const key = createHash('sha256').update(`${url}\n${accept}`).digest('hex');
+  return path.join(cacheDir(), `${key}.json`);
+}
+
+function ttlFor(url: string): number {
+  let host: string;
+  try {
+    host = new URL(url).hostname;
+  } catch {
+    return DEFAULT_TTL_SECONDS;
+  }
+
+  const overrides: Record<string, number> = {};
+  for (const pair of (process.env.BLOOM_HTTP_CACHE_TTL ?? '').split(',')) {
+    const [name, seconds] = pair.split('=').map(s => s.trim());
+    if (name && seconds && !isNaN(Number(seconds))) overrides[name] = Number(seconds);
+  }
+
+  return overrides[host] ?? HOST_TTL_SECONDS[host] ?? DEFAULT_TTL_SECONDS;
+}
+
+/**
+ * Rebuild a Response; `x-bloom-cache` says where it came from (hit, revalidated, stale, miss)
+ */
+function toResponse(entry: CacheEntry, origin: CacheOrigin = 'hit'): Response {
+  // Only 200 bodies are worth handing back
+  return new Response(entry.status === 200 ? entry.body : null, {
+    status: entry.status,
+    headers: { ...entry.headers, [CACHE_HEADER]: origin },
+  });
+}
+
+function readEntry(file: string): CacheEntry | null {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf-8')) as CacheEntry;
+  } catch {
+    return null;
+  }
+}
+
+function writeEntry(file: string, entry: CacheEntry): void {
+  const data = JSON.stringify(entry);
+  const bytes = Buffer.byteLength(data);
+  if (bytes > MAX_ENTRY_BYTES) return;
+
+  try {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    const sizeBefore = cacheSizeBytes ?? measureCache();
+    const previous = fs.existsSync(file) ? fs.statSync(file).size : 0;
+    // Write then rename, so a concurrent reader never sees half an entry
+    const tmp = `${file}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, data);
+    fs.renameSync(tmp, file);
+
+    cacheSizeBytes = sizeBefore + bytes - previous;
+    const maxBytes = Number(process.env.BLOOM_HTTP_CACHE_MAX_MB || DEFAULT_MAX_CACHE_MB) * 1024 * 1024;
+    if (cacheSizeBytes > maxBytes) evict(maxBytes * 0.9);
+  } catch (error) {
+    // A read-only or full disk only costs us the cache
+    console.warn('⚠️  HTTP cache write failed:', error instanceof Error ? error.message : error);
+  }
+}
+
+function listEntries(): { file: string; size: number; mtimeMs: number }[] {
+  try {
+    return fs.readdirSync(cacheDir())
+      .filter(name => name.endsWith('.json'))
+      .map(name => {
+        const file = path.join(cacheDir(), name);
+        const stat = fs.statSync(file);
+        return { file, size: stat.size, mtimeMs: stat.mtimeMs };
+      });
+  } catch {
+    return [];
+  }
+}
+
+function measureCache(): number {
+  return listEntries().reduce((sum, e) => sum + e.size, 0);
+}
+
+/**
+ * Remove least recently written entries until the cache is under `targetBytes`
+ */
+function evict(targetBytes: number): void {
+  const entries = listEntries().sort((a, b) => a.mtimeMs - b.mtimeMs);
+  let total = entries.reduce((sum, e) => sum + e.size, 0);
+  for (const entry of entries) {
+    if (total <= targetBytes) break;
+    try {
+      fs.unlinkSync(entry.file);
+      total -= entry.size;
+    } catch {
+      // Already gone
+    }
+  }
+  cacheSizeBytes = total;
+}
@@ -0,0 +1,323 @@
+/**
+ * HTTP Fixtures
+ *
+ * Record/replay for everything the skill sends over `fetch` — ClawHub search
+ * and details, GitHub contents/search/READMEs, raw awesome-list markdown and
+ * Bloom API calls. A session swaps out the global `fetch`:
+ *
+ * - record: requests go to the network; every exchange is kept and written to
+ *   a fixture bundle (one JSON file) when the session stops
+ * - replay: nothing touches the network; requests are answered from the bundle
+ *   and anything it doesn't contain fails with an error naming the request
+ *
+ * Repeated requests are replayed in recorded order (the last answer repeats
+ * once they run out). Dates in URLs are ignored when matching, so a GitHub
+ * search with `pushed:>2026-04-18` replays on any day. The HTTP cache is
+ * bypassed while a session is active.
+ *
+ * Bundles are meant to be committed, so secrets are redacted before writing:
+ * credential headers, query parameters and JSON fields named like a token,
+ * key, password or signature (in URLs and in request and response bodies),
+ * and values that look like a JWT or a 65-byte hex signature wherever they
+ * appear. Request bodies that are neither JSON nor a form are not kept.
+ * Redacted URLs still replay: matching redacts the live request the same way.
+ *
+ * Environment (read by installHttpFixturesFromEnv, set by --record / --replay):
+ * - BLOOM_HTTP_FIXTURES=record|replay
+ * - BLOOM_HTTP_FIXTURE_PATH=./fixtures/bug-123.json
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+export type FixtureMode = 'record' | 'replay';
+
+export interface RecordedExchange {
+  request: {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body?: string;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body: string;
+    encoding: 'utf8' | 'base64';
+  };
+}
+
+export interface FixtureBundle {
+  version: 1;
+  recordedAt: string;
+  exchanges: RecordedExchange[];
+}
+
+export interface FixtureSession {
+  mode: FixtureMode;
+  file: string;
+  exchanges: RecordedExchange[];
+  /** Restore the real fetch; in record mode, write the bundle */
+  stop(): void;
+}
+
+const REDACTED = '[redacted]';
+const SECRET_HEADER = /^(authorization|cookie|proxy-authorization|x-api-key)$|token|secret/i;
+// Query parameter and JSON field names (separators stripped) whose values are credentials
+const SECRET_FIELD = /(token|secret|password|passwd|signature|apikey|privatekey|credentials?|authorization|cookie|sessionid)$|^sig$/i;
+// Credential-shaped values: JWTs and 65-byte hex signatures
+const SECRET_VALUE = /^(eyJ[\w-]+\.[\w-]+\.[\w-]*|0x[0-9a-f]{130})$/i;
+const TEXT_CONTENT = /^(text\/|application\/(json|.*\+json|xml|x-yaml|yaml|javascript))/i;
+const URL_DATE = /\d{4}-\d{2}-\d{2}(T[\d:.]+Z?)?/g;
+// fetch has already decoded the body, so these no longer describe it
+const TRANSPORT_HEADERS = new Set(['content-encoding', 'content-length', 'transfer-encoding', 'connection']);
+
+let activeSession: FixtureSession | null = null;
+
+/**
+ * Whether a record or replay session is running
+ */
+export function isFixtureSessionActive(): boolean {
+  return activeSession !== null;
+}
+
+/**
+ * Start recording to, or replaying from, `file`. One session at a time.
+ */
+export function startHttpFixtures(mode: FixtureMode, file: string): FixtureSession {
+  if (activeSession) {
+    throw new Error(`HTTP fixture session already active (${activeSession.mode} ${activeSession.file})`);
+  }
+
+  const realFetch = globalThis.fetch;
+  const exchanges = mode === 'replay' ? loadFixtureBundle(file).exchanges : [];
+
+  const session: FixtureSession = {
+    mode,
+    file,
+    exchanges,
+    stop() {
+      if (activeSession !== session) return;
+      globalThis.fetch = realFetch;
+      activeSession = null;
+      if (mode === 'record') {
+        saveFixtureBundle(file, exchanges);
+        console.log(`📼 Recorded ${exchanges.length} HTTP exchanges to ${file}`);
+      }
+    },
+  };
+
+  globalThis.fetch = mode === 'record'
+    ? recordingFetch(realFetch, exchanges)
+    : replayingFetch(exchanges);
+  activeSession = session;
+  console.log(`📼 HTTP fixtures: ${mode} ${file}${mode === 'replay' ? ` (${exchanges.length} exchanges)` : ''}`);
+  return session;
+}
+
+/**
+ * Run `fn` inside a fixture session, stopping it however `fn` ends
+ */
+export async function withHttpFixtures<T>(mode: FixtureMode, file: string, fn: () => Promise<T>): Promise<T> {
+  const session = startHttpFixtures(mode, file);
+  try {
+    return await fn();
+  } finally {
+    session.stop();
+  }
+}
+
+/**
+ * Start a session from BLOOM_HTTP_FIXTURES / BLOOM_HTTP_FIXTURE_PATH, if set.
+ * The session stops (and a recording is written) when the process exits.
+ */
+export function installHttpFixturesFromEnv(): FixtureSession | null {
+  const mode = process.env.BLOOM_HTTP_FIXTURES;
+  if (!mode) return null;
+  if (mode !== 'record' && mode !== 'replay') {
+    throw new Error(`BLOOM_HTTP_FIXTURES must be "record" or "replay", got "${mode}"`);
+  }
+  const file = process.env.BLOOM_HTTP_FIXTURE_PATH;
+  if (!file) {
+    throw new Error('BLOOM_HTTP_FIXTURES is set but BLOOM_HTTP_FIXTURE_PATH is not');
+  }
+
+  const session = startHttpFixtures(mode, path.resolve(file));
+  process.on('exit', () => session.stop());
+  return session;
+}
+
+/**
+ * Read and check a fixture bundle
+ */
+export function loadFixtureBundle(file: string): FixtureBundle {
+  let bundle: FixtureBundle;
+  try {
+    bundle = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Cannot read HTTP fixture bundle ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+  if (bundle?.version !== 1 || !Array.isArray(bundle.exchanges)) {
+    throw new Error(`${file} is not a version 1 HTTP fixture bundle`);
+  }
+  return bundle;
+}
+
+// ─── Internal helpers ────────────────────────────────────────────────────
+
+function saveFixtureBundle(file: string, exchanges: RecordedExchange[]): void {
+  const bundle: FixtureBundle = { version: 1, recordedAt: new Date().toISOString(), exchanges };
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(bundle, null, 2) + '\n');
+}
+
+function recordingFetch(realFetch: typeof fetch, exchanges: RecordedExchange[]): typeof fetch {
+  return async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const request = new Request(input, init);
+    const requestBody = typeof init?.body === 'string' ? init.body : undefined;
+    const response = await realFetch(input, init);
+
+    // Keep the body for the recording and hand the caller an identical copy
+    const buffer = Buffer.from(await response.arrayBuffer());
+    const headers = Object.fromEntries(
+      Object.entries(headersToObject(response.headers)).filter(([name]) => !TRANSPORT_HEADERS.has(name)),
+    );
+    const text = TEXT_CONTENT.test(headers['content-type'] ?? 'text/plain');
+
+    const keptRequestBody = requestBody !== undefined ? redactRequestBody(requestBody, request.headers.get('content-type')) : undefined;
+    exchanges.push({
+      request: {
+        method: request.method,
+        url: redactUrl(request.url),
+        headers: redactHeaders(headersToObject(request.headers)),
+        ...(keptRequestBody !== undefined && { body: keptRequestBody }),
+      },
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        headers,
+        body: text ? redactJsonText(buffer.toString('utf8')) ?? buffer.toString('utf8') : buffer.toString('base64'),
+        encoding: text ? 'utf8' : 'base64',
+      },
+    });
+
+    return new Response(nullBodyStatus(response.status) ? null : buffer, {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+    });
+  };
+}
+
+function replayingFetch(exchanges: RecordedExchange[]): typeof fetch {
+  // Each request key walks through its recorded answers in order
+  const queues = new Map<string, RecordedExchange[]>();
+  for (const exchange of exchanges) {
+    const key = matchKey(exchange.request.method, exchange.request.url);
+    queues.set(key, [...(queues.get(key) ?? []), exchange]);
+  }
+  const served = new Map<string, number>();
+
+  return async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const request = new Request(input, init);
+    const key = matchKey(request.method, request.url);
+    const queue = queues.get(key);
+    if (!queue) {
+      throw new Error(`No recorded HTTP exchange for ${request.method} ${request.url}`);
+    }
+
+    const index = served.get(key) ?? 0;
+    served.set(key, index + 1);
+    const { response } = queue[Math.min(index, queue.length - 1)];
+    const body = Buffer.from(response.body, response.encoding);
+    return new Response(nullBodyStatus(response.status) ? null : body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  };
+}
+
+function matchKey(method: string, url: string): string {
+  let decoded = redactUrl(url);
+  try {
+    decoded = decodeURIComponent(decoded);
+  } catch {
+    // Malformed escape — match on the raw URL
+  }
+  return `${method.toUpperCase()} ${decoded.replace(URL_DATE, '<date>')}`;
+}
+
+function headersToObject(headers: Headers): Record<string, string> {
+  const result: Record<string, string> = {};
+  headers.forEach((value, name) => { result[name] = value; });
+  return result;
+}
+
+function redactHeaders(headers: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [name, SECRET_HEADER.test(name) ? REDACTED : value]),
+  );
+}
+
+function redactUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url;
+  }
+  let changed = false;
+  for (const [name, value] of Array.from(parsed.searchParams)) {
+    if (value !== REDACTED && isSecret(name, value)) {
+      parsed.searchParams.set(name, REDACTED);
+      changed = true;
+    }
+  }
+  return changed ? parsed.toString() : url;
+}
+
+/**
+ * JSON and form bodies with secret fields redacted; anything else is not kept
+ */
+function redactRequestBody(body: string, contentType: string | null): string | undefined {
+  const json = redactJsonText(body);
+  if (json !== undefined) return json;
+  if (/^application\/x-www-form-urlencoded/i.test(contentType ?? '')) {
+    return redactUrl(`http://form/?${body}`).replace(/^http:\/\/form\/\?/, '');
+  }
+  return undefined;
+}
+
+/**
+ * The JSON document with secret fields redacted, or undefined if `text` isn't JSON
+ */
+function redactJsonText(text: string): string | undefined {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+  return JSON.stringify(redactJson(parsed));
+}
+
+function redactJson(value: unknown, field = ''): unknown {
+  if (Array.isArray(value)) return value.map(item => redactJson(item));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, redactJson(item, key)]));
+  }
+  if (typeof value === 'string' || typeof value === 'number') {
+    return isSecret(field, String(value)) ? REDACTED : value;
+  }
+  return value;
+}
+
+function isSecret(name: string, value: string): boolean {
+  return SECRET_FIELD.test(name.replace(/[-_]/g, '')) || SECRET_VALUE.test(value);
+}
+
+function nullBodyStatus(status: number): boolean {
+  return status === 204 || status === 304 || (status >= 100 && status < 200);
+}
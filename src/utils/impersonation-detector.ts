@@ -0,0 +1,237 @@
+/**
+ * Impersonation Detector
+ *
+ * The blocklist and moderation flags only catch impersonators someone has
+ * already reported. This compares every candidate's slug, name and creator
+ * with the skills it could be passing itself off as:
+ *
+ * - official skills, and skills with high traction in the same run
+ * - protected brands (anthropic, openclaw, clawhub, claude) and their owners
+ *
+ * Three kinds of lookalike:
+ *
+ * - homoglyph: identical once confusable characters are folded — Cyrillic
+ *   "а" for "a", "0" for "o", "rn" for "m"
+ * - typosquat: within a small edit distance (1 from five characters, 2 from ten)
+ * - name-squat: a brand next to an official-sounding word ("claude-official",
+ *   "anthropic-support"), or "anthropic" anywhere in someone else's slug
+ *
+ * Only disguises and claims are high confidence. Plenty of honest skills
+ * mention a brand ("anthropic-sdk-examples") or sit one edit from an official
+ * one ("pdf-tool" next to "pdf-tools"), so those are low: flagged, not dropped.
+ *
+ * A candidate is only compared with targets that stand higher than itself
+ * (official, or more traction), so of two lookalikes the lesser one is the
+ * suspect, and never with its own creator's skills.
+ */
+
+export type ImpersonationKind = 'homoglyph' | 'typosquat' | 'name-squat';
+
+/** drop: drop high-confidence suspects, flag the rest. strict: drop all. flag: keep all, flagged */
+export type ImpersonationMode = 'drop' | 'strict' | 'flag' | 'off';
+
+export const IMPERSONATION_MODES: ImpersonationMode[] = ['drop', 'strict', 'flag', 'off'];
+
+export interface ImpersonationSuspicion {
+  kind: ImpersonationKind;
+  field: 'slug' | 'name' | 'creator';
+  value: string;               // The candidate's slug, name or creator
+  target: string;              // What it looks like
+  distance?: number;           // Edit distance, for typosquats
+  confidence: 'high' | 'low';  // High: homoglyphs, and brands next to a claim word
+}
+
+export interface ImpersonationSubject {
+  skillId: string;
+  skillName: string;
+  creator?: string;
+  downloads?: number;
+  stars?: number;
+  trustSignals?: { official?: boolean };
+}
+
+export interface ImpersonationTarget {
+  names: string[];             // Slug and name, lowercase and dashed
+  creator?: string;            // Lowercase
+  official: boolean;
+  standing: number;            // Official: Infinity, else downloads or stars
+}
+
+// Candidates with this much traction are worth impersonating
+export const HIGH_TRACTION = 1000;
+
+interface ProtectedBrand {
+  brand: string;
+  owners: string[];
+  strict: boolean;             // Any use by another creator is suspect; else only with a claim word
+}
+
+const PROTECTED_BRANDS: ProtectedBrand[] = [
+  { brand: 'anthropic', owners: ['anthropic', 'anthropics'], strict: true },
+  { brand: 'openclaw', owners: ['openclaw'], strict: false },
+  { brand: 'clawhub', owners: ['openclaw', 'clawhub'], strict: false },
+  { brand: 'claude', owners: ['anthropic', 'anthropics'], strict: false },
+];
+
+// Words that claim to be the real thing
+const CLAIM_WORDS = new Set(['official', 'verified', 'real', 'original', 'team', 'support', 'admin', 'security', 'labs', 'inc']);
+
+// Confusable characters, folded after NFKD removes accents
+const CONFUSABLES: Record<string, string> = {
+  // Cyrillic
+  'а': 'a', 'в': 'b', 'е': 'e', 'ё': 'e', 'к': 'k', 'м': 'm', 'н': 'h', 'о': 'o', 'р': 'p', 'с': 'c', 'т': 't',
+  'у': 'y', 'х': 'x', 'ѕ': 's', 'і': 'i', 'ј': 'j', 'ԁ': 'd', 'ɡ': 'g', 'ԛ': 'q', 'ԝ': 'w',
+  // Greek
+  'α': 'a', 'β': 'b', 'ε': 'e', 'η': 'n', 'ι': 'i', 'κ': 'k', 'ν': 'v', 'ο': 'o', 'ρ': 'p', 'τ': 't', 'υ': 'u', 'χ': 'x',
+  // Digits and look-alike Latin
+  '0': 'o', '1': 'l', '3': 'e', '4': 'a', '5': 's', '7': 't', '$': 's', '@': 'a', 'ı': 'i', 'ł': 'l', 'ø': 'o',
+};
+
+/**
+ * Targets worth impersonating among the run's candidates
+ */
+export function impersonationTargets(candidates: ImpersonationSubject[]): ImpersonationTarget[] {
+  return candidates
+    .filter(candidate => candidate.trustSignals?.official || standingOf(candidate) >= HIGH_TRACTION)
+    .map(candidate => ({
+      names: namesOf(candidate),
+      creator: candidate.creator?.toLowerCase(),
+      official: !!candidate.trustSignals?.official,
+      standing: standingOf(candidate),
+    }));
+}
+
+/**
+ * Every way a candidate looks like a protected brand or a higher-standing target
+ */
+export function detectImpersonation(subject: ImpersonationSubject, targets: ImpersonationTarget[]): ImpersonationSuspicion[] {
+  const suspicions: ImpersonationSuspicion[] = [];
+  const creator = subject.creator?.toLowerCase();
+  const standing = standingOf(subject);
+
+  // Protected brands in the slug or name, and lookalike creators of their owners
+  for (const { brand, owners, strict } of PROTECTED_BRANDS) {
+    if (creator && owners.includes(creator)) continue;
+    for (const [field, value] of subjectNames(subject)) {
+      const tokens = value.split('-');
+      const claim = tokens.some(token => CLAIM_WORDS.has(token));
+      const lookalike = tokens.find(token => isLookalike(token, brand) && (strict || foldConfusables(token) === brand));
+      if (lookalike) {
+        const suspicion = lookalikeOf(lookalike, brand);
+        suspicions.push({ ...suspicion, field, value, confidence: suspicion.kind === 'homoglyph' || claim ? 'high' : 'low' });
+      } else if (tokens.includes(brand) && (strict || claim)) {
+        suspicions.push({ kind: 'name-squat', field, value, target: brand, confidence: claim ? 'high' : 'low' });
+      }
+    }
+    if (creator) {
+      const owner = owners.find(o => isLookalike(creator, o));
+      if (owner) suspicions.push({ ...lookalikeOf(creator, owner), field: 'creator', value: subject.creator!, confidence: 'high' });
+    }
+  }
+
+  // Official and high-traction skills that stand higher than this one
+  for (const target of targets) {
+    if (target.standing <= standing || (creator && target.creator === creator)) continue;
+
+    for (const [field, value] of subjectNames(subject)) {
+      const name = target.names.find(n => isLookalike(value, n));
+      if (name) suspicions.push(confident({ ...lookalikeOf(value, name), field, value }));
+    }
+    if (creator && target.creator && isLookalike(creator, target.creator)) {
+      suspicions.push(confident({ ...lookalikeOf(creator, target.creator), field: 'creator', value: subject.creator! }));
+    }
+  }
+
+  // One record per field and target
+  const seen = new Set<string>();
+  return suspicions.filter(s => {
+    const key = `${s.field}:${s.target}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Lowercase, accents removed and confusables folded: "Аnthr0pic" → "anthropic"
+ * ("0" and "o" fold alike, so real digits compare equal on both sides)
+ */
+export function foldConfusables(value: string): string {
+  return Array.from(value.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase())
+    .map(char => CONFUSABLES[char] ?? char)
+    .join('')
+    .replace(/rn/g, 'm')
+    .replace(/vv/g, 'w');
+}
+
+/**
+ * Optimal string alignment distance: insertions, deletions, substitutions and
+ * adjacent transpositions each cost 1
+ */
+export function editDistance(a: string, b: string): number {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, (_, i) => Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)));
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+// ─── Internal helpers ────────────────────────────────────────────────────
+
+function standingOf(candidate: ImpersonationSubject): number {
+  if (candidate.trustSignals?.official) return Infinity;
+  return Math.max(candidate.downloads ?? 0, candidate.stars ?? 0);
+}
+
+/**
+ * The slug (when the skillId is one, not a URL) and the name, before ASCII
+ * normalization drops the characters homoglyphs hide in
+ */
+function subjectNames(subject: ImpersonationSubject): ['slug' | 'name', string][] {
+  const names: ['slug' | 'name', string][] = [];
+  if (!/[:/]/.test(subject.skillId)) names.push(['slug', slugify(subject.skillId)]);
+  const name = slugify(subject.skillName);
+  if (!names.some(([, value]) => value === name)) names.push(['name', name]);
+  return names.filter(([, value]) => value.length > 0);
+}
+
+function namesOf(candidate: ImpersonationSubject): string[] {
+  return Array.from(new Set(subjectNames(candidate).map(([, value]) => value)));
+}
+
+/**
+ * Lowercase words joined by dashes, keeping non-ASCII letters
+ */
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[\s_.]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Disguised characters are deliberate; a one-letter difference, even from an
+ * official skill, may not be ("pdf-tool" is a fine name of its own)
+ */
+function confident(suspicion: Omit<ImpersonationSuspicion, 'confidence'>): ImpersonationSuspicion {
+  return { ...suspicion, confidence: suspicion.kind === 'homoglyph' ? 'high' : 'low' };
+}
+
+/**
+ * Not the same string, but the same once folded or within the edit distance
+ */
+function isLookalike(value: string, target: string): boolean {
+  if (value === target) return false;
+  const allowed = target.length >= 10 ? 2 : target.length >= 5 ? 1 : 0;
+  return editDistance(foldConfusables(value), foldConfusables(target)) <= allowed;
+}
+
+function lookalikeOf(value: string, target: string): Pick<ImpersonationSuspicion, 'kind' | 'target' | 'distance'> {
+  const distance = editDistance(foldConfusables(value), foldConfusables(target));
+  return distance === 0 ? { kind: 'homoglyph', target } : { kind: 'typosquat', target, distance };
+}
@@ -0,0 +1,302 @@
+/**
+ * Keyword Matcher
+ *
+ * One tokenizing matcher for CATEGORY_KEYWORDS and every other category
+ * lookup (analysis, normalizeToCanonical, ClawHub inferCategories,
+ * Claude Code matchSkills, recommendation grouping).
+ *
+ * Matching rules:
+ * - Word boundaries: text and keywords are split into alphanumeric tokens,
+ *   so 'ai' never matches "email" and 'base' never matches "database"
+ * - CJK: Han/Hiragana are one token per character, so CJK keywords match as
+ *   character sequences without word segmentation; Katakana runs are whole words
+ * - Accents are folded, so 'educación' matches "educacion"
+ * - Phrases: multi-word keywords match consecutive tokens
+ *   ('machine learning' matches "machine-learning" and "Machine Learning")
+ * - Stemming: light inflection stripping ('agents' → 'agent', 'learning' → 'learn')
+ *   unless the keyword is marked exact in CATEGORY_KEYWORD_OPTIONS
+ * - Weights: per-keyword weight from CATEGORY_KEYWORD_OPTIONS (default 1)
+ *
+ * On top of that, findKeywordHits weights each hit by the clause it appears in:
+ *
+ * - Negation scope:   "I'm done with crypto" → 0
+ * - Past tense:       "I used to trade NFTs" → ×0.5
+ * - First-person intent: "I'm building a DeFi app" → ×1.5
+ * - Question to the assistant: "what is a DAO?" → ×0.5, only for clauses led
+ *   by an interrogative — "I'm building a DeFi app, any tips?" still counts DeFi
+ *
+ * A negation only reaches forward to the end of its clause, so
+ * "I'm done with crypto, I only care about wellness now" still counts wellness.
+ */
+
+import { CATEGORY_KEYWORDS, CATEGORY_KEYWORD_OPTIONS, KeywordOptions } from '../types/categories';
+
+export type ContextCue = 'negated' | 'past' | 'intent' | 'question';
+
+export interface KeywordHit {
+  keyword: string;
+  clause: string;
+  weight: number;
+  cues: ContextCue[];
+}
+
+export interface KeywordMatch {
+  keyword: string;
+  weight: number;
+  count: number;
+}
+
+interface Token {
+  surface: string;
+  stem: string;
+  start: number; // Char offset in the source text
+}
+
+interface CompiledKeyword {
+  keyword: string;
+  tokens: string[]; // Stems, or surface forms for exact keywords
+  exact: boolean;
+  weight: number;
+}
+
+export const CONTEXT_WEIGHTS: Record<ContextCue, number> = {
+  negated: 0,
+  past: 0.5,
+  intent: 1.5,
+  question: 0.5,
+};
+
+// Negation cues that scope over the rest of their clause
+const NEGATION_CUE = /\b(not|no|never|nor|don't|dont|doesn't|doesnt|didn't|didnt|won't|wont|isn't|isnt|aren't|arent|wasn't|can't|cant|cannot|without|no longer|done with|quit|quitting|stopped|gave up|giving up|tired of|sick of|moved on from|moving away from|over it with)\b/i;
+
+// Past-tense cues anywhere in the clause
+const PAST_CUE = /\b(used to|back when|previously|formerly|in the past|years ago|last year|was into|were into|was obsessed|once was)\b/i;
+
+// First-person intent before the keyword
+const INTENT_CUE = /\b((i'm|im|i am|we're|we are|i've been|we've been)\s+(building|working on|shipping|launching|developing|learning|focused on|focusing on|investing in|creating|writing|designing|running|starting)|i\s+(build|work on|want to|plan to|care about|only care about)|my\s+(project|startup|company|product))\b/i;
+
+// Interrogative leading a clause ("what is…", "can you…", "¿qué…"), or a CJK question word in it
+const INTERROGATIVE_CUE = /^\s*(?:(?:so|and|ok|okay|hey|also|then)\s+)?(?:what|what's|whats|how|why|which|who|whom|whose|where|when|is|are|was|were|can|could|would|should|do|does|did|will|have|has|any|tell me|explain)\b|^\s*¿|什么|怎么|如何|为什么|哪|吗|ですか|何/i;
+
+// Clause boundaries: punctuation (incl. CJK), dashes and contrastive conjunctions
+const CLAUSE_BOUNDARY = /[,;:()，；：、（）]|\s[—–-]\s|\b(?:but|however|though|although|instead|whereas)\b/i;
+
+// ─── Tokenizing & stemming ───────────────────────────────────────────────
+
+/**
+ * Light suffix stripper — only inflections, so stems stay recognisable.
+ * Both keywords and text go through it, so the stems only need to agree.
+ */
+export function stem(word: string): string {
+  if (word.length <= 3 || /\d/.test(word)) return word;
+
+  let w = word;
+
+  // Plurals: strategies → strategy, classes → class, agents → agent
+  if (w.endsWith('ies') && w.length > 4) w = `${w.slice(0, -3)}y`;
+  else if (w.endsWith('sses')) w = w.slice(0, -2);
+  else if (w.endsWith('s') && !/(ss|us|is)$/.test(w)) w = w.slice(0, -1);
+
+  // Verb/agent suffixes: coding → cod, shipped → ship, formatter → format
+  const suffix = [
+    { end: 'ing', minBase: 3 },
+    { end: 'ed', minBase: 4 },
+    { end: 'er', minBase: 4 },
+  ].find(s => w.endsWith(s.end) && w.length - s.end.length >= s.minBase);
+  if (suffix) {
+    w = w.slice(0, -suffix.end.length);
+    if (/([^aeiou])\1$/.test(w) && !/(ll|ss|zz)$/.test(w)) w = w.slice(0, -1);
+    return w;
+  }
+
+  // Silent e, so "code"/"coding" and "collaborate"/"collaborating" agree
+  if (w.endsWith('e') && w.length > 3) w = w.slice(0, -1);
+
+  return w;
+}
+
+// Han and Hiragana: one token per character (no spaces to segment on).
+// Katakana runs: one token, so 'コード' doesn't match inside 'レコード'.
+// Everything else: letter/digit runs, with accents folded.
+const TOKEN_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}]|[\p{Script=Katakana}ー]+|(?:(?![\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}ー])[\p{L}\p{M}\p{N}])+/gu;
+
+function fold(word: string): string {
+  return /[^\x00-\x7f]/.test(word) ? word.normalize('NFD').replace(/\p{M}/gu, '').normalize('NFC') : word;
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  const lower = text.toLowerCase();
+  for (const match of lower.matchAll(TOKEN_PATTERN)) {
+    const surface = fold(match[0]);
+    tokens.push({ surface, stem: stem(surface), start: match.index! });
+  }
+  return tokens;
+}
+
+/**
+ * Stemmed tokens of a text, in order — for comparing texts rather than matching keywords
+ */
+export function stemTokens(text: string): string[] {
+  return tokenize(text).map(t => t.stem);
+}
+
+/**
+ * Surface form with only a plural 's' removed — used for exact keywords
+ */
+function singular(word: string): string {
+  return word.length > 3 && word.endsWith('s') && !/(ss|us|is)$/.test(word) ? word.slice(0, -1) : word;
+}
+
+const compiledCache = new Map<string, CompiledKeyword>();
+
+function compile(keyword: string, options?: KeywordOptions): CompiledKeyword {
+  const resolved = options ?? CATEGORY_KEYWORD_OPTIONS[keyword.toLowerCase()] ?? {};
+  const cacheKey = `${keyword}\u0000${resolved.exact ? 1 : 0}\u0000${resolved.weight ?? 1}`;
+  const cached = compiledCache.get(cacheKey);
+  if (cached) return cached;
+
+  const exact = resolved.exact === true;
+  const tokens = tokenize(keyword).map(t => exact ? singular(t.surface) : t.stem);
+  const compiled = { keyword, tokens, exact, weight: resolved.weight ?? 1 };
+  compiledCache.set(cacheKey, compiled);
+  return compiled;
+}
+
+/**
+ * Token indexes where a compiled keyword starts
+ */
+function findPhrase(tokens: Token[], compiled: CompiledKeyword): number[] {
+  const starts: number[] = [];
+  const length = compiled.tokens.length;
+  if (length === 0) return starts;
+
+  for (let i = 0; i + length <= tokens.length; i++) {
+    let matched = true;
+    for (let j = 0; j < length; j++) {
+      const token = tokens[i + j];
+      const form = compiled.exact ? singular(token.surface) : token.stem;
+      if (form !== compiled.tokens[j]) {
+        matched = false;
+        break;
+      }
+    }
+    if (matched) starts.push(i);
+  }
+  return starts;
+}
+
+// ─── Plain matching ──────────────────────────────────────────────────────
+
+/**
+ * Keywords that occur in the text, with occurrence counts and weights
+ */
+export function matchKeywords(text: string, keywords: string[]): KeywordMatch[] {
+  const tokens = tokenize(text);
+  const matches: KeywordMatch[] = [];
+  for (const keyword of keywords) {
+    const compiled = compile(keyword);
+    const count = findPhrase(tokens, compiled).length;
+    if (count > 0) matches.push({ keyword, weight: compiled.weight, count });
+  }
+  return matches;
+}
+
+/**
+ * Whether the text contains the phrase on word boundaries (stemmed)
+ */
+export function containsPhrase(text: string, phrase: string): boolean {
+  return findPhrase(tokenize(text), compile(phrase, {})).length > 0;
+}
+
+/**
+ * Weighted score per category: sum of keyword weight × occurrences.
+ * With `distinct`, each keyword counts once regardless of repetitions.
+ */
+export function scoreCategories(
+  text: string,
+  categoryKeywords: Record<string, string[]> = CATEGORY_KEYWORDS,
+  distinct = false,
+): Record<string, number> {
+  const scores: Record<string, number> = {};
+  for (const [category, keywords] of Object.entries(categoryKeywords)) {
+    scores[category] = matchKeywords(text, keywords)
+      .reduce((sum, m) => sum + m.weight * (distinct ? 1 : m.count), 0);
+  }
+  return scores;
+}
+
+/**
+ * Categories with any keyword match, strongest first
+ */
+export function matchCategories(
+  text: string,
+  categoryKeywords: Record<string, string[]> = CATEGORY_KEYWORDS,
+): string[] {
+  return Object.entries(scoreCategories(text, categoryKeywords))
+    .filter(([, score]) => score > 0)
+    .sort(([, a], [, b]) => b - a)
+    .map(([category]) => category);
+}
+
+// ─── Context-aware matching ──────────────────────────────────────────────
+
+/**
+ * Split text into sentences, keeping the terminal punctuation so questions can be detected
+ */
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|(?<=[。！？])|\n+/)
+    .map(s => s.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Find every keyword occurrence in text, weighted by keyword weight and clause context
+ */
+export function findKeywordHits(text: string, keywords: string[]): KeywordHit[] {
+  const hits: KeywordHit[] = [];
+  const compiled = keywords.map(k => compile(k));
+
+  for (const sentence of splitSentences(text)) {
+    const isQuestion = /[?？]$/.test(sentence);
+
+    for (const clause of sentence.split(CLAUSE_BOUNDARY)) {
+      if (!clause || !clause.trim()) continue;
+      const lowerClause = clause.toLowerCase();
+      const tokens = tokenize(clause);
+
+      for (const keyword of compiled) {
+        for (const index of findPhrase(tokens, keyword)) {
+          const before = lowerClause.slice(0, tokens[index].start);
+          const cues: ContextCue[] = [];
+
+          if (NEGATION_CUE.test(before)) cues.push('negated');
+          if (PAST_CUE.test(lowerClause)) cues.push('past');
+          if (INTENT_CUE.test(before)) cues.push('intent');
+          if (isQuestion && INTERROGATIVE_CUE.test(clause)) cues.push('question');
+
+          const weight = cues.reduce((w, cue) => w * CONTEXT_WEIGHTS[cue], keyword.weight);
+          hits.push({ keyword: keyword.keyword, clause: clause.trim(), weight, cues });
+        }
+      }
+    }
+  }
+
+  return hits;
+}
+
+/**
+ * Context-weighted hit total per category
+ */
+export function scoreCategoriesInContext(
+  text: string,
+  categoryKeywords: Record<string, string[]> = CATEGORY_KEYWORDS,
+): Record<string, { score: number; hits: KeywordHit[] }> {
+  const result: Record<string, { score: number; hits: KeywordHit[] }> = {};
+  for (const [category, keywords] of Object.entries(categoryKeywords)) {
+    const hits = findKeywordHits(text, keywords);
+    result[category] = { score: hits.reduce((sum, h) => sum + h.weight, 0), hits };
+  }
+  return result;
+}
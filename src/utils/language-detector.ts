@@ -0,0 +1,114 @@
+/**
+ * Language Detector
+ *
+ * Lightweight script + stopword heuristics for the languages we ship keyword
+ * packs for (see types/category-locales). No model, no dependencies — good
+ * enough to pick keyword packs and to honour a user's language preference.
+ *
+ * - Kana present → Japanese (Japanese text mixes kana with kanji)
+ * - Han without kana → Chinese
+ * - Latin → Spanish vs English by stopword and accent counts
+ * - Other scripts (Cyrillic, Hangul, Arabic, ...) → 'other'
+ * - Too little text to tell → 'unknown'
+ */
+
+import { Language, categoryKeywordsFor, isSupportedLanguage } from '../types/category-locales';
+
+export type DetectedLanguage = Language | 'other' | 'unknown';
+
+// Minimum letters before we commit to an answer
+const MIN_LETTERS = 8;
+
+// Share of letters in a script for it to decide the language
+const CJK_SHARE = 0.3;
+const OTHER_SCRIPT_SHARE = 0.3;
+
+// Share of a conversation's messages a language needs to count as "spoken"
+const CONVERSATION_LANGUAGE_SHARE = 0.2;
+
+const ENGLISH_STOPWORDS = new Set([
+  'the', 'and', 'of', 'to', 'in', 'for', 'with', 'is', 'are', 'on', 'your', 'you',
+  'that', 'this', 'it', 'from', 'an', 'be', 'or', 'can', 'how', 'what', 'my', 'i',
+]);
+
+const SPANISH_STOPWORDS = new Set([
+  'el', 'la', 'los', 'las', 'de', 'del', 'que', 'y', 'para', 'con', 'por', 'una',
+  'un', 'es', 'su', 'sus', 'al', 'lo', 'como', 'pero', 'mi', 'muy', 'tu', 'yo', 'esta', 'este',
+]);
+
+/**
+ * Detect the dominant language of a piece of text
+ */
+export function detectLanguage(text: string): DetectedLanguage {
+  if (!text) return 'unknown';
+
+  let kana = 0;
+  let han = 0;
+  let latin = 0;
+  let other = 0;
+  let accents = 0;
+
+  for (const char of text) {
+    if (/[\p{Script=Hiragana}\p{Script=Katakana}]/u.test(char)) kana++;
+    else if (/\p{Script=Han}/u.test(char)) han++;
+    else if (/\p{Script=Latin}/u.test(char)) {
+      latin++;
+      if (/[ñáéíóúü¿¡]/i.test(char)) accents++;
+    } else if (/\p{L}/u.test(char)) other++;
+    else if (/[¿¡]/.test(char)) accents++;
+  }
+
+  const letters = kana + han + latin + other;
+  const cjk = kana + han;
+  if (letters === 0) return 'unknown';
+
+  // CJK characters carry a word each, so a few of them are already meaningful
+  if (cjk / letters >= CJK_SHARE && cjk >= 2) {
+    return kana > 0 && kana / cjk >= 0.1 ? 'ja' : 'zh';
+  }
+  if (other / letters >= OTHER_SCRIPT_SHARE) return 'other';
+  if (latin < MIN_LETTERS) return 'unknown';
+
+  let english = 0;
+  let spanish = 0;
+  for (const word of text.toLowerCase().match(/\p{L}+/gu) || []) {
+    if (ENGLISH_STOPWORDS.has(word)) english++;
+    if (SPANISH_STOPWORDS.has(word)) spanish++;
+  }
+  spanish += accents;
+
+  return spanish >= 2 && spanish > english ? 'es' : 'en';
+}
+
+/**
+ * Languages a conversation is held in: every supported language used in at
+ * least CONVERSATION_LANGUAGE_SHARE of the messages, most used first.
+ * Always non-empty — falls back to English.
+ */
+export function detectConversationLanguages(messages: string[]): Language[] {
+  const counts = new Map<Language, number>();
+  let detected = 0;
+
+  for (const message of messages) {
+    const language = detectLanguage(message);
+    if (!isSupportedLanguage(language)) continue;
+    counts.set(language, (counts.get(language) || 0) + 1);
+    detected++;
+  }
+
+  const languages = [...counts.entries()]
+    .filter(([, count]) => count / detected >= CONVERSATION_LANGUAGE_SHARE)
+    .sort(([, a], [, b]) => b - a)
+    .map(([language]) => language);
+
+  return languages.length > 0 ? languages : ['en'];
+}
+
+/**
+ * Category keywords for a piece of text: English plus the pack for its detected
+ * language (see categoryKeywordsFor for maxDepth)
+ */
+export function categoryKeywordsForText(text: string, maxDepth = 0): Record<string, string[]> {
+  const language = detectLanguage(text);
+  return categoryKeywordsFor(isSupportedLanguage(language) ? [language] : [], maxDepth);
+}
@@ -0,0 +1,145 @@
+/**
+ * Rank Fusion
+ *
+ * Merges per-source rankings into one order. Source scores live on different
+ * scales (ClawHub similarity, awesome-list keyword hits, GitHub stars), so
+ * fusion never compares them directly:
+ *
+ * - rrf:        reciprocal rank fusion — Σ weight / (k + rank) over the
+ *               sources that returned the item. Only ranks matter.
+ * - calibrated: each source's scores are standardized within the run and
+ *               squashed to 0–1 (logistic of the z-score), then summed by weight.
+ *
+ * Items found by several sources (same key) collect credit from each. Ties
+ * are broken by key, so the same input always fuses to the same order.
+ */
+
+export type FusionMethod = 'rrf' | 'calibrated';
+
+export const FUSION_METHODS: FusionMethod[] = ['rrf', 'calibrated'];
+
+export interface FusionInput<T> {
+  source: string;
+  key: string;     // Identity across sources (e.g. normalized URL)
+  score: number;   // On the source's own scale; only compared within the source
+  item: T;
+}
+
+export interface SourceRank {
+  source: string;
+  rank: number;    // 1-based, within the source
+  score: number;
+}
+
+export interface FusedItem<T> {
+  key: string;
+  item: T;         // The source item with the highest score
+  fusedScore: number;
+  fusedRank: number;
+  ranks: SourceRank[];
+}
+
+export interface FusionOptions {
+  method?: FusionMethod;
+  weights?: Record<string, number>; // Per source, default 1
+  k?: number;                        // RRF damping constant
+}
+
+const DEFAULT_RRF_K = 60;
+
+/**
+ * Fuse per-source candidates into one ranking, best first
+ */
+export function fuseRankings<T>(inputs: FusionInput<T>[], options: FusionOptions = {}): FusedItem<T>[] {
+  const method = options.method ?? 'rrf';
+  const k = options.k ?? DEFAULT_RRF_K;
+
+  // Rank within each source; an item listed twice by one source keeps its best rank
+  const bySource = new Map<string, FusionInput<T>[]>();
+  for (const input of inputs) {
+    bySource.set(input.source, [...(bySource.get(input.source) ?? []), input]);
+  }
+
+  const fused = new Map<string, FusedItem<T> & { best: number }>();
+  for (const [source, list] of bySource) {
+    const weight = options.weights?.[source] ?? 1;
+    const ranked = [...list].sort((a, b) => b.score - a.score || compareKeys(a.key, b.key));
+    const calibrate = calibrator(ranked.map(r => r.score));
+    const seen = new Set<string>();
+
+    ranked.forEach((input, index) => {
+      if (seen.has(input.key)) return;
+      seen.add(input.key);
+
+      const rank = index + 1;
+      const contribution = method === 'rrf' ? weight / (k + rank) : weight * calibrate(input.score);
+      const entry = fused.get(input.key);
+      if (!entry) {
+        fused.set(input.key, {
+          key: input.key,
+          item: input.item,
+          fusedScore: contribution,
+          fusedRank: 0,
+          ranks: [{ source, rank, score: input.score }],
+          best: input.score,
+        });
+        return;
+      }
+      entry.fusedScore += contribution;
+      entry.ranks.push({ source, rank, score: input.score });
+      if (input.score > entry.best) {
+        entry.item = input.item;
+        entry.best = input.score;
+      }
+    });
+  }
+
+  return Array.from(fused.values())
+    .sort((a, b) => b.fusedScore - a.fusedScore || compareKeys(a.key, b.key))
+    .map(({ best, ...entry }, index) => ({ ...entry, fusedRank: index + 1 }));
+}
+
+/**
+ * Table of every item's rank in each source next to its fused rank
+ */
+export function formatFusionDiagnostic<T>(
+  fused: FusedItem<T>[],
+  label: (item: T) => string = () => '',
+): string {
+  const sources = Array.from(new Set(fused.flatMap(f => f.ranks.map(r => r.source)))).sort();
+  const header = ['fused', 'score', ...sources, 'item'];
+  const rows = fused.map(f => [
+    `#${f.fusedRank}`,
+    f.fusedScore.toFixed(4),
+    ...sources.map(source => {
+      const rank = f.ranks.find(r => r.source === source);
+      return rank ? `#${rank.rank} (${round(rank.score)})` : '–';
+    }),
+    label(f.item) || f.key,
+  ]);
+
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map(row => row[i].length)));
+  const line = (cells: string[]) => cells.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd();
+  return [line(header), ...rows.map(line)].join('\n');
+}
+
+// ─── Internal helpers ────────────────────────────────────────────────────
+
+/**
+ * Logistic of the z-score within one source's scores. A source that gives
+ * everything the same score puts every item at 0.5.
+ */
+function calibrator(scores: number[]): (score: number) => number {
+  const mean = scores.reduce((sum, s) => sum + s, 0) / (scores.length || 1);
+  const variance = scores.reduce((sum, s) => sum + (s - mean) ** 2, 0) / (scores.length || 1);
+  const std = Math.sqrt(variance);
+  return score => (std === 0 ? 0.5 : 1 / (1 + Math.exp(-(score - mean) / std)));
+}
+
+function compareKeys(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function round(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(1);
+}
@@ -0,0 +1,148 @@
+/**
+ * Recommendation Reasons
+ *
+ * Why a skill was recommended, as data rather than a sentence: which of the
+ * user's interests matched and in which fields, which personality keywords
+ * fired, the traction behind it, and which USER.md or feedback weights moved
+ * its score. Sources fill in what they know; the pipeline adds traction after
+ * merging duplicates and the weights it applied.
+ *
+ * renderReason() turns an explanation into the short line shown on a card
+ * ("Because you're into Design — 1.2k downloads", or "Exploring Crypto — …" for
+ * an exploration slot); describeExplanation() gives one line per piece of
+ * evidence for a "why this?" panel.
+ */
+
+/** Skill fields an interest can match in */
+export type MatchField = 'name' | 'description' | 'categories' | 'tags' | 'topics';
+
+export interface InterestMatch {
+  interest: string;       // User category or sub-interest, e.g. "Crypto › DeFi"
+  fields: MatchField[];   // Where in the skill it matched
+}
+
+export interface ScoreAdjustment {
+  origin: 'feedback' | 'user-md' | 'repo-health';
+  category: string;       // Skill category; for repo-health, 'archived' or 'abandoned'
+  weight: number;         // Feedback, repo-health: score multiplier. USER.md: blend weight of its signals
+}
+
+export interface RecommendationExplanation {
+  interests: InterestMatch[];
+  personality?: {
+    type: string;         // e.g. "The Optimizer"
+    keywords: string[];   // Personality keywords found in the skill
+  };
+  traction: {
+    downloads?: number;
+    stars?: number;
+    lists?: string[];     // Awesome-lists that include it ("owner/repo")
+  };
+  installed?: {
+    usage: 'never-used' | 'unused';
+    days: number;         // "unused" means not used for at least this many days
+  };
+  adjustments: ScoreAdjustment[];
+  exploring?: {
+    category: string;     // Category arm the exploration slot went to
+    source?: string;
+    policy: string;       // 'thompson' | 'ucb'
+  };
+}
+
+/**
+ * Short human reason, e.g. "Because you're into Design — 1.2k downloads"
+ */
+export function renderReason(explanation: RecommendationExplanation): string {
+  const [interest] = explanation.interests;
+  const typeName = explanation.personality?.type.replace(/^The /, '');
+  const styled = !!typeName && (explanation.personality?.keywords.length ?? 0) > 0;
+
+  if (explanation.exploring) {
+    const traction = formatTraction(explanation.traction);
+    return `Exploring ${explanation.exploring.category} — ${traction ?? 'a pick from outside your top matches'}`;
+  }
+
+  if (explanation.installed) {
+    const usage = explanation.installed.usage === 'never-used'
+      ? 'not used yet'
+      : `unused for ${explanation.installed.days}+ days`;
+    return interest
+      ? `Already installed, ${usage} — fits your interest in ${interest.interest}`
+      : `Already installed, ${usage}`;
+  }
+
+  const head = interest
+    ? `Because you're into ${interest.interest}`
+    : styled
+      ? `Fits your ${typeName} style`
+      : typeName
+        ? `Fits your ${typeName} profile`
+        : 'Popular in your area of interest';
+
+  const traction = formatTraction(explanation.traction);
+  if (traction) return `${head} — ${traction}`;
+  if (interest && styled) return `${head} — fits your ${typeName} style`;
+  return head;
+}
+
+/**
+ * One line per piece of evidence, for a "why this?" panel
+ */
+export function describeExplanation(explanation: RecommendationExplanation): string[] {
+  const lines: string[] = [];
+
+  for (const match of explanation.interests) {
+    lines.push(`Matches your interest in ${match.interest}` +
+      (match.fields.length > 0 ? ` (in its ${match.fields.join(', ')})` : ''));
+  }
+  if (explanation.personality?.keywords.length) {
+    lines.push(`${explanation.personality.type} keywords: ${explanation.personality.keywords.join(', ')}`);
+  }
+
+  const { downloads, stars, lists } = explanation.traction;
+  if (downloads !== undefined) lines.push(`${compactNumber(downloads)} downloads`);
+  if (stars !== undefined) lines.push(`${compactNumber(stars)} stars on GitHub`);
+  if (lists?.length) lines.push(`Listed in ${lists.join(', ')}`);
+
+  if (explanation.installed) {
+    lines.push(explanation.installed.usage === 'never-used'
+      ? 'Installed, not used yet'
+      : `Installed, unused for ${explanation.installed.days}+ days`);
+  }
+
+  for (const adjustment of explanation.adjustments) {
+    if (adjustment.origin === 'repo-health') {
+      lines.push(`Its repo is ${adjustment.category === 'archived' ? 'archived' : 'abandoned (no pushes in two years)'}: score ×${adjustment.weight.toFixed(2)}`);
+      continue;
+    }
+    lines.push(adjustment.origin === 'feedback'
+      ? `Your feedback on ${adjustment.category} ${adjustment.weight > 1 ? 'raised' : 'lowered'} its score ×${adjustment.weight.toFixed(2)}`
+      : `${adjustment.category} comes from your USER.md (weight ${adjustment.weight.toFixed(2)})`);
+  }
+
+  if (explanation.exploring) {
+    const { category, source, policy } = explanation.exploring;
+    lines.push(`Exploration slot: ${category}${source ? ` from ${source}` : ''}, picked by ${policy === 'ucb' ? 'upper confidence bound' : 'Thompson sampling'} over your feedback`);
+  }
+
+  return lines;
+}
+
+/**
+ * "1.2k" above a thousand, the plain number below
+ */
+export function compactNumber(value: number): string {
+  return value >= 1000 ? `${(value / 1000).toFixed(1)}k` : `${value}`;
+}
+
+// ─── Internal helpers ────────────────────────────────────────────────────
+
+function formatTraction(traction: RecommendationExplanation['traction']): string | null {
+  if (traction.downloads !== undefined) return `${compactNumber(traction.downloads)} downloads`;
+  if (traction.stars !== undefined) return `${compactNumber(traction.stars)} stars on GitHub`;
+  if (traction.lists?.length) {
+    return `on ${traction.lists.length} awesome-list${traction.lists.length === 1 ? '' : 's'}`;
+  }
+  return null;
+}
@@ -0,0 +1,138 @@
+/**
+ * Skill Diagnostics
+ *
+ * "Why isn't X showing?" Given the recommendations and the rejection records
+ * of a debug run (refreshRecommendations with `debug: true`), find one skill
+ * by slug or URL and say what happened to it: recommended, merged into
+ * another card, dropped at a gate, or never returned by any source.
+ *
+ * Slugs match loosely ("pdf-tools", "PDF Tools", "pdf-tools-skill"); URLs
+ * match by canonical skill key, so a GitHub tree URL finds the ClawHub card
+ * for the same skill.
+ */
+
+import type { SkillRecommendation } from '../recommendation-pipeline';
+import type { SkillRejection } from '../recommendation-sources';
+import { describeExplanation } from './recommendation-reasons';
+import { canonicalSkillKey, normalizeSlug } from './skill-identity';
+import { formatTrust } from './trust-score';
+
+export interface SkillDiagnosis {
+  query: string;
+  recommendation?: SkillRecommendation; // The card it is on, if any
+  rank?: number;                        // 1-based position among all recommendations
+  mergedFrom?: string[];                // Sources whose entry was merged into that card
+  rejections: SkillRejection[];         // Every gate that dropped it
+}
+
+/**
+ * What happened to one skill in a debug run
+ */
+export function diagnoseSkill(
+  query: string,
+  recommendations: SkillRecommendation[],
+  rejections: SkillRejection[],
+): SkillDiagnosis {
+  const wanted = queryIdentifiers(query);
+  const matches = (candidate: SkillHandle) => identifiers(candidate).some(id => wanted.includes(id));
+
+  const index = recommendations.findIndex(rec =>
+    matches(rec) || (rec.provenance ?? []).some(p => matches({ ...p, creator: rec.creator })));
+  const recommendation = index >= 0 ? recommendations[index] : undefined;
+  const mergedFrom = recommendation?.provenance
+    ?.filter(p => matches({ ...p, creator: recommendation.creator }))
+    .map(p => p.source);
+
+  return {
+    query,
+    recommendation,
+    rank: recommendation ? index + 1 : undefined,
+    mergedFrom: mergedFrom?.length ? mergedFrom : undefined,
+    rejections: rejections.filter(matches),
+  };
+}
+
+/**
+ * Human-readable lines for a diagnosis
+ */
+export function formatDiagnosis(diagnosis: SkillDiagnosis): string[] {
+  const lines: string[] = [];
+  const { recommendation, rejections } = diagnosis;
+
+  if (recommendation) {
+    const group = recommendation.exploring
+      ? ' (exploration slot)'
+      : recommendation.categoryGroup ? ` in ${recommendation.categoryGroup}` : '';
+    lines.push(`✅ Recommended #${diagnosis.rank}${group}: ${recommendation.skillName} (${recommendation.matchScore}% match)`);
+    if (recommendation.reason) lines.push(`   💡 ${recommendation.reason}`);
+    for (const line of recommendation.explanation ? describeExplanation(recommendation.explanation) : []) {
+      lines.push(`   • ${line}`);
+    }
+    if (recommendation.trust) lines.push(`   🛡️ ${formatTrust(recommendation.trust)}`);
+    for (const suspicion of recommendation.impersonation ?? []) {
+      lines.push(`   🎭 Possible impersonation: ${suspicion.field} "${suspicion.value}" looks like "${suspicion.target}" (${suspicion.kind})`);
+    }
+    if ((recommendation.provenance?.length ?? 0) > 1) {
+      lines.push(`   🔗 Found by ${recommendation.provenance!.map(p => p.source).join(', ')}`);
+    }
+  }
+
+  for (const rejection of rejections) {
+    lines.push(`🚫 ${formatRejection(rejection)}`);
+    const values = Object.entries(rejection.values ?? {}).map(([key, value]) => `${key}=${value}`);
+    if (values.length > 0) lines.push(`   ${values.join(' ')}`);
+  }
+
+  if (!recommendation && rejections.length === 0) {
+    lines.push(`❓ No source returned "${diagnosis.query}" for these interests — it never reached a gate.`);
+    lines.push('   Check the slug or URL, or try other categories or --sources.');
+  }
+  return lines;
+}
+
+/**
+ * One line per rejection: "[clawhub] pdf-tools — min-downloads: 12 downloads < 20"
+ */
+export function formatRejection(rejection: SkillRejection): string {
+  return `[${rejection.source}] ${rejection.skillName ?? rejection.skillId} — ${rejection.gate}: ${rejection.detail}`;
+}
+
+/**
+ * Rejection counts per gate, most common first: "min-downloads 4, language 2"
+ */
+export function summarizeRejections(rejections: SkillRejection[]): string {
+  const counts = new Map<string, number>();
+  for (const { gate } of rejections) counts.set(gate, (counts.get(gate) ?? 0) + 1);
+  return Array.from(counts.entries())
+    .sort(([gateA, a], [gateB, b]) => b - a || gateA.localeCompare(gateB))
+    .map(([gate, count]) => `${gate} ${count}`)
+    .join(', ');
+}
+
+// ─── Internal helpers ────────────────────────────────────────────────────
+
+type SkillHandle = { skillId: string; url?: string; creator?: string };
+
+function queryIdentifiers(query: string): string[] {
+  const trimmed = query.trim();
+  return /^https?:\/\//i.test(trimmed)
+    ? [canonicalSkillKey({ url: trimmed })]
+    : [`slug:${normalizeSlug(trimmed)}`];
+}
+
+/**
+ * Canonical keys (with and without the creator) and slugs a skill answers to
+ */
+function identifiers(candidate: SkillHandle): string[] {
+  const ids: string[] = [];
+  if (candidate.url) {
+    ids.push(canonicalSkillKey({ url: candidate.url }), canonicalSkillKey({ url: candidate.url, creator: candidate.creator }));
+    ids.push(`slug:${normalizeSlug(lastSegment(candidate.url))}`);
+  }
+  ids.push(`slug:${normalizeSlug(lastSegment(candidate.skillId))}`);
+  return ids;
+}
+
+function lastSegment(value: string): string {
+  return value.replace(/[?#].*$/, '').replace(/\/(skill|readme)\.md$/i, '').replace(/\/+$/, '').split(/[/:]/).pop() ?? value;
+}
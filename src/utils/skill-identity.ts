@@ -0,0 +1,259 @@
+/**
+ * Skill Identity
+ *
+ * Works out when two recommendations are the same skill. Sources link to
+ * skills in different ways — an awesome-list links the GitHub tree, ClawHub
+ * links `clawhub.ai/skills/{slug}`, a GitHub search links the repo — so a
+ * lowercase URL compare leaves the same skill on two cards.
+ *
+ * Each candidate gets a canonical key, strongest evidence first:
+ *
+ * 1. GitHub location: `github:{owner}/{repo}/{path}` from tree/blob/raw URLs.
+ *    ClawHub skills live in the openclaw/skills monorepo, so a ClawHub URL
+ *    plus its creator maps to `github:openclaw/skills/skills/{creator}/{slug}`.
+ * 2. ClawHub slug (`clawhub:{slug}`) when the creator is unknown
+ * 3. The normalized URL
+ *
+ * Candidates with different keys are still merged when their normalized
+ * slugs agree, or their names agree and descriptions overlap, unless both
+ * name a creator and the creators differ.
+ */
+
+import { stemTokens } from './keyword-matcher';
+
+export interface IdentityCandidate {
+  skillId: string;
+  skillName: string;
+  description: string;
+  url: string;
+  creator?: string;
+}
+
+export interface MergeableCandidate extends IdentityCandidate {
+  matchScore: number;
+  stars?: number;
+  downloads?: number;
+  lists?: string[];
+  installed?: boolean;
+  canonicalId?: string;
+  provenance?: SkillProvenance[];
+}
+
+/** Where one merged recommendation was found */
+export interface SkillProvenance {
+  source: string;       // Registry name: 'clawhub', 'claude-code', ...
+  skillId: string;
+  url: string;
+  matchScore: number;
+  stars?: number;
+  downloads?: number;
+  lists?: string[];
+}
+
+// Same slug: descriptions need only share a little to be the same skill
+const SLUG_MATCH_SIMILARITY = 0.2;
+// Same name under a different slug: descriptions must overlap properly
+const NAME_MATCH_SIMILARITY = 0.35;
+// Different names: only near-identical descriptions count
+const DESCRIPTION_MATCH_SIMILARITY = 0.8;
+
+const CLAWHUB_MONOREPO = 'openclaw/skills';
+const SKILL_FILE = /\/(skill|readme)\.md$/i;
+const SLUG_AFFIXES = /^(claude|openclaw|skill)-|-(skill|skills|claude)$/g;
+
+/**
+ * Strong identity from the URL (and creator, for ClawHub)
+ */
+export function canonicalSkillKey(candidate: Pick<IdentityCandidate, 'url' | 'creator'>): string {
+  const github = parseGitHubLocation(candidate.url);
+  if (github) return `github:${github}`;
+
+  const clawhub = parseClawHubUrl(candidate.url);
+  if (clawhub) {
+    const owner = clawhub.owner ?? candidate.creator;
+    return owner
+      ? `github:${CLAWHUB_MONOREPO}/skills/${owner.toLowerCase()}/${clawhub.slug}`
+      : `clawhub:${clawhub.slug}`;
+  }
+
+  return `url:${normalizeUrl(candidate.url)}`;
+}
+
+/**
+ * Normalized slug: "Claude PDF Tools", "pdf-tools-skill" and "PDF_Tools" → "pdf-tools"
+ */
+export function normalizeSlug(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .replace(SLUG_AFFIXES, '');
+}
+
+/**
+ * Canonical key per candidate; candidates that are the same skill share one.
+ * The shared key is the alphabetically first GitHub key in the group, else
+ * the first key — the same input always yields the same keys.
+ */
+export function resolveSkillIdentities<T extends IdentityCandidate>(candidates: T[]): Map<T, string> {
+  const info = candidates.map(candidate => ({
+    key: canonicalSkillKey(candidate),
+    slug: candidateSlug(candidate),
+    name: normalizeSlug(candidate.skillName),
+    tokens: tokenSet(`${candidate.skillName} ${candidate.description}`),
+    creator: candidate.creator?.toLowerCase(),
+  }));
+
+  // Union-find over candidate indexes; each group remembers its creator so
+  // two creators are never bridged through a candidate that names neither
+  const parent = candidates.map((_, i) => i);
+  const creators = info.map(entry => entry.creator);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const union = (a: number, b: number) => {
+    const [rootA, rootB] = [find(a), find(b)];
+    if (rootA === rootB) return;
+    parent[rootA] = rootB;
+    creators[rootB] = creators[rootB] ?? creators[rootA];
+  };
+
+  for (let i = 0; i < info.length; i++) {
+    for (let j = i + 1; j < info.length; j++) {
+      const a = info[i];
+      const b = info[j];
+      if (a.key === b.key) {
+        union(i, j);
+        continue;
+      }
+      const [creatorA, creatorB] = [creators[find(i)], creators[find(j)]];
+      if (creatorA && creatorB && creatorA !== creatorB) continue;
+
+      const similarity = jaccard(a.tokens, b.tokens);
+      const sameSlug = a.slug.length >= 3 && a.slug === b.slug;
+      const sameName = a.name.length >= 3 && a.name === b.name;
+      if ((sameSlug && similarity >= SLUG_MATCH_SIMILARITY) ||
+          (sameName && similarity >= NAME_MATCH_SIMILARITY) ||
+          similarity >= DESCRIPTION_MATCH_SIMILARITY) {
+        union(i, j);
+      }
+    }
+  }
+
+  const groups = new Map<number, string[]>();
+  info.forEach((entry, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) ?? []), entry.key]);
+  });
+
+  const identities = new Map<T, string>();
+  candidates.forEach((candidate, i) => {
+    const keys = groups.get(find(i))!;
+    const github = keys.filter(k => k.startsWith('github:')).sort();
+    identities.set(candidate, github[0] ?? [...keys].sort()[0]);
+  });
+  return identities;
+}
+
+/**
+ * One recommendation from a group of duplicates: the primary (best-scoring)
+ * entry, plus provenance from every member and the best traction signals
+ */
+export function mergeDuplicateSkills<T extends MergeableCandidate>(
+  canonicalId: string,
+  primary: T,
+  members: { source: string; item: T }[],
+): T {
+  const provenance: SkillProvenance[] = members.map(({ source, item }) => ({
+    source,
+    skillId: item.skillId,
+    url: item.url,
+    matchScore: item.matchScore,
+    ...(item.stars !== undefined && { stars: item.stars }),
+    ...(item.downloads !== undefined && { downloads: item.downloads }),
+    ...(item.lists?.length && { lists: item.lists }),
+  }));
+
+  const max = (values: (number | undefined)[]) => {
+    const defined = values.filter((v): v is number => v !== undefined);
+    return defined.length > 0 ? Math.max(...defined) : undefined;
+  };
+  const lists = Array.from(new Set(members.flatMap(m => m.item.lists ?? [])));
+
+  const merged: T = {
+    ...primary,
+    canonicalId,
+    provenance,
+    creator: primary.creator ?? members.find(m => m.item.creator)?.item.creator,
+    stars: max(members.map(m => m.item.stars)),
+    downloads: max(members.map(m => m.item.downloads)),
+    lists: lists.length > 0 ? lists : undefined,
+    installed: members.some(m => m.item.installed) || undefined,
+  };
+  for (const key of ['stars', 'downloads', 'lists', 'installed', 'creator'] as const) {
+    if (merged[key] === undefined) delete merged[key];
+  }
+  return merged;
+}
+
+// ─── Internal helpers ────────────────────────────────────────────────────
+
+/**
+ * "owner/repo[/path]" for GitHub repo, tree, blob and raw URLs, lowercase,
+ * with a trailing SKILL.md / README.md dropped
+ */
+function parseGitHubLocation(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  const segments = parsed.pathname.replace(SKILL_FILE, '').split('/').filter(Boolean);
+  if (parsed.hostname === 'github.com' || parsed.hostname === 'www.github.com') {
+    if (segments.length < 2) return null;
+    const [owner, repo, kind, , ...path] = segments;
+    const location = [owner, repo.replace(/\.git$/, '')];
+    if ((kind === 'tree' || kind === 'blob') && path.length > 0) location.push(...path);
+    return location.join('/').toLowerCase();
+  }
+  if (parsed.hostname === 'raw.githubusercontent.com') {
+    if (segments.length < 3) return null;
+    const [owner, repo, , ...path] = segments;
+    return [owner, repo, ...path].join('/').toLowerCase();
+  }
+  return null;
+}
+
+function parseClawHubUrl(url: string): { owner?: string; slug: string } | null {
+  const match = url.match(/^https?:\/\/(?:www\.)?clawhub\.ai\/(?:skills\/)?(?:([^/?#]+)\/)?([^/?#]+)\/?(?:[?#].*)?$/i);
+  if (!match) return null;
+  return { owner: match[1]?.toLowerCase(), slug: match[2].toLowerCase() };
+}
+
+/**
+ * Slug from a GitHub or ClawHub URL's last segment, else the skill id
+ * (minus a "local:"-style prefix), else the name
+ */
+function candidateSlug(candidate: IdentityCandidate): string {
+  const fromUrl = candidate.url.replace(SKILL_FILE, '').replace(/[?#].*$/, '').replace(/\/+$/, '').split('/').pop() ?? '';
+  const known = parseGitHubLocation(candidate.url) !== null || parseClawHubUrl(candidate.url) !== null;
+  const id = known || /^https?:/.test(candidate.skillId) ? fromUrl : candidate.skillId.replace(/^[a-z-]+:(?!\/\/)/, '');
+  return normalizeSlug(id || candidate.skillName);
+}
+
+function normalizeUrl(url: string): string {
+  return url.toLowerCase().replace(/^https?:\/\/(www\.)?/, '').replace(/[?#].*$/, '').replace(/\/+$/, '');
+}
+
+function tokenSet(text: string): Set<string> {
+  return new Set(stemTokens(text).filter(t => t.length > 2));
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  for (const token of a) {
+    if (b.has(token)) shared++;
+  }
+  const union = a.size + b.size - shared;
+  return union > 0 ? shared / union : 0;
+}
@@ -0,0 +1,141 @@
+/**
+ * Skill Lists
+ *
+ * The awesome-lists the claude-code source scans for skills. Each list lives
+ * in one of three places:
+ *
+ * - github: a repo's README (or another file via `path`), optionally pinned
+ *   to a branch, tag or commit with `ref`
+ * - url: any raw https:// document
+ * - url: a local file:// document, e.g. a team's internal curated list
+ *
+ * Lists are markdown (see parsers/awesome-list-parser) or JSON, and each has
+ * a trust level:
+ *
+ * - official: published by the platform vendor; counts as an official listing
+ * - trusted: vetted by you or your team; raises trust
+ * - community: no change
+ * - untrusted: scanned, but lowers trust
+ *
+ * Default lists live in default-skill-lists.json; set BLOOM_SKILL_LISTS_PATH
+ * to a JSON/YAML file to add lists (same id overrides the given fields),
+ * disable one with `enabled: false`, or drop all defaults with
+ * `defaults: false`.
+ */
+
+import defaultLists from '../types/default-skill-lists.json';
+import type { AwesomeListAdapter } from '../parsers/awesome-list-parser';
+import { loadSkillListsConfig, validateSkillListsConfig } from '../parsers/skill-lists-parser';
+
+export type SkillListTrust = 'official' | 'trusted' | 'community' | 'untrusted';
+export type SkillListFormat = 'markdown' | 'json';
+
+/** Most trusted first */
+export const SKILL_LIST_TRUST_LEVELS: SkillListTrust[] = ['official', 'trusted', 'community', 'untrusted'];
+export const SKILL_LIST_FORMATS: SkillListFormat[] = ['markdown', 'json'];
+
+export interface SkillListAdapterConfig {
+  titleDepth?: number;         // Headings this deep or shallower title the list (default 1)
+  skipSections?: string;       // Regex for headings whose sections hold no skills
+  requireDescription?: boolean; // Default true
+  linkPattern?: string;        // Regex entry URLs must match
+}
+
+export interface SkillListConfig {
+  id: string;                  // Shown as the list name; "owner/repo" for the defaults
+  github?: string;             // "owner/repo"
+  ref?: string;                // Branch, tag or commit (default: the repo's default branch)
+  path?: string;               // File in the repo (default: its README)
+  url?: string;                // http(s):// or file://, instead of github
+  format?: SkillListFormat;    // Default: json for .json files, else markdown
+  trust?: SkillListTrust;      // Default community
+  enabled?: boolean;           // false removes the list
+  adapter?: SkillListAdapterConfig;
+}
+
+export interface SkillListsConfig {
+  version?: 1;
+  defaults?: boolean;          // false drops the default lists (extension files only)
+  lists: SkillListConfig[];
+}
+
+/** An enabled list with its trust level and format settled */
+export type SkillList = SkillListConfig & { trust: SkillListTrust; format: SkillListFormat };
+
+/**
+ * Merge `extra` into `base`: lists with the same id take the extra fields,
+ * others are appended. `defaults: false` starts from no lists. An override
+ * that moves a list (`github` or `url`) replaces its whole location, so a
+ * default GitHub list pointed at a `url` loses its `github`, `ref` and `path`.
+ */
+export function mergeSkillListsConfigs(base: SkillListsConfig, extra: SkillListsConfig): SkillListsConfig {
+  const lists = extra.defaults === false ? [] : base.lists.map(list => ({ ...list }));
+  for (const list of extra.lists) {
+    const index = lists.findIndex(l => l.id === list.id);
+    if (index < 0) {
+      lists.push(list);
+      continue;
+    }
+    const existing = { ...lists[index] };
+    if (list.github !== undefined || list.url !== undefined) {
+      delete existing.github;
+      delete existing.url;
+      delete existing.ref;
+      delete existing.path;
+    }
+    lists[index] = { ...existing, ...list };
+  }
+  return { version: 1, lists };
+}
+
+/**
+ * The parser adapter for a list's adapter settings
+ */
+export function toAwesomeListAdapter(config: SkillListAdapterConfig = {}): AwesomeListAdapter {
+  const linkPattern = config.linkPattern ? new RegExp(config.linkPattern, 'i') : undefined;
+  return {
+    titleDepth: config.titleDepth,
+    skipSections: config.skipSections ? new RegExp(config.skipSections, 'i') : undefined,
+    requireDescription: config.requireDescription,
+    acceptLink: linkPattern && (url => linkPattern.test(url)),
+  };
+}
+
+/**
+ * The more trusted of two levels
+ */
+export function higherListTrust(a: SkillListTrust, b: SkillListTrust): SkillListTrust {
+  return SKILL_LIST_TRUST_LEVELS.indexOf(a) <= SKILL_LIST_TRUST_LEVELS.indexOf(b) ? a : b;
+}
+
+let cached: { path: string | undefined; lists: SkillList[] } | null = null;
+
+/**
+ * The enabled skill lists (defaults, extended by BLOOM_SKILL_LISTS_PATH if set)
+ */
+export function getSkillLists(): SkillList[] {
+  const overridePath = process.env.BLOOM_SKILL_LISTS_PATH || undefined;
+  if (cached && cached.path === overridePath) return cached.lists;
+
+  let config = defaultLists as SkillListsConfig;
+  if (overridePath) {
+    config = mergeSkillListsConfigs(config, loadSkillListsConfig(overridePath));
+    console.log(`📋 Loaded skill lists from ${overridePath}`);
+  }
+
+  // Lists named by id alone must have picked up a source from the defaults
+  const errors = validateSkillListsConfig(config);
+  if (errors.length > 0) {
+    throw new Error(`Invalid skill lists${overridePath ? ` after merging ${overridePath}` : ''}:\n  - ${errors.join('\n  - ')}`);
+  }
+
+  const lists = config.lists
+    .filter(list => list.enabled !== false)
+    .map((list): SkillList => ({
+      ...list,
+      trust: list.trust ?? 'community',
+      format: list.format ?? (/\.json$/i.test(list.path ?? list.url ?? '') ? 'json' : 'markdown'),
+    }));
+  cached = { path: overridePath, lists };
+  return lists;
+}
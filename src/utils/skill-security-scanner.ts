@@ -0,0 +1,185 @@
+/**
+ * Skill Security Scanner
+ *
+ * Static scan of a skill's SKILL.md and bundled scripts for patterns that
+ * have no business in a skill we recommend:
+ *
+ * - Piping a download into a shell (curl ... | sh)
+ * - Recursive force deletes (rm -rf), worst on / or the home directory
+ * - Reads of SSH keys or wallet keystores
+ * - Decoding base64 and executing the result
+ * - Requests to known exfiltration endpoints (webhook catchers, paste sites, raw IPs)
+ *
+ * Pure and synchronous — fetching the files is the caller's job. Nothing is
+ * executed; a finding means "a human should look", not "proven malicious".
+ */
+
+export type RiskLevel = 'none' | 'low' | 'medium' | 'high';
+
+export interface SkillFile {
+  path: string;
+  content: string;
+}
+
+export interface RiskFinding {
+  ruleId: string;
+  level: Exclude<RiskLevel, 'none'>;
+  description: string;
+  file: string;
+  line: number;
+  excerpt: string;
+}
+
+export interface SkillRiskReport {
+  level: RiskLevel;          // Highest finding level
+  findings: RiskFinding[];
+  scannedFiles: string[];
+  skippedFiles: string[];    // Listed but not scanned (too large, binary, fetch failed)
+}
+
+interface ScanRule {
+  id: string;
+  level: Exclude<RiskLevel, 'none'>;
+  description: string;
+  pattern: RegExp;
+}
+
+const SCAN_RULES: ScanRule[] = [
+  {
+    id: 'pipe-to-shell',
+    level: 'high',
+    description: 'Pipes a download straight into a shell',
+    pattern: /\b(curl|wget)\b[^\n|]*\|\s*(sudo\s+)?(ba|z|da)?sh\b/i,
+  },
+  {
+    id: 'rm-rf-home',
+    level: 'high',
+    description: 'Recursively deletes the root or home directory',
+    pattern: /\brm\s+(-[a-z]*r[a-z]*f|-[a-z]*f[a-z]*r|-r\s+-f|-f\s+-r)[a-z]*\s+["']?(\/|~|\$HOME|\$\{HOME\})\/?\*?["']?(\s|$)/im,
+  },
+  {
+    id: 'rm-rf',
+    level: 'medium',
+    description: 'Recursive force delete',
+    pattern: /\brm\s+(-[a-z]*r[a-z]*f|-[a-z]*f[a-z]*r|-r\s+-f|-f\s+-r)\b/i,
+  },
+  {
+    id: 'ssh-keys',
+    level: 'high',
+    description: 'Reads SSH keys',
+    pattern: /(~|\$HOME|\$\{HOME\}|homedir\(\)[^\n]*)\/?\.ssh\b|['"]\.ssh['"]|\.ssh\/(id_(rsa|dsa|ecdsa|ed25519)|authorized_keys|known_hosts)/i,
+  },
+  {
+    id: 'wallet-keystore',
+    level: 'high',
+    description: 'Reads wallet keystores or key files',
+    pattern: /\.ethereum\/keystore|\bkeystore\/UTC--|wallet\.dat\b|\.config\/solana\/id\.json|\.electrum\/wallets|Application Support\/(Exodus|MetaMask|Phantom)|Local Extension Settings\/nkbihfbeogaeaoehlefnkodbefgpgknn/i,
+  },
+  {
+    id: 'base64-exec',
+    level: 'high',
+    description: 'Decodes base64 and executes it',
+    pattern: /base64\s+(-d|--decode|-D)\b[^\n]*\|\s*(ba|z)?sh\b|\b(eval|exec)\b[^\n]*(atob\(|b64decode|base64\s+(-d|--decode)|Buffer\.from\([^)]*['"]base64['"])|new Function\([^)]*atob\(/i,
+  },
+  {
+    id: 'exfiltration-url',
+    level: 'high',
+    description: 'Sends data to a known exfiltration endpoint',
+    pattern: /\b(webhook\.site|requestbin\.(com|net)|pipedream\.net|[a-z0-9-]+\.ngrok(-free)?\.(io|app)|discord(app)?\.com\/api\/webhooks|api\.telegram\.org\/bot|pastebin\.com\/api|transfer\.sh|oast\.(fun|pro|live|site)|interact\.sh|burpcollaborator\.net)\b/i,
+  },
+  {
+    id: 'raw-ip-url',
+    level: 'medium',
+    description: 'Talks to a raw IP address',
+    pattern: /\bhttps?:\/\/(?!127\.0\.0\.1|0\.0\.0\.0|localhost)\d{1,3}(\.\d{1,3}){3}\b/i,
+  },
+  {
+    id: 'sudo',
+    level: 'low',
+    description: 'Runs commands with sudo',
+    pattern: /(^|[\s;&|`$(])sudo\s+\S/m,
+  },
+  {
+    id: 'chmod-777',
+    level: 'low',
+    description: 'Makes files world-writable',
+    pattern: /\bchmod\s+(-R\s+)?0?777\b/i,
+  },
+];
+
+// A high-severity rule already covers its milder counterpart on the same line
+const SUPERSEDES: Record<string, string> = { 'rm-rf-home': 'rm-rf' };
+
+const LEVEL_ORDER: Record<RiskLevel, number> = { none: 0, low: 1, medium: 2, high: 3 };
+
+/**
+ * Scan skill files line by line, with shell `\` continuations joined so a
+ * one-liner split across lines is matched whole (findings keep the line it
+ * starts on). `skippedFiles` is passed through to the report.
+ */
+export function scanSkillFiles(files: SkillFile[], skippedFiles: string[] = []): SkillRiskReport {
+  const findings: RiskFinding[] = [];
+
+  for (const file of files) {
+    for (const { line, index } of logicalLines(file.content)) {
+      const hits = SCAN_RULES.filter(rule => rule.pattern.test(line));
+      const superseded = new Set(hits.map(h => SUPERSEDES[h.id]).filter(Boolean));
+
+      for (const rule of hits) {
+        if (superseded.has(rule.id)) continue;
+        findings.push({
+          ruleId: rule.id,
+          level: rule.level,
+          description: rule.description,
+          file: file.path,
+          line: index + 1,
+          excerpt: line.trim().slice(0, 120),
+        });
+      }
+    }
+  }
+
+  const level = findings.reduce<RiskLevel>(
+    (worst, f) => LEVEL_ORDER[f.level] > LEVEL_ORDER[worst] ? f.level : worst,
+    'none',
+  );
+
+  return { level, findings, scannedFiles: files.map(f => f.path), skippedFiles };
+}
+
+/**
+ * Short label for output, e.g. "⚠️ Medium risk: Recursive force delete" (undefined when clean)
+ */
+export function riskLabel(report: SkillRiskReport | undefined): string | undefined {
+  if (!report || report.level === 'none') return undefined;
+
+  const icon = report.level === 'high' ? '⛔' : report.level === 'medium' ? '⚠️' : 'ℹ️';
+  const level = report.level.charAt(0).toUpperCase() + report.level.slice(1);
+  const descriptions = Array.from(new Set(
+    report.findings.filter(f => f.level === report.level).map(f => f.description),
+  ));
+  return `${icon} ${level} risk: ${descriptions.join('; ')}`;
+}
+
+// ─── Internal helpers ────────────────────────────────────────────────────
+
+/**
+ * Lines with `\`-newline continuations joined, each with the index of its first physical line
+ */
+function logicalLines(content: string): { line: string; index: number }[] {
+  const result: { line: string; index: number }[] = [];
+  let pending: { line: string; index: number } | null = null;
+
+  content.split('\n').forEach((raw, index) => {
+    const text = raw.replace(/\r$/, '');
+    const continues = /\\$/.test(text);
+    const part = continues ? text.slice(0, -1) : text;
+    pending = pending ? { line: `${pending.line} ${part.trimStart()}`, index: pending.index } : { line: part, index };
+    if (!continues) {
+      result.push(pending);
+      pending = null;
+    }
+  });
+  if (pending) result.push(pending);
+  return result;
+}
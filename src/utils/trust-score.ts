@@ -0,0 +1,187 @@
+/**
+ * Trust Score
+ *
+ * One 0–100 score per recommendation from every provenance signal the
+ * sources see, instead of each being its own pass/fail gate:
+ *
+ * - registry: ClawHub moderation flags, GitHub cross-check, official listing,
+ *   the trust level of the skill lists it appears on
+ * - traction: downloads, ClawHub stars, GitHub stars
+ * - code: static security scan level, license
+ * - repo: age, last-commit recency, archived
+ * - creator history: the creator's other skills ClawHub flagged, in this
+ *   search or earlier ones (creator-history.ts)
+ * - impersonation: a suspected lookalike of another skill, creator or brand
+ *
+ * Every factor is kept with its points, so a card can say why it scored what
+ * it did. Signals nobody reported add nothing either way: an unknown license
+ * is not a missing one. License and the repo factors come from GitHub repo
+ * metadata, so ClawHub-only skills (no GitHub repo of their own) never get
+ * them; their score rests on the registry, traction and scan signals.
+ *
+ * How many skills a creator has earns nothing; only their flagged ones count.
+ */
+
+import { compactNumber } from './recommendation-reasons';
+import type { RiskLevel } from './skill-security-scanner';
+import { type SkillListTrust, higherListTrust } from './skill-lists';
+
+export interface TrustSignals {
+  moderation?: {
+    isSuspicious: boolean;
+    isMalwareBlocked: boolean;
+  };
+  verifiedOnGitHub?: boolean;  // ClawHub entry found in the openclaw/skills mirror
+  official?: boolean;          // Listed in an official Claude Code repository
+  listTrust?: SkillListTrust;  // Most trusted skill list that includes it
+  downloads?: number;
+  registryStars?: number;      // ClawHub stars
+  stars?: number;              // GitHub stargazers
+  riskLevel?: RiskLevel;       // Static scan of SKILL.md + scripts
+  license?: string | null;     // SPDX id; null when checked and there is none
+  repoCreatedAt?: string;      // ISO
+  lastCommitAt?: string;       // ISO
+  archived?: boolean;          // Repo is archived (read-only) on GitHub
+  creatorFlagged?: number;     // Other skills by the same creator ClawHub flagged or blocked, in this search or earlier ones
+  impersonates?: string;       // Suspected lookalike of this skill, creator or brand
+}
+
+export interface TrustFactor {
+  signal: string;              // e.g. 'downloads', 'license'
+  points: number;              // Contribution to the score, may be negative
+  detail: string;              // e.g. "1.2k downloads"
+}
+
+export interface TrustScore {
+  score: number;               // 0–100
+  factors: TrustFactor[];      // Base first, then every signal that moved it
+}
+
+// Unknown skills start here; signals move them up or down
+const BASE_TRUST = 40;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Score and breakdown from a skill's trust signals
+ */
+export function computeTrustScore(signals: TrustSignals, now = Date.now()): TrustScore {
+  const factors: TrustFactor[] = [{ signal: 'base', points: BASE_TRUST, detail: 'starting score' }];
+  const add = (signal: string, points: number, detail: string) => {
+    if (points !== 0) factors.push({ signal, points, detail });
+  };
+
+  // Registry
+  if (signals.moderation?.isMalwareBlocked) {
+    return { score: 0, factors: [{ signal: 'moderation', points: -100, detail: 'blocked as malware' }] };
+  }
+  if (signals.moderation?.isSuspicious) add('moderation', -25, 'flagged suspicious by ClawHub');
+  if (signals.official) add('official', 25, 'listed in an official repository');
+  if (signals.listTrust === 'trusted') add('list-trust', 15, 'listed on a trusted list');
+  if (signals.listTrust === 'untrusted') add('list-trust', -10, 'listed only on an untrusted list');
+  if (signals.verifiedOnGitHub) add('github-verified', 10, 'published in the openclaw/skills mirror');
+
+  // Traction, log-scaled: 10 → 5, 100 → 10, 1k → 15, 10k+ → 20
+  if (signals.downloads !== undefined) {
+    add('downloads', logPoints(signals.downloads, 20), `${compactNumber(signals.downloads)} downloads`);
+  }
+  if (signals.registryStars) add('registry-stars', logPoints(signals.registryStars, 10), `${compactNumber(signals.registryStars)} ClawHub stars`);
+  if (signals.stars !== undefined) add('stars', logPoints(signals.stars, 15), `${compactNumber(signals.stars)} GitHub stars`);
+
+  // Code
+  if (signals.riskLevel === 'none' || signals.riskLevel === 'low') add('security-scan', 10, `security scan: ${signals.riskLevel} risk`);
+  if (signals.riskLevel === 'medium') add('security-scan', -10, 'security scan: medium risk');
+  if (signals.riskLevel === 'high') add('security-scan', -40, 'security scan: high risk');
+  if (signals.license) add('license', 5, `${signals.license} license`);
+  if (signals.license === null) add('license', -5, 'no license');
+
+  // Repo
+  const ageDays = daysSince(signals.repoCreatedAt, now);
+  if (ageDays !== undefined) {
+    add('repo-age', ageDays >= 365 ? 10 : ageDays >= 90 ? 5 : ageDays < 30 ? -5 : 0, `repo ${describeDays(ageDays)} old`);
+  }
+  const idleDays = daysSince(signals.lastCommitAt, now);
+  if (idleDays !== undefined) {
+    add('last-commit', idleDays <= 90 ? 10 : idleDays <= 365 ? 5 : idleDays > 730 ? -10 : 0, `last commit ${describeDays(idleDays)} ago`);
+  }
+  if (signals.archived) add('archived', -20, 'repo archived');
+
+  // Impersonation
+  if (signals.impersonates) add('impersonation', -30, `looks like ${signals.impersonates}`);
+
+  // Creator flags
+  if (signals.creatorFlagged) {
+    add('creator-flags', -15, `creator has ${signals.creatorFlagged} other flagged skill${signals.creatorFlagged === 1 ? '' : 's'}`);
+  }
+
+  const total = factors.reduce((sum, factor) => sum + factor.points, 0);
+  return { score: Math.max(0, Math.min(100, Math.round(total))), factors };
+}
+
+/**
+ * One skill's signals from every source that found it: the strongest
+ * traction, the worst flags and scan, the oldest repo and the latest commit
+ */
+export function mergeTrustSignals(all: (TrustSignals | undefined)[]): TrustSignals | undefined {
+  const signals = all.filter((s): s is TrustSignals => !!s);
+  if (signals.length <= 1) return signals[0];
+
+  const max = (values: (number | undefined)[]) => {
+    const defined = values.filter((v): v is number => v !== undefined);
+    return defined.length > 0 ? Math.max(...defined) : undefined;
+  };
+  const dates = (values: (string | undefined)[]) => values.filter((v): v is string => !!v).sort();
+  const moderation = signals.filter(s => s.moderation).map(s => s.moderation!);
+  const risks = signals.map(s => s.riskLevel).filter((r): r is RiskLevel => !!r);
+  const licensed = signals.find(s => s.license)?.license ?? (signals.some(s => s.license === null) ? null : undefined);
+
+  const merged: TrustSignals = {
+    moderation: moderation.length > 0 ? {
+      isSuspicious: moderation.some(m => m.isSuspicious),
+      isMalwareBlocked: moderation.some(m => m.isMalwareBlocked),
+    } : undefined,
+    verifiedOnGitHub: signals.some(s => s.verifiedOnGitHub) || undefined,
+    official: signals.some(s => s.official) || undefined,
+    listTrust: signals.map(s => s.listTrust).reduce<SkillListTrust | undefined>((a, b) => (a && b ? higherListTrust(a, b) : a ?? b), undefined),
+    downloads: max(signals.map(s => s.downloads)),
+    registryStars: max(signals.map(s => s.registryStars)),
+    stars: max(signals.map(s => s.stars)),
+    riskLevel: risks.sort((a, b) => RISK_ORDER.indexOf(b) - RISK_ORDER.indexOf(a))[0],
+    license: licensed,
+    repoCreatedAt: dates(signals.map(s => s.repoCreatedAt))[0],
+    lastCommitAt: dates(signals.map(s => s.lastCommitAt)).at(-1),
+    archived: signals.some(s => s.archived) || undefined,
+  };
+  for (const key of Object.keys(merged) as (keyof TrustSignals)[]) {
+    if (merged[key] === undefined) delete merged[key];
+  }
+  return merged;
+}
+
+/**
+ * "Trust 72/100: official +25, 1.2k downloads +15, …"
+ */
+export function formatTrust(trust: TrustScore): string {
+  const parts = trust.factors
+    .filter(factor => factor.signal !== 'base')
+    .map(factor => `${factor.detail} ${factor.points > 0 ? '+' : ''}${factor.points}`);
+  return `Trust ${trust.score}/100${parts.length > 0 ? `: ${parts.join(', ')}` : ''}`;
+}
+
+// ─── Internal helpers ────────────────────────────────────────────────────
+
+const RISK_ORDER: RiskLevel[] = ['none', 'low', 'medium', 'high'];
+
+function logPoints(value: number, cap: number): number {
+  return Math.round(Math.min(Math.log10(Math.max(value, 0) + 1) * 5, cap));
+}
+
+function daysSince(iso: string | undefined, now: number): number | undefined {
+  const time = iso ? Date.parse(iso) : NaN;
+  return Number.isNaN(time) ? undefined : Math.max(0, Math.floor((now - time) / DAY_MS));
+}
+
+function describeDays(days: number): string {
+  if (days >= 730) return `${Math.floor(days / 365)} years`;
+  if (days >= 60) return `${Math.floor(days / 30)} months`;
+  return `${days} day${days === 1 ? '' : 's'}`;
+}